@@ -0,0 +1,163 @@
+import type { Feature, GeoJsonProperties } from 'geojson';
+import { folderProperty } from './formats/kml';
+import { layerProperty } from './layers';
+import { stylePropertyKeys } from './style';
+
+// ===============================
+// Atributos das feições (tabela de atributos)
+// ===============================
+
+/**
+ * Tipos de coluna:
+ * - `string`: texto livre
+ * - `number`: número (aceita vírgula decimal na digitação)
+ * - `date`: data no formato ISO `AAAA-MM-DD` (como o `<input type="date">` grava)
+ * - `enum`: um valor de uma lista fixa (`options`)
+ */
+export type AttributeType = 'string' | 'number' | 'date' | 'enum';
+
+export const attributeTypeLabels: Record<AttributeType, string> = {
+  string: 'Texto',
+  number: 'Número',
+  date: 'Data',
+  enum: 'Lista',
+};
+
+/** Valor de um atributo depois de convertido (null apaga a propriedade) */
+export type AttributeValue = string | number | null;
+
+/**
+ * Coluna definida pelo usuário. `key` é o nome da propriedade gravada na feição.
+ * O conjunto de colunas é o esquema do projeto (obrigatoriedade, valores permitidos e valor padrão)
+ */
+export type AttributeColumn = {
+  key: string;
+  /** Título exibido na tabela (padrão: a própria chave) */
+  label?: string;
+  type: AttributeType;
+  /** Valores permitidos (só para `enum`) */
+  options?: string[];
+  /** Feição sem valor nesta coluna fica pendente (e bloqueia a exportação) */
+  required?: boolean;
+  /** Valor gravado nas feições novas (desenhadas ou adicionadas) */
+  default?: AttributeValue;
+};
+
+/**
+ * Propriedades controladas pelo próprio editor, que não viram colunas:
+ * estilo, camada, pasta do KML e medidas gravadas na exportação
+ */
+export const reservedAttributeKeys: string[] = [
+  ...stylePropertyKeys,
+  layerProperty,
+  folderProperty,
+  'areaM2',
+  'areaHa',
+  'areaAlqueires',
+  'perimeterM',
+  'perimeterKm',
+];
+
+const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Título da coluna para a interface */
+export function attributeLabel(column: AttributeColumn): string {
+  return column.label?.trim() || column.key;
+}
+
+/**
+ * Converte o texto digitado no valor gravado na feição.
+ * Texto vazio apaga o valor; texto inválido para o tipo retorna `{ error }`
+ */
+export function parseAttributeValue(column: AttributeColumn, raw: string): { value: AttributeValue } | { error: string } {
+  const text = raw.trim();
+  if (!text) return { value: null };
+  switch (column.type) {
+    case 'number': {
+      // "1.234,5" e "1234,5" (padrão brasileiro) viram 1234.5
+      const normalized = text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text;
+      const value = Number(normalized);
+      return Number.isFinite(value) ? { value } : { error: `"${text}" não é um número` };
+    }
+    case 'date': {
+      const date = new Date(`${text}T00:00:00Z`);
+      return isoDate.test(text) && !Number.isNaN(date.getTime()) && date.toISOString().startsWith(text)
+        ? { value: text }
+        : { error: `"${text}" não é uma data (AAAA-MM-DD)` };
+    }
+    case 'enum':
+      return column.options?.includes(text) ? { value: text } : { error: `"${text}" não está na lista de ${attributeLabel(column)}` };
+    default:
+      return { value: text };
+  }
+}
+
+/** Texto exibido na célula (datas em DD/MM/AAAA, números com vírgula decimal) */
+export function formatAttributeValue(column: AttributeColumn, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (column.type === 'number' && typeof value === 'number') return value.toLocaleString('pt-BR', { maximumFractionDigits: 6 });
+  if (column.type === 'date' && typeof value === 'string' && isoDate.test(value)) return value.split('-').reverse().join('/');
+  return String(value);
+}
+
+/** Ordem de dois valores da coluna; valores vazios ficam sempre no fim */
+export function compareAttributeValues(column: AttributeColumn, a: unknown, b: unknown): number {
+  const emptyA = a === null || a === undefined || a === '';
+  const emptyB = b === null || b === undefined || b === '';
+  if (emptyA || emptyB) return Number(emptyA) - Number(emptyB);
+  if (column.type === 'number' && typeof a === 'number' && typeof b === 'number') return a - b;
+  // Datas ISO já ordenam como texto
+  return String(a).localeCompare(String(b), 'pt-BR', { numeric: true, sensitivity: 'base' });
+}
+
+/** Tipo provável de uma propriedade a partir dos valores existentes */
+function inferAttributeType(values: unknown[]): AttributeType {
+  const present = values.filter(v => v !== null && v !== undefined && v !== '');
+  if (present.length && present.every(v => typeof v === 'number')) return 'number';
+  if (present.length && present.every(v => typeof v === 'string' && isoDate.test(v))) return 'date';
+  return 'string';
+}
+
+/**
+ * Colunas para as propriedades das feições que ainda não têm coluna (ex.: atributos do DBF ou do GeoJSON importado).
+ * Ignora propriedades reservadas e valores que não são texto/número (objetos, listas)
+ */
+export function inferAttributeColumns(features: Feature[], columns: AttributeColumn[] = []): AttributeColumn[] {
+  const known = new Set([...reservedAttributeKeys, ...columns.map(c => c.key)]);
+  const values = new Map<string, unknown[]>();
+  for (const feature of features) {
+    for (const [key, value] of Object.entries(feature.properties ?? {})) {
+      if (known.has(key) || (value !== null && typeof value === 'object')) continue;
+      values.set(key, [...(values.get(key) ?? []), value]);
+    }
+  }
+  return [...values].map(([key, list]) => ({ key, type: inferAttributeType(list) }));
+}
+
+/** Retorna novas propriedades com os valores aplicados (null apaga a propriedade) */
+export function withAttributes(properties: GeoJsonProperties, values: Record<string, AttributeValue>): GeoJsonProperties {
+  const next: GeoJsonProperties = { ...properties };
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null) delete next[key];
+    else next[key] = value;
+  }
+  return next;
+}
+
+/** Completa as propriedades de uma feição nova com os valores padrão das colunas, sem sobrescrever o que já existe */
+export function withAttributeDefaults(properties: GeoJsonProperties, columns: AttributeColumn[]): GeoJsonProperties {
+  const next: GeoJsonProperties = { ...properties };
+  for (const column of columns) {
+    if (column.default !== undefined && column.default !== null && column.default !== '' && next[column.key] === undefined) next[column.key] = column.default;
+  }
+  return next;
+}
+
+/** Indica se a feição tem algum valor que contém o texto (nas colunas informadas, no texto central e na camada) */
+export function matchesAttributeFilter(feature: Feature, columns: AttributeColumn[], query: string): boolean {
+  const needle = query.trim().toLocaleLowerCase('pt-BR');
+  if (!needle) return true;
+  const props = feature.properties ?? {};
+  const texts = [String(feature.id ?? ''), props.labelText, props[layerProperty], ...columns.map(c => formatAttributeValue(c, props[c.key]))];
+  return texts.some(text => typeof text === 'string' && text.toLocaleLowerCase('pt-BR').includes(needle));
+}
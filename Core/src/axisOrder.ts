@@ -0,0 +1,113 @@
+import type { Geometry, Position } from 'geojson';
+import { getCollectionBBox, type BBox } from './geometry';
+
+// ===============================
+// Detecção de latitude/longitude trocadas
+// ===============================
+
+/** Ordem dos eixos de um par de coordenadas: GeoJSON/Mapbox usam lng,lat; Leaflet usa lat,lng */
+export type AxisOrder = 'lnglat' | 'latlng';
+
+/** Área de referência padrão quando não há desenhos: território brasileiro */
+export const defaultReferenceExtent: BBox = [[-74.1, -33.8], [-34.7, 5.3]];
+
+/** Folga (em graus) em volta da área de referência antes de considerar um dado "longe" */
+export const referenceExtentMargin = 1;
+
+/**
+ * Motivo da suspeita:
+ * - `out-of-range`: latitude fora de -90..90 (ou longitude fora de -180..180), mas válida trocando
+ * - `far-from-extent`: válida, porém longe da área de referência, e trocando cai dentro dela
+ */
+export type SwapReason = 'out-of-range' | 'far-from-extent';
+
+export type SwapSuspicion = {
+  reason: SwapReason;
+  /** Texto para a interface e para o log */
+  message: string;
+};
+
+/** Resultado da verificação de um centro [lng, lat] */
+export type CenterOrderCheck = SwapSuspicion & {
+  /** Centro como recebido [lng, lat] */
+  center: [number, number];
+  /** Centro com os eixos trocados [lng, lat] */
+  swapped: [number, number];
+};
+
+const inRange = (lng: number, lat: number) =>
+  Number.isFinite(lng) && Number.isFinite(lat) && Math.abs(lng) <= 180 && Math.abs(lat) <= 90;
+
+function bboxInRange([[minX, minY], [maxX, maxY]]: BBox) {
+  return inRange(minX, minY) && inRange(maxX, maxY);
+}
+
+function bboxNear([[minX, minY], [maxX, maxY]]: BBox, [[refMinX, refMinY], [refMaxX, refMaxY]]: BBox) {
+  const m = referenceExtentMargin;
+  return minX <= refMaxX + m && maxX >= refMinX - m && minY <= refMaxY + m && maxY >= refMinY - m;
+}
+
+function swapBBox([[minX, minY], [maxX, maxY]]: BBox): BBox {
+  return [[minY, minX], [maxY, maxX]];
+}
+
+function formatBBox([[minX, minY], [maxX, maxY]]: BBox) {
+  return minX === maxX && minY === maxY ? `${minX}, ${minY}` : `${minX}, ${minY} … ${maxX}, ${maxY}`;
+}
+
+/**
+ * Verifica se uma extensão [lng, lat] parece estar com os eixos trocados.
+ * Sem suspeita retorna null; com dados inválidos dos dois jeitos também (não há o que sugerir).
+ */
+export function detectSwappedBBox(bbox: BBox, reference: BBox = defaultReferenceExtent): SwapSuspicion | null {
+  const swapped = swapBBox(bbox);
+  if (!bboxInRange(bbox)) {
+    return bboxInRange(swapped)
+      ? { reason: 'out-of-range', message: `${formatBBox(bbox)} fora de -180..180 / -90..90; trocando latitude e longitude fica válido.` }
+      : null;
+  }
+  if (!bboxNear(bbox, reference) && bboxNear(swapped, reference)) {
+    return { reason: 'far-from-extent', message: `${formatBBox(bbox)} longe da área de referência; trocando latitude e longitude cai dentro dela.` };
+  }
+  return null;
+}
+
+/** Verifica uma geometria inteira (todas as posições juntas) */
+export function detectSwappedGeometry(geometry: Geometry, reference?: BBox): SwapSuspicion | null {
+  const bbox = getCollectionBBox({ type: 'FeatureCollection', features: [{ type: 'Feature', geometry, properties: {} }] });
+  return bbox ? detectSwappedBBox(bbox, reference) : null;
+}
+
+/**
+ * Verifica o centro passado ao mapa. `order` é a ordem em que o centro foi escrito
+ * (Leaflet: lat,lng; Mapbox: lng,lat); a resposta é sempre em [lng, lat].
+ */
+export function checkCenterOrder(center: [number, number], order: AxisOrder, reference?: BBox): CenterOrderCheck | null {
+  const lngLat: [number, number] = order === 'lnglat' ? [center[0], center[1]] : [center[1], center[0]];
+  const suspicion = detectSwappedBBox([lngLat, lngLat], reference);
+  return suspicion ? { ...suspicion, center: lngLat, swapped: [lngLat[1], lngLat[0]] } : null;
+}
+
+/** Troca latitude e longitude de uma posição (mantém a altitude) */
+export function swapPosition([x, y, ...rest]: Position): Position {
+  return [y, x, ...rest];
+}
+
+/** Centro a usar ao criar o mapa, já em [lng, lat], e a suspeita encontrada */
+export type ResolvedCenter = {
+  lngLat: [number, number];
+  check: CenterOrderCheck | null;
+  /** true quando o centro recebido era inválido e os eixos foram trocados automaticamente */
+  autoSwapped: boolean;
+};
+
+/**
+ * Resolve o centro inicial: só troca sozinho quando o recebido é inválido (o mapa não abriria);
+ * quando só está longe da área de referência, mantém e devolve a suspeita para a interface oferecer a troca.
+ */
+export function resolveCenterOrder(center: [number, number], order: AxisOrder, reference?: BBox): ResolvedCenter {
+  const check = checkCenterOrder(center, order, reference);
+  const lngLat: [number, number] = order === 'lnglat' ? [center[0], center[1]] : [center[1], center[0]];
+  if (check?.reason === 'out-of-range') return { lngLat: check.swapped, check, autoSwapped: true };
+  return { lngLat, check, autoSwapped: false };
+}
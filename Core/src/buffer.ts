@@ -0,0 +1,131 @@
+import type { Geometry, Position } from 'geojson';
+import polygonClipping, { type Geom, type Pair } from 'polygon-clipping';
+import { formatLength } from './metrics';
+import type { AreaGeometry } from './overlay';
+import { destinationPoint } from './shapes';
+
+// ===============================
+// Faixa (buffer) em volta de pontos, linhas e polígonos: APP de rios, bordaduras de talhões
+// ===============================
+
+export type BufferOptions = {
+  /** Faixa por dentro da borda do polígono (bordadura); só vale para polígonos */
+  inward?: boolean;
+  /** Lados por quarto de círculo nas curvas (padrão 8, como no PostGIS) */
+  segments?: number;
+};
+
+export const defaultBufferSegments = 8;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+// Rumo inicial (graus a partir do norte) de `a` para `b`, na esfera
+function initialBearing(a: Position, b: Position): number {
+  const lat1 = toRad(a[1]);
+  const lat2 = toRad(b[1]);
+  const dLng = toRad(b[0] - a[0]);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return toDeg(Math.atan2(y, x));
+}
+
+const toPair = (position: Position): Pair => [position[0], position[1]];
+
+// Círculo geodésico em volta do vértice (anel anti-horário)
+function vertexDisc(center: Position, distance: number, steps: number): Pair[][] {
+  const ring: Pair[] = [];
+  for (let i = 0; i < steps; i++) ring.push(toPair(destinationPoint(center, distance, 360 - (i * 360) / steps)));
+  ring.push(ring[0]);
+  return [ring];
+}
+
+// Faixa reta dos dois lados do trecho: cada ponta é deslocada na perpendicular do rumo local
+function segmentBand(a: Position, b: Position, distance: number): Pair[][] | null {
+  if (a[0] === b[0] && a[1] === b[1]) return null;
+  const start = initialBearing(a, b);
+  const end = initialBearing(b, a) + 180;
+  const ring = [
+    destinationPoint(a, distance, start - 90),
+    destinationPoint(a, distance, start + 90),
+    destinationPoint(b, distance, end + 90),
+    destinationPoint(b, distance, end - 90),
+  ].map(toPair);
+  ring.push(ring[0]);
+  return [ring];
+}
+
+// Faixa em volta de uma linha (ou anel): trechos unidos por círculos nos vértices
+function pathPieces(path: Position[], distance: number, steps: number): Geom[] {
+  const pieces: Geom[] = path.map(position => vertexDisc(position, distance, steps));
+  for (let i = 1; i < path.length; i++) {
+    const band = segmentBand(path[i - 1], path[i], distance);
+    if (band) pieces.push(band);
+  }
+  return pieces;
+}
+
+// Pontos, linhas e polígonos de uma geometria
+function geometryParts(geometry: Geometry): { points: Position[]; lines: Position[][]; areas: Position[][][] } {
+  switch (geometry.type) {
+    case 'Point':
+      return { points: [geometry.coordinates], lines: [], areas: [] };
+    case 'MultiPoint':
+      return { points: geometry.coordinates, lines: [], areas: [] };
+    case 'LineString':
+      return { points: [], lines: [geometry.coordinates], areas: [] };
+    case 'MultiLineString':
+      return { points: [], lines: geometry.coordinates, areas: [] };
+    case 'Polygon':
+      return { points: [], lines: [], areas: [geometry.coordinates] };
+    case 'MultiPolygon':
+      return { points: [], lines: [], areas: geometry.coordinates };
+    case 'GeometryCollection': {
+      const parts = geometry.geometries.map(geometryParts);
+      return {
+        points: parts.flatMap(p => p.points),
+        lines: parts.flatMap(p => p.lines),
+        areas: parts.flatMap(p => p.areas),
+      };
+    }
+  }
+}
+
+/**
+ * Faixa de `distanceMeters` em volta da geometria, com distâncias medidas na esfera. Para fora inclui
+ * a própria área dos polígonos; para dentro (`inward`) é a faixa junto à borda, sem o miolo (o polígono
+ * inteiro, se for mais estreito que a faixa). Retorna null sem área (distância não positiva ou bordadura
+ * de algo que não é polígono)
+ */
+export function bufferGeometry(geometry: Geometry, distanceMeters: number, options: BufferOptions = {}): AreaGeometry | null {
+  if (!(distanceMeters > 0)) return null;
+  const steps = 4 * Math.max(1, Math.round(options.segments ?? defaultBufferSegments));
+  const { points, lines, areas } = geometryParts(geometry);
+  const polygons: Geom[] = areas.map(polygon => polygon.map(ring => ring.map(toPair)));
+  const rings = areas.flat();
+
+  let result;
+  if (options.inward) {
+    if (!polygons.length) return null;
+    const [first, ...rest] = polygons;
+    const merged = rest.length ? polygonClipping.union(first, ...rest) : first;
+    const core = polygonClipping.difference(merged, ...rings.flatMap(ring => pathPieces(ring, distanceMeters, steps)));
+    result = core.length ? polygonClipping.difference(merged, core) : polygonClipping.union(merged);
+  } else {
+    const pieces = [
+      ...polygons,
+      ...points.map(point => vertexDisc(point, distanceMeters, steps)),
+      ...[...lines, ...rings].flatMap(line => pathPieces(line, distanceMeters, steps)),
+    ];
+    if (!pieces.length) return null;
+    const [first, ...rest] = pieces;
+    result = polygonClipping.union(first, ...rest);
+  }
+  if (!result.length) return null;
+  return result.length === 1 ? { type: 'Polygon', coordinates: result[0] } : { type: 'MultiPolygon', coordinates: result };
+}
+
+/** Texto do rótulo da faixa: "Faixa de 30 m" ou "Bordadura de 12 m" */
+export function bufferLabel(distanceMeters: number, inward = false): string {
+  return `${inward ? 'Bordadura' : 'Faixa'} de ${formatLength(distanceMeters)}`;
+}
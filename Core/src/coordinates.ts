@@ -0,0 +1,115 @@
+import type { FeatureCollection, Position } from 'geojson';
+import { toUtm, utmZoneForLongitude } from './crs';
+import { getCollectionBBox } from './geometry';
+
+// ===============================
+// Formatação dos rótulos de coordenadas
+// ===============================
+
+/**
+ * Modo de exibição das coordenadas dos vértices:
+ * - `decimal`: graus decimais "lat, lng"
+ * - `dms`: graus, minutos e segundos (15°47'39.1"S 47°52'57.0"W)
+ * - `ddm`: graus e minutos decimais (15°47.652'S 47°52.950'W)
+ * - `utm`: SIRGAS 2000 / UTM (23S 190123E 8251045N)
+ */
+export type CoordinateFormat = 'decimal' | 'dms' | 'ddm' | 'utm';
+
+export type CoordinateFormatOptions = {
+  /** Modo de exibição (padrão: decimal) */
+  format?: CoordinateFormat;
+  /**
+   * Casas decimais da última unidade: graus no decimal (6), segundos no DMS (1),
+   * minutos no DDM (3) e metros no UTM (0)
+   */
+  precision?: number;
+  /** Fuso UTM fixo; sem ele o fuso é detectado pelo centro dos desenhos */
+  utmZone?: number;
+};
+
+/** Casas decimais padrão de cada modo */
+export const defaultCoordinatePrecision: Record<CoordinateFormat, number> = {
+  decimal: 6,
+  dms: 1,
+  ddm: 3,
+  utm: 0,
+};
+
+/** Rótulos dos modos para seletores na interface */
+export const coordinateFormatLabels: Record<CoordinateFormat, string> = {
+  decimal: 'Graus decimais',
+  dms: 'Graus, minutos e segundos',
+  ddm: 'Graus e minutos decimais',
+  utm: 'UTM (SIRGAS 2000)',
+};
+
+/**
+ * Divide um ângulo em graus e minutos (e segundos) já arredondados.
+ * O arredondamento é feito em unidades inteiras para não gerar "60 segundos".
+ */
+function splitAngle(value: number, withSeconds: boolean, precision: number): { degrees: number; minutes: number; seconds: number } {
+  const factor = 10 ** precision;
+  const perDegree = (withSeconds ? 3600 : 60) * factor;
+  const units = Math.round(Math.abs(value) * perDegree);
+  const degrees = Math.floor(units / perDegree);
+  const rest = units - degrees * perDegree;
+  if (!withSeconds) return { degrees, minutes: rest / factor, seconds: 0 };
+  const minutes = Math.floor(rest / (60 * factor));
+  return { degrees, minutes, seconds: (rest - minutes * 60 * factor) / factor };
+}
+
+function formatAngle(value: number, hemispheres: [string, string], withSeconds: boolean, precision: number): string {
+  const { degrees, minutes, seconds } = splitAngle(value, withSeconds, precision);
+  const hemisphere = value < 0 ? hemispheres[1] : hemispheres[0];
+  const pad = (n: number, digits: number) => (digits > 0 ? n.toFixed(digits).padStart(3 + digits, '0') : String(n).padStart(2, '0'));
+  if (withSeconds) return `${degrees}°${String(minutes).padStart(2, '0')}'${pad(seconds, precision)}"${hemisphere}`;
+  return `${degrees}°${pad(minutes, precision)}'${hemisphere}`;
+}
+
+/** Fuso UTM (e hemisfério) usado para uma coleção: o do centro da caixa envolvente */
+export function detectUtmZone(collection: FeatureCollection): { zone: number; south: boolean } | null {
+  const bbox = getCollectionBBox(collection);
+  if (!bbox) return null;
+  const lng = (bbox[0][0] + bbox[1][0]) / 2;
+  const lat = (bbox[0][1] + bbox[1][1]) / 2;
+  return { zone: utmZoneForLongitude(lng), south: lat < 0 };
+}
+
+/**
+ * Texto de um rótulo de vértice [lng, lat] no modo escolhido.
+ * Sem opções mantém o formato original: "lat, lng" com 6 casas decimais.
+ */
+export function formatCoordinateLabel(coord: Position, options: CoordinateFormatOptions = {}): string {
+  const format = options.format ?? 'decimal';
+  const precision = options.precision ?? defaultCoordinatePrecision[format];
+  const [lng, lat] = coord;
+  switch (format) {
+    case 'dms':
+    case 'ddm': {
+      const withSeconds = format === 'dms';
+      return `${formatAngle(lat, ['N', 'S'], withSeconds, precision)} ${formatAngle(lng, ['E', 'W'], withSeconds, precision)}`;
+    }
+    case 'utm': {
+      const zone = options.utmZone ?? utmZoneForLongitude(lng);
+      const south = lat < 0;
+      const [easting, northing] = toUtm(coord, zone, south);
+      return `${zone}${south ? 'S' : 'N'} ${easting.toFixed(precision)}E ${northing.toFixed(precision)}N`;
+    }
+    default:
+      return `${lat.toFixed(precision)}, ${lng.toFixed(precision)}`;
+  }
+}
+
+/**
+ * Cria o formatador usado ao redesenhar os rótulos de uma coleção.
+ * No modo UTM sem fuso fixo, todos os vértices usam o fuso detectado para a coleção
+ * (evita misturar fusos em uma mesma área que cruze a divisa).
+ */
+export function createCoordinateFormatter(collection: FeatureCollection, options: CoordinateFormatOptions = {}): (coord: Position) => string {
+  let resolved = options;
+  if (options.format === 'utm' && options.utmZone === undefined) {
+    const detected = detectUtmZone(collection);
+    if (detected) resolved = { ...options, utmZone: detected.zone };
+  }
+  return coord => formatCoordinateLabel(coord, resolved);
+}
@@ -0,0 +1,201 @@
+import type { Geometry, Position } from 'geojson';
+
+// ===============================
+// Sistemas de coordenadas (SIRGAS 2000 / WGS84 / UTM)
+// ===============================
+//
+// O SIRGAS 2000 e o WGS84 coincidem na prática (diferença centimétrica),
+// então a conversão entre eles é a identidade e só a projeção UTM é calculada.
+
+/** Sistema de coordenadas suportado na importação/exportação */
+export type CrsDefinition = {
+  /** Código EPSG, ex.: "EPSG:31982" */
+  code: string;
+  /** Nome para exibição */
+  name: string;
+  kind: 'geographic' | 'utm';
+  /** Fuso UTM (1-60), só para kind 'utm' */
+  zone?: number;
+  /** Hemisfério sul (falso norte de 10.000 km), só para kind 'utm' */
+  south?: boolean;
+};
+
+export const wgs84: CrsDefinition = { code: 'EPSG:4326', name: 'WGS 84 (geográfico)', kind: 'geographic' };
+export const sirgas2000: CrsDefinition = { code: 'EPSG:4674', name: 'SIRGAS 2000 (geográfico)', kind: 'geographic' };
+
+/** SIRGAS 2000 / UTM no fuso informado (EPSG 31977-31985 no sul, 31965-31976 no norte) */
+export function sirgas2000Utm(zone: number, south = true): CrsDefinition {
+  const epsg = south ? 31960 + zone : 31954 + zone;
+  return { code: `EPSG:${epsg}`, name: `SIRGAS 2000 / UTM ${zone}${south ? 'S' : 'N'}`, kind: 'utm', zone, south };
+}
+
+/** Sistemas oferecidos na interface: geográficos e os fusos UTM que cobrem o Brasil */
+export const supportedCrs: CrsDefinition[] = [
+  sirgas2000,
+  wgs84,
+  ...[18, 19, 20, 21, 22, 23, 24, 25].map(zone => sirgas2000Utm(zone, true)),
+];
+
+/** Busca um sistema pelo código EPSG (inclui qualquer fuso SIRGAS 2000 / UTM) */
+export function getCrs(code: string): CrsDefinition | undefined {
+  const known = supportedCrs.find(crs => crs.code === code);
+  if (known) return known;
+  const epsg = Number(code.replace(/^EPSG:/i, ''));
+  if (epsg >= 31977 && epsg <= 31985) return sirgas2000Utm(epsg - 31960, true);
+  if (epsg >= 31965 && epsg <= 31976) return sirgas2000Utm(epsg - 31954, false);
+  return undefined;
+}
+
+// -------- Transversa de Mercator (elipsoide GRS80, fórmulas de Snyder) --------
+
+const grs80SemiMajor = 6378137;
+const grs80Flattening = 1 / 298.257222101;
+const utmScale = 0.9996;
+const utmFalseEasting = 500000;
+const utmFalseNorthingSouth = 10000000;
+
+const e2 = grs80Flattening * (2 - grs80Flattening);
+const e4 = e2 * e2;
+const e6 = e4 * e2;
+const ep2 = e2 / (1 - e2);
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/** Meridiano central (graus) de um fuso UTM */
+export function utmCentralMeridian(zone: number): number {
+  return zone * 6 - 183;
+}
+
+/** Fuso UTM que contém a longitude */
+export function utmZoneForLongitude(lng: number): number {
+  return Math.min(60, Math.max(1, Math.floor((lng + 180) / 6) + 1));
+}
+
+function meridianArc(phi: number): number {
+  return grs80SemiMajor * (
+    (1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi
+    - ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi)
+    + ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi)
+    - ((35 * e6) / 3072) * Math.sin(6 * phi)
+  );
+}
+
+/** Converte [lng, lat] (graus) para [E, N] (m) no fuso UTM informado */
+export function toUtm(position: Position, zone: number, south = true): Position {
+  const phi = toRad(position[1]);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const n = grs80SemiMajor / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  const t = Math.tan(phi) ** 2;
+  const c = ep2 * cosPhi * cosPhi;
+  const a = toRad(position[0] - utmCentralMeridian(zone)) * cosPhi;
+
+  const x = utmScale * n * (a + ((1 - t + c) * a ** 3) / 6 + ((5 - 18 * t + t * t + 72 * c - 58 * ep2) * a ** 5) / 120);
+  const y = utmScale * (meridianArc(phi) + n * Math.tan(phi) * (
+    (a * a) / 2 + ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 + ((61 - 58 * t + t * t + 600 * c - 330 * ep2) * a ** 6) / 720
+  ));
+  return [x + utmFalseEasting, y + (south ? utmFalseNorthingSouth : 0)];
+}
+
+/** Converte [E, N] (m) do fuso UTM informado para [lng, lat] (graus) */
+export function fromUtm(position: Position, zone: number, south = true): Position {
+  const x = position[0] - utmFalseEasting;
+  const m = (position[1] - (south ? utmFalseNorthingSouth : 0)) / utmScale;
+  const mu = m / (grs80SemiMajor * (1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256));
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const phi1 = mu
+    + ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu)
+    + ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu)
+    + ((151 * e1 ** 3) / 96) * Math.sin(6 * mu)
+    + ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const c1 = ep2 * cosPhi1 * cosPhi1;
+  const t1 = Math.tan(phi1) ** 2;
+  const n1 = grs80SemiMajor / Math.sqrt(1 - e2 * sinPhi1 * sinPhi1);
+  const r1 = (grs80SemiMajor * (1 - e2)) / (1 - e2 * sinPhi1 * sinPhi1) ** 1.5;
+  const d = x / (n1 * utmScale);
+
+  const phi = phi1 - ((n1 * Math.tan(phi1)) / r1) * (
+    (d * d) / 2
+    - ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ep2) * d ** 4) / 24
+    + ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ep2 - 3 * c1 * c1) * d ** 6) / 720
+  );
+  const lambda = (d - ((1 + 2 * t1 + c1) * d ** 3) / 6 + ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ep2 + 24 * t1 * t1) * d ** 5) / 120) / cosPhi1;
+  return [utmCentralMeridian(zone) + toDeg(lambda), toDeg(phi)];
+}
+
+/** Converte uma posição WGS84 [lng, lat] para o sistema informado */
+export function projectPosition(position: Position, crs: CrsDefinition): Position {
+  return crs.kind === 'utm' ? toUtm(position, crs.zone!, crs.south) : [position[0], position[1]];
+}
+
+/** Converte uma posição do sistema informado para WGS84 [lng, lat] */
+export function unprojectPosition(position: Position, crs: CrsDefinition): Position {
+  return crs.kind === 'utm' ? fromUtm(position, crs.zone!, crs.south) : [position[0], position[1]];
+}
+
+/** Aplica uma transformação a todas as posições de uma geometria (retorna uma nova geometria) */
+export function mapGeometryPositions(geometry: Geometry, fn: (position: Position) => Position): Geometry {
+  switch (geometry.type) {
+    case 'Point':
+      return { ...geometry, coordinates: fn(geometry.coordinates) };
+    case 'MultiPoint':
+    case 'LineString':
+      return { ...geometry, coordinates: geometry.coordinates.map(fn) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return { ...geometry, coordinates: geometry.coordinates.map(line => line.map(fn)) };
+    case 'MultiPolygon':
+      return { ...geometry, coordinates: geometry.coordinates.map(rings => rings.map(ring => ring.map(fn))) };
+    case 'GeometryCollection':
+      return { ...geometry, geometries: geometry.geometries.map(g => mapGeometryPositions(g, fn)) };
+  }
+}
+
+// -------- Arquivos .prj (WKT do ESRI) --------
+
+const degreeUnit = 'UNIT["Degree",0.0174532925199433]';
+
+/** Gera o conteúdo do .prj (WKT no formato do ESRI) para o sistema informado */
+export function crsToPrj(crs: CrsDefinition): string {
+  if (crs.code === wgs84.code) {
+    return `GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],${degreeUnit}]`;
+  }
+  const geogcs = `GEOGCS["GCS_SIRGAS_2000",DATUM["D_SIRGAS_2000",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],${degreeUnit}]`;
+  if (crs.kind === 'geographic') return geogcs;
+  const zone = crs.zone!;
+  return `PROJCS["SIRGAS_2000_UTM_Zone_${zone}${crs.south ? 'S' : 'N'}",${geogcs},PROJECTION["Transverse_Mercator"],`
+    + `PARAMETER["False_Easting",${utmFalseEasting}.0],PARAMETER["False_Northing",${crs.south ? utmFalseNorthingSouth : 0}.0],`
+    + `PARAMETER["Central_Meridian",${utmCentralMeridian(zone)}.0],PARAMETER["Scale_Factor",${utmScale}],`
+    + 'PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]';
+}
+
+function wktParameter(wkt: string, name: string): number | undefined {
+  const match = new RegExp(`PARAMETER\\s*\\[\\s*"${name}"\\s*,\\s*(-?[\\d.]+)`, 'i').exec(wkt);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Identifica o sistema de um .prj. Aceita geográficos SIRGAS 2000/WGS84 e UTM sobre eles;
+ * outros datums (SAD69, Córrego Alegre...) exigiriam transformação de datum e são recusados.
+ */
+export function crsFromPrj(wkt: string): CrsDefinition {
+  const text = wkt.trim();
+  const datum = /DATUM\s*\[\s*"([^"]+)"/i.exec(text)?.[1] ?? '';
+  if (!/SIRGAS|WGS/i.test(datum)) throw new Error(`Datum não suportado: ${datum || 'desconhecido'} (use SIRGAS 2000 ou WGS84)`);
+  const isSirgas = /SIRGAS/i.test(datum);
+
+  if (/^GEOGCS/i.test(text)) return isSirgas ? sirgas2000 : wgs84;
+  if (!/^PROJCS/i.test(text) || !/Transverse_Mercator|Transverse Mercator/i.test(text)) {
+    throw new Error('Projeção não suportada (use coordenadas geográficas ou UTM)');
+  }
+  const centralMeridian = wktParameter(text, 'Central_Meridian');
+  const falseNorthing = wktParameter(text, 'False_Northing') ?? 0;
+  if (centralMeridian === undefined) throw new Error('Projeção UTM sem meridiano central');
+  const zone = Math.round((centralMeridian + 183) / 6);
+  const south = falseNorthing >= utmFalseNorthingSouth;
+  return isSirgas ? sirgas2000Utm(zone, south) : { code: `EPSG:${(south ? 32700 : 32600) + zone}`, name: `WGS 84 / UTM ${zone}${south ? 'S' : 'N'}`, kind: 'utm', zone, south };
+}
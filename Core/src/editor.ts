@@ -0,0 +1,568 @@
+import type { Feature, FeatureCollection, GeoJsonProperties } from 'geojson';
+import { inferAttributeColumns, reservedAttributeKeys, withAttributeDefaults, withAttributes, type AttributeColumn, type AttributeValue } from './attributes';
+import { bufferGeometry, bufferLabel, type BufferOptions } from './buffer';
+import { createEventBus, diffFeatures, emitFeatureDiff, type MapEventBus } from './events';
+import { createFeatureId, createFeatureStore, toEditorFeature } from './featureStore';
+import { createHistory, defaultHistoryDepth } from './history';
+import { isCircleFeature, withCircleGeometry } from './shapes';
+import { intersectAreas, isAreaGeometry, isCutGeometry, overlayProperties, splitAreaByLine, subtractAreas, unionAreas, type AreaGeometry } from './overlay';
+import { createLayer, defaultLayers, getFeatureLayer, layerProperty, sortByLayer, uniqueLayerName, type MapLayer, type MapLayerPatch } from './layers';
+import type { ThematicStyle } from './thematic';
+import { isPolygonFeature, withDefaultStyle, withFill, withFillRgb, withLabelText, withoutLabelText, withStroke } from './style';
+import type { ChangeOptions, EditorFeature, FeatureStyleProperties, RendererAdapter } from './types';
+
+// ===============================
+// Núcleo do editor de mapas
+// ===============================
+
+export type MapEditorOptions = {
+  /** Adaptador do motor de mapa (Mapbox, Leaflet) */
+  adapter: RendererAdapter;
+  /** Estilo aplicado às feições recém-desenhadas que ainda não têm estilo */
+  defaultStyle?: FeatureStyleProperties;
+  /** Chamado sempre que o conteúdo muda (equivale ao onDrawChange dos componentes) */
+  onChange?: (collection: FeatureCollection) => void;
+  /** Quantos passos podem ser desfeitos (padrão 100; 0 desativa o histórico) */
+  historyDepth?: number;
+  /** Camadas iniciais (padrão: Talhões, APP, Reserva legal e Estradas) */
+  layers?: MapLayer[];
+  /** Colunas de atributos iniciais (as propriedades das feições carregadas sem coluna ganham uma) */
+  columns?: AttributeColumn[];
+};
+
+/** Estado registrado no histórico: feições (imutáveis), seleção, camadas, colunas de atributos e estilo temático */
+type EditorSnapshot = {
+  features: EditorFeature[];
+  selectedIds: string[];
+  layers: MapLayer[];
+  activeLayer: string;
+  columns: AttributeColumn[];
+  thematic: ThematicStyle | null;
+};
+
+export type MapEditor = {
+  /** Coleção atual (não mutar) */
+  getCollection: () => FeatureCollection;
+  /** Busca uma feição pelo id */
+  getFeature: (id: string) => EditorFeature | undefined;
+  /** Substitui todas as feições (importação) e limpa a seleção */
+  load: (collection: FeatureCollection) => void;
+  /** Remove todas as feições */
+  clear: () => void;
+  /** Adiciona feições novas, completando os valores padrão das colunas e o estilo padrão. Retorna os ids gravados */
+  addFeatures: (features: Feature[], options?: ChangeOptions) => string[];
+  /** Substitui feições existentes (ex.: geometria editada no motor) */
+  updateFeatures: (features: Feature[], options?: ChangeOptions) => void;
+  /** Remove feições pelos ids */
+  removeFeatures: (ids: string[], options?: ChangeOptions) => void;
+  /** Ids selecionados */
+  getSelectedIds: () => string[];
+  /** Define a seleção */
+  setSelectedIds: (ids: string[], options?: ChangeOptions) => void;
+  /** Remove as feições selecionadas */
+  deleteSelected: () => void;
+  changeSelectedFill: (color: string, opacity?: number) => void;
+  changeSelectedStroke: (color: string, width?: number) => void;
+  applyFillToAll: (color: string, opacity?: number) => void;
+  applyStrokeToAll: (color: string, width?: number) => void;
+  addTextToSelected: (text: string) => void;
+  removeTextFromSelected: () => void;
+  /** Une os polígonos selecionados no primeiro da seleção (que guarda as propriedades); os demais são removidos. Retorna o id do resultado */
+  mergeSelected: () => string | null;
+  /** Recorta do primeiro polígono selecionado a área dos demais, que continuam no mapa */
+  subtractSelected: () => string | null;
+  /** Reduz o primeiro polígono selecionado à área comum a todos os selecionados */
+  intersectSelected: () => string | null;
+  /** Divide os polígonos selecionados pelas linhas selecionadas. Retorna os ids das partes */
+  splitSelectedByLine: () => string[];
+  /**
+   * Cria uma faixa de `distanceMeters` em volta de cada feição selecionada (ou para dentro dos polígonos),
+   * na camada `layer` (padrão: a ativa), com a distância no rótulo. Retorna os ids das faixas
+   */
+  bufferSelected: (distanceMeters: number, options?: BufferOptions & { layer?: string }) => string[];
+  /** Reenvia todo o estado ao adaptador (ex.: depois que o motor foi recriado) */
+  refresh: () => void;
+  /** Desfaz a última alteração (ou transação) */
+  undo: () => void;
+  /** Refaz a última alteração desfeita */
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  /** Executa várias operações como um único passo do histórico */
+  transaction: (fn: () => void) => void;
+  /** Esquece todo o histórico (ex.: depois de carregar os dados iniciais) */
+  clearHistory: () => void;
+  /** Camadas, da de baixo para a de cima */
+  getLayers: () => MapLayer[];
+  /** Substitui as camadas (ex.: ao abrir um projeto); feições de camadas inexistentes ganham uma camada nova */
+  setLayers: (layers: MapLayer[]) => void;
+  /** Cria uma camada no topo. Retorna o nome gravado (o nome recebe um número se já existir) */
+  addLayer: (name: string, style?: FeatureStyleProperties) => string;
+  /** Altera visibilidade, opacidade, trava, estilo ou nome (renomear atualiza as feições) */
+  updateLayer: (name: string, patch: MapLayerPatch) => void;
+  /** Remove a camada; as feições vão para outra camada (ou são excluídas com deleteFeatures). Camada travada não sai */
+  removeLayer: (name: string, options?: { deleteFeatures?: boolean }) => void;
+  /** Muda a posição da camada na ordem de desenho (0 = embaixo) */
+  moveLayer: (name: string, index: number) => void;
+  /** Camada que recebe as feições desenhadas e importadas sem camada */
+  getActiveLayer: () => string;
+  setActiveLayer: (name: string) => void;
+  /** Aplica o estilo da camada a todas as suas feições (nada muda em camada travada) */
+  applyLayerStyle: (name: string) => void;
+  /** Move as feições selecionadas para a camada */
+  moveSelectedToLayer: (name: string) => void;
+  /** A feição existe e não está em camada travada (correções automáticas só mexem nestas) */
+  isEditable: (id: string) => boolean;
+  /** Colunas da tabela de atributos */
+  getAttributeColumns: () => AttributeColumn[];
+  /** Substitui as colunas (ex.: ao abrir um projeto) */
+  setAttributeColumns: (columns: AttributeColumn[]) => void;
+  /** Cria uma coluna no fim. Retorna a chave gravada (recebe um número se já existir) */
+  addAttributeColumn: (column: AttributeColumn) => string;
+  /** Altera título, tipo, opções ou chave (mudar a chave renomeia a propriedade nas feições) */
+  updateAttributeColumn: (key: string, patch: Partial<AttributeColumn>) => void;
+  /** Remove a coluna e apaga o valor dela em todas as feições */
+  removeAttributeColumn: (key: string) => void;
+  /** Grava valores de atributos nas feições dos ids (null apaga); feições de camadas travadas ficam como estão */
+  setFeatureAttributes: (ids: string[], values: Record<string, AttributeValue>) => void;
+  /** Regra temática do preenchimento (null quando as cores vêm de cada feição) */
+  getThematicStyle: () => ThematicStyle | null;
+  /** Aplica ou remove (null) a regra temática. Só muda a exibição: as propriedades das feições ficam como estão */
+  setThematicStyle: (style: ThematicStyle | null) => void;
+  /**
+   * Eventos: o editor emite select/create/update/delete/style a cada alteração;
+   * o motor emite viewchange/modechange
+   */
+  events: MapEventBus;
+};
+
+/**
+ * Cria o editor: dono das feições, da seleção e das propriedades de estilo.
+ * Toda operação altera o armazenamento e em seguida pede ao adaptador para redesenhar.
+ */
+export function createMapEditor({
+  adapter,
+  defaultStyle = {},
+  onChange,
+  historyDepth = defaultHistoryDepth,
+  layers: initialLayers = defaultLayers,
+  columns: initialColumns = [],
+}: MapEditorOptions): MapEditor {
+  const store = createFeatureStore();
+  const history = createHistory<EditorSnapshot>(historyDepth);
+  const events = createEventBus();
+  let selectedIds: string[] = [];
+  let layers: MapLayer[] = initialLayers.length ? initialLayers : [createLayer('Camada 1')];
+  let activeLayer = layers[0].name;
+  let columns: AttributeColumn[] = initialColumns;
+  let thematic: ThematicStyle | null = null;
+  // Último estado publicado e controle de transações (aninháveis)
+  let committed: EditorSnapshot = snapshot();
+  let transactionDepth = 0;
+  let transactionStart: EditorSnapshot | null = null;
+  // Última seleção avisada no evento 'select'
+  let publishedSelectedIds: string[] = [];
+
+  function snapshot(): EditorSnapshot {
+    return { features: store.getAll(), selectedIds: [...selectedIds], layers, activeLayer, columns, thematic };
+  }
+
+  // Feições de camadas ocultas ou travadas não podem ser selecionadas
+  function isSelectable(id: string) {
+    const feature = store.get(id);
+    if (!feature) return false;
+    const layer = layers.find(l => l.name === getFeatureLayer(feature));
+    return !layer || (layer.visible && !layer.locked);
+  }
+
+  // O que o motor desenha: só camadas visíveis, na ordem das camadas
+  function renderCollection(): FeatureCollection {
+    const hidden = new Set(layers.filter(l => !l.visible).map(l => l.name));
+    const visible = store.getAll().filter(f => !hidden.has(getFeatureLayer(f) ?? ''));
+    return { type: 'FeatureCollection', features: sortByLayer(visible, layers) };
+  }
+
+  // Garante camada em cada feição: sem camada vai para a ativa; nome desconhecido cria a camada
+  function withLayer(feature: EditorFeature): EditorFeature {
+    const name = getFeatureLayer(feature);
+    if (!name) return { ...feature, properties: { ...feature.properties, [layerProperty]: activeLayer } };
+    if (!layers.some(l => l.name === name)) layers = [...layers, createLayer(name)];
+    return feature;
+  }
+
+  // Propriedades sem coluna (ex.: atributos de um arquivo importado) ganham uma coluna
+  function addInferredColumns(features: Feature[]) {
+    const inferred = inferAttributeColumns(features, columns);
+    if (inferred.length) columns = [...columns, ...inferred];
+  }
+
+  // Camada travada não aceita edição de atributos
+  function isEditable(id: string) {
+    const feature = store.get(id);
+    return !!feature && !layers.find(l => l.name === getFeatureLayer(feature))?.locked;
+  }
+
+  // Estilo das feições novas: o da camada por cima do padrão do motor
+  function styleFor(feature: EditorFeature): FeatureStyleProperties {
+    return { ...defaultStyle, ...layers.find(l => l.name === getFeatureLayer(feature))?.style };
+  }
+
+  // Emite 'select' se a seleção mudou desde o último aviso
+  function emitSelection() {
+    const previousIds = publishedSelectedIds;
+    if (previousIds.length === selectedIds.length && selectedIds.every(id => previousIds.includes(id))) return;
+    publishedSelectedIds = [...selectedIds];
+    events.emit('select', { ids: [...selectedIds], previousIds });
+  }
+
+  // Publica o estado atual: registra no histórico, sincroniza o motor (quando necessário), camadas auxiliares e callback
+  function commit({ syncFeatures, syncSelection, record = true }: { syncFeatures: boolean; syncSelection: boolean; record?: boolean }) {
+    selectedIds = selectedIds.filter(isSelectable);
+    const previous = committed;
+    const next = snapshot();
+    // Dentro de uma transação o passo só é registrado ao final
+    if (record && transactionDepth === 0) history.push(committed);
+    committed = next;
+    const layersChanged = previous.layers !== next.layers || previous.activeLayer !== next.activeLayer;
+    if (layersChanged || syncFeatures) adapter.setLayers?.(layers);
+    const thematicChanged = previous.thematic !== next.thematic;
+    if (thematicChanged || syncFeatures) adapter.setThematicStyle?.(thematic);
+    const rendered = renderCollection();
+    if (syncFeatures) adapter.setFeatures(rendered);
+    if (syncSelection) adapter.setSelection(selectedIds);
+    adapter.renderDecorations(rendered);
+    onChange?.(store.toCollection());
+    emitFeatureDiff(events, diffFeatures(previous.features, next.features));
+    if (layersChanged) events.emit('layerchange', { layers, activeLayer });
+    if (previous.columns !== next.columns) events.emit('columnschange', { columns });
+    if (thematicChanged) events.emit('thematicchange', { style: thematic });
+    emitSelection();
+  }
+
+  // Altera a lista de camadas e publica (visibilidade e ordem exigem redesenhar as feições)
+  function commitLayers(next: MapLayer[]) {
+    layers = next;
+    if (!layers.some(l => l.name === activeLayer)) activeLayer = layers[0].name;
+    commit({ syncFeatures: true, syncSelection: true });
+  }
+
+  // Grava a camada nas feições dos ids (sem publicar)
+  function assignLayer(ids: string[], name: string) {
+    for (const id of ids) {
+      const feature = store.get(id);
+      if (feature) store.upsert({ ...feature, properties: { ...feature.properties, [layerProperty]: name } });
+    }
+  }
+
+  const idsInLayer = (name: string) => store.getAll().filter(f => getFeatureLayer(f) === name).map(f => f.id);
+
+  // Aplica uma transformação de propriedades às feições dos ids informados
+  function updateProperties(ids: string[], fn: (properties: GeoJsonProperties) => GeoJsonProperties) {
+    let changed = false;
+    for (const id of ids) {
+      const feature = store.get(id);
+      if (!feature) continue;
+      const updated = { ...feature, properties: fn(feature.properties) };
+      // Raio do círculo alterado (ex.: na tabela de atributos): o polígono é refeito em volta do centro
+      const resized = isCircleFeature(updated) && updated.properties?.radius !== feature.properties?.radius;
+      store.upsert(resized ? withCircleGeometry(updated) : updated);
+      changed = true;
+    }
+    if (changed) commit({ syncFeatures: true, syncSelection: true });
+  }
+
+  // Polígonos da seleção, na ordem em que foram selecionados
+  const selectedAreas = () => selectedIds.map(id => store.get(id)).filter((f): f is EditorFeature & { geometry: AreaGeometry } => !!f && isAreaGeometry(f.geometry));
+
+  // Operação entre o primeiro polígono selecionado e os demais: o resultado substitui a geometria do primeiro
+  function overlaySelected(operation: (primary: AreaGeometry, others: AreaGeometry[]) => AreaGeometry | null, removeOthers: boolean): string | null {
+    const [primary, ...rest] = selectedAreas();
+    // Os que seriam removidos precisam estar em camada editável
+    const others = removeOthers ? rest.filter(f => isEditable(f.id)) : rest;
+    if (!primary || !others.length || !isEditable(primary.id)) return null;
+    const geometry = operation(primary.geometry, others.map(f => f.geometry));
+    if (!geometry) return null;
+    store.upsert({ ...primary, geometry, properties: overlayProperties(primary.properties) });
+    if (removeOthers) store.remove(others.map(f => f.id));
+    selectedIds = [primary.id];
+    commit({ syncFeatures: true, syncSelection: true });
+    return primary.id;
+  }
+
+  // "Aplicar a todos" não mexe em camadas travadas
+  const polygonIds = () => store.getAll().filter(isPolygonFeature).map(f => f.id).filter(isSelectable);
+
+  // Id repetido (arquivo com ids duplicados) ganha um id novo para a feição não sobrescrever a outra
+  function withUniqueId(feature: EditorFeature, taken: (id: string) => boolean): EditorFeature {
+    return taken(feature.id) ? { ...feature, id: createFeatureId() } : feature;
+  }
+
+  // Restaura um estado do histórico e redesenha tudo
+  function restore(state: EditorSnapshot) {
+    store.replaceAll(state.features);
+    selectedIds = [...state.selectedIds];
+    layers = state.layers;
+    activeLayer = state.activeLayer;
+    columns = state.columns;
+    thematic = state.thematic;
+    commit({ syncFeatures: true, syncSelection: true, record: false });
+  }
+
+  return {
+    getCollection: () => store.toCollection(),
+    getFeature: (id) => store.get(id),
+    load: (collection) => {
+      const ids = new Set<string>();
+      store.replaceAll(collection.features.map(f => {
+        const feature = withLayer(withUniqueId(toEditorFeature(f), id => ids.has(id)));
+        ids.add(feature.id);
+        return { ...feature, properties: withFillRgb(feature.properties) };
+      }));
+      addInferredColumns(store.getAll());
+      selectedIds = [];
+      commit({ syncFeatures: true, syncSelection: true });
+    },
+    clear: () => {
+      store.replaceAll([]);
+      selectedIds = [];
+      commit({ syncFeatures: true, syncSelection: true });
+    },
+    addFeatures: (features, options) => {
+      const ids: string[] = [];
+      for (const f of features) {
+        const feature = withLayer(withUniqueId(toEditorFeature(f), store.has));
+        // Valores padrão do esquema (colunas) e estilo da camada/motor, sem sobrescrever o que a feição já tem
+        store.upsert({ ...feature, properties: withDefaultStyle(withAttributeDefaults(feature.properties, columns), styleFor(feature)) });
+        ids.push(feature.id);
+      }
+      addInferredColumns(features);
+      // O estilo padrão precisa chegar ao motor mesmo quando a feição nasceu nele
+      commit({ syncFeatures: true, syncSelection: !options?.fromRenderer });
+      return ids;
+    },
+    updateFeatures: (features, options) => {
+      const known = features.map(toEditorFeature).filter(f => store.has(f.id));
+      if (!known.length) return;
+      let reshapedCircle = false;
+      for (const feature of known) {
+        // Círculo com vértices editados ou movido deixa de ser círculo: o centro e o raio gravados já não valem
+        const previous = store.get(feature.id);
+        const reshaped = !!previous && isCircleFeature(previous) && JSON.stringify(previous.geometry) !== JSON.stringify(feature.geometry);
+        store.upsert(reshaped ? { ...feature, properties: overlayProperties(feature.properties) } : feature);
+        reshapedCircle ||= reshaped;
+      }
+      // O motor também precisa esquecer as propriedades do círculo, senão as devolve na próxima edição
+      commit({ syncFeatures: !options?.fromRenderer || reshapedCircle, syncSelection: !options?.fromRenderer });
+    },
+    removeFeatures: (ids, options) => {
+      if (!ids.some(id => store.has(id))) return;
+      store.remove(ids);
+      commit({ syncFeatures: !options?.fromRenderer, syncSelection: !options?.fromRenderer });
+    },
+    getSelectedIds: () => [...selectedIds],
+    setSelectedIds: (ids, options) => {
+      selectedIds = ids.filter(isSelectable);
+      // Seleção não é um passo do histórico, mas o estado publicado acompanha (desfazer volta a ela, não a uma antiga)
+      const untouched = transactionStart === committed;
+      committed = { ...committed, selectedIds: [...selectedIds] };
+      // Transação em que só a seleção mudou continua sem passo a registrar
+      if (untouched) transactionStart = committed;
+      // Clique em feição de camada travada: o motor também precisa desfazer a seleção
+      if (!options?.fromRenderer || selectedIds.length !== ids.length) adapter.setSelection(selectedIds);
+      emitSelection();
+    },
+    deleteSelected: () => {
+      if (!selectedIds.length) return;
+      store.remove(selectedIds);
+      commit({ syncFeatures: true, syncSelection: true });
+    },
+    changeSelectedFill: (color, opacity) => updateProperties(selectedIds, p => withFill(p, color, opacity)),
+    changeSelectedStroke: (color, width) => updateProperties(selectedIds, p => withStroke(p, color, width)),
+    applyFillToAll: (color, opacity) => updateProperties(polygonIds(), p => withFill(p, color, opacity)),
+    applyStrokeToAll: (color, width) => updateProperties(polygonIds(), p => withStroke(p, color, width)),
+    addTextToSelected: (text) => updateProperties(selectedIds, p => withLabelText(p, text)),
+    removeTextFromSelected: () => updateProperties(selectedIds, withoutLabelText),
+    mergeSelected: () => overlaySelected(unionAreas, true),
+    subtractSelected: () => overlaySelected(subtractAreas, false),
+    intersectSelected: () => overlaySelected(intersectAreas, false),
+    bufferSelected: (distanceMeters, options = {}) => {
+      const layer = options.layer?.trim() || activeLayer;
+      const ids: string[] = [];
+      for (const id of selectedIds) {
+        const source = store.get(id);
+        const geometry = source?.geometry && bufferGeometry(source.geometry, distanceMeters, options);
+        if (!geometry) continue;
+        // Feição nova na camada escolhida, com o estilo da camada e os valores padrão das colunas
+        const feature = withLayer({
+          type: 'Feature',
+          id: createFeatureId(),
+          geometry,
+          properties: { [layerProperty]: layer, labelText: bufferLabel(distanceMeters, options.inward) },
+        });
+        store.upsert({ ...feature, properties: withDefaultStyle(withAttributeDefaults(feature.properties, columns), styleFor(feature)) });
+        ids.push(feature.id);
+      }
+      if (!ids.length) return [];
+      selectedIds = ids;
+      commit({ syncFeatures: true, syncSelection: true });
+      return ids;
+    },
+    splitSelectedByLine: () => {
+      const lines = selectedIds.map(id => store.get(id)?.geometry).filter(isCutGeometry);
+      if (!lines.length) return [];
+      // Várias linhas cortam juntas, como uma só
+      const cut = lines.length === 1 ? lines[0] : {
+        type: 'MultiLineString' as const,
+        coordinates: lines.flatMap(line => (line.type === 'LineString' ? [line.coordinates] : line.coordinates)),
+      };
+      const ids: string[] = [];
+      for (const feature of selectedAreas().filter(f => isEditable(f.id))) {
+        const parts = splitAreaByLine(feature.geometry, cut);
+        if (parts.length < 2) continue;
+        // A primeira parte mantém o id; as outras são feições novas com as mesmas propriedades
+        const properties = overlayProperties(feature.properties);
+        parts.forEach((geometry, i) => {
+          const id = i === 0 ? feature.id : createFeatureId();
+          store.upsert({ ...feature, id, geometry, properties });
+          ids.push(id);
+        });
+      }
+      if (!ids.length) return [];
+      selectedIds = ids;
+      commit({ syncFeatures: true, syncSelection: true });
+      return ids;
+    },
+    refresh: () => commit({ syncFeatures: true, syncSelection: true, record: false }),
+    undo: () => {
+      const previous = history.undo(committed);
+      if (previous) restore(previous);
+    },
+    redo: () => {
+      const next = history.redo(committed);
+      if (next) restore(next);
+    },
+    canUndo: () => history.canUndo(),
+    canRedo: () => history.canRedo(),
+    clearHistory: () => history.clear(),
+    events,
+    getLayers: () => layers,
+    setLayers: (next) => {
+      layers = next.length ? next : [createLayer('Camada 1')];
+      if (!layers.some(l => l.name === activeLayer)) activeLayer = layers[0].name;
+      const missing = new Set(store.getAll().map(getFeatureLayer).filter((name): name is string => !!name && !layers.some(l => l.name === name)));
+      if (missing.size) layers = [...layers, ...[...missing].map(name => createLayer(name))];
+      commit({ syncFeatures: true, syncSelection: true });
+    },
+    addLayer: (name, style = {}) => {
+      const unique = uniqueLayerName(layers, name.trim() || 'Camada');
+      commitLayers([...layers, createLayer(unique, style)]);
+      return unique;
+    },
+    updateLayer: (name, patch) => {
+      const current = layers.find(l => l.name === name);
+      if (!current) return;
+      const rename = patch.name?.trim() && patch.name.trim() !== name ? uniqueLayerName(layers, patch.name.trim()) : name;
+      const next = layers.map(l => (l === current ? { ...current, ...patch, name: rename } : l));
+      if (rename !== name) {
+        assignLayer(idsInLayer(name), rename);
+        if (activeLayer === name) activeLayer = rename;
+      }
+      commitLayers(next);
+    },
+    removeLayer: (name, options) => {
+      const current = layers.find(l => l.name === name);
+      // Travada: nem excluir as feições nem levá-las para uma camada editável
+      if (layers.length < 2 || !current || current.locked) return;
+      const next = layers.filter(l => l.name !== name);
+      const ids = idsInLayer(name);
+      if (options?.deleteFeatures) store.remove(ids);
+      else assignLayer(ids, activeLayer !== name ? activeLayer : next[0].name);
+      commitLayers(next);
+    },
+    moveLayer: (name, index) => {
+      const current = layers.find(l => l.name === name);
+      if (!current) return;
+      const next = layers.filter(l => l !== current);
+      next.splice(Math.max(0, Math.min(index, next.length)), 0, current);
+      if (next.every((l, i) => l === layers[i])) return;
+      commitLayers(next);
+    },
+    getActiveLayer: () => activeLayer,
+    setActiveLayer: (name) => {
+      if (name === activeLayer || !layers.some(l => l.name === name)) return;
+      activeLayer = name;
+      // Trocar a camada ativa não é um passo do histórico
+      commit({ syncFeatures: false, syncSelection: false, record: false });
+    },
+    applyLayerStyle: (name) => {
+      const style = layers.find(l => l.name === name)?.style;
+      if (!style) return;
+      updateProperties(idsInLayer(name).filter(isEditable), p => (style.fillColor ? withFill({ ...p, ...style }, style.fillColor, style.fillOpacity) : { ...p, ...style }));
+    },
+    moveSelectedToLayer: (name) => {
+      if (!selectedIds.length || !layers.some(l => l.name === name)) return;
+      assignLayer(selectedIds, name);
+      commit({ syncFeatures: true, syncSelection: true });
+    },
+    isEditable,
+    getAttributeColumns: () => columns,
+    setAttributeColumns: (next) => {
+      columns = next;
+      commit({ syncFeatures: false, syncSelection: false });
+    },
+    addAttributeColumn: (column) => {
+      const taken = new Set([...columns.map(c => c.key), ...reservedAttributeKeys]);
+      let key = column.key.trim() || 'atributo';
+      for (let n = 2; taken.has(key); n++) key = `${column.key.trim() || 'atributo'}_${n}`;
+      columns = [...columns, { ...column, key }];
+      commit({ syncFeatures: false, syncSelection: false });
+      return key;
+    },
+    updateAttributeColumn: (key, patch) => {
+      const current = columns.find(c => c.key === key);
+      if (!current) return;
+      const newKey = patch.key?.trim() || key;
+      // A chave nova não pode colidir com outra coluna nem com as propriedades do editor
+      if (newKey !== key && (columns.some(c => c.key === newKey) || reservedAttributeKeys.includes(newKey))) return;
+      columns = columns.map(c => (c === current ? { ...current, ...patch, key: newKey } : c));
+      if (newKey !== key) {
+        for (const feature of store.getAll()) {
+          if (!feature.properties || !(key in feature.properties)) continue;
+          const { [key]: value, ...rest } = feature.properties;
+          store.upsert({ ...feature, properties: { ...rest, [newKey]: value } });
+        }
+      }
+      commit({ syncFeatures: newKey !== key, syncSelection: false });
+    },
+    removeAttributeColumn: (key) => {
+      if (!columns.some(c => c.key === key)) return;
+      columns = columns.filter(c => c.key !== key);
+      const ids = store.getAll().filter(f => f.properties && key in f.properties).map(f => f.id);
+      // updateProperties só publica quando alguma feição tinha o valor
+      if (ids.length) updateProperties(ids, p => withAttributes(p, { [key]: null }));
+      else commit({ syncFeatures: false, syncSelection: false });
+    },
+    setFeatureAttributes: (ids, values) => updateProperties(ids.filter(isEditable), p => withAttributes(p, values)),
+    getThematicStyle: () => thematic,
+    setThematicStyle: (style) => {
+      if (style === thematic) return;
+      thematic = style;
+      // Só as camadas auxiliares mudam; as feições do motor continuam as mesmas
+      commit({ syncFeatures: false, syncSelection: false });
+    },
+    transaction: (fn) => {
+      if (transactionDepth === 0) transactionStart = committed;
+      transactionDepth++;
+      try {
+        fn();
+      } finally {
+        transactionDepth--;
+        if (transactionDepth === 0) {
+          // Registra um único passo se algo mudou durante a transação
+          if (transactionStart && transactionStart !== committed) history.push(transactionStart);
+          transactionStart = null;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import { stylePropertyKeys } from './style';
+import type { AttributeColumn } from './attributes';
+import type { MapLayer } from './layers';
+import type { Measurement } from './measure';
+import type { ThematicStyle } from './thematic';
+import type { EditorFeature, MapView } from './types';
+
+// ===============================
+// Eventos do editor (assinados via handle.on)
+// ===============================
+
+/** Modo de interação do mapa */
+export type MapMode =
+  | 'select'
+  | 'draw_polygon'
+  | 'draw_line'
+  | 'draw_point'
+  | 'draw_rectangle'
+  | 'draw_circle'
+  | 'draw_freehand'
+  | 'edit_vertices'
+  | 'measure';
+
+/** Alteração de uma feição existente: estado antes/depois e o que mudou */
+export type FeatureChange = {
+  id: string;
+  before: EditorFeature;
+  after: EditorFeature;
+  /** true se a geometria mudou (vértice movido, criado ou removido) */
+  geometryChanged: boolean;
+  /** Propriedades adicionadas, removidas ou alteradas */
+  changedProperties: string[];
+};
+
+/** Payload de cada evento */
+export type MapEventMap = {
+  /** Seleção mudou */
+  select: { ids: string[]; previousIds: string[] };
+  /** Feições novas (desenhadas, importadas, refeitas...) */
+  create: { ids: string[]; features: EditorFeature[] };
+  /** Geometria ou propriedades que não são de estilo mudaram */
+  update: { ids: string[]; changes: FeatureChange[] };
+  /** Feições removidas (com o último estado de cada uma) */
+  delete: { ids: string[]; features: EditorFeature[] };
+  /** Só propriedades de estilo/texto mudaram (cor, borda, opacidade, labelText) */
+  style: { ids: string[]; changes: FeatureChange[] };
+  /** Centro/zoom mudaram (ao final do movimento) */
+  viewchange: { view: MapView };
+  /** Modo de interação mudou (ex.: começou a desenhar) */
+  modechange: { mode: MapMode; previousMode: MapMode };
+  /** Camadas ou camada ativa mudaram (inclusive em desfazer/refazer) */
+  layerchange: { layers: MapLayer[]; activeLayer: string };
+  /** Colunas da tabela de atributos mudaram (inclusive em desfazer/refazer) */
+  columnschange: { columns: AttributeColumn[] };
+  /** Regra temática aplicada ou removida (inclusive em desfazer/refazer) */
+  thematicchange: { style: ThematicStyle | null };
+  /** Medição mudou (vértice, cursor, fim ou limpeza); não passa pelo editor nem por onDrawChange */
+  measurechange: { measurement: Measurement | null };
+};
+
+export type MapEventName = keyof MapEventMap;
+export type MapEventHandler<K extends MapEventName> = (event: MapEventMap[K]) => void;
+
+export type MapEventBus = {
+  /** Assina um evento; retorna a função que cancela a assinatura */
+  on: <K extends MapEventName>(name: K, handler: MapEventHandler<K>) => () => void;
+  off: <K extends MapEventName>(name: K, handler: MapEventHandler<K>) => void;
+  emit: <K extends MapEventName>(name: K, event: MapEventMap[K]) => void;
+};
+
+/** Cria o barramento de eventos. Erro em um assinante não impede os demais */
+export function createEventBus(): MapEventBus {
+  const handlers = new Map<MapEventName, Set<(event: never) => void>>();
+
+  function off<K extends MapEventName>(name: K, handler: MapEventHandler<K>) {
+    handlers.get(name)?.delete(handler);
+  }
+
+  return {
+    on: (name, handler) => {
+      if (!handlers.has(name)) handlers.set(name, new Set());
+      handlers.get(name)!.add(handler);
+      return () => off(name, handler);
+    },
+    off,
+    emit: (name, event) => {
+      for (const handler of [...(handlers.get(name) ?? [])]) {
+        try {
+          (handler as MapEventHandler<typeof name>)(event);
+        } catch (err) {
+          console.error(`[map-editor] erro no assinante do evento "${name}"`, err);
+        }
+      }
+    },
+  };
+}
+
+/** Diferença entre dois estados das feições, já separada por evento */
+export type FeatureDiff = {
+  created: EditorFeature[];
+  deleted: EditorFeature[];
+  updated: FeatureChange[];
+  styled: FeatureChange[];
+};
+
+function changedPropertyKeys(before: EditorFeature, after: EditorFeature): string[] {
+  const a = before.properties ?? {};
+  const b = after.properties ?? {};
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter(key => JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+}
+
+/**
+ * Compara dois estados. As feições são imutáveis no editor, então a mesma referência
+ * significa "sem alteração" e só as trocadas são comparadas em detalhe.
+ */
+export function diffFeatures(previous: EditorFeature[], next: EditorFeature[]): FeatureDiff {
+  const diff: FeatureDiff = { created: [], deleted: [], updated: [], styled: [] };
+  const before = new Map(previous.map(f => [f.id, f]));
+  const nextIds = new Set(next.map(f => f.id));
+
+  for (const feature of next) {
+    const old = before.get(feature.id);
+    if (!old) {
+      diff.created.push(feature);
+      continue;
+    }
+    if (old === feature) continue;
+    const geometryChanged = old.geometry !== feature.geometry && JSON.stringify(old.geometry) !== JSON.stringify(feature.geometry);
+    const changedProperties = changedPropertyKeys(old, feature);
+    if (!geometryChanged && !changedProperties.length) continue;
+    const change: FeatureChange = { id: feature.id, before: old, after: feature, geometryChanged, changedProperties };
+    const onlyStyle = !geometryChanged && changedProperties.every(key => (stylePropertyKeys as string[]).includes(key));
+    (onlyStyle ? diff.styled : diff.updated).push(change);
+  }
+  for (const feature of previous) {
+    if (!nextIds.has(feature.id)) diff.deleted.push(feature);
+  }
+  return diff;
+}
+
+/** Emite create/delete/update/style para uma diferença (na ordem em que aconteceram no mapa) */
+export function emitFeatureDiff(bus: MapEventBus, diff: FeatureDiff) {
+  const ids = (features: { id: string }[]) => features.map(f => f.id);
+  if (diff.deleted.length) bus.emit('delete', { ids: ids(diff.deleted), features: diff.deleted });
+  if (diff.created.length) bus.emit('create', { ids: ids(diff.created), features: diff.created });
+  if (diff.updated.length) bus.emit('update', { ids: ids(diff.updated), changes: diff.updated });
+  if (diff.styled.length) bus.emit('style', { ids: ids(diff.styled), changes: diff.styled });
+}
@@ -0,0 +1,68 @@
+import type { Feature, FeatureCollection } from 'geojson';
+import type { EditorFeature } from './types';
+
+// ===============================
+// Armazenamento de feições
+// ===============================
+
+const idAlphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/** Gera um id aleatório de 32 caracteres (mesmo formato usado pelo MapboxDraw) */
+export function createFeatureId(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  let id = '';
+  for (const b of bytes) id += idAlphabet[b % idAlphabet.length];
+  return id;
+}
+
+/** Normaliza uma feição recebida de fora: garante id (string) e objeto de propriedades */
+export function toEditorFeature(feature: Feature): EditorFeature {
+  const id = feature.id !== undefined && feature.id !== null && feature.id !== '' ? String(feature.id) : createFeatureId();
+  return { ...feature, id, properties: feature.properties || {} };
+}
+
+export type FeatureStore = {
+  /** Todas as feições, na ordem de inserção */
+  getAll: () => EditorFeature[];
+  /** Busca uma feição pelo id */
+  get: (id: string) => EditorFeature | undefined;
+  /** Indica se existe feição com o id */
+  has: (id: string) => boolean;
+  /** Substitui todo o conteúdo */
+  replaceAll: (features: EditorFeature[]) => void;
+  /** Insere ou substitui uma feição (mantém a posição se já existir) */
+  upsert: (feature: EditorFeature) => void;
+  /** Remove as feições dos ids informados */
+  remove: (ids: string[]) => void;
+  /** Quantidade de feições */
+  size: () => number;
+  /** Retorna o conteúdo como FeatureCollection */
+  toCollection: () => FeatureCollection;
+};
+
+/**
+ * Cria o armazenamento de feições do editor.
+ * As feições são tratadas como imutáveis: toda alteração grava um novo objeto,
+ * então quem recebe a coleção nunca deve mutá-la.
+ */
+export function createFeatureStore(): FeatureStore {
+  let features = new Map<string, EditorFeature>();
+
+  return {
+    getAll: () => Array.from(features.values()),
+    get: (id) => features.get(id),
+    has: (id) => features.has(id),
+    replaceAll: (next) => {
+      features = new Map(next.map(f => [f.id, f]));
+    },
+    upsert: (feature) => {
+      features.set(feature.id, feature);
+    },
+    remove: (ids) => {
+      for (const id of ids) features.delete(id);
+    },
+    size: () => features.size,
+    toCollection: () => ({ type: 'FeatureCollection', features: Array.from(features.values()) }),
+  };
+}
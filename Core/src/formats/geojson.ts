@@ -0,0 +1,71 @@
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
+
+// ===============================
+// GeoJSON
+// ===============================
+
+/** Resultado da leitura: as feições e os problemas que não impediram a leitura (ex.: linha inválida) */
+export type GeoJsonParseResult = { collection: FeatureCollection; problems: string[] };
+
+const geometryTypes = ['Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon', 'GeometryCollection'];
+
+/** Valida se um objeto é um FeatureCollection */
+export function isFeatureCollection(value: unknown): value is FeatureCollection {
+  if (typeof value !== 'object' || value === null) return false;
+  const maybe = value as FeatureCollection;
+  return maybe.type === 'FeatureCollection' && Array.isArray(maybe.features);
+}
+
+/**
+ * Converte qualquer objeto GeoJSON em uma lista de feições:
+ * FeatureCollection, Feature, geometria solta (vira feição sem propriedades) ou lista deles.
+ */
+export function normalizeGeoJson(value: unknown): Feature[] {
+  if (isFeatureCollection(value)) return value.features;
+  if (Array.isArray(value)) return value.flatMap(normalizeGeoJson);
+  const type = typeof value === 'object' && value !== null ? (value as { type?: unknown }).type : undefined;
+  if (type === 'Feature') return [value as Feature];
+  if (typeof type === 'string' && geometryTypes.includes(type)) return [{ type: 'Feature', geometry: value as Geometry, properties: {} }];
+  throw new Error(`Objeto GeoJSON não suportado${typeof type === 'string' ? ` (${type})` : ''}: esperado FeatureCollection, Feature ou geometria`);
+}
+
+/**
+ * Lê um texto GeoJSON (documento único) ou GeoJSON delimitado por linhas (NDJSON / RFC 8142).
+ * No formato por linhas, linhas inválidas viram problemas e as demais são aproveitadas.
+ */
+export function parseGeoJsonText(text: string): GeoJsonParseResult {
+  const content = text.replace(/^\uFEFF/, '').trim();
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch (err) {
+    if (!/[\n\x1e]/.test(content)) throw new Error(`JSON inválido: ${err instanceof Error ? err.message : String(err)}`);
+    return parseDelimited(content);
+  }
+  return { collection: { type: 'FeatureCollection', features: normalizeGeoJson(document) }, problems: [] };
+}
+
+function parseDelimited(content: string): GeoJsonParseResult {
+  const features: Feature[] = [];
+  const problems: string[] = [];
+  content.split(/\r?\n|\x1e/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      features.push(...normalizeGeoJson(JSON.parse(line)));
+    } catch (err) {
+      problems.push(`Linha ${index + 1}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+  if (!features.length) throw new Error(`Nenhuma feição GeoJSON válida no arquivo${problems.length ? ` (${problems[0]})` : ''}`);
+  return { collection: { type: 'FeatureCollection', features }, problems };
+}
+
+/** Faz o parse de um texto GeoJSON (qualquer forma aceita por parseGeoJsonText) */
+export function parseGeoJson(text: string): FeatureCollection {
+  return parseGeoJsonText(text).collection;
+}
+
+/** Serializa a coleção como GeoJSON formatado */
+export function toGeoJson(collection: FeatureCollection): string {
+  return JSON.stringify(collection, null, 2);
+}
@@ -0,0 +1,88 @@
+import type { FeatureCollection } from 'geojson';
+import { parseGeoJsonText, toGeoJson, type GeoJsonParseResult } from './geojson';
+import { parseKml, readKmz, toKml, writeKmz } from './kml';
+import { readShapefileZip, writeShapefileZip } from './shapefile';
+import type { CrsDefinition } from '../crs';
+
+// ===============================
+// Importação/exportação de arquivos
+// ===============================
+
+/** Formatos aceitos na exportação */
+export type ExportFormat = 'geojson' | 'kml' | 'kmz' | 'shapefile';
+
+export type ExportOptions = {
+  /** Nome dos arquivos gerados (sem extensão) */
+  baseName?: string;
+  /** Sistema de coordenadas de destino do shapefile (padrão: SIRGAS 2000 geográfico) */
+  crs?: CrsDefinition;
+};
+
+/** Valor do atributo `accept` do input de importação */
+export const importAccept = '.json,.geojson,.ndjson,.geojsonl,.geojsons,.kml,.kmz,.zip,application/geo+json,application/vnd.google-earth.kml+xml,application/vnd.google-earth.kmz,application/zip';
+
+/** Rótulos exibidos no menu de exportação */
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  geojson: 'GeoJSON (.geojson)',
+  kml: 'KML (.kml)',
+  kmz: 'KMZ (.kmz)',
+  shapefile: 'Shapefile (.zip)',
+};
+
+const fileExtension = (name: string) => name.toLowerCase().split('.').pop() ?? '';
+
+/**
+ * Lê um arquivo escolhido pelo usuário, decidindo o formato pela extensão.
+ * Também devolve os problemas que não impediram a leitura (ex.: linhas inválidas no NDJSON)
+ */
+export async function readGeoFileDetailed(file: File): Promise<GeoJsonParseResult> {
+  switch (fileExtension(file.name)) {
+    case 'kml':
+      return { collection: parseKml(await file.text()), problems: [] };
+    case 'kmz':
+      return { collection: readKmz(await file.arrayBuffer()), problems: [] };
+    case 'zip':
+      return { collection: readShapefileZip(await file.arrayBuffer()), problems: [] };
+    default:
+      return parseGeoJsonText(await file.text());
+  }
+}
+
+/** Lê um arquivo escolhido pelo usuário, decidindo o formato pela extensão */
+export async function readGeoFile(file: File): Promise<FeatureCollection> {
+  return (await readGeoFileDetailed(file)).collection;
+}
+
+/** Gera o conteúdo do arquivo de exportação no formato escolhido */
+export function exportCollection(collection: FeatureCollection, format: ExportFormat, options: ExportOptions = {}): { blob: Blob; fileName: string } {
+  const baseName = options.baseName ?? 'desenhos';
+  switch (format) {
+    case 'kml':
+      return { blob: new Blob([toKml(collection, { name: baseName })], { type: 'application/vnd.google-earth.kml+xml' }), fileName: `${baseName}.kml` };
+    case 'kmz': {
+      // Cópia para um ArrayBuffer comum (o tipo do fflate admite SharedArrayBuffer, que o Blob não aceita)
+      const bytes = new Uint8Array(writeKmz(collection, { name: baseName }));
+      return { blob: new Blob([bytes], { type: 'application/vnd.google-earth.kmz' }), fileName: `${baseName}.kmz` };
+    }
+    case 'shapefile': {
+      const bytes = new Uint8Array(writeShapefileZip(collection, { baseName, crs: options.crs }));
+      return { blob: new Blob([bytes], { type: 'application/zip' }), fileName: `${baseName}.zip` };
+    }
+    default:
+      return { blob: new Blob([toGeoJson(collection)], { type: 'application/geo+json' }), fileName: `${baseName}.geojson` };
+  }
+}
+
+/** Dispara o download de um Blob no navegador */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export { isFeatureCollection, normalizeGeoJson, parseGeoJson, parseGeoJsonText, toGeoJson, type GeoJsonParseResult } from './geojson';
+export { readShapefileZip, writeShapefileZip, type ShapefileWriteOptions } from './shapefile';
+export { folderProperty, folderSeparator, fromKmlColor, parseKml, readKmz, toKml, toKmlColor, writeKmz, type KmlWriteOptions } from './kml';
@@ -0,0 +1,344 @@
+import type { Feature, FeatureCollection, GeoJsonProperties, Geometry, Position } from 'geojson';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { withFillRgb } from '../style';
+import type { FeatureStyleProperties } from '../types';
+
+// ===============================
+// KML / KMZ (Google Earth)
+// ===============================
+
+/** Propriedade onde fica o caminho das pastas (<Folder>) de origem, ex.: "Fazenda / Talhões" */
+export const folderProperty = 'folder';
+/** Separador entre os níveis de pasta em `folder` */
+export const folderSeparator = ' / ';
+
+/** Propriedades que viram elementos/estilo do KML e não vão para o ExtendedData */
+const reservedProperties = new Set(['labelText', 'description', folderProperty, 'fillColor', 'fillOpacity', 'fillRgb', 'strokeColor', 'strokeWidth']);
+
+// -------- Cores: o KML usa aabbggrr --------
+
+/** Converte uma cor KML (aabbggrr) para hex (#rrggbb) + opacidade (0-1) */
+export function fromKmlColor(value: string): { color: string; opacity: number } | null {
+  const hex = value.trim().replace('#', '');
+  if (!/^[0-9a-fA-F]{8}$/.test(hex)) return null;
+  const alpha = parseInt(hex.substring(0, 2), 16) / 255;
+  const color = `#${hex.substring(6, 8)}${hex.substring(4, 6)}${hex.substring(2, 4)}`.toLowerCase();
+  return { color, opacity: Math.round(alpha * 100) / 100 };
+}
+
+/** Converte hex (#rrggbb) + opacidade (0-1) para cor KML (aabbggrr) */
+export function toKmlColor(color: string, opacity = 1): string {
+  const hex = (color || '#ffffff').replace('#', '').padEnd(6, 'f');
+  const alpha = Math.round(Math.min(1, Math.max(0, opacity)) * 255).toString(16).padStart(2, '0');
+  return `${alpha}${hex.substring(4, 6)}${hex.substring(2, 4)}${hex.substring(0, 2)}`.toLowerCase();
+}
+
+// -------- Leitura --------
+
+// Filhos diretos por nome local (ignora prefixos de namespace como gx:)
+function childElements(parent: Element, name?: string): Element[] {
+  const result: Element[] = [];
+  for (const child of Array.from(parent.children)) {
+    if (!name || child.localName === name) result.push(child);
+  }
+  return result;
+}
+
+function childText(parent: Element, name: string): string | undefined {
+  const child = childElements(parent, name)[0];
+  return child?.textContent?.trim() ?? undefined;
+}
+
+function parseCoordinates(element: Element | undefined): Position[] {
+  const text = element?.textContent?.trim();
+  if (!text) return [];
+  const positions: Position[] = [];
+  for (const tuple of text.split(/\s+/)) {
+    const [lng, lat] = tuple.split(',').map(Number);
+    if (Number.isFinite(lng) && Number.isFinite(lat)) positions.push([lng, lat]);
+  }
+  return positions;
+}
+
+function parseRing(boundary: Element | undefined): Position[] {
+  const ring = boundary ? childElements(boundary, 'LinearRing')[0] : undefined;
+  return ring ? parseCoordinates(childElements(ring, 'coordinates')[0]) : [];
+}
+
+function parseGeometry(element: Element): Geometry | null {
+  switch (element.localName) {
+    case 'Point': {
+      const [position] = parseCoordinates(childElements(element, 'coordinates')[0]);
+      return position ? { type: 'Point', coordinates: position } : null;
+    }
+    case 'LineString': {
+      const coordinates = parseCoordinates(childElements(element, 'coordinates')[0]);
+      return coordinates.length >= 2 ? { type: 'LineString', coordinates } : null;
+    }
+    case 'LinearRing': {
+      const ring = parseCoordinates(childElements(element, 'coordinates')[0]);
+      return ring.length >= 4 ? { type: 'Polygon', coordinates: [ring] } : null;
+    }
+    case 'Polygon': {
+      const outer = parseRing(childElements(element, 'outerBoundaryIs')[0]);
+      if (outer.length < 4) return null;
+      const inner = childElements(element, 'innerBoundaryIs').map(parseRing).filter(r => r.length >= 4);
+      return { type: 'Polygon', coordinates: [outer, ...inner] };
+    }
+    case 'MultiGeometry': {
+      const parts = childElements(element).map(parseGeometry).filter((g): g is Geometry => !!g);
+      return combineGeometries(parts);
+    }
+    default:
+      return null;
+  }
+}
+
+// Junta as partes de um <MultiGeometry> no tipo Multi* correspondente (ou GeometryCollection se misturadas)
+function combineGeometries(parts: Geometry[]): Geometry | null {
+  if (!parts.length) return null;
+  if (parts.length === 1) return parts[0];
+  if (parts.every(g => g.type === 'Polygon' || g.type === 'MultiPolygon')) {
+    return { type: 'MultiPolygon', coordinates: parts.flatMap(g => (g.type === 'Polygon' ? [g.coordinates] : g.type === 'MultiPolygon' ? g.coordinates : [])) };
+  }
+  if (parts.every(g => g.type === 'LineString' || g.type === 'MultiLineString')) {
+    return { type: 'MultiLineString', coordinates: parts.flatMap(g => (g.type === 'LineString' ? [g.coordinates] : g.type === 'MultiLineString' ? g.coordinates : [])) };
+  }
+  if (parts.every(g => g.type === 'Point' || g.type === 'MultiPoint')) {
+    return { type: 'MultiPoint', coordinates: parts.flatMap(g => (g.type === 'Point' ? [g.coordinates] : g.type === 'MultiPoint' ? g.coordinates : [])) };
+  }
+  return { type: 'GeometryCollection', geometries: parts };
+}
+
+function parseStyle(element: Element): FeatureStyleProperties {
+  const style: FeatureStyleProperties = {};
+  const line = childElements(element, 'LineStyle')[0];
+  if (line) {
+    const color = fromKmlColor(childText(line, 'color') ?? '');
+    if (color) style.strokeColor = color.color;
+    const width = Number(childText(line, 'width') || NaN);
+    if (Number.isFinite(width)) style.strokeWidth = width;
+  }
+  const poly = childElements(element, 'PolyStyle')[0];
+  if (poly) {
+    const color = fromKmlColor(childText(poly, 'color') ?? '');
+    if (color) {
+      style.fillColor = color.color;
+      style.fillOpacity = color.opacity;
+    }
+    // <fill>0</fill> e <outline>0</outline> desligam preenchimento e borda
+    if (childText(poly, 'fill') === '0') style.fillOpacity = 0;
+    if (childText(poly, 'outline') === '0') style.strokeWidth = 0;
+  }
+  return style;
+}
+
+// Estilos compartilhados do documento: <Style id> e <StyleMap id> (usa o par "normal")
+function collectStyles(doc: Document): (url: string | undefined) => FeatureStyleProperties {
+  const styles = new Map<string, FeatureStyleProperties>();
+  const styleMaps = new Map<string, string>();
+  for (const element of Array.from(doc.getElementsByTagNameNS('*', 'Style'))) {
+    const id = element.getAttribute('id');
+    if (id) styles.set(id, parseStyle(element));
+  }
+  for (const element of Array.from(doc.getElementsByTagNameNS('*', 'StyleMap'))) {
+    const id = element.getAttribute('id');
+    const normal = childElements(element, 'Pair').find(pair => childText(pair, 'key') === 'normal');
+    const url = normal && childText(normal, 'styleUrl');
+    if (id && url) styleMaps.set(id, url);
+  }
+  const resolve = (url: string | undefined, depth = 0): FeatureStyleProperties => {
+    // Só estilos do próprio documento ("#id"); evita ciclos entre StyleMaps
+    if (!url || !url.startsWith('#') || depth > 4) return {};
+    const id = url.substring(1);
+    if (styles.has(id)) return styles.get(id)!;
+    return resolve(styleMaps.get(id), depth + 1);
+  };
+  return url => resolve(url);
+}
+
+// Valores do ExtendedData chegam como texto; números simples voltam a ser números
+function parseValue(text: string): string | number {
+  return /^-?(0|[1-9]\d*)(\.\d+)?$/.test(text) ? Number(text) : text;
+}
+
+function parseExtendedData(placemark: Element): Record<string, string | number> {
+  const data: Record<string, string | number> = {};
+  const extended = childElements(placemark, 'ExtendedData')[0];
+  if (!extended) return data;
+  for (const item of childElements(extended, 'Data')) {
+    const name = item.getAttribute('name');
+    if (name) data[name] = parseValue(childText(item, 'value') ?? '');
+  }
+  for (const schemaData of childElements(extended, 'SchemaData')) {
+    for (const item of childElements(schemaData, 'SimpleData')) {
+      const name = item.getAttribute('name');
+      if (name) data[name] = parseValue(item.textContent?.trim() ?? '');
+    }
+  }
+  return data;
+}
+
+function parsePlacemark(placemark: Element, folders: string[], resolveStyle: (url: string | undefined) => FeatureStyleProperties): Feature | null {
+  const geometryElement = childElements(placemark).find(el => ['Point', 'LineString', 'LinearRing', 'Polygon', 'MultiGeometry'].includes(el.localName));
+  const geometry = geometryElement ? parseGeometry(geometryElement) : null;
+  if (!geometry) return null;
+
+  // Estilo: o compartilhado (styleUrl) e por cima o embutido no próprio Placemark
+  const inline = childElements(placemark, 'Style')[0];
+  const style = { ...resolveStyle(childText(placemark, 'styleUrl')), ...(inline ? parseStyle(inline) : {}) };
+
+  const properties: GeoJsonProperties = { ...parseExtendedData(placemark), ...style };
+  const name = childText(placemark, 'name');
+  if (name) properties.labelText = name;
+  const description = childText(placemark, 'description');
+  if (description) properties.description = description;
+  if (folders.length) properties[folderProperty] = folders.join(folderSeparator);
+
+  const feature: Feature = { type: 'Feature', geometry, properties: withFillRgb(properties) };
+  const id = placemark.getAttribute('id');
+  if (id) feature.id = id;
+  return feature;
+}
+
+/**
+ * Lê um documento KML e converte os Placemarks em FeatureCollection.
+ * Estilos viram fillColor/fillOpacity/strokeColor/strokeWidth, `<name>` vira `labelText`
+ * e o caminho das pastas fica em `folder`.
+ */
+export function parseKml(text: string): FeatureCollection {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('KML inválido: não foi possível ler o XML');
+  const resolveStyle = collectStyles(doc);
+  const features: Feature[] = [];
+
+  const walk = (parent: Element, folders: string[]) => {
+    for (const child of childElements(parent)) {
+      if (child.localName === 'Folder') walk(child, [...folders, childText(child, 'name') || 'Pasta']);
+      else if (child.localName === 'Document') walk(child, folders);
+      else if (child.localName === 'Placemark') {
+        const feature = parsePlacemark(child, folders, resolveStyle);
+        if (feature) features.push(feature);
+      }
+    }
+  };
+  walk(doc.documentElement, []);
+
+  return { type: 'FeatureCollection', features };
+}
+
+/** Lê um KMZ (zip): usa o doc.kml da raiz ou, na falta dele, o primeiro .kml encontrado */
+export function readKmz(data: ArrayBuffer | Uint8Array): FeatureCollection {
+  const files = unzipSync(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const names = Object.keys(files);
+  const entry = names.find(n => n.toLowerCase() === 'doc.kml') ?? names.find(n => n.toLowerCase().endsWith('.kml'));
+  if (!entry) throw new Error('KMZ sem arquivo .kml');
+  return parseKml(strFromU8(files[entry]));
+}
+
+// -------- Escrita --------
+
+export type KmlWriteOptions = {
+  /** Nome do documento (aparece no Google Earth) */
+  name?: string;
+};
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c]!);
+}
+
+const formatPositions = (positions: Position[]) => positions.map(p => `${p[0]},${p[1]}`).join(' ');
+
+function polygonToKml(rings: Position[][]): string {
+  const [outer, ...inner] = rings;
+  const boundary = (tag: string, ring: Position[]) => `<${tag}><LinearRing><coordinates>${formatPositions(ring)}</coordinates></LinearRing></${tag}>`;
+  return `<Polygon>${boundary('outerBoundaryIs', outer)}${inner.map(r => boundary('innerBoundaryIs', r)).join('')}</Polygon>`;
+}
+
+function geometryToKml(geometry: Geometry): string {
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point><coordinates>${formatPositions([geometry.coordinates])}</coordinates></Point>`;
+    case 'MultiPoint':
+      return `<MultiGeometry>${geometry.coordinates.map(p => geometryToKml({ type: 'Point', coordinates: p })).join('')}</MultiGeometry>`;
+    case 'LineString':
+      return `<LineString><coordinates>${formatPositions(geometry.coordinates)}</coordinates></LineString>`;
+    case 'MultiLineString':
+      return `<MultiGeometry>${geometry.coordinates.map(l => geometryToKml({ type: 'LineString', coordinates: l })).join('')}</MultiGeometry>`;
+    case 'Polygon':
+      return polygonToKml(geometry.coordinates);
+    case 'MultiPolygon':
+      return `<MultiGeometry>${geometry.coordinates.map(polygonToKml).join('')}</MultiGeometry>`;
+    case 'GeometryCollection':
+      return `<MultiGeometry>${geometry.geometries.map(geometryToKml).join('')}</MultiGeometry>`;
+  }
+}
+
+function styleToKml(properties: NonNullable<GeoJsonProperties>): string {
+  let style = '';
+  if (properties.strokeColor || typeof properties.strokeWidth === 'number') {
+    style += '<LineStyle>';
+    style += `<color>${toKmlColor(properties.strokeColor || '#000000')}</color>`;
+    if (typeof properties.strokeWidth === 'number') style += `<width>${properties.strokeWidth}</width>`;
+    style += '</LineStyle>';
+  }
+  if (properties.fillColor) {
+    const opacity = typeof properties.fillOpacity === 'number' ? properties.fillOpacity : 1;
+    style += `<PolyStyle><color>${toKmlColor(properties.fillColor, opacity)}</color></PolyStyle>`;
+  }
+  return style ? `<Style>${style}</Style>` : '';
+}
+
+function placemarkToKml(feature: Feature): string {
+  if (!feature.geometry) return '';
+  const properties = feature.properties || {};
+  const id = feature.id !== undefined && feature.id !== null ? ` id="${escapeXml(String(feature.id))}"` : '';
+  let kml = `<Placemark${id}>`;
+  if (properties.labelText) kml += `<name>${escapeXml(String(properties.labelText))}</name>`;
+  if (properties.description) kml += `<description>${escapeXml(String(properties.description))}</description>`;
+  kml += styleToKml(properties);
+  const data = Object.entries(properties).filter(([key, value]) => !reservedProperties.has(key) && value !== null && value !== undefined);
+  if (data.length) {
+    kml += '<ExtendedData>';
+    for (const [key, value] of data) {
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      kml += `<Data name="${escapeXml(key)}"><value>${escapeXml(text)}</value></Data>`;
+    }
+    kml += '</ExtendedData>';
+  }
+  return `${kml}${geometryToKml(feature.geometry)}</Placemark>`;
+}
+
+// Árvore de pastas reconstruída a partir da propriedade `folder`
+type FolderNode = { features: Feature[]; folders: Map<string, FolderNode> };
+
+function folderToKml(node: FolderNode): string {
+  let kml = node.features.map(placemarkToKml).join('\n');
+  for (const [name, child] of node.folders) {
+    kml += `\n<Folder><name>${escapeXml(name)}</name>\n${folderToKml(child)}\n</Folder>`;
+  }
+  return kml;
+}
+
+/** Converte a coleção em KML, recriando as pastas a partir de `folder` e os estilos de cada feição */
+export function toKml(collection: FeatureCollection, options: KmlWriteOptions = {}): string {
+  const root: FolderNode = { features: [], folders: new Map() };
+  for (const feature of collection.features) {
+    const path = feature.properties?.[folderProperty];
+    let node = root;
+    if (typeof path === 'string' && path) {
+      for (const name of path.split(folderSeparator)) {
+        if (!node.folders.has(name)) node.folders.set(name, { features: [], folders: new Map() });
+        node = node.folders.get(name)!;
+      }
+    }
+    node.features.push(feature);
+  }
+  const name = options.name ? `<name>${escapeXml(options.name)}</name>\n` : '';
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<kml xmlns="http://www.opengis.net/kml/2.2">\n<Document>\n${name}${folderToKml(root)}\n</Document>\n</kml>\n`;
+}
+
+/** Gera um KMZ (zip com doc.kml) a partir da coleção */
+export function writeKmz(collection: FeatureCollection, options: KmlWriteOptions = {}): Uint8Array {
+  return zipSync({ 'doc.kml': strToU8(toKml(collection, options)) });
+}
@@ -0,0 +1,246 @@
+import { zlibSync } from 'fflate';
+
+// ===============================
+// Escrita de PDF: o mínimo para a planta impressa (texto, linhas, polígonos e imagens JPEG)
+// ===============================
+
+/** Tamanho das folhas em pontos (1/72 de polegada), em retrato */
+export const pdfPaperSizes = {
+  A4: [595.28, 841.89],
+  A3: [841.89, 1190.55],
+} as const;
+
+export type PdfFont = 'regular' | 'bold';
+
+export type PdfTextOptions = {
+  size?: number;
+  font?: PdfFont;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+  /** Rotação em graus, anti-horária (90 = texto de baixo para cima) */
+  angle?: number;
+};
+
+export type PdfShapeOptions = {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+  /** Tracejado: comprimentos do traço e do espaço (pt) */
+  dash?: number[];
+};
+
+/**
+ * Página em construção. As coordenadas são em pontos, com a origem no canto superior esquerdo
+ * (y para baixo, como no canvas); a conversão para o sistema do PDF é feita aqui
+ */
+export type PdfPage = {
+  width: number;
+  height: number;
+  text: (text: string, x: number, y: number, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: PdfShapeOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, options?: PdfShapeOptions) => void;
+  polygon: (points: [number, number][], options?: PdfShapeOptions) => void;
+  image: (name: string, x: number, y: number, width: number, height: number) => void;
+  /** Limita os desenhos seguintes ao retângulo, até o `restore` */
+  clip: (x: number, y: number, width: number, height: number) => void;
+  restore: () => void;
+};
+
+export type PdfDocument = {
+  addPage: (width: number, height: number) => PdfPage;
+  /** Registra uma imagem JPEG e retorna o nome usado em `page.image` */
+  addJpeg: (data: Uint8Array, width: number, height: number) => string;
+  toBytes: () => Uint8Array;
+};
+
+// Larguras da Helvetica (AFM padrão, em milésimos do tamanho da fonte) do espaço (32) ao til (126)
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Caracteres fora do Latin-1 que existem na WinAnsiEncoding
+const winAnsiExtras: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99,
+};
+
+// Texto em WinAnsi (um caractere por byte); o que não existe na codificação vira "?"
+function toWinAnsi(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (winAnsiExtras[char]) out += String.fromCharCode(winAnsiExtras[char]);
+    else out += code < 256 && !(code >= 0x80 && code < 0xa0) ? char : '?';
+  }
+  return out;
+}
+
+/** Largura aproximada do texto em pontos (letras acentuadas medem como a letra base) */
+export function pdfTextWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  let total = 0;
+  for (const char of text.normalize('NFD').replace(/[\u0300-\u036f]/g, '')) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? helveticaWidths[code - 32] : 556;
+  }
+  return (total / 1000) * size * (font === 'bold' ? 1.06 : 1);
+}
+
+/** Corta o texto com "…" para caber na largura */
+export function pdfFitText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string {
+  if (pdfTextWidth(text, size, font) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && pdfTextWidth(`${fitted}…`, size, font) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted}…`;
+}
+
+const escapeText = (text: string) => toWinAnsi(text).replace(/[\\()]/g, m => `\\${m}`);
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+function rgb(color: string): string {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex.slice(0, 6);
+  const parts = [0, 2, 4].map(i => parseInt(full.substring(i, i + 2), 16) / 255);
+  return parts.map(p => num(Number.isFinite(p) ? p : 0)).join(' ');
+}
+
+// Bytes de um texto já codificado em um caractere por byte
+function latin1Bytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+/** Cria um documento PDF vazio (Helvetica e Helvetica Bold como fontes) */
+export function createPdfDocument(): PdfDocument {
+  const pages: { width: number; height: number; content: string[] }[] = [];
+  const images: { name: string; data: Uint8Array; width: number; height: number }[] = [];
+
+  function shapeOperators(options: PdfShapeOptions): { prefix: string; paint: string } {
+    let prefix = '';
+    if (options.fill) prefix += `${rgb(options.fill)} rg `;
+    if (options.stroke) prefix += `${rgb(options.stroke)} RG ${num(options.lineWidth ?? 1)} w `;
+    prefix += `[${(options.dash ?? []).map(num).join(' ')}] 0 d `;
+    const paint = options.fill && options.stroke ? 'B' : options.fill ? 'f' : options.stroke ? 'S' : 'n';
+    return { prefix, paint };
+  }
+
+  return {
+    addPage: (width, height) => {
+      const content: string[] = [];
+      pages.push({ width, height, content });
+      const y = (value: number) => num(height - value);
+      return {
+        width,
+        height,
+        text: (text, x, top, options = {}) => {
+          const size = options.size ?? 10;
+          const font = options.font ?? 'regular';
+          const textWidth = pdfTextWidth(text, size, font);
+          const shift = options.align === 'right' ? textWidth : options.align === 'center' ? textWidth / 2 : 0;
+          const angle = ((options.angle ?? 0) * Math.PI) / 180;
+          const cos = Math.cos(angle);
+          const sin = Math.sin(angle);
+          // O alinhamento desloca ao longo da direção do texto
+          const tx = x - shift * cos;
+          const ty = height - top - shift * sin;
+          content.push(
+            `BT /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(options.color ?? '#000000')} rg ` +
+            `${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${num(tx)} ${num(ty)} Tm (${escapeText(text)}) Tj ET`,
+          );
+        },
+        line: (x1, y1, x2, y2, options = {}) => {
+          const { prefix } = shapeOperators({ stroke: '#000000', ...options, fill: undefined });
+          content.push(`q ${prefix}${num(x1)} ${y(y1)} m ${num(x2)} ${y(y2)} l S Q`);
+        },
+        rect: (x, top, w, h, options = {}) => {
+          const { prefix, paint } = shapeOperators(options);
+          content.push(`q ${prefix}${num(x)} ${y(top + h)} ${num(w)} ${num(h)} re ${paint} Q`);
+        },
+        polygon: (points, options = {}) => {
+          if (!points.length) return;
+          const { prefix, paint } = shapeOperators(options);
+          const path = points.map(([px, py], i) => `${num(px)} ${y(py)} ${i ? 'l' : 'm'}`).join(' ');
+          content.push(`q ${prefix}${path} h ${paint} Q`);
+        },
+        image: (name, x, top, w, h) => {
+          content.push(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${y(top + h)} cm /${name} Do Q`);
+        },
+        clip: (x, top, w, h) => {
+          content.push(`q ${num(x)} ${y(top + h)} ${num(w)} ${num(h)} re W n`);
+        },
+        restore: () => {
+          content.push('Q');
+        },
+      };
+    },
+    addJpeg: (data, width, height) => {
+      const name = `Im${images.length + 1}`;
+      images.push({ name, data, width, height });
+      return name;
+    },
+    toBytes: () => {
+      const chunks: Uint8Array[] = [];
+      const offsets: number[] = [];
+      let length = 0;
+      const push = (bytes: Uint8Array) => {
+        chunks.push(bytes);
+        length += bytes.length;
+      };
+      const object = (id: number, body: string, stream?: Uint8Array) => {
+        offsets[id] = length;
+        push(latin1Bytes(`${id} 0 obj\n${body}\n`));
+        if (stream) {
+          push(latin1Bytes('stream\n'));
+          push(stream);
+          push(latin1Bytes('\nendstream\n'));
+        }
+        push(latin1Bytes('endobj\n'));
+      };
+
+      // 1: catálogo, 2: páginas, 3-4: fontes, depois imagens e, por página, a página e seu conteúdo
+      const imageIds = images.map((_, i) => 5 + i);
+      const pageIds = pages.map((_, i) => 5 + images.length + i * 2);
+      push(latin1Bytes('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'));
+      object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+      object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+      object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+      images.forEach((image, i) => {
+        object(
+          imageIds[i],
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+          image.data,
+        );
+      });
+      const xObjects = images.map((image, i) => `/${image.name} ${imageIds[i]} 0 R`).join(' ');
+      pages.forEach((page, i) => {
+        const stream = zlibSync(latin1Bytes(page.content.join('\n')));
+        object(
+          pageIds[i],
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+        );
+        object(pageIds[i] + 1, `<< /Length ${stream.length} /Filter /FlateDecode >>`, stream);
+      });
+
+      const count = 5 + images.length + pages.length * 2;
+      const xrefOffset = length;
+      let xref = `xref\n0 ${count}\n0000000000 65535 f \n`;
+      for (let id = 1; id < count; id++) xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+      push(latin1Bytes(`${xref}trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`));
+
+      const bytes = new Uint8Array(length);
+      let offset = 0;
+      for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+      }
+      return bytes;
+    },
+  };
+}
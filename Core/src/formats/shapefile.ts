@@ -0,0 +1,493 @@
+import type { Feature, FeatureCollection, GeoJsonProperties, Geometry, Position } from 'geojson';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { crsFromPrj, crsToPrj, mapGeometryPositions, projectPosition, sirgas2000, unprojectPosition, type CrsDefinition } from '../crs';
+import { pointInRing, ringSignedArea } from '../geometry';
+import { withFillRgb } from '../style';
+
+// ===============================
+// ESRI Shapefile compactado (.zip com .shp/.shx/.dbf/.prj)
+// ===============================
+
+/**
+ * Nomes de campo do DBF têm no máximo 10 caracteres: as propriedades conhecidas
+ * usam apelidos fixos para voltarem com o nome original na importação.
+ */
+const fieldAliases: Record<string, string> = {
+  fillOpacity: 'fillOpac',
+  strokeColor: 'strokeCol',
+  strokeWidth: 'strokeWid',
+  areaAlqueires: 'areaAlq',
+  perimeterKm: 'perimKm',
+};
+const aliasToProperty = Object.fromEntries(Object.entries(fieldAliases).map(([property, alias]) => [alias.toLowerCase(), property]));
+/** Campo do DBF que guarda o id da feição (volta como `feature.id` na importação) */
+const featureIdField = 'feature_id';
+
+const shapeNull = 0;
+const shapePoint = 1;
+const shapePolyLine = 3;
+const shapePolygon = 5;
+const shapeMultiPoint = 8;
+
+// -------- Leitura --------
+
+/**
+ * No shapefile os anéis externos são horários e os buracos anti-horários.
+ * Agrupa cada buraco no anel externo que o contém e devolve na orientação do GeoJSON (RFC 7946).
+ */
+function ringsToPolygons(rings: Position[][]): Position[][][] {
+  const polygons: Position[][][] = [];
+  const holes: Position[][] = [];
+  for (const ring of rings) {
+    if (ring.length < 4) continue;
+    if (ringSignedArea(ring) <= 0) polygons.push([ring]);
+    else holes.push(ring);
+  }
+  for (const hole of holes) {
+    const owner = polygons.find(polygon => pointInRing(hole[0], polygon[0]));
+    // Buraco sem anel externo: provavelmente orientação invertida, vira polígono
+    if (owner) owner.push(hole);
+    else polygons.push([hole]);
+  }
+  return polygons.map(polygon => polygon.map(ring => [...ring].reverse()));
+}
+
+function readParts(view: DataView, offset: number): Position[][] {
+  const numParts = view.getInt32(offset + 36, true);
+  const numPoints = view.getInt32(offset + 40, true);
+  const partsOffset = offset + 44;
+  const pointsOffset = partsOffset + numParts * 4;
+  const parts: Position[][] = [];
+  for (let p = 0; p < numParts; p++) {
+    const start = view.getInt32(partsOffset + p * 4, true);
+    const end = p + 1 < numParts ? view.getInt32(partsOffset + (p + 1) * 4, true) : numPoints;
+    const part: Position[] = [];
+    for (let i = start; i < end; i++) {
+      part.push([view.getFloat64(pointsOffset + i * 16, true), view.getFloat64(pointsOffset + i * 16 + 8, true)]);
+    }
+    parts.push(part);
+  }
+  return parts;
+}
+
+// Variantes Z (11, 13, 15, 18) e M (21, 23, 25, 28): mesmo início XY do tipo 2D
+const shapeBaseTypes: Record<number, number> = {
+  11: shapePoint, 13: shapePolyLine, 15: shapePolygon, 18: shapeMultiPoint,
+  21: shapePoint, 23: shapePolyLine, 25: shapePolygon, 28: shapeMultiPoint,
+};
+const shapeMultiPatch = 31;
+
+// Lê uma geometria do .shp (as variantes Z e M são lidas em 2D)
+function readShape(view: DataView, offset: number): Geometry | null {
+  const rawType = view.getInt32(offset, true);
+  if (rawType === shapeMultiPatch) throw new Error('Shapefile MultiPatch (superfícies 3D) não é suportado');
+  const type = shapeBaseTypes[rawType] ?? rawType;
+  switch (type) {
+    case shapePoint:
+      return { type: 'Point', coordinates: [view.getFloat64(offset + 4, true), view.getFloat64(offset + 12, true)] };
+    case shapeMultiPoint: {
+      const numPoints = view.getInt32(offset + 36, true);
+      const coordinates: Position[] = [];
+      for (let i = 0; i < numPoints; i++) coordinates.push([view.getFloat64(offset + 40 + i * 16, true), view.getFloat64(offset + 48 + i * 16, true)]);
+      return coordinates.length === 1 ? { type: 'Point', coordinates: coordinates[0] } : { type: 'MultiPoint', coordinates };
+    }
+    case shapePolyLine: {
+      const lines = readParts(view, offset).filter(line => line.length >= 2);
+      if (!lines.length) return null;
+      return lines.length === 1 ? { type: 'LineString', coordinates: lines[0] } : { type: 'MultiLineString', coordinates: lines };
+    }
+    case shapePolygon: {
+      const polygons = ringsToPolygons(readParts(view, offset));
+      if (!polygons.length) return null;
+      return polygons.length === 1 ? { type: 'Polygon', coordinates: polygons[0] } : { type: 'MultiPolygon', coordinates: polygons };
+    }
+    default:
+      return null;
+  }
+}
+
+function readShp(buffer: Uint8Array): (Geometry | null)[] {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  if (view.getInt32(0, false) !== 9994) throw new Error('Arquivo .shp inválido');
+  const length = Math.min(view.getInt32(24, false) * 2, buffer.byteLength);
+  const geometries: (Geometry | null)[] = [];
+  let offset = 100;
+  while (offset + 8 <= length) {
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    geometries.push(contentLength >= 4 ? readShape(view, offset + 8) : null);
+    offset += 8 + contentLength;
+  }
+  return geometries;
+}
+
+// Texto do DBF: usa o .cpg quando existe; sem ele tenta UTF-8 e cai para Windows-1252 (comum em arquivos do CAR)
+function createDecoder(bytes: Uint8Array, codePage?: string): TextDecoder {
+  if (codePage) {
+    const label = codePage.trim().toLowerCase().replace(/^ansi\s*/, 'windows-');
+    try {
+      return new TextDecoder(/^\d+$/.test(label) ? `windows-${label}` : label);
+    } catch {
+      // Página de código desconhecida: segue com a detecção abaixo
+    }
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return new TextDecoder('utf-8');
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
+
+type DbfField = { name: string; type: string; length: number; decimals: number };
+
+function readDbf(buffer: Uint8Array, codePage?: string): Record<string, unknown>[] {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+  const decoder = createDecoder(buffer.subarray(headerLength), codePage);
+
+  const fields: DbfField[] = [];
+  for (let offset = 32; offset + 32 <= headerLength && buffer[offset] !== 0x0d; offset += 32) {
+    const nameBytes = buffer.subarray(offset, offset + 11);
+    const end = nameBytes.indexOf(0);
+    fields.push({
+      name: strFromU8(end >= 0 ? nameBytes.subarray(0, end) : nameBytes).trim(),
+      type: String.fromCharCode(buffer[offset + 11]).toUpperCase(),
+      length: buffer[offset + 16],
+      decimals: buffer[offset + 17],
+    });
+  }
+
+  const records: Record<string, unknown>[] = [];
+  for (let r = 0; r < recordCount; r++) {
+    let offset = headerLength + r * recordLength;
+    if (offset + recordLength > buffer.byteLength) break;
+    const deleted = buffer[offset] === 0x2a; // '*'
+    offset++;
+    const record: Record<string, unknown> = {};
+    for (const field of fields) {
+      const raw = decoder.decode(buffer.subarray(offset, offset + field.length)).trim();
+      offset += field.length;
+      const name = aliasToProperty[field.name.toLowerCase()] ?? field.name;
+      record[name] = parseDbfValue(raw, field.type);
+    }
+    // Registros apagados mantêm a posição para continuar alinhados com o .shp
+    records.push(deleted ? {} : record);
+  }
+  return records;
+}
+
+function parseDbfValue(raw: string, type: string): unknown {
+  if (type === 'N' || type === 'F') {
+    if (!raw || /^\*+$/.test(raw)) return null;
+    const value = Number(raw);
+    return Number.isFinite(value) ? value : null;
+  }
+  if (type === 'L') {
+    if (/^[TtYy]$/.test(raw)) return true;
+    if (/^[FfNn]$/.test(raw)) return false;
+    return null;
+  }
+  if (type === 'D') return /^\d{8}$/.test(raw) ? `${raw.substring(0, 4)}-${raw.substring(4, 6)}-${raw.substring(6, 8)}` : null;
+  return raw;
+}
+
+/**
+ * Lê um shapefile compactado (.zip). Reprojeta para WGS84 conforme o .prj
+ * (SIRGAS 2000 geográfico ou UTM) e converte os atributos do DBF em propriedades.
+ * Zips com vários shapefiles são lidos todos na mesma coleção.
+ */
+export function readShapefileZip(data: ArrayBuffer | Uint8Array): FeatureCollection {
+  const files = unzipSync(data instanceof Uint8Array ? data : new Uint8Array(data));
+  // Agrupa os arquivos pelo nome base (sem extensão, sem diferenciar maiúsculas)
+  const byBase = new Map<string, Record<string, Uint8Array>>();
+  for (const [path, content] of Object.entries(files)) {
+    const match = /^(.*)\.([^./]+)$/.exec(path);
+    if (!match || path.startsWith('__MACOSX/')) continue;
+    const base = match[1].toLowerCase();
+    if (!byBase.has(base)) byBase.set(base, {});
+    byBase.get(base)![match[2].toLowerCase()] = content;
+  }
+
+  if (![...byBase.values()].some(parts => parts.shp)) throw new Error('Zip sem arquivo .shp');
+
+  const features: Feature[] = [];
+  for (const parts of byBase.values()) {
+    if (!parts.shp) continue;
+    const geometries = readShp(parts.shp);
+    const records = parts.dbf ? readDbf(parts.dbf, parts.cpg && strFromU8(parts.cpg)) : [];
+    const crs = parts.prj ? crsFromPrj(strFromU8(parts.prj)) : guessCrs(geometries);
+    geometries.forEach((geometry, index) => {
+      if (!geometry) return;
+      const { [featureIdField]: id, ...record } = records[index] ?? {};
+      const properties = withFillRgb(record as GeoJsonProperties);
+      const feature: Feature = { type: 'Feature', geometry: mapGeometryPositions(geometry, p => unprojectPosition(p, crs)), properties };
+      if (typeof id === 'string' || typeof id === 'number') feature.id = id;
+      features.push(feature);
+    });
+  }
+  return { type: 'FeatureCollection', features };
+}
+
+// Sem .prj: aceita só coordenadas que já parecem geográficas (graus)
+function guessCrs(geometries: (Geometry | null)[]): CrsDefinition {
+  let geographic = true;
+  for (const geometry of geometries) {
+    if (!geometry) continue;
+    mapGeometryPositions(geometry, p => {
+      if (Math.abs(p[0]) > 180 || Math.abs(p[1]) > 90) geographic = false;
+      return p;
+    });
+  }
+  if (!geographic) throw new Error('Shapefile sem .prj com coordenadas projetadas: não é possível saber o fuso');
+  return sirgas2000;
+}
+
+// -------- Escrita --------
+
+export type ShapefileWriteOptions = {
+  /** Sistema de coordenadas de destino (padrão: SIRGAS 2000 geográfico) */
+  crs?: CrsDefinition;
+  /** Nome base dos arquivos dentro do zip */
+  baseName?: string;
+};
+
+type ShapeGroup = { suffix: string; shapeType: number; features: Feature[] };
+
+// Um shapefile só guarda um tipo de geometria: separa pontos, linhas e polígonos
+function groupByShapeType(features: Feature[]): ShapeGroup[] {
+  const points = features.filter(f => f.geometry?.type === 'Point' || f.geometry?.type === 'MultiPoint');
+  const lines = features.filter(f => f.geometry?.type === 'LineString' || f.geometry?.type === 'MultiLineString');
+  const polygons = features.filter(f => f.geometry?.type === 'Polygon' || f.geometry?.type === 'MultiPolygon');
+  const pointType = points.some(f => f.geometry?.type === 'MultiPoint') ? shapeMultiPoint : shapePoint;
+  return [
+    { suffix: 'poligonos', shapeType: shapePolygon, features: polygons },
+    { suffix: 'linhas', shapeType: shapePolyLine, features: lines },
+    { suffix: 'pontos', shapeType: pointType, features: points },
+  ].filter(group => group.features.length);
+}
+
+type Bounds = [number, number, number, number];
+
+function boundsOf(positions: Position[]): Bounds {
+  const bounds: Bounds = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [x, y] of positions) {
+    bounds[0] = Math.min(bounds[0], x);
+    bounds[1] = Math.min(bounds[1], y);
+    bounds[2] = Math.max(bounds[2], x);
+    bounds[3] = Math.max(bounds[3], y);
+  }
+  return bounds;
+}
+
+// Partes (anéis ou linhas) gravadas no registro, já na orientação do shapefile
+function shapeParts(geometry: Geometry): Position[][] {
+  switch (geometry.type) {
+    case 'LineString':
+      return [geometry.coordinates];
+    case 'MultiLineString':
+      return geometry.coordinates;
+    case 'Polygon':
+    case 'MultiPolygon': {
+      const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+      // Externo horário, buracos anti-horários
+      return polygons.flatMap(rings => rings.map((ring, i) => ((ringSignedArea(ring) < 0) === (i === 0) ? ring : [...ring].reverse())));
+    }
+    case 'Point':
+      return [[geometry.coordinates]];
+    case 'MultiPoint':
+      return [geometry.coordinates];
+    default:
+      return [];
+  }
+}
+
+function encodeShape(geometry: Geometry | null, shapeType: number): Uint8Array {
+  if (!geometry) {
+    const content = new DataView(new ArrayBuffer(4));
+    content.setInt32(0, shapeNull, true);
+    return new Uint8Array(content.buffer);
+  }
+  const parts = shapeParts(geometry);
+  const positions = parts.flat();
+  if (shapeType === shapePoint) {
+    const view = new DataView(new ArrayBuffer(20));
+    view.setInt32(0, shapePoint, true);
+    view.setFloat64(4, positions[0][0], true);
+    view.setFloat64(12, positions[0][1], true);
+    return new Uint8Array(view.buffer);
+  }
+  const bounds = boundsOf(positions);
+  const hasParts = shapeType !== shapeMultiPoint;
+  const headerSize = hasParts ? 44 + parts.length * 4 : 40;
+  const view = new DataView(new ArrayBuffer(headerSize + positions.length * 16));
+  view.setInt32(0, shapeType, true);
+  bounds.forEach((value, i) => view.setFloat64(4 + i * 8, value, true));
+  if (hasParts) {
+    view.setInt32(36, parts.length, true);
+    view.setInt32(40, positions.length, true);
+    let start = 0;
+    parts.forEach((part, i) => {
+      view.setInt32(44 + i * 4, start, true);
+      start += part.length;
+    });
+  } else {
+    view.setInt32(36, positions.length, true);
+  }
+  positions.forEach(([x, y], i) => {
+    view.setFloat64(headerSize + i * 16, x, true);
+    view.setFloat64(headerSize + i * 16 + 8, y, true);
+  });
+  return new Uint8Array(view.buffer);
+}
+
+function writeShpHeader(view: DataView, fileLength: number, shapeType: number, bounds: Bounds) {
+  view.setInt32(0, 9994, false);
+  view.setInt32(24, fileLength / 2, false);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, shapeType, true);
+  bounds.forEach((value, i) => view.setFloat64(36 + i * 8, Number.isFinite(value) ? value : 0, true));
+}
+
+function writeShpAndShx(geometries: (Geometry | null)[], shapeType: number): { shp: Uint8Array; shx: Uint8Array } {
+  const contents = geometries.map(g => encodeShape(g, shapeType));
+  const shpLength = 100 + contents.reduce((sum, c) => sum + 8 + c.length, 0);
+  const shxLength = 100 + contents.length * 8;
+  const shp = new Uint8Array(shpLength);
+  const shx = new Uint8Array(shxLength);
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+  const bounds = boundsOf(geometries.flatMap(g => (g ? shapeParts(g).flat() : [])));
+  writeShpHeader(shpView, shpLength, shapeType, bounds);
+  writeShpHeader(shxView, shxLength, shapeType, bounds);
+
+  let offset = 100;
+  contents.forEach((content, i) => {
+    shpView.setInt32(offset, i + 1, false);
+    shpView.setInt32(offset + 4, content.length / 2, false);
+    shp.set(content, offset + 8);
+    shxView.setInt32(100 + i * 8, offset / 2, false);
+    shxView.setInt32(104 + i * 8, content.length / 2, false);
+    offset += 8 + content.length;
+  });
+  return { shp, shx };
+}
+
+type DbfColumn = DbfField & { property: string };
+
+const maxCharLength = 254;
+const numericLength = 19;
+const maxDecimals = 10;
+
+// Casas decimais necessárias (até 10) para o número voltar igual; não depende do String(), que usa expoente em 1e-7
+function decimalPlaces(value: number): number {
+  for (let decimals = 0; decimals < maxDecimals; decimals++) {
+    if (Number(value.toFixed(decimals)) === value) return decimals;
+  }
+  return maxDecimals;
+}
+
+// Define nome (até 10 caracteres, sem repetir), tipo e tamanho de cada coluna do DBF
+function buildColumns(properties: GeoJsonProperties[]): DbfColumn[] {
+  const keys: string[] = [];
+  for (const props of properties) {
+    for (const key of Object.keys(props || {})) if (!keys.includes(key)) keys.push(key);
+  }
+  const used = new Set<string>();
+  return keys.map(property => {
+    const values = properties.map(p => p?.[property]).filter(v => v !== null && v !== undefined);
+    let name = (fieldAliases[property] ?? property).replace(/[^A-Za-z0-9_]/g, '_').substring(0, 10) || 'campo';
+    for (let n = 1; used.has(name.toLowerCase()); n++) name = `${name.substring(0, 10 - String(n).length)}${n}`;
+    used.add(name.toLowerCase());
+
+    if (values.length && values.every(v => typeof v === 'number' && Number.isFinite(v))) {
+      const decimals = values.reduce<number>((max, v) => Math.max(max, decimalPlaces(v as number)), 0);
+      return { property, name, type: 'N', length: numericLength, decimals };
+    }
+    if (values.length && values.every(v => typeof v === 'boolean')) return { property, name, type: 'L', length: 1, decimals: 0 };
+    const length = Math.min(maxCharLength, values.reduce<number>((max, v) => Math.max(max, strToU8(formatCharValue(v)).length), 1));
+    return { property, name, type: 'C', length, decimals: 0 };
+  });
+}
+
+function formatCharValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Corta no limite de bytes sem quebrar um caractere UTF-8 no meio
+function truncateUtf8(bytes: Uint8Array, length: number): Uint8Array {
+  if (bytes.length <= length) return bytes;
+  let end = length;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.subarray(0, end);
+}
+
+function writeDbf(properties: GeoJsonProperties[], columns: DbfColumn[]): Uint8Array {
+  const headerLength = 32 + columns.length * 32 + 1;
+  const recordLength = 1 + columns.reduce((sum, c) => sum + c.length, 0);
+  const buffer = new Uint8Array(headerLength + properties.length * recordLength + 1);
+  const view = new DataView(buffer.buffer);
+  const now = new Date();
+  buffer[0] = 0x03;
+  buffer[1] = now.getFullYear() - 1900;
+  buffer[2] = now.getMonth() + 1;
+  buffer[3] = now.getDate();
+  view.setUint32(4, properties.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  columns.forEach((column, i) => {
+    const offset = 32 + i * 32;
+    buffer.set(strToU8(column.name), offset);
+    buffer[offset + 11] = column.type.charCodeAt(0);
+    buffer[offset + 16] = column.length;
+    buffer[offset + 17] = column.decimals;
+  });
+  buffer[headerLength - 1] = 0x0d;
+
+  properties.forEach((props, r) => {
+    let offset = headerLength + r * recordLength;
+    buffer.fill(0x20, offset, offset + recordLength);
+    offset++;
+    for (const column of columns) {
+      const value = props?.[column.property];
+      if (value !== null && value !== undefined) {
+        let bytes: Uint8Array;
+        if (column.type === 'N') bytes = strToU8(Number(value).toFixed(column.decimals).padStart(column.length).substring(0, column.length));
+        else if (column.type === 'L') bytes = strToU8(value ? 'T' : 'F');
+        else bytes = truncateUtf8(strToU8(formatCharValue(value)), column.length);
+        buffer.set(bytes, offset);
+      }
+      offset += column.length;
+    }
+  });
+  buffer[buffer.length - 1] = 0x1a;
+  return buffer;
+}
+
+/**
+ * Gera um shapefile compactado (.zip) no sistema de destino escolhido.
+ * Pontos, linhas e polígonos vão em shapefiles separados (o formato só aceita um tipo por arquivo);
+ * as propriedades, inclusive as de estilo, viram campos do DBF (UTF-8, indicado no .cpg).
+ */
+export function writeShapefileZip(collection: FeatureCollection, options: ShapefileWriteOptions = {}): Uint8Array {
+  const crs = options.crs ?? sirgas2000;
+  const baseName = options.baseName ?? 'desenhos';
+  const groups = groupByShapeType(collection.features);
+  if (!groups.length) throw new Error('Não há pontos, linhas ou polígonos para exportar em shapefile');
+
+  const files: Record<string, Uint8Array> = {};
+  for (const group of groups) {
+    const name = groups.length === 1 ? baseName : `${baseName}_${group.suffix}`;
+    const geometries = group.features.map(f => (f.geometry ? mapGeometryPositions(f.geometry, p => projectPosition(p, crs)) : null));
+    const properties = group.features.map(f => (f.id !== undefined ? { [featureIdField]: String(f.id), ...f.properties } : f.properties));
+    const { shp, shx } = writeShpAndShx(geometries, group.shapeType);
+    files[`${name}.shp`] = shp;
+    files[`${name}.shx`] = shx;
+    files[`${name}.dbf`] = writeDbf(properties, buildColumns(properties));
+    files[`${name}.prj`] = strToU8(crsToPrj(crs));
+    files[`${name}.cpg`] = strToU8('UTF-8');
+  }
+  return zipSync(files);
+}
@@ -0,0 +1,195 @@
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+
+// ===============================
+// Utilitários geométricos compartilhados
+// ===============================
+
+/** Vértice candidato a rótulo de coordenada: posição [lng, lat] e ângulo (graus) do segmento seguinte */
+export type VertexEntry = { coord: [number, number]; angle: number };
+
+/** Caixa envolvente [[oeste, sul], [leste, norte]] */
+export type BBox = [[number, number], [number, number]];
+
+/** Calcula o centroide simples (média dos vértices do anel externo) de um polígono */
+export function calculatePolygonCentroid(coordinates: Position[][]): [number, number] | null {
+  if (!coordinates || coordinates.length === 0) return null;
+
+  // Pega apenas o anel externo (primeiro array)
+  const ring = coordinates[0];
+  if (!ring || ring.length === 0) return null;
+
+  let totalX = 0;
+  let totalY = 0;
+  let pointCount = 0;
+  for (const point of ring) {
+    if (point && point.length >= 2) {
+      totalX += point[0]; // longitude
+      totalY += point[1]; // latitude
+      pointCount++;
+    }
+  }
+
+  if (pointCount === 0) return null;
+  return [totalX / pointCount, totalY / pointCount];
+}
+
+/**
+ * Ponto onde o texto central de uma feição é posicionado.
+ * Para MultiPolygon usa o centroide do primeiro polígono.
+ */
+export function getLabelPoint(feature: Feature): [number, number] | null {
+  const geometry = feature.geometry;
+  if (!geometry) return null;
+  if (geometry.type === 'Polygon') return calculatePolygonCentroid(geometry.coordinates);
+  if (geometry.type === 'MultiPolygon') {
+    const first = geometry.coordinates[0];
+    return first ? calculatePolygonCentroid(first) : null;
+  }
+  return null;
+}
+
+/**
+ * Extrai todos os vértices (extremidades) [lng, lat] de um FeatureCollection.
+ * Para polígonos, inclui apenas o anel externo; para linhas, todos os pontos da linha.
+ * Vértices repetidos (6 casas decimais) são descartados.
+ */
+export function extractVertexEntries(collection: FeatureCollection): VertexEntry[] {
+  const entries: VertexEntry[] = [];
+  for (const feature of collection.features) {
+    if (!feature.geometry) continue;
+    collectVertexEntriesFromGeometry(feature.geometry, entries);
+  }
+  const seen = new Set<string>();
+  const unique: VertexEntry[] = [];
+  for (const e of entries) {
+    const key = `${e.coord[0].toFixed(6)}|${e.coord[1].toFixed(6)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    unique.push(e);
+  }
+  return unique;
+}
+
+function collectVertexEntriesFromGeometry(geometry: Geometry, out: VertexEntry[]) {
+  switch (geometry.type) {
+    case 'Point':
+      out.push({ coord: geometry.coordinates as [number, number], angle: 0 });
+      break;
+    case 'MultiPoint':
+    case 'LineString':
+      collectLine(geometry.coordinates as [number, number][], out);
+      break;
+    case 'MultiLineString':
+      for (const line of geometry.coordinates as [number, number][][]) collectLine(line, out);
+      break;
+    case 'Polygon':
+      // Apenas o anel externo (índice 0), ignorando buracos
+      if (geometry.coordinates.length > 0) collectRing(geometry.coordinates[0] as [number, number][], out);
+      break;
+    case 'MultiPolygon':
+      for (const polygon of geometry.coordinates as [number, number][][][]) {
+        if (polygon.length > 0) collectRing(polygon[0], out);
+      }
+      break;
+    case 'GeometryCollection':
+      for (const g of geometry.geometries) collectVertexEntriesFromGeometry(g, out);
+      break;
+    default:
+      break;
+  }
+}
+
+function collectLine(coords: [number, number][], out: VertexEntry[]) {
+  for (let i = 0; i < coords.length; i++) {
+    const prev = i > 0 ? coords[i - 1] : null;
+    const next = i + 1 < coords.length ? coords[i + 1] : null;
+    out.push({ coord: coords[i], angle: computeVertexAngle(coords[i], prev, next) });
+  }
+}
+
+function collectRing(ring: [number, number][], out: VertexEntry[]) {
+  for (let i = 0; i < ring.length; i++) {
+    const prev = i > 0 ? ring[i - 1] : ring[ring.length - 2] ?? ring[ring.length - 1];
+    const next = ring[(i + 1) % ring.length];
+    out.push({ coord: ring[i], angle: computeVertexAngle(ring[i], prev, next) });
+  }
+}
+
+/** Ângulo (graus) do vetor até o próximo vértice; sem próximo, usa o vetor vindo do anterior */
+function computeVertexAngle(curr: [number, number], prev: [number, number] | null, next: [number, number] | null): number {
+  let dx = 0;
+  let dy = 0;
+  if (next) {
+    dx = next[0] - curr[0];
+    dy = next[1] - curr[1];
+  } else if (prev) {
+    dx = curr[0] - prev[0];
+    dy = curr[1] - prev[1];
+  }
+  return (Math.atan2(dy, dx) * 180) / Math.PI;
+}
+
+/** Calcula a caixa envolvente de uma coleção; null quando não há coordenadas */
+export function getCollectionBBox(collection: FeatureCollection): BBox | null {
+  let bbox: BBox | null = null;
+  const extend = (p: Position) => {
+    if (typeof p[0] !== 'number' || typeof p[1] !== 'number') return;
+    if (!bbox) {
+      bbox = [[p[0], p[1]], [p[0], p[1]]];
+      return;
+    }
+    bbox[0][0] = Math.min(bbox[0][0], p[0]);
+    bbox[0][1] = Math.min(bbox[0][1], p[1]);
+    bbox[1][0] = Math.max(bbox[1][0], p[0]);
+    bbox[1][1] = Math.max(bbox[1][1], p[1]);
+  };
+  for (const feature of collection.features) {
+    if (feature.geometry) forEachPosition(feature.geometry, extend);
+  }
+  return bbox;
+}
+
+/** Percorre todas as posições de qualquer tipo de geometria GeoJSON */
+export function forEachPosition(geometry: Geometry, fn: (position: Position) => void) {
+  switch (geometry.type) {
+    case 'Point':
+      fn(geometry.coordinates);
+      break;
+    case 'MultiPoint':
+    case 'LineString':
+      geometry.coordinates.forEach(fn);
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      for (const line of geometry.coordinates) line.forEach(fn);
+      break;
+    case 'MultiPolygon':
+      for (const polygon of geometry.coordinates) {
+        for (const line of polygon) line.forEach(fn);
+      }
+      break;
+    case 'GeometryCollection':
+      for (const child of geometry.geometries) forEachPosition(child, fn);
+      break;
+    default:
+      break;
+  }
+}
+
+/** Área com sinal de um anel fechado (fórmula do laço, em graus²); negativa = sentido horário */
+export function ringSignedArea(ring: Position[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  return sum / 2;
+}
+
+/** Indica se o ponto está dentro do anel (regra par-ímpar) */
+export function pointInRing(point: Position, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > point[1] !== yj > point[1] && point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
@@ -0,0 +1,54 @@
+// ===============================
+// Histórico de desfazer/refazer
+// ===============================
+
+/** Profundidade padrão do histórico (quantidade de passos que podem ser desfeitos) */
+export const defaultHistoryDepth = 100;
+
+export type History<T> = {
+  /** Registra o estado anterior a uma alteração e descarta o que podia ser refeito */
+  push: (previous: T) => void;
+  /** Volta um passo: recebe o estado atual e devolve o estado a restaurar */
+  undo: (current: T) => T | undefined;
+  /** Avança um passo: recebe o estado atual e devolve o estado a restaurar */
+  redo: (current: T) => T | undefined;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  /** Esvazia as duas pilhas */
+  clear: () => void;
+};
+
+/**
+ * Cria um histórico baseado em estados completos (snapshots).
+ * Os estados devem ser imutáveis; apenas as referências são guardadas.
+ * Com `depth` 0 nada é registrado.
+ */
+export function createHistory<T>(depth: number = defaultHistoryDepth): History<T> {
+  const undoStack: T[] = [];
+  const redoStack: T[] = [];
+
+  return {
+    push: (previous) => {
+      if (depth <= 0) return;
+      undoStack.push(previous);
+      if (undoStack.length > depth) undoStack.shift();
+      redoStack.length = 0;
+    },
+    undo: (current) => {
+      const previous = undoStack.pop();
+      if (previous !== undefined) redoStack.push(current);
+      return previous;
+    },
+    redo: (current) => {
+      const next = redoStack.pop();
+      if (next !== undefined) undoStack.push(current);
+      return next;
+    },
+    canUndo: () => undoStack.length > 0,
+    canRedo: () => redoStack.length > 0,
+    clear: () => {
+      undoStack.length = 0;
+      redoStack.length = 0;
+    },
+  };
+}
@@ -0,0 +1,214 @@
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { detectSwappedGeometry, swapPosition } from './axisOrder';
+import { mapGeometryPositions } from './crs';
+import { readGeoFileDetailed } from './formats';
+import { forEachPosition, type BBox } from './geometry';
+
+// ===============================
+// Revisão da importação (antes de carregar no mapa)
+// ===============================
+
+/**
+ * Avisos por feição:
+ * - `missing-geometry`: feição sem geometria (não há o que desenhar)
+ * - `unsupported-geometry`: GeometryCollection (o editor trabalha com uma geometria simples por feição)
+ * - `out-of-range`: coordenada que não é número ou fora de -180..180 / -90..90
+ * - `swapped-coordinates`: fora da faixa ou longe da área de referência, mas válida/perto com lat/lng trocados
+ * - `missing-properties`: feição sem o objeto `properties`
+ */
+export type ImportWarningType =
+  | 'missing-geometry'
+  | 'unsupported-geometry'
+  | 'out-of-range'
+  | 'swapped-coordinates'
+  | 'missing-properties';
+
+/** Descrição de cada tipo de aviso para a interface */
+export const importWarningLabels: Record<ImportWarningType, string> = {
+  'missing-geometry': 'Sem geometria',
+  'unsupported-geometry': 'Geometria não suportada',
+  'out-of-range': 'Coordenada fora da faixa',
+  'swapped-coordinates': 'Latitude/longitude trocadas',
+  'missing-properties': 'Sem propriedades',
+};
+
+export type ImportWarning = {
+  type: ImportWarningType;
+  message: string;
+  /** true se fixImportItems resolve o aviso */
+  fixable: boolean;
+};
+
+/** Decisão do usuário para cada feição */
+export type ImportDecision = 'accept' | 'skip';
+
+export type ImportItem = {
+  /** Chave estável dentro do relatório (posição no arquivo) */
+  key: string;
+  feature: Feature;
+  warnings: ImportWarning[];
+  decision: ImportDecision;
+};
+
+export type ImportReport = {
+  fileName: string;
+  items: ImportItem[];
+  /** Problemas do arquivo que não impediram a leitura (ex.: linhas inválidas no NDJSON) */
+  fileWarnings: string[];
+  /** Área usada para suspeitar de lat/lng trocados (ex.: extensão da fazenda) */
+  referenceExtent?: BBox;
+  /** O que as correções mudaram, na ordem em que foram aplicadas */
+  changes: string[];
+};
+
+export type ImportReviewOptions = {
+  /** Área de referência (padrão: território brasileiro); dados longe dela e perto quando trocados são suspeitos */
+  referenceExtent?: BBox;
+};
+
+const supportedGeometryTypes: Geometry['type'][] = ['Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon'];
+
+// Avisos que não impedem a importação (a feição já vem aceita)
+const harmlessWarnings: ImportWarningType[] = ['missing-properties'];
+
+const inRange = ([lng, lat]: Position) =>
+  Number.isFinite(lng) && Number.isFinite(lat) && Math.abs(lng) <= 180 && Math.abs(lat) <= 90;
+
+/** Verifica uma feição e lista os avisos */
+export function analyzeImportFeature(feature: Feature, options: ImportReviewOptions = {}): ImportWarning[] {
+  const warnings: ImportWarning[] = [];
+  if (!feature.properties || typeof feature.properties !== 'object') {
+    warnings.push({ type: 'missing-properties', message: 'A feição será importada com propriedades vazias.', fixable: true });
+  }
+
+  const geometry = feature.geometry;
+  if (!geometry) {
+    warnings.push({ type: 'missing-geometry', message: 'A feição não tem geometria e não pode ser desenhada.', fixable: false });
+    return warnings;
+  }
+  if (!supportedGeometryTypes.includes(geometry.type)) {
+    const known = geometry.type === 'GeometryCollection';
+    warnings.push({
+      type: 'unsupported-geometry',
+      message: known
+        ? `GeometryCollection com ${geometry.geometries.length} geometrias; corrigir separa cada uma em uma feição.`
+        : `Tipo de geometria desconhecido: ${String(geometry.type)}.`,
+      fixable: known,
+    });
+    if (!known) return warnings;
+  }
+
+  const outside: Position[] = [];
+  forEachPosition(geometry, position => {
+    if (!inRange(position)) outside.push(position);
+  });
+  const swapped = detectSwappedGeometry(geometry, options.referenceExtent);
+  if (swapped) {
+    warnings.push({ type: 'swapped-coordinates', message: swapped.message, fixable: true });
+  } else if (outside.length) {
+    const [x, y] = outside[0];
+    const sample = `${outside.length} ${outside.length === 1 ? 'coordenada' : 'coordenadas'} (ex.: ${x}, ${y})`;
+    warnings.push({ type: 'out-of-range', message: `${sample} fora de -180..180 / -90..90.`, fixable: false });
+  }
+  return warnings;
+}
+
+function createItem(key: string, feature: Feature, options: ImportReviewOptions): ImportItem {
+  const warnings = analyzeImportFeature(feature, options);
+  const decision = warnings.every(w => harmlessWarnings.includes(w.type)) ? 'accept' : 'skip';
+  return { key, feature, warnings, decision };
+}
+
+/** Monta o relatório para uma coleção já lida */
+export function createImportReport(
+  fileName: string,
+  collection: FeatureCollection,
+  fileWarnings: string[] = [],
+  options: ImportReviewOptions = {},
+): ImportReport {
+  return {
+    fileName,
+    items: collection.features.map((feature, index) => createItem(String(index), feature, options)),
+    fileWarnings,
+    referenceExtent: options.referenceExtent,
+    changes: [],
+  };
+}
+
+/** Lê o arquivo (GeoJSON, NDJSON, KML, KMZ ou Shapefile) e monta o relatório de revisão */
+export async function prepareImport(file: File, options: ImportReviewOptions = {}): Promise<ImportReport> {
+  const { collection, problems } = await readGeoFileDetailed(file);
+  return createImportReport(file.name, collection, problems, options);
+}
+
+/** true se há algo para o usuário revisar antes de importar */
+export function importNeedsReview(report: ImportReport): boolean {
+  return report.fileWarnings.length > 0 || report.items.some(item => item.warnings.some(w => !harmlessWarnings.includes(w.type)));
+}
+
+/** Define a decisão de uma feição (ou de todas, sem `key`) */
+export function setImportDecision(report: ImportReport, decision: ImportDecision, key?: string): ImportReport {
+  return {
+    ...report,
+    items: report.items.map(item => (key === undefined || item.key === key ? { ...item, decision } : item)),
+  };
+}
+
+// Aplica as correções disponíveis (GeometryCollection vira uma feição por geometria) e descreve o que mudou
+function fixFeature(feature: Feature, warnings: ImportWarning[], name: string, changes: string[]): Feature[] {
+  const types = new Set(warnings.filter(w => w.fixable).map(w => w.type));
+  let fixed: Feature = feature;
+  if (types.has('missing-properties')) {
+    fixed = { ...fixed, properties: {} };
+    changes.push(`${name}: propriedades vazias adicionadas`);
+  }
+  if (types.has('swapped-coordinates') && fixed.geometry) {
+    const before = JSON.stringify(firstPosition(fixed.geometry));
+    fixed = { ...fixed, geometry: mapGeometryPositions(fixed.geometry, swapPosition) };
+    changes.push(`${name}: latitude/longitude trocadas (ex.: ${before} → ${JSON.stringify(firstPosition(fixed.geometry))})`);
+  }
+  if (types.has('unsupported-geometry') && fixed.geometry?.type === 'GeometryCollection') {
+    const parts = fixed.geometry.geometries;
+    changes.push(`${name}: GeometryCollection separada em ${parts.length} ${parts.length === 1 ? 'feição' : 'feições'}`);
+    return parts.map((geometry, index) => ({
+      ...fixed,
+      ...(fixed.id !== undefined ? { id: parts.length > 1 ? `${fixed.id}-${index + 1}` : fixed.id } : {}),
+      geometry,
+    }));
+  }
+  return [fixed];
+}
+
+function firstPosition(geometry: Geometry): Position | null {
+  let first: Position | null = null;
+  forEachPosition(geometry, position => {
+    first ??= position;
+  });
+  return first;
+}
+
+/**
+ * Aplica as correções de uma feição (ou de todas, sem `key`) e verifica de novo o resultado.
+ * Feições que ficam sem avisos impeditivos passam a ser aceitas; o que mudou vai para `changes`.
+ */
+export function fixImportItems(report: ImportReport, key?: string): ImportReport {
+  const changes = [...report.changes];
+  const options: ImportReviewOptions = { referenceExtent: report.referenceExtent };
+  const items = report.items.flatMap(item => {
+    if ((key !== undefined && item.key !== key) || !item.warnings.some(w => w.fixable)) return [item];
+    const name = `Feição ${item.feature.id ?? item.key}`;
+    const features = fixFeature(item.feature, item.warnings, name, changes);
+    return features.map((feature, index) => createItem(features.length > 1 ? `${item.key}.${index + 1}` : item.key, feature, options));
+  });
+  return { ...report, items, changes };
+}
+
+/** Coleção com as feições aceitas (propriedades ausentes viram objeto vazio) */
+export function importReportToCollection(report: ImportReport): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: report.items
+      .filter(item => item.decision === 'accept' && item.feature.geometry)
+      .map(({ feature }) => (feature.properties ? feature : { ...feature, properties: {} })),
+  };
+}
@@ -0,0 +1,328 @@
+// Núcleo do editor de mapas compartilhado pelos apps Mapbox e Leaflet
+export type { ChangeOptions, EditorFeature, FeatureStyleProperties, MapEditorHandle, MapScale, MapView, RendererAdapter } from './types';
+export { createMapEditor, type MapEditor, type MapEditorOptions } from './editor';
+export {
+  createEventBus,
+  diffFeatures,
+  emitFeatureDiff,
+  type FeatureChange,
+  type FeatureDiff,
+  type MapEventBus,
+  type MapEventHandler,
+  type MapEventMap,
+  type MapEventName,
+  type MapMode,
+} from './events';
+export { createFeatureId, createFeatureStore, toEditorFeature, type FeatureStore } from './featureStore';
+export { createHistory, defaultHistoryDepth, type History } from './history';
+export {
+  calculatePolygonCentroid,
+  extractVertexEntries,
+  forEachPosition,
+  getCollectionBBox,
+  getLabelPoint,
+  pointInRing,
+  ringSignedArea,
+  type BBox,
+  type VertexEntry,
+} from './geometry';
+export {
+  coordinateFormatLabels,
+  createCoordinateFormatter,
+  defaultCoordinatePrecision,
+  detectUtmZone,
+  formatCoordinateLabel,
+  type CoordinateFormat,
+  type CoordinateFormatOptions,
+} from './coordinates';
+export {
+  alqueireMineiroM2,
+  alqueirePaulistaM2,
+  computeCollectionMetrics,
+  computeFeatureMetrics,
+  distanceMeters,
+  earthMeanRadius,
+  formatArea,
+  formatLength,
+  lineLength,
+  polygonArea,
+  ringArea,
+  squareMetersPerHectare,
+  withCollectionMetrics,
+  withMetricsProperties,
+  type FeatureMetrics,
+  type MetricsOptions,
+} from './metrics';
+export {
+  hexToRgb,
+  isPolygonFeature,
+  stylePropertyKeys,
+  withDefaultStyle,
+  withFill,
+  withFillRgb,
+  withLabelText,
+  withoutLabelText,
+  withStroke,
+} from './style';
+export {
+  downloadBlob,
+  exportCollection,
+  exportFormatLabels,
+  folderProperty,
+  folderSeparator,
+  fromKmlColor,
+  importAccept,
+  isFeatureCollection,
+  normalizeGeoJson,
+  parseGeoJson,
+  parseGeoJsonText,
+  parseKml,
+  readGeoFile,
+  readGeoFileDetailed,
+  readKmz,
+  toGeoJson,
+  toKml,
+  toKmlColor,
+  writeKmz,
+  readShapefileZip,
+  writeShapefileZip,
+  type ExportFormat,
+  type ExportOptions,
+  type GeoJsonParseResult,
+  type KmlWriteOptions,
+  type ShapefileWriteOptions,
+} from './formats';
+export {
+  crsFromPrj,
+  crsToPrj,
+  fromUtm,
+  getCrs,
+  mapGeometryPositions,
+  projectPosition,
+  sirgas2000,
+  sirgas2000Utm,
+  supportedCrs,
+  toUtm,
+  unprojectPosition,
+  utmCentralMeridian,
+  utmZoneForLongitude,
+  wgs84,
+  type CrsDefinition,
+} from './crs';
+export {
+  createProjectSession,
+  createProjectStore,
+  type ProjectData,
+  type ProjectRecord,
+  type ProjectSession,
+  type ProjectSessionOptions,
+  type ProjectSessionState,
+  type ProjectStore,
+  type ProjectSummary,
+} from './projects';
+export {
+  geometryIssueLabels,
+  issuesToCollection,
+  repairFeatures,
+  repairGeometry,
+  validateCollection,
+  validateFeature,
+  type GeometryIssue,
+  type GeometryIssueType,
+  type RepairOptions,
+} from './validation';
+export {
+  analyzeImportFeature,
+  createImportReport,
+  fixImportItems,
+  importNeedsReview,
+  importReportToCollection,
+  importWarningLabels,
+  prepareImport,
+  setImportDecision,
+  type ImportDecision,
+  type ImportItem,
+  type ImportReport,
+  type ImportReviewOptions,
+  type ImportWarning,
+  type ImportWarningType,
+} from './importReview';
+export {
+  checkCenterOrder,
+  defaultReferenceExtent,
+  detectSwappedBBox,
+  detectSwappedGeometry,
+  referenceExtentMargin,
+  resolveCenterOrder,
+  swapPosition,
+  type AxisOrder,
+  type CenterOrderCheck,
+  type ResolvedCenter,
+  type SwapReason,
+  type SwapSuspicion,
+} from './axisOrder';
+export {
+  createLayer,
+  defaultLayers,
+  getFeatureLayer,
+  layerOpacity,
+  layerProperty,
+  sortByLayer,
+  uniqueLayerName,
+  type MapLayer,
+  type MapLayerPatch,
+} from './layers';
+export {
+  attributeLabel,
+  attributeTypeLabels,
+  compareAttributeValues,
+  formatAttributeValue,
+  inferAttributeColumns,
+  matchesAttributeFilter,
+  parseAttributeValue,
+  reservedAttributeKeys,
+  withAttributeDefaults,
+  withAttributes,
+  type AttributeColumn,
+  type AttributeType,
+  type AttributeValue,
+} from './attributes';
+export {
+  fromJsonSchema,
+  schemaViolationLabels,
+  toJsonSchema,
+  validateAttributes,
+  type JsonSchema,
+  type SchemaViolation,
+  type SchemaViolationType,
+} from './schema';
+export {
+  classBreaks,
+  classificationMethodLabels,
+  createThematicStyle,
+  equalIntervalBreaks,
+  maxCategories,
+  naturalBreaks,
+  quantileBreaks,
+  thematicColor,
+  thematicExpression,
+  thematicLegend,
+  thematicModeLabels,
+  thematicPalettes,
+  type ClassificationMethod,
+  type ThematicClass,
+  type ThematicMode,
+  type ThematicOptions,
+  type ThematicStyle,
+} from './thematic';
+export {
+  drawMapOverlay,
+  drawNorthArrow,
+  drawScaleBar,
+  mapLegendSections,
+  scaleBar,
+  styleLegend,
+  type LegendItem,
+  type LegendOptions,
+  type LegendSection,
+  type LegendSymbol,
+  type MapOverlayOptions,
+  type ScaleBar,
+} from './legend';
+export {
+  createPdfDocument,
+  pdfFitText,
+  pdfPaperSizes,
+  pdfTextWidth,
+  type PdfDocument,
+  type PdfFont,
+  type PdfPage,
+  type PdfShapeOptions,
+  type PdfTextOptions,
+} from './formats/pdf';
+export {
+  canvasToBlob,
+  createPrintPdf,
+  drawBoxedText,
+  drawFeatures,
+  drawHaloText,
+  drawMarker,
+  drawTextLabels,
+  loadImage,
+  paperOrientationLabels,
+  printMapFrame,
+  type CanvasFeatureStyle,
+  type DrawFeaturesOptions,
+  type ImageExportOptions,
+  type ImageFormat,
+  type MapImage,
+  type PaperOrientation,
+  type PaperSize,
+  type PrintFrame,
+  type PrintLayoutOptions,
+  type PrintOptions,
+} from './print';
+export {
+  collectionVertices,
+  createMeasureTool,
+  measure,
+  measureKindLabels,
+  measureSnapTolerance,
+  measureToCollection,
+  measurementText,
+  snapToVertex,
+  type MeasureKind,
+  type MeasureTool,
+  type MeasureToolOptions,
+  type Measurement,
+} from './measure';
+export {
+  circleFeature,
+  circlePolygon,
+  circleSteps,
+  destinationPoint,
+  freehandTolerance,
+  isCircleFeature,
+  rectanglePolygon,
+  simplifyPath,
+  withCircleGeometry,
+} from './shapes';
+export {
+  collectSnapTargets,
+  createSnapper,
+  defaultSnapOptions,
+  findSnap,
+  snapKindLabels,
+  type SnapKind,
+  type SnapOptions,
+  type SnapProjection,
+  type SnapResult,
+  type SnapTargets,
+  type Snapper,
+  type SnapperOptions,
+} from './snap';
+export {
+  intersectAreas,
+  isAreaGeometry,
+  isCutGeometry,
+  overlayProperties,
+  splitAreaByLine,
+  subtractAreas,
+  unionAreas,
+  type AreaGeometry,
+  type CutGeometry,
+} from './overlay';
+export { bufferGeometry, bufferLabel, defaultBufferSegments, type BufferOptions } from './buffer';
+export {
+  auditTopology,
+  defaultSliverAreaM2,
+  resolveTopology,
+  topologyGapMessage,
+  topologyOverlapMessage,
+  topologyToCollection,
+  type ResolveTopologyOptions,
+  type TopologyGap,
+  type TopologyOptions,
+  type TopologyOverlap,
+  type TopologyReport,
+} from './topology';
@@ -0,0 +1,68 @@
+import type { Feature } from 'geojson';
+import type { FeatureStyleProperties } from './types';
+
+// ===============================
+// Camadas do usuário (Talhões, APP, Reserva legal, Estradas...)
+// ===============================
+
+/** Propriedade da feição com o nome da camada (segue no GeoJSON, KML e shapefile exportados) */
+export const layerProperty = 'layer';
+
+/**
+ * Camada nomeada. A ordem da lista é a ordem de desenho: a primeira fica embaixo.
+ * O nome é a identidade da camada (é o valor gravado em `properties.layer`).
+ */
+export type MapLayer = {
+  name: string;
+  visible: boolean;
+  /** Opacidade da camada (0-1), multiplicada pela opacidade de cada feição */
+  opacity: number;
+  /** Camada travada: suas feições não podem ser selecionadas nem editadas */
+  locked: boolean;
+  /** Estilo das feições novas desenhadas nesta camada */
+  style: FeatureStyleProperties;
+};
+
+/** Alterações aceitas por updateLayer (inclui renomear) */
+export type MapLayerPatch = Partial<MapLayer>;
+
+/** Camadas de um projeto novo */
+export const defaultLayers: MapLayer[] = [
+  { name: 'Talhões', visible: true, opacity: 1, locked: false, style: { fillColor: '#facc15', fillOpacity: 0.3, strokeColor: '#ca8a04', strokeWidth: 2 } },
+  { name: 'APP', visible: true, opacity: 1, locked: false, style: { fillColor: '#22c55e', fillOpacity: 0.35, strokeColor: '#15803d', strokeWidth: 2 } },
+  { name: 'Reserva legal', visible: true, opacity: 1, locked: false, style: { fillColor: '#166534', fillOpacity: 0.35, strokeColor: '#14532d', strokeWidth: 2 } },
+  { name: 'Estradas', visible: true, opacity: 1, locked: false, style: { fillColor: '#a16207', fillOpacity: 0.3, strokeColor: '#a16207', strokeWidth: 3 } },
+];
+
+/** Camada criada com o estilo padrão do motor (ex.: nome novo vindo de um arquivo importado) */
+export function createLayer(name: string, style: FeatureStyleProperties = {}): MapLayer {
+  return { name, visible: true, opacity: 1, locked: false, style };
+}
+
+/** Nome da camada gravado na feição (null se não tiver) */
+export function getFeatureLayer(feature: Feature): string | null {
+  const value = feature.properties?.[layerProperty];
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+/** Nome livre na lista: "Camada 2", "Camada 3"... (ou o próprio nome, se não existir) */
+export function uniqueLayerName(layers: MapLayer[], name: string): string {
+  const taken = new Set(layers.map(layer => layer.name));
+  if (!taken.has(name)) return name;
+  let n = 2;
+  while (taken.has(`${name} ${n}`)) n++;
+  return `${name} ${n}`;
+}
+
+/** Ordena as feições pela ordem das camadas (estável dentro de cada camada) */
+export function sortByLayer<T extends Feature>(features: T[], layers: MapLayer[]): T[] {
+  const index = new Map(layers.map((layer, i) => [layer.name, i]));
+  const rank = (f: T) => index.get(getFeatureLayer(f) ?? '') ?? layers.length;
+  return features.map((f, i) => ({ f, i })).sort((a, b) => rank(a.f) - rank(b.f) || a.i - b.i).map(({ f }) => f);
+}
+
+/** Opacidade da camada da feição (1 se a camada não existe) */
+export function layerOpacity(feature: Feature, layers: MapLayer[]): number {
+  const name = getFeatureLayer(feature);
+  return layers.find(layer => layer.name === name)?.opacity ?? 1;
+}
@@ -0,0 +1,266 @@
+import type { Feature } from 'geojson';
+import { attributeLabel, type AttributeColumn } from './attributes';
+import { getFeatureLayer, type MapLayer } from './layers';
+import { isPolygonFeature } from './style';
+import { thematicLegend, type ThematicStyle } from './thematic';
+import type { FeatureStyleProperties } from './types';
+
+// ===============================
+// Legenda, escala e norte do mapa (na tela e nas imagens exportadas)
+// ===============================
+
+/** Símbolo desenhado ao lado do item */
+export type LegendSymbol = 'polygon' | 'line' | 'point';
+
+export type LegendItem = {
+  label: string;
+  /** Texto secundário (ex.: rótulos das feições com este estilo) */
+  detail?: string;
+  symbol: LegendSymbol;
+  fillColor?: string;
+  fillOpacity?: number;
+  strokeColor?: string;
+  strokeWidth?: number;
+  /** Quantidade de feições com este estilo */
+  count?: number;
+};
+
+export type LegendSection = {
+  title: string;
+  items: LegendItem[];
+};
+
+export type LegendOptions = {
+  layers?: MapLayer[];
+  thematic?: ThematicStyle | null;
+  /** Para o título do atributo da regra temática */
+  columns?: AttributeColumn[];
+  /** Estilo usado pelo motor quando a feição não tem a propriedade */
+  fallback?: FeatureStyleProperties;
+};
+
+/** Barra de escala: distância "redonda" e a largura correspondente em pixels */
+export type ScaleBar = {
+  meters: number;
+  widthPx: number;
+  label: string;
+};
+
+function legendSymbol(feature: Feature): LegendSymbol {
+  if (isPolygonFeature(feature)) return 'polygon';
+  const type = feature.geometry?.type;
+  return type === 'LineString' || type === 'MultiLineString' ? 'line' : 'point';
+}
+
+// Até três textos distintos; os demais viram "+n"
+function summarizeTexts(texts: string[]): string | undefined {
+  const distinct = [...new Set(texts)];
+  if (!distinct.length) return undefined;
+  return distinct.length > 3 ? `${distinct.slice(0, 3).join(', ')} +${distinct.length - 3}` : distinct.join(', ');
+}
+
+/**
+ * Estilos distintos em uso (preenchimento e borda), nomeados pelas camadas que os usam e
+ * com os rótulos das feições como detalhe. Feições de camadas ocultas ficam de fora.
+ * Com regra temática o preenchimento dos polígonos vem da regra, então só a borda diferencia os itens
+ */
+export function styleLegend(features: Feature[], options: LegendOptions = {}): LegendItem[] {
+  const { layers = [], thematic = null, fallback = {} } = options;
+  const hidden = new Set(layers.filter(l => !l.visible).map(l => l.name));
+  const groups = new Map<string, { item: LegendItem; layers: Set<string>; texts: string[] }>();
+  for (const feature of features) {
+    const layer = getFeatureLayer(feature);
+    if (layer && hidden.has(layer)) continue;
+    const p = feature.properties ?? {};
+    const symbol = legendSymbol(feature);
+    const item: LegendItem = {
+      label: '',
+      symbol,
+      strokeColor: p.strokeColor ?? fallback.strokeColor,
+      strokeWidth: p.strokeWidth ?? fallback.strokeWidth,
+    };
+    if (symbol !== 'line' && !(thematic && symbol === 'polygon')) {
+      item.fillColor = p.fillColor ?? fallback.fillColor;
+      item.fillOpacity = p.fillOpacity ?? fallback.fillOpacity;
+    }
+    const key = [item.symbol, item.fillColor, item.fillOpacity, item.strokeColor, item.strokeWidth].join('|');
+    const group = groups.get(key) ?? { item, layers: new Set<string>(), texts: [] };
+    if (layer) group.layers.add(layer);
+    if (typeof p.labelText === 'string' && p.labelText.trim()) group.texts.push(p.labelText.trim());
+    group.item.count = (group.item.count ?? 0) + 1;
+    groups.set(key, group);
+  }
+  const order = (name: string) => {
+    const index = layers.findIndex(l => l.name === name);
+    return index < 0 ? layers.length : index;
+  };
+  return [...groups.values()]
+    .map(({ item, layers: names, texts }) => {
+      // A camada de cima aparece primeiro, como no painel de camadas
+      const sorted = [...names].sort((a, b) => order(b) - order(a));
+      return { ...item, label: sorted.join(' / ') || 'Feições', detail: summarizeTexts(texts), rank: sorted.length ? order(sorted[0]) : -1 };
+    })
+    .sort((a, b) => b.rank - a.rank || (b.count ?? 0) - (a.count ?? 0))
+    .map(({ rank: _rank, ...item }) => item);
+}
+
+/** Seções da legenda: a regra temática (se houver) e os estilos em uso */
+export function mapLegendSections(features: Feature[], options: LegendOptions = {}): LegendSection[] {
+  const sections: LegendSection[] = [];
+  const { thematic } = options;
+  if (thematic) {
+    const column = options.columns?.find(c => c.key === thematic.attribute);
+    sections.push({
+      title: column ? attributeLabel(column) : thematic.attribute,
+      items: thematicLegend(thematic, features).map(c => ({ label: c.label, symbol: 'polygon', fillColor: c.color, fillOpacity: 1 })),
+    });
+  }
+  const styles = styleLegend(features, options);
+  if (styles.length) sections.push({ title: thematic ? 'Bordas' : 'Estilos', items: styles });
+  return sections;
+}
+
+/** Escala com 1, 2 ou 5 × 10ⁿ metros que cabe em `maxWidthPx` (null se a resolução é inválida) */
+export function scaleBar(metersPerPixel: number, maxWidthPx = 120): ScaleBar | null {
+  if (!Number.isFinite(metersPerPixel) || metersPerPixel <= 0) return null;
+  const maxMeters = metersPerPixel * maxWidthPx;
+  const magnitude = 10 ** Math.floor(Math.log10(maxMeters));
+  const leading = maxMeters / magnitude;
+  const meters = (leading >= 5 ? 5 : leading >= 2 ? 2 : 1) * magnitude;
+  const label = meters >= 1000 ? `${(meters / 1000).toLocaleString('pt-BR')} km` : `${meters.toLocaleString('pt-BR', { maximumFractionDigits: 2 })} m`;
+  return { meters, widthPx: meters / metersPerPixel, label };
+}
+
+export type MapOverlayOptions = {
+  /** Tamanho da imagem em pixels do canvas */
+  width: number;
+  height: number;
+  sections: LegendSection[];
+  /** Escala calculada na resolução do canvas */
+  scale: ScaleBar | null;
+  /** Rotação do mapa em graus (0 = norte para cima) */
+  bearing?: number;
+  /** Multiplicador de tamanho de fonte e símbolos (ex.: 2 para 192 dpi) */
+  pixelRatio?: number;
+};
+
+function drawSymbol(ctx: CanvasRenderingContext2D, item: LegendItem, x: number, y: number, size: number) {
+  ctx.save();
+  ctx.lineWidth = Math.min(item.strokeWidth ?? 2, 4) * (size / 14);
+  ctx.strokeStyle = item.strokeColor ?? 'transparent';
+  if (item.symbol === 'line') {
+    ctx.beginPath();
+    ctx.moveTo(x, y + size / 2);
+    ctx.lineTo(x + size, y + size / 2);
+    ctx.stroke();
+  } else {
+    ctx.beginPath();
+    if (item.symbol === 'point') ctx.arc(x + size / 2, y + size / 2, size / 3, 0, Math.PI * 2);
+    else ctx.rect(x, y, size, size);
+    if (item.fillColor) {
+      ctx.globalAlpha = Math.max(item.fillOpacity ?? 1, 0.25);
+      ctx.fillStyle = item.fillColor;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+    }
+    if (item.strokeColor) ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/** Desenha a seta do norte com o centro em (x, y) */
+export function drawNorthArrow(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, bearing = 0) {
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate((-bearing * Math.PI) / 180);
+  ctx.beginPath();
+  ctx.moveTo(0, -size / 2);
+  ctx.lineTo(size / 3, size / 2);
+  ctx.lineTo(0, size / 4);
+  ctx.lineTo(-size / 3, size / 2);
+  ctx.closePath();
+  ctx.fillStyle = '#1e293b';
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = size / 16;
+  ctx.fill();
+  ctx.stroke();
+  ctx.rotate((bearing * Math.PI) / 180);
+  ctx.fillStyle = '#1e293b';
+  ctx.font = `bold ${Math.round(size / 2.2)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText('N', 0, -size / 2 - size / 10);
+  ctx.restore();
+}
+
+/** Desenha a barra de escala (régua com o texto acima) a partir do canto inferior esquerdo (x, y) */
+export function drawScaleBar(ctx: CanvasRenderingContext2D, scale: ScaleBar, x: number, y: number, ratio = 1) {
+  ctx.save();
+  const h = 6 * ratio;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(x, y - h, scale.widthPx, h);
+  ctx.fillStyle = '#1e293b';
+  ctx.fillRect(x, y - h, scale.widthPx / 2, h);
+  ctx.strokeStyle = '#1e293b';
+  ctx.lineWidth = ratio;
+  ctx.strokeRect(x, y - h, scale.widthPx, h);
+  ctx.font = `${Math.round(11 * ratio)}px sans-serif`;
+  ctx.textBaseline = 'bottom';
+  ctx.fillText('0', x, y - h - 2 * ratio);
+  ctx.textAlign = 'right';
+  ctx.fillText(scale.label, x + scale.widthPx, y - h - 2 * ratio);
+  ctx.restore();
+}
+
+/**
+ * Desenha a legenda e a escala (caixa no canto inferior esquerdo) e o norte (canto superior direito)
+ * sobre a imagem já renderizada do mapa
+ */
+export function drawMapOverlay(ctx: CanvasRenderingContext2D, options: MapOverlayOptions) {
+  const { width, height, sections, scale, bearing = 0, pixelRatio: r = 1 } = options;
+  const pad = 10 * r;
+  const line = 18 * r;
+  const symbol = 12 * r;
+  const maxItems = 12;
+  ctx.save();
+  ctx.font = `${Math.round(12 * r)}px sans-serif`;
+  // Altura e largura da caixa a partir do conteúdo
+  const rows: ({ title: string } | { item: LegendItem })[] = [];
+  for (const section of sections) {
+    rows.push({ title: section.title });
+    for (const item of section.items.slice(0, maxItems)) rows.push({ item });
+    if (section.items.length > maxItems) rows.push({ item: { label: `+${section.items.length - maxItems}`, symbol: 'point' } });
+  }
+  const textOf = (row: (typeof rows)[number]) => ('title' in row ? row.title : row.item.label);
+  const textWidth = Math.max(0, ...rows.map(row => ctx.measureText(textOf(row)).width + ('title' in row ? 0 : symbol + 6 * r)));
+  const boxWidth = Math.min(width / 2, Math.max(textWidth, scale?.widthPx ?? 0, 60 * r) + pad * 2);
+  const scaleHeight = scale ? 30 * r : 0;
+  const boxHeight = rows.length * line + scaleHeight + pad * 2;
+  const left = 10 * r;
+  const top = height - boxHeight - 10 * r;
+  if (rows.length || scale) {
+    ctx.fillStyle = 'rgba(255,255,255,0.92)';
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.lineWidth = r;
+    ctx.fillRect(left, top, boxWidth, boxHeight);
+    ctx.strokeRect(left, top, boxWidth, boxHeight);
+    let y = top + pad;
+    ctx.textBaseline = 'middle';
+    for (const row of rows) {
+      if ('title' in row) {
+        ctx.font = `bold ${Math.round(12 * r)}px sans-serif`;
+        ctx.fillStyle = '#1e293b';
+        ctx.fillText(row.title, left + pad, y + line / 2, boxWidth - pad * 2);
+      } else {
+        if (row.item.fillColor || row.item.strokeColor) drawSymbol(ctx, row.item, left + pad, y + (line - symbol) / 2, symbol);
+        ctx.font = `${Math.round(12 * r)}px sans-serif`;
+        ctx.fillStyle = '#334155';
+        ctx.fillText(row.item.label, left + pad + symbol + 6 * r, y + line / 2, boxWidth - pad * 2 - symbol - 6 * r);
+      }
+      y += line;
+    }
+    if (scale) drawScaleBar(ctx, scale, left + pad, top + boxHeight - pad, r);
+  }
+  drawNorthArrow(ctx, width - 28 * r, 40 * r, 28 * r, bearing);
+  ctx.restore();
+}
@@ -0,0 +1,230 @@
+import type { Feature, FeatureCollection, Position } from 'geojson';
+import { calculatePolygonCentroid, forEachPosition } from './geometry';
+import { distanceMeters, formatArea, formatLength, ringArea } from './metrics';
+
+// ===============================
+// Ferramenta de medição: linhas e polígonos temporários, fora do editor (não viram feições)
+// ===============================
+
+/** Distância ao longo de uma linha ou área de um polígono */
+export type MeasureKind = 'distance' | 'area';
+
+export const measureKindLabels: Record<MeasureKind, string> = {
+  distance: 'Distância',
+  area: 'Área',
+};
+
+/** Resultado da medição (com o trecho até o cursor enquanto desenha) */
+export type Measurement = {
+  kind: MeasureKind;
+  /** Vértices [lng, lat] na ordem em que foram clicados */
+  points: Position[];
+  /** Comprimento de cada trecho (m); na área inclui o trecho de fechamento */
+  segments: number[];
+  /** Distância acumulada (m) ou perímetro da área */
+  length: number;
+  /** Área (m²) a partir de 3 vértices; null na distância */
+  area: number | null;
+  /** false enquanto ainda aceita vértices */
+  finished: boolean;
+};
+
+/** Distância máxima (px) para o clique grudar num vértice existente */
+export const measureSnapTolerance = 10;
+
+/** Calcula trechos, total e área de uma sequência de vértices */
+export function measure(kind: MeasureKind, points: Position[], finished = false): Measurement {
+  const segments: number[] = [];
+  for (let i = 1; i < points.length; i++) segments.push(distanceMeters(points[i - 1], points[i]));
+  const closed = kind === 'area' && points.length >= 3;
+  if (closed) segments.push(distanceMeters(points[points.length - 1], points[0]));
+  return {
+    kind,
+    points,
+    segments,
+    length: segments.reduce((sum, value) => sum + value, 0),
+    area: kind === 'area' ? (closed ? ringArea([...points, points[0]]) : 0) : null,
+    finished,
+  };
+}
+
+/**
+ * Vértice mais próximo do ponto na tela, até a tolerância (px). `project` converte [lng, lat] em px
+ * do mapa; retorna null se nenhum vértice estiver perto
+ */
+export function snapToVertex(
+  point: [number, number],
+  vertices: Position[],
+  project: (position: Position) => [number, number],
+  tolerance = measureSnapTolerance,
+): Position | null {
+  let best: Position | null = null;
+  let bestDistance = tolerance;
+  for (const vertex of vertices) {
+    const [x, y] = project(vertex);
+    const distance = Math.hypot(x - point[0], y - point[1]);
+    if (distance <= bestDistance) {
+      best = vertex;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/** Vértices das feições (sem repetir), candidatos do snap */
+export function collectionVertices(collection: FeatureCollection): Position[] {
+  const seen = new Set<string>();
+  const vertices: Position[] = [];
+  for (const feature of collection.features) {
+    if (!feature.geometry) continue;
+    forEachPosition(feature.geometry, (position) => {
+      const key = `${position[0]},${position[1]}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      vertices.push([position[0], position[1]]);
+    });
+  }
+  return vertices;
+}
+
+/**
+ * Desenho da medição como GeoJSON: a forma (`measure: 'shape'`), os vértices (`'vertex'`) e os rótulos
+ * (`'label'`, com o texto em `label`) no meio de cada trecho e, na área, no centro do polígono
+ */
+export function measureToCollection(measurement: Measurement): FeatureCollection {
+  const { kind, points, segments } = measurement;
+  const features: Feature[] = [];
+  if (kind === 'area' && points.length >= 3) {
+    features.push({ type: 'Feature', properties: { measure: 'shape' }, geometry: { type: 'Polygon', coordinates: [[...points, points[0]]] } });
+  } else if (points.length >= 2) {
+    features.push({ type: 'Feature', properties: { measure: 'shape' }, geometry: { type: 'LineString', coordinates: points } });
+  }
+  for (const point of points) {
+    features.push({ type: 'Feature', properties: { measure: 'vertex' }, geometry: { type: 'Point', coordinates: point } });
+  }
+  segments.forEach((meters, i) => {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    features.push({
+      type: 'Feature',
+      properties: { measure: 'label', label: formatLength(meters) },
+      geometry: { type: 'Point', coordinates: [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2] },
+    });
+  });
+  if (kind === 'area' && points.length >= 3) {
+    const center = calculatePolygonCentroid([[...points, points[0]]]);
+    if (center) {
+      features.push({ type: 'Feature', properties: { measure: 'label', label: formatArea(measurement.area ?? 0), total: true }, geometry: { type: 'Point', coordinates: center } });
+    }
+  }
+  return { type: 'FeatureCollection', features };
+}
+
+/** Resumo em texto (um valor por linha), para copiar */
+export function measurementText(measurement: Measurement): string {
+  const lines = [`Medição de ${measureKindLabels[measurement.kind].toLowerCase()}`];
+  const closing = measurement.kind === 'area' && measurement.points.length >= 3 ? measurement.segments.length - 1 : -1;
+  measurement.segments.forEach((meters, i) => {
+    lines.push(`Trecho ${i + 1}${i === closing ? ' (fechamento)' : ''}: ${formatLength(meters)}`);
+  });
+  if (measurement.kind === 'distance') {
+    lines.push(`Total: ${formatLength(measurement.length)}`);
+  } else {
+    lines.push(`Perímetro: ${formatLength(measurement.length)}`);
+    lines.push(`Área: ${formatArea(measurement.area ?? 0)}`);
+  }
+  return lines.join('\n');
+}
+
+/** Quem desenha a medição no mapa e quem é avisado das mudanças */
+export type MeasureToolOptions = {
+  render: (collection: FeatureCollection) => void;
+  onChange: (measurement: Measurement | null) => void;
+};
+
+/**
+ * Estado da medição em andamento. O adaptador do mapa converte cliques e movimentos do mouse em
+ * posições (já com snap) e chama `add`/`move`; clicar de novo no último vértice (ou no primeiro, na área)
+ * encerra o desenho
+ */
+export type MeasureTool = {
+  start: (kind: MeasureKind) => void;
+  /** Adiciona um vértice; retorna false se o clique encerrou a medição */
+  add: (position: Position) => boolean;
+  /** Posição do cursor (trecho provisório até ela) */
+  move: (position: Position | null) => void;
+  /** Encerra o desenho mantendo o resultado na tela */
+  finish: () => void;
+  /** Apaga a medição */
+  clear: () => void;
+  get: () => Measurement | null;
+  /** Vértices já clicados (candidatos do snap, ex.: fechar no primeiro) */
+  getPoints: () => Position[];
+  isActive: () => boolean;
+};
+
+export function createMeasureTool(options: MeasureToolOptions): MeasureTool {
+  let kind: MeasureKind | null = null;
+  let points: Position[] = [];
+  let cursor: Position | null = null;
+  let finished = false;
+
+  const current = (): Measurement | null => {
+    if (!kind) return null;
+    return measure(kind, cursor && !finished ? [...points, cursor] : points, finished);
+  };
+
+  function update() {
+    const measurement = current();
+    options.render(measurement ? measureToCollection(measurement) : { type: 'FeatureCollection', features: [] });
+    options.onChange(measurement);
+  }
+
+  const same = (a: Position, b: Position) => a[0] === b[0] && a[1] === b[1];
+
+  function finish() {
+    if (!kind || finished) return;
+    finished = true;
+    cursor = null;
+    update();
+  }
+
+  return {
+    start: (next) => {
+      kind = next;
+      points = [];
+      cursor = null;
+      finished = false;
+      update();
+    },
+    add: (position) => {
+      if (!kind || finished) return false;
+      const last = points[points.length - 1];
+      const closesArea = kind === 'area' && points.length >= 3 && same(position, points[0]);
+      if ((last && same(position, last) && points.length >= 2) || closesArea) {
+        finish();
+        return false;
+      }
+      if (!last || !same(position, last)) points = [...points, position];
+      update();
+      return true;
+    },
+    move: (position) => {
+      if (!kind || finished) return;
+      cursor = position;
+      update();
+    },
+    finish,
+    clear: () => {
+      if (!kind) return;
+      kind = null;
+      points = [];
+      cursor = null;
+      finished = false;
+      update();
+    },
+    get: current,
+    getPoints: () => points,
+    isActive: () => Boolean(kind) && !finished,
+  };
+}
@@ -0,0 +1,163 @@
+import type { Feature, FeatureCollection, GeoJsonProperties, Position } from 'geojson';
+
+// ===============================
+// Área e perímetro (geodésicos) de polígonos
+// ===============================
+
+/** Raio equatorial WGS84 (m), usado no cálculo de área esférica */
+const wgs84Radius = 6378137;
+/** Raio médio da Terra (m), usado nas distâncias por haversine */
+export const earthMeanRadius = 6371008.8;
+
+/** Metros quadrados em um hectare */
+export const squareMetersPerHectare = 10000;
+/** Alqueire paulista (2,42 ha) */
+export const alqueirePaulistaM2 = 24200;
+/** Alqueire mineiro/goiano (4,84 ha) */
+export const alqueireMineiroM2 = 48400;
+
+export type MetricsOptions = {
+  /** Tamanho do alqueire em m² (padrão: alqueire paulista) */
+  alqueireM2?: number;
+};
+
+/** Medidas de um polígono (ou da soma de vários) */
+export type FeatureMetrics = {
+  /** Área em m², descontando os buracos */
+  areaM2: number;
+  /** Área em hectares */
+  areaHa: number;
+  /** Área em alqueires */
+  areaAlqueires: number;
+  /** Perímetro dos anéis externos em metros */
+  perimeterM: number;
+  /** Perímetro em quilômetros */
+  perimeterKm: number;
+};
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Área esférica (m²) de um anel [lng, lat], sempre positiva */
+export function ringArea(ring: Position[]): number {
+  const n = ring.length;
+  if (n < 3) return 0;
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const p1 = ring[i];
+    const p2 = ring[(i + 1) % n];
+    const p3 = ring[(i + 2) % n];
+    total += (toRad(p3[0]) - toRad(p1[0])) * Math.sin(toRad(p2[1]));
+  }
+  return Math.abs((total * wgs84Radius * wgs84Radius) / 2);
+}
+
+/** Distância (m) entre duas posições [lng, lat] pela fórmula de haversine */
+export function distanceMeters(a: Position, b: Position): number {
+  const dLat = toRad(b[1] - a[1]);
+  const dLng = toRad(b[0] - a[0]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * earthMeanRadius * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Comprimento (m) de uma linha ou anel */
+export function lineLength(line: Position[]): number {
+  let total = 0;
+  for (let i = 1; i < line.length; i++) total += distanceMeters(line[i - 1], line[i]);
+  return total;
+}
+
+/** Área de um polígono (anel externo menos buracos) */
+export function polygonArea(rings: Position[][]): number {
+  if (!rings.length) return 0;
+  let area = ringArea(rings[0]);
+  for (let i = 1; i < rings.length; i++) area -= ringArea(rings[i]);
+  return Math.max(0, area);
+}
+
+function toMetrics(areaM2: number, perimeterM: number, options?: MetricsOptions): FeatureMetrics {
+  const alqueire = options?.alqueireM2 ?? alqueirePaulistaM2;
+  return {
+    areaM2,
+    areaHa: areaM2 / squareMetersPerHectare,
+    areaAlqueires: areaM2 / alqueire,
+    perimeterM,
+    perimeterKm: perimeterM / 1000,
+  };
+}
+
+/** Medidas de uma feição Polygon/MultiPolygon; null para outras geometrias */
+export function computeFeatureMetrics(feature: Feature, options?: MetricsOptions): FeatureMetrics | null {
+  const geometry = feature.geometry;
+  if (!geometry) return null;
+  let polygons: Position[][][];
+  if (geometry.type === 'Polygon') polygons = [geometry.coordinates];
+  else if (geometry.type === 'MultiPolygon') polygons = geometry.coordinates;
+  else return null;
+
+  let area = 0;
+  let perimeter = 0;
+  for (const rings of polygons) {
+    area += polygonArea(rings);
+    if (rings[0]) perimeter += lineLength(rings[0]);
+  }
+  return toMetrics(area, perimeter, options);
+}
+
+/** Soma das medidas de todos os polígonos da coleção */
+export function computeCollectionMetrics(collection: FeatureCollection, options?: MetricsOptions): FeatureMetrics & { polygonCount: number } {
+  let area = 0;
+  let perimeter = 0;
+  let polygonCount = 0;
+  for (const feature of collection.features) {
+    const metrics = computeFeatureMetrics(feature, options);
+    if (!metrics) continue;
+    area += metrics.areaM2;
+    perimeter += metrics.perimeterM;
+    polygonCount++;
+  }
+  return { ...toMetrics(area, perimeter, options), polygonCount };
+}
+
+/** Grava as medidas nas propriedades (para exportação), arredondadas */
+export function withMetricsProperties(properties: GeoJsonProperties, metrics: FeatureMetrics): GeoJsonProperties {
+  return {
+    ...properties,
+    areaM2: round(metrics.areaM2, 2),
+    areaHa: round(metrics.areaHa, 4),
+    areaAlqueires: round(metrics.areaAlqueires, 4),
+    perimeterM: round(metrics.perimeterM, 2),
+    perimeterKm: round(metrics.perimeterKm, 3),
+  };
+}
+
+/** Retorna a coleção com as medidas gravadas nas propriedades dos polígonos */
+export function withCollectionMetrics(collection: FeatureCollection, options?: MetricsOptions): FeatureCollection {
+  return {
+    ...collection,
+    features: collection.features.map(feature => {
+      const metrics = computeFeatureMetrics(feature, options);
+      return metrics ? { ...feature, properties: withMetricsProperties(feature.properties, metrics) } : feature;
+    }),
+  };
+}
+
+/** Formata uma área para exibição: "12,35 ha" (ou m² abaixo de 1 ha) */
+export function formatArea(areaM2: number): string {
+  if (areaM2 < squareMetersPerHectare) return `${formatNumber(areaM2, 0)} m²`;
+  return `${formatNumber(areaM2 / squareMetersPerHectare, 2)} ha`;
+}
+
+/** Formata um comprimento para exibição: "850 m" ou "3,42 km" */
+export function formatLength(meters: number): string {
+  if (meters < 1000) return `${formatNumber(meters, 0)} m`;
+  return `${formatNumber(meters / 1000, 2)} km`;
+}
+
+function formatNumber(value: number, digits: number): string {
+  return value.toLocaleString('pt-BR', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,198 @@
+import type { GeoJsonProperties, Geometry, MultiPolygon, Polygon, Position } from 'geojson';
+import polygonClipping, { type Geom, type MultiPolygon as ClipMultiPolygon, type Pair } from 'polygon-clipping';
+import { ringSignedArea } from './geometry';
+
+// ===============================
+// Operações entre polígonos: união, diferença, interseção e divisão por linha
+// ===============================
+
+/** Geometria de área aceita pelas operações */
+export type AreaGeometry = Polygon | MultiPolygon;
+
+export function isAreaGeometry(geometry: Geometry | null | undefined): geometry is AreaGeometry {
+  return geometry?.type === 'Polygon' || geometry?.type === 'MultiPolygon';
+}
+
+const toPair = (position: Position): Pair => [position[0], position[1]];
+
+function toClip(geometry: AreaGeometry): Geom {
+  return geometry.type === 'Polygon'
+    ? geometry.coordinates.map(ring => ring.map(toPair))
+    : geometry.coordinates.map(polygon => polygon.map(ring => ring.map(toPair)));
+}
+
+/**
+ * Resultado do polygon-clipping como GeoJSON: Polygon com uma parte, MultiPolygon com várias, null se vazio.
+ * Os anéis já saem fechados, sem cruzamentos e no sentido da RFC 7946 (externo anti-horário)
+ */
+function fromClip(result: ClipMultiPolygon): AreaGeometry | null {
+  if (!result.length) return null;
+  if (result.length === 1) return { type: 'Polygon', coordinates: result[0] };
+  return { type: 'MultiPolygon', coordinates: result };
+}
+
+/** União das áreas (null se o resultado é vazio) */
+export function unionAreas(primary: AreaGeometry, others: AreaGeometry[]): AreaGeometry | null {
+  return fromClip(polygonClipping.union(toClip(primary), ...others.map(toClip)));
+}
+
+/** Área de `primary` fora das demais (null se nada sobra) */
+export function subtractAreas(primary: AreaGeometry, others: AreaGeometry[]): AreaGeometry | null {
+  return fromClip(polygonClipping.difference(toClip(primary), ...others.map(toClip)));
+}
+
+/** Área comum a `primary` e a todas as demais (null se não se sobrepõem) */
+export function intersectAreas(primary: AreaGeometry, others: AreaGeometry[]): AreaGeometry | null {
+  return fromClip(polygonClipping.intersection(toClip(primary), ...others.map(toClip)));
+}
+
+/** Linhas de corte aceitas na divisão */
+export type CutGeometry = Extract<Geometry, { type: 'LineString' | 'MultiLineString' }>;
+
+export function isCutGeometry(geometry: Geometry | null | undefined): geometry is CutGeometry {
+  return geometry?.type === 'LineString' || geometry?.type === 'MultiLineString';
+}
+
+type Segment = { a: Pair; b: Pair; cuts: { t: number; point: Pair }[] };
+
+const pointKey = (p: Pair) => `${p[0]},${p[1]}`;
+
+// Interseção de dois segmentos (parâmetros t em `s` e u em `o`, ambos em [0, 1]); paralelos não contam
+function segmentIntersection(s: Segment, o: Segment): { t: number; u: number } | null {
+  const [x1, y1] = s.a;
+  const [x2, y2] = s.b;
+  const [x3, y3] = o.a;
+  const [x4, y4] = o.b;
+  const denominator = (x2 - x1) * (y4 - y3) - (y2 - y1) * (x4 - x3);
+  if (denominator === 0) return null;
+  const t = ((x3 - x1) * (y4 - y3) - (y3 - y1) * (x4 - x3)) / denominator;
+  const u = ((x3 - x1) * (y2 - y1) - (y3 - y1) * (x2 - x1)) / denominator;
+  const eps = 1e-12;
+  if (t < -eps || t > 1 + eps || u < -eps || u > 1 + eps) return null;
+  return { t: Math.min(1, Math.max(0, t)), u: Math.min(1, Math.max(0, u)) };
+}
+
+/**
+ * Faces do grafo formado pelos anéis e pela linha de corte: os segmentos são quebrados nos cruzamentos,
+ * as pontas soltas da linha são podadas e cada face é percorrida mantendo-a à esquerda.
+ * Retorna null se a linha não cruza nenhum anel
+ */
+function graphFaces(rings: Pair[][], lines: Pair[][]): Pair[][] | null {
+  const toSegments = (path: Pair[]) => path.slice(1).map((b, i): Segment => ({ a: path[i], b, cuts: [] }));
+  const ringSegments = rings.flatMap(toSegments);
+  const lineSegments = lines.flatMap(toSegments);
+
+  // Quebra nos cruzamentos; nas pontas usa o vértice existente, para os nós coincidirem exatamente
+  const node = (s: Segment, o: Segment) => {
+    const hit = segmentIntersection(s, o);
+    if (!hit) return;
+    const eps = 1e-9;
+    const point: Pair = hit.u < eps ? o.a : hit.u > 1 - eps ? o.b : hit.t < eps ? s.a : hit.t > 1 - eps ? s.b
+      : [s.a[0] + hit.t * (s.b[0] - s.a[0]), s.a[1] + hit.t * (s.b[1] - s.a[1])];
+    s.cuts.push({ t: hit.t, point });
+    o.cuts.push({ t: hit.u, point });
+  };
+  for (const line of lineSegments) {
+    for (const ring of ringSegments) node(line, ring);
+  }
+  if (!ringSegments.some(segment => segment.cuts.length)) return null;
+  // A linha cruzando a si mesma também fecha faces (trechos vizinhos só se tocam no vértice comum)
+  for (let i = 0; i < lineSegments.length; i++) {
+    for (let j = i + 1; j < lineSegments.length; j++) {
+      if (lineSegments[i].b !== lineSegments[j].a) node(lineSegments[i], lineSegments[j]);
+    }
+  }
+
+  // Arestas sem repetição e vizinhos de cada nó
+  const points = new Map<string, Pair>();
+  const neighbours = new Map<string, Set<string>>();
+  const link = (a: Pair, b: Pair) => {
+    const ka = pointKey(a);
+    const kb = pointKey(b);
+    if (ka === kb) return;
+    points.set(ka, a);
+    points.set(kb, b);
+    if (!neighbours.has(ka)) neighbours.set(ka, new Set());
+    if (!neighbours.has(kb)) neighbours.set(kb, new Set());
+    neighbours.get(ka)!.add(kb);
+    neighbours.get(kb)!.add(ka);
+  };
+  for (const segment of [...ringSegments, ...lineSegments]) {
+    const stops = [{ t: 0, point: segment.a }, ...segment.cuts.sort((x, y) => x.t - y.t), { t: 1, point: segment.b }];
+    for (let i = 1; i < stops.length; i++) link(stops[i - 1].point, stops[i].point);
+  }
+
+  // Poda as pontas soltas (trechos da linha que não fecham nenhuma face)
+  const loose = [...neighbours.keys()].filter(k => neighbours.get(k)!.size < 2);
+  while (loose.length) {
+    const key = loose.pop()!;
+    const around = neighbours.get(key);
+    if (!around) continue;
+    neighbours.delete(key);
+    for (const other of around) {
+      const set = neighbours.get(other);
+      if (!set) continue;
+      set.delete(key);
+      if (set.size < 2) loose.push(other);
+    }
+  }
+
+  // Vizinhos em ordem anti-horária de ângulo
+  const angle = (from: string, to: string) => {
+    const a = points.get(from)!;
+    const b = points.get(to)!;
+    return Math.atan2(b[1] - a[1], b[0] - a[0]);
+  };
+  const ordered = new Map<string, string[]>();
+  for (const [key, set] of neighbours) ordered.set(key, [...set].sort((x, y) => angle(key, x) - angle(key, y)));
+
+  // Percorre cada meia-aresta uma vez; a próxima é a primeira no sentido horário a partir da volta
+  const visited = new Set<string>();
+  const faces: Pair[][] = [];
+  for (const [start, around] of ordered) {
+    for (const first of around) {
+      if (visited.has(`${start}>${first}`)) continue;
+      const ring: Pair[] = [points.get(start)!];
+      let from = start;
+      let to = first;
+      while (!visited.has(`${from}>${to}`)) {
+        visited.add(`${from}>${to}`);
+        ring.push(points.get(to)!);
+        const next = ordered.get(to)!;
+        const back = next.indexOf(from);
+        const following = next[(back - 1 + next.length) % next.length];
+        from = to;
+        to = following;
+      }
+      // Só as faces limitadas (anti-horárias); a face externa de cada componente sai no sentido horário
+      if (ring.length >= 4 && ringSignedArea(ring) > 0) faces.push(ring);
+    }
+  }
+  return faces;
+}
+
+/**
+ * Divide a área pela(s) linha(s). Cada parte é um Polygon válido; retorna uma lista com uma só geometria
+ * (a original) quando a linha não atravessa a área
+ */
+export function splitAreaByLine(area: AreaGeometry, cut: CutGeometry): AreaGeometry[] {
+  const clip = toClip(area);
+  const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+  const rings = polygons.flat().map(ring => ring.map(toPair));
+  const lines = (cut.type === 'LineString' ? [cut.coordinates] : cut.coordinates).map(line => line.map(toPair));
+  const faces = graphFaces(rings, lines);
+  if (!faces) return [area];
+  const parts: AreaGeometry[] = [];
+  for (const face of faces) {
+    // A interseção com a área original descarta as faces fora dela (e dentro dos buracos)
+    for (const polygon of polygonClipping.intersection([face], clip)) parts.push({ type: 'Polygon', coordinates: polygon });
+  }
+  return parts.length > 1 ? parts : [area];
+}
+
+/** Propriedades da feição primária para o resultado: um círculo editado deixa de ser círculo */
+export function overlayProperties(properties: GeoJsonProperties): GeoJsonProperties {
+  if (properties?.shape !== 'circle') return properties;
+  const { shape: _shape, center: _center, radius: _radius, ...rest } = properties;
+  return rest;
+}
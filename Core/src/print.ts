@@ -0,0 +1,516 @@
+import type { Feature, Geometry, Position } from 'geojson';
+import { createPdfDocument, pdfFitText, pdfPaperSizes, type PdfPage } from './formats/pdf';
+import { getLabelPoint, type BBox } from './geometry';
+import { scaleBar, type LegendItem, type LegendSection } from './legend';
+import { computeFeatureMetrics, formatArea } from './metrics';
+import { isPolygonFeature } from './style';
+
+// ===============================
+// Imagem do mapa (PNG/JPEG) e planta para impressão (PDF)
+// ===============================
+
+export type ImageFormat = 'png' | 'jpeg';
+
+export type ImageExportOptions = {
+  /** Largura e altura da área capturada, em px de tela (padrão: o tamanho atual do mapa) */
+  width?: number;
+  height?: number;
+  /** Resolução da imagem (padrão 96, a da tela); 192 dobra os pixels e busca tiles mais detalhados */
+  dpi?: number;
+  format?: ImageFormat;
+  /** Legenda desenhada sobre a imagem, com a escala e o norte (sem este campo a imagem sai limpa) */
+  legend?: LegendSection[];
+};
+
+/** Imagem capturada e o que é preciso para georreferenciá-la (grade, escala e norte do PDF) */
+export type MapImage = {
+  blob: Blob;
+  /** Tamanho em pixels */
+  width: number;
+  height: number;
+  dpi: number;
+  /** Extensão [[oeste, sul], [leste, norte]] (com o mapa girado, a caixa que contém a imagem) */
+  bounds: BBox;
+  /** Metros por pixel da imagem, no centro */
+  metersPerPixel: number;
+  /** Rotação do mapa em graus */
+  bearing: number;
+};
+
+/** Estilo de uma feição no canvas (as mesmas propriedades de estilo das feições) */
+export type CanvasFeatureStyle = {
+  fillColor?: string;
+  fillOpacity?: number;
+  strokeColor?: string;
+  strokeWidth?: number;
+  strokeOpacity?: number;
+  /** Raio dos pontos (px) */
+  radius?: number;
+};
+
+export type DrawFeaturesOptions = {
+  /** [lng, lat] para px de tela da imagem */
+  project: (position: Position) => [number, number];
+  /** Estilo de cada feição (null não desenha) */
+  style: (feature: Feature) => CanvasFeatureStyle | null;
+};
+
+/** Converte o canvas em PNG ou JPEG */
+export function canvasToBlob(canvas: HTMLCanvasElement, format: ImageFormat = 'png', quality = 0.92): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('O navegador não gerou a imagem (mapa grande demais ou tiles sem CORS)'))),
+      format === 'jpeg' ? 'image/jpeg' : 'image/png',
+      quality,
+    );
+  });
+}
+
+function tracePath(ctx: CanvasRenderingContext2D, geometry: Geometry, project: DrawFeaturesOptions['project']) {
+  const trace = (ring: Position[], close: boolean) => {
+    ring.forEach((position, i) => {
+      const [x, y] = project(position);
+      if (i) ctx.lineTo(x, y);
+      else ctx.moveTo(x, y);
+    });
+    if (close) ctx.closePath();
+  };
+  switch (geometry.type) {
+    case 'Polygon':
+      geometry.coordinates.forEach(ring => trace(ring, true));
+      break;
+    case 'MultiPolygon':
+      geometry.coordinates.forEach(polygon => polygon.forEach(ring => trace(ring, true)));
+      break;
+    case 'LineString':
+      trace(geometry.coordinates, false);
+      break;
+    case 'MultiLineString':
+      geometry.coordinates.forEach(line => trace(line, false));
+      break;
+    default:
+      break;
+  }
+}
+
+/** Desenha polígonos, linhas e pontos no canvas (os buracos ficam vazados) */
+export function drawFeatures(ctx: CanvasRenderingContext2D, features: Feature[], options: DrawFeaturesOptions) {
+  for (const feature of features) {
+    const geometry = feature.geometry;
+    const style = geometry ? options.style(feature) : null;
+    if (!geometry || !style) continue;
+    ctx.save();
+    ctx.beginPath();
+    if (geometry.type === 'Point' || geometry.type === 'MultiPoint') {
+      const points = geometry.type === 'Point' ? [geometry.coordinates] : geometry.coordinates;
+      for (const position of points) {
+        const [x, y] = options.project(position);
+        ctx.moveTo(x + (style.radius ?? 7), y);
+        ctx.arc(x, y, style.radius ?? 7, 0, Math.PI * 2);
+      }
+    } else {
+      tracePath(ctx, geometry, options.project);
+    }
+    const fillable = geometry.type !== 'LineString' && geometry.type !== 'MultiLineString';
+    if (fillable && style.fillColor) {
+      ctx.globalAlpha = style.fillOpacity ?? 1;
+      ctx.fillStyle = style.fillColor;
+      ctx.fill('evenodd');
+    }
+    if (style.strokeColor && (style.strokeWidth ?? 1) > 0) {
+      ctx.globalAlpha = style.strokeOpacity ?? 1;
+      ctx.strokeStyle = style.strokeColor;
+      ctx.lineWidth = style.strokeWidth ?? 1;
+      ctx.lineJoin = 'round';
+      ctx.lineCap = 'round';
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+}
+
+/** Texto com contorno branco (como os rótulos do mapa) centralizado em (x, y) */
+export function drawHaloText(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, size = 14) {
+  ctx.save();
+  ctx.font = `${size}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineJoin = 'round';
+  ctx.strokeText(text, x, y);
+  ctx.fillStyle = '#000000';
+  ctx.fillText(text, x, y);
+  ctx.restore();
+}
+
+/** Rótulos `labelText` no ponto interno de cada polígono */
+export function drawTextLabels(ctx: CanvasRenderingContext2D, features: Feature[], project: DrawFeaturesOptions['project']) {
+  for (const feature of features) {
+    const text = feature.properties?.labelText;
+    const point = text ? getLabelPoint(feature) : null;
+    if (!point) continue;
+    const [x, y] = project(point);
+    drawHaloText(ctx, String(text), x, y);
+  }
+}
+
+/** Texto em caixa branca com o canto superior esquerdo em (x, y), como os rótulos de coordenadas */
+export function drawBoxedText(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, size = 10) {
+  ctx.save();
+  ctx.font = `${size}px sans-serif`;
+  ctx.textBaseline = 'middle';
+  const width = ctx.measureText(text).width + 12;
+  const height = size + 4;
+  ctx.fillStyle = '#ffffff';
+  ctx.strokeStyle = '#e6e6e6';
+  ctx.lineWidth = 1;
+  ctx.fillRect(x, y, width, height);
+  ctx.strokeRect(x, y, width, height);
+  ctx.fillStyle = '#000000';
+  ctx.fillText(text, x + 6, y + height / 2);
+  ctx.restore();
+}
+
+/** Carrega uma imagem liberada para o canvas (CORS); null se falhar, para a captura seguir sem ela */
+export function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+}
+
+/** Marcador (alfinete) com o texto ao lado, desenhado no lugar do ícone da tela */
+export function drawMarker(ctx: CanvasRenderingContext2D, x: number, y: number, label?: string) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.bezierCurveTo(x - 4, y - 10, x - 10, y - 14, x - 10, y - 22);
+  ctx.arc(x, y - 22, 10, Math.PI, 0);
+  ctx.bezierCurveTo(x + 10, y - 14, x + 4, y - 10, x, y);
+  ctx.fillStyle = '#ea4335';
+  ctx.strokeStyle = '#a52714';
+  ctx.lineWidth = 1;
+  ctx.fill();
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.arc(x, y - 22, 3.5, 0, Math.PI * 2);
+  ctx.fillStyle = '#7b0d0d';
+  ctx.fill();
+  if (label) {
+    ctx.font = '14px sans-serif';
+    ctx.textBaseline = 'middle';
+    const width = ctx.measureText(label).width + 16;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(x + 14, y - 32, width, 20);
+    ctx.fillStyle = '#222222';
+    ctx.fillText(label, x + 22, y - 22);
+  }
+  ctx.restore();
+}
+
+// ===============================
+// Planta em PDF
+// ===============================
+
+export type PaperSize = keyof typeof pdfPaperSizes;
+export type PaperOrientation = 'portrait' | 'landscape';
+
+export const paperOrientationLabels: Record<PaperOrientation, string> = {
+  portrait: 'Retrato',
+  landscape: 'Paisagem',
+};
+
+export type PrintLayoutOptions = {
+  paper: PaperSize;
+  orientation: PaperOrientation;
+};
+
+/** Posição do mapa na primeira página (pt) e o tamanho da imagem a capturar (px de tela) */
+export type PrintFrame = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  imageWidth: number;
+  imageHeight: number;
+};
+
+export type PrintOptions = PrintLayoutOptions & {
+  title: string;
+  date?: Date;
+  /** Imagem em JPEG capturada no tamanho de printMapFrame */
+  image: MapImage;
+  legend: LegendSection[];
+  /** Feições da tabela de áreas (só os polígonos entram) */
+  features: Feature[];
+  /** Grade de coordenadas sobre o mapa (padrão: sim; omitida com o mapa girado) */
+  grid?: boolean;
+};
+
+const margin = 28;
+const headerHeight = 36;
+// Espaço dos rótulos da grade em volta do mapa
+const gridGutter = 12;
+const sidebarWidth = 160;
+const bandHeight = 150;
+const footerHeight = 14;
+const pointsPerPixel = 72 / 96;
+
+function pageSize({ paper, orientation }: PrintLayoutOptions): [number, number] {
+  const [width, height] = pdfPaperSizes[paper];
+  return orientation === 'landscape' ? [height, width] : [width, height];
+}
+
+/**
+ * Área do mapa na folha: em paisagem a legenda fica à direita; em retrato, numa faixa abaixo.
+ * A imagem é pedida em px de tela (96 por polegada), então o zoom atual cobre a mesma região da tela
+ */
+export function printMapFrame(options: PrintLayoutOptions): PrintFrame {
+  const [pageWidth, pageHeight] = pageSize(options);
+  const x = margin + gridGutter;
+  const y = margin + headerHeight + gridGutter;
+  const width = options.orientation === 'landscape'
+    ? pageWidth - x - margin - sidebarWidth - 12
+    : pageWidth - x - margin;
+  const height = options.orientation === 'landscape'
+    ? pageHeight - y - margin - footerHeight
+    : pageHeight - y - margin - footerHeight - bandHeight - 10;
+  return { x, y, width, height, imageWidth: Math.round(width / pointsPerPixel), imageHeight: Math.round(height / pointsPerPixel) };
+}
+
+const formatNumber = (value: number, digits: number) =>
+  value.toLocaleString('pt-BR', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+// Intervalo "redondo" (1, 2 ou 5 × 10ⁿ graus) para cerca de `lines` linhas da grade
+function gridStep(span: number, lines = 4): number {
+  const raw = span / lines;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  // Tolerância para a divisão em ponto flutuante (0,02 / 4 dá 0,00499...)
+  const leading = raw / magnitude + 1e-9;
+  return (leading >= 5 ? 5 : leading >= 2 ? 2 : 1) * magnitude;
+}
+
+const mercatorY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360));
+
+// Grade de coordenadas (graus decimais) sobre a imagem, com os rótulos por fora da moldura
+function drawGrid(page: PdfPage, frame: PrintFrame, bounds: BBox) {
+  const [[west, south], [east, north]] = bounds;
+  const step = gridStep(Math.min(east - west, north - south));
+  if (!Number.isFinite(step) || step <= 0) return;
+  const digits = Math.max(0, Math.ceil(-Math.log10(step)));
+  const label = (value: number) => `${formatNumber(value, digits)}°`;
+  const top = mercatorY(north);
+  const bottom = mercatorY(south);
+  page.clip(frame.x, frame.y, frame.width, frame.height);
+  const lngs: number[] = [];
+  const lats: number[] = [];
+  for (let lng = Math.ceil(west / step) * step; lng < east; lng += step) lngs.push(lng);
+  for (let lat = Math.ceil(south / step) * step; lat < north; lat += step) lats.push(lat);
+  const xOf = (lng: number) => frame.x + ((lng - west) / (east - west)) * frame.width;
+  const yOf = (lat: number) => frame.y + ((top - mercatorY(lat)) / (top - bottom)) * frame.height;
+  for (const lng of lngs) page.line(xOf(lng), frame.y, xOf(lng), frame.y + frame.height, { stroke: '#ffffff', lineWidth: 0.5, dash: [3, 3] });
+  for (const lat of lats) page.line(frame.x, yOf(lat), frame.x + frame.width, yOf(lat), { stroke: '#ffffff', lineWidth: 0.5, dash: [3, 3] });
+  page.restore();
+  for (const lng of lngs) page.text(label(lng), xOf(lng), frame.y - 3, { size: 6.5, align: 'center', color: '#334155' });
+  for (const lat of lats) page.text(label(lat), frame.x - 3, yOf(lat), { size: 6.5, align: 'center', angle: 90, color: '#334155' });
+}
+
+function drawNorth(page: PdfPage, cx: number, cy: number, size: number, bearing: number) {
+  const angle = (bearing * Math.PI) / 180;
+  // Gira no sentido contrário ao do mapa (y da página cresce para baixo)
+  const rotate = ([x, y]: [number, number]): [number, number] => [
+    cx + x * Math.cos(angle) + y * Math.sin(angle),
+    cy - x * Math.sin(angle) + y * Math.cos(angle),
+  ];
+  page.polygon([[0, -size / 2], [size / 3, size / 2], [0, size / 4], [-size / 3, size / 2]].map(p => rotate(p as [number, number])), { fill: '#1e293b' });
+  const [nx, ny] = rotate([0, -size / 2 - 4]);
+  page.text('N', nx, ny, { size: 9, font: 'bold', align: 'center', color: '#1e293b' });
+}
+
+// Escala gráfica e numérica; retorna a altura usada
+function drawScale(page: PdfPage, x: number, y: number, width: number, image: MapImage, frame: PrintFrame): number {
+  const metersPerPoint = (image.metersPerPixel * image.width) / frame.width;
+  const scale = scaleBar(metersPerPoint, width);
+  if (!scale) return 0;
+  page.text('0', x, y + 8, { size: 7 });
+  page.text(scale.label, x + scale.widthPx, y + 8, { size: 7, align: 'right' });
+  page.rect(x, y + 11, scale.widthPx / 2, 5, { fill: '#1e293b', stroke: '#1e293b', lineWidth: 0.6 });
+  page.rect(x + scale.widthPx / 2, y + 11, scale.widthPx / 2, 5, { fill: '#ffffff', stroke: '#1e293b', lineWidth: 0.6 });
+  // 1 pt = 0,0254/72 m no papel
+  const ratio = Math.round((metersPerPoint * 72) / 0.0254 / 100) * 100;
+  page.text(`Escala aproximada 1:${ratio.toLocaleString('pt-BR')}`, x, y + 27, { size: 7, color: '#475569' });
+  return 32;
+}
+
+// Mistura a cor com o branco pela opacidade (o PDF gerado não usa transparência)
+function blendWithWhite(color: string, opacity: number): string {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex.slice(0, 6);
+  const alpha = Math.min(1, Math.max(0.25, opacity));
+  return `#${[0, 2, 4]
+    .map(i => Math.round(255 - (255 - (parseInt(full.substring(i, i + 2), 16) || 0)) * alpha).toString(16).padStart(2, '0'))
+    .join('')}`;
+}
+
+function drawLegendSymbol(page: PdfPage, item: LegendItem, x: number, y: number) {
+  const stroke = item.strokeColor;
+  const lineWidth = Math.min(item.strokeWidth ?? 1, 2);
+  const fill = item.fillColor ? blendWithWhite(item.fillColor, item.fillOpacity ?? 1) : undefined;
+  if (item.symbol === 'line') page.line(x, y + 4.5, x + 10, y + 4.5, { stroke: stroke ?? '#000000', lineWidth });
+  else if (item.symbol === 'point') page.polygon(Array.from({ length: 12 }, (_, i) => [x + 5 + 3.5 * Math.cos((i * Math.PI) / 6), y + 4.5 + 3.5 * Math.sin((i * Math.PI) / 6)]), { fill, stroke, lineWidth });
+  else page.rect(x, y, 10, 9, { fill, stroke, lineWidth });
+}
+
+// Legenda em colunas dentro da caixa; o que não couber vira "+n itens"
+function drawLegend(page: PdfPage, sections: LegendSection[], x: number, y: number, width: number, height: number, columns: number) {
+  const rowHeight = 12;
+  const rows: ({ title: string } | { item: LegendItem })[] = sections.flatMap(section => [
+    { title: section.title },
+    ...section.items.map(item => ({ item })),
+  ]);
+  const perColumn = Math.max(1, Math.floor(height / rowHeight));
+  const capacity = perColumn * columns;
+  const visible = rows.length > capacity ? rows.slice(0, capacity - 1) : rows;
+  const columnWidth = width / columns;
+  visible.forEach((row, i) => {
+    const cx = x + Math.floor(i / perColumn) * columnWidth;
+    const cy = y + (i % perColumn) * rowHeight;
+    if ('title' in row) {
+      page.text(pdfFitText(row.title, columnWidth - 6, 8, 'bold'), cx, cy + 9, { size: 8, font: 'bold', color: '#1e293b' });
+    } else {
+      drawLegendSymbol(page, row.item, cx, cy + 1.5);
+      page.text(pdfFitText(row.item.label, columnWidth - 20, 7.5), cx + 14, cy + 9, { size: 7.5, color: '#334155' });
+    }
+  });
+  if (visible.length < rows.length) {
+    const i = visible.length;
+    page.text(`+${rows.length - i} itens`, x + Math.floor(i / perColumn) * columnWidth, y + (i % perColumn) * rowHeight + 9, { size: 7.5, color: '#64748b' });
+  }
+}
+
+type TableRow = { label: string; layer: string; areaM2: number; perimeterM: number };
+
+const tableColumns: { title: string; width: number; align: 'left' | 'right'; value: (row: TableRow, index: number) => string }[] = [
+  { title: '#', width: 0.06, align: 'right', value: (_, i) => String(i + 1) },
+  { title: 'Identificação', width: 0.34, align: 'left', value: row => row.label },
+  { title: 'Camada', width: 0.2, align: 'left', value: row => row.layer },
+  { title: 'Área (ha)', width: 0.13, align: 'right', value: row => formatNumber(row.areaM2 / 10000, 4) },
+  { title: 'Área (m²)', width: 0.14, align: 'right', value: row => formatNumber(row.areaM2, 0) },
+  { title: 'Perímetro (m)', width: 0.13, align: 'right', value: row => formatNumber(row.perimeterM, 1) },
+];
+
+function tableRows(features: Feature[]): TableRow[] {
+  return features.filter(isPolygonFeature).map(feature => {
+    const metrics = computeFeatureMetrics(feature);
+    const p = feature.properties ?? {};
+    return {
+      label: String(p.labelText || p.name || p.nome || feature.id || ''),
+      layer: typeof p.layer === 'string' ? p.layer : '',
+      areaM2: metrics?.areaM2 ?? 0,
+      perimeterM: metrics?.perimeterM ?? 0,
+    };
+  });
+}
+
+function drawTableRow(page: PdfPage, cells: string[], x: number, y: number, width: number, options: { bold?: boolean; fill?: string }) {
+  if (options.fill) page.rect(x, y, width, 14, { fill: options.fill });
+  let cx = x;
+  tableColumns.forEach((column, i) => {
+    const w = column.width * width;
+    const font = options.bold ? 'bold' : 'regular';
+    const text = pdfFitText(cells[i], w - 8, 8, font);
+    page.text(text, column.align === 'right' ? cx + w - 4 : cx + 4, y + 10, { size: 8, font, align: column.align, color: '#1e293b' });
+    cx += w;
+  });
+}
+
+function drawHeader(page: PdfPage, title: string, subtitle: string) {
+  page.text(pdfFitText(title, page.width - margin * 2 - 150, 16, 'bold'), margin, margin + 16, { size: 16, font: 'bold', color: '#0f172a' });
+  page.text(subtitle, page.width - margin, margin + 14, { size: 9, align: 'right', color: '#475569' });
+  page.line(margin, margin + 24, page.width - margin, margin + 24, { stroke: '#cbd5e1', lineWidth: 0.8 });
+}
+
+function drawFooter(page: PdfPage, index: number, total: number) {
+  const y = page.height - margin + 4;
+  page.text('Coordenadas geográficas em graus decimais (WGS 84)', margin, y, { size: 7, color: '#64748b' });
+  page.text(`Página ${index} de ${total}`, page.width - margin, y, { size: 7, align: 'right', color: '#64748b' });
+}
+
+/**
+ * Planta do mapa em PDF: título, data, mapa com grade de coordenadas, norte, escala e legenda na
+ * primeira folha e, nas seguintes, a tabela das feições com área e perímetro
+ */
+export async function createPrintPdf(options: PrintOptions): Promise<Blob> {
+  const { image, title, legend } = options;
+  if (image.blob.type !== 'image/jpeg') throw new Error('A planta em PDF precisa da imagem do mapa em JPEG');
+  const [pageWidth, pageHeight] = pageSize(options);
+  const frame = printMapFrame(options);
+  const date = (options.date ?? new Date()).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+  const rows = tableRows(options.features);
+  const rowsPerPage = Math.floor((pageHeight - margin * 2 - headerHeight - footerHeight - 14 * 2) / 14);
+  const tablePages = rows.length ? Math.ceil((rows.length + 1) / rowsPerPage) : 0;
+  const totalPages = 1 + tablePages;
+
+  const pdf = createPdfDocument();
+  const imageName = pdf.addJpeg(new Uint8Array(await image.blob.arrayBuffer()), image.width, image.height);
+
+  // Folha 1: mapa, grade, norte, escala e legenda
+  const page = pdf.addPage(pageWidth, pageHeight);
+  drawHeader(page, title, `Gerado em ${date}`);
+  page.image(imageName, frame.x, frame.y, frame.width, frame.height);
+  if (options.grid !== false && Math.abs(image.bearing) < 0.5) drawGrid(page, frame, image.bounds);
+  page.rect(frame.x, frame.y, frame.width, frame.height, { stroke: '#0f172a', lineWidth: 0.8 });
+
+  const totalArea = rows.reduce((sum, row) => sum + row.areaM2, 0);
+  const summary = `${rows.length} ${rows.length === 1 ? 'polígono' : 'polígonos'} · ${formatArea(totalArea)}`;
+  if (options.orientation === 'landscape') {
+    const x = frame.x + frame.width + 12;
+    let y = frame.y;
+    drawNorth(page, x + sidebarWidth / 2, y + 20, 26, image.bearing);
+    y += 44;
+    y += drawScale(page, x, y, sidebarWidth - 10, image, frame) + 6;
+    page.text(pdfFitText(summary, sidebarWidth, 8), x, y + 8, { size: 8, color: '#334155' });
+    y += 20;
+    drawLegend(page, legend, x, y, sidebarWidth, frame.y + frame.height - y, 1);
+  } else {
+    const x = margin;
+    const y = frame.y + frame.height + 10;
+    const infoWidth = 150;
+    drawNorth(page, x + 20, y + 20, 26, image.bearing);
+    drawScale(page, x + 44, y + 6, infoWidth - 50, image, frame);
+    page.text(pdfFitText(summary, infoWidth, 8), x, y + 56, { size: 8, color: '#334155' });
+    const legendX = x + infoWidth + 14;
+    drawLegend(page, legend, legendX, y, pageWidth - margin - legendX, bandHeight, 2);
+  }
+  drawFooter(page, 1, totalPages);
+
+  // Folhas seguintes: tabela das feições (o total vai no fim da última)
+  const tableX = margin;
+  const tableWidth = pageWidth - margin * 2;
+  for (let p = 0; p < tablePages; p++) {
+    const tablePage = pdf.addPage(pageWidth, pageHeight);
+    drawHeader(tablePage, title, 'Feições e áreas');
+    let y = margin + headerHeight;
+    drawTableRow(tablePage, tableColumns.map(c => c.title), tableX, y, tableWidth, { bold: true, fill: '#e2e8f0' });
+    y += 14;
+    const slice = rows.slice(p * rowsPerPage, (p + 1) * rowsPerPage);
+    slice.forEach((row, i) => {
+      const index = p * rowsPerPage + i;
+      drawTableRow(tablePage, tableColumns.map(c => c.value(row, index)), tableX, y, tableWidth, { fill: index % 2 ? '#f8fafc' : undefined });
+      y += 14;
+    });
+    if (p === tablePages - 1) {
+      const totalPerimeter = rows.reduce((sum, row) => sum + row.perimeterM, 0);
+      const total: TableRow = { label: 'Total', layer: '', areaM2: totalArea, perimeterM: totalPerimeter };
+      drawTableRow(tablePage, ['', ...tableColumns.slice(1).map(c => c.value(total, 0))], tableX, y, tableWidth, { bold: true, fill: '#e2e8f0' });
+    }
+    drawFooter(tablePage, p + 2, totalPages);
+  }
+
+  const bytes = pdf.toBytes();
+  return new Blob([bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer], { type: 'application/pdf' });
+}
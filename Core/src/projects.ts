@@ -0,0 +1,302 @@
+import type { FeatureCollection } from 'geojson';
+import { createFeatureId } from './featureStore';
+import type { AttributeColumn } from './attributes';
+import { defaultLayers, type MapLayer } from './layers';
+import type { ThematicStyle } from './thematic';
+import type { MapEditorHandle, MapView } from './types';
+
+// ===============================
+// Projetos salvos no navegador (IndexedDB) com salvamento automático
+// ===============================
+
+/** Dados de um projeto mostrados na lista (sem as feições) */
+export type ProjectSummary = {
+  id: string;
+  name: string;
+  /** Criação e última alteração (ms desde 1970) */
+  createdAt: number;
+  updatedAt: number;
+  /** Quantidade de feições salvas */
+  featureCount: number;
+};
+
+/** Projeto completo: desenhos, camadas, colunas de atributos, estilo temático e última visualização do mapa */
+export type ProjectRecord = ProjectSummary & {
+  collection: FeatureCollection;
+  view?: MapView;
+  /** Camadas do usuário (projetos antigos não têm: usam as camadas padrão) */
+  layers?: MapLayer[];
+  /** Colunas da tabela de atributos */
+  columns?: AttributeColumn[];
+  /** Regra temática do preenchimento (null quando não há) */
+  thematic?: ThematicStyle | null;
+};
+
+/** Conteúdo que pode ser gravado em um projeto */
+export type ProjectData = {
+  collection?: FeatureCollection;
+  view?: MapView;
+  layers?: MapLayer[];
+  columns?: AttributeColumn[];
+  thematic?: ThematicStyle | null;
+};
+
+export type ProjectStore = {
+  /** Projetos salvos, do alterado mais recentemente para o mais antigo */
+  list: () => Promise<ProjectSummary[]>;
+  get: (id: string) => Promise<ProjectRecord | undefined>;
+  /** Cria um projeto novo (vazio, se não houver dados) */
+  create: (name: string, data?: ProjectData) => Promise<ProjectRecord>;
+  /** Grava desenhos, camadas e/ou visualização e atualiza a data de alteração */
+  save: (id: string, data: ProjectData) => Promise<ProjectRecord | undefined>;
+  rename: (id: string, name: string) => Promise<void>;
+  /** Copia um projeto com outro nome (padrão: "<nome> (cópia)") */
+  duplicate: (id: string, name?: string) => Promise<ProjectRecord | undefined>;
+  remove: (id: string) => Promise<void>;
+  /** Último projeto aberto, para reabrir ao recarregar a página */
+  getLastOpenedId: () => Promise<string | null>;
+  setLastOpenedId: (id: string | null) => Promise<void>;
+};
+
+const projectsStore = 'projects';
+const metaStore = 'meta';
+const lastOpenedKey = 'lastOpenedId';
+const emptyCollection = (): FeatureCollection => ({ type: 'FeatureCollection', features: [] });
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(dbName, 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(projectsStore)) db.createObjectStore(projectsStore, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(metaStore)) db.createObjectStore(metaStore);
+  };
+  return requestToPromise(request);
+}
+
+const toSummary = ({ id, name, createdAt, updatedAt, featureCount }: ProjectRecord): ProjectSummary => ({ id, name, createdAt, updatedAt, featureCount });
+
+/** Cria o acesso aos projetos guardados no IndexedDB do navegador */
+export function createProjectStore(dbName = 'map-editor'): ProjectStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => (dbPromise ??= openDatabase(dbName));
+
+  async function get(id: string): Promise<ProjectRecord | undefined> {
+    const tx = (await db()).transaction(projectsStore, 'readonly');
+    return requestToPromise<ProjectRecord | undefined>(tx.objectStore(projectsStore).get(id));
+  }
+
+  async function put(record: ProjectRecord): Promise<ProjectRecord> {
+    const tx = (await db()).transaction(projectsStore, 'readwrite');
+    tx.objectStore(projectsStore).put(record);
+    await transactionDone(tx);
+    return record;
+  }
+
+  async function create(name: string, data: ProjectData = {}): Promise<ProjectRecord> {
+    const now = Date.now();
+    const collection = data.collection ?? emptyCollection();
+    return put({ id: createFeatureId(), name, createdAt: now, updatedAt: now, featureCount: collection.features.length, collection, view: data.view, layers: data.layers, columns: data.columns, thematic: data.thematic });
+  }
+
+  return {
+    list: async () => {
+      const tx = (await db()).transaction(projectsStore, 'readonly');
+      const records = await requestToPromise<ProjectRecord[]>(tx.objectStore(projectsStore).getAll());
+      return records.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    get,
+    create,
+    save: async (id, data) => {
+      const record = await get(id);
+      if (!record) return undefined;
+      const collection = data.collection ?? record.collection;
+      return put({
+        ...record,
+        collection,
+        view: data.view ?? record.view,
+        layers: data.layers ?? record.layers,
+        columns: data.columns ?? record.columns,
+        thematic: data.thematic !== undefined ? data.thematic : record.thematic,
+        featureCount: collection.features.length,
+        updatedAt: Date.now(),
+      });
+    },
+    rename: async (id, name) => {
+      const record = await get(id);
+      if (record) await put({ ...record, name, updatedAt: Date.now() });
+    },
+    duplicate: async (id, name) => {
+      const record = await get(id);
+      if (!record) return undefined;
+      return create(name ?? `${record.name} (cópia)`, { collection: record.collection, view: record.view, layers: record.layers, columns: record.columns, thematic: record.thematic });
+    },
+    remove: async (id) => {
+      const tx = (await db()).transaction(projectsStore, 'readwrite');
+      tx.objectStore(projectsStore).delete(id);
+      await transactionDone(tx);
+    },
+    getLastOpenedId: async () => {
+      const tx = (await db()).transaction(metaStore, 'readonly');
+      const value = await requestToPromise<unknown>(tx.objectStore(metaStore).get(lastOpenedKey));
+      return typeof value === 'string' ? value : null;
+    },
+    setLastOpenedId: async (id) => {
+      const tx = (await db()).transaction(metaStore, 'readwrite');
+      if (id) tx.objectStore(metaStore).put(id, lastOpenedKey);
+      else tx.objectStore(metaStore).delete(lastOpenedKey);
+      await transactionDone(tx);
+    },
+  };
+}
+
+// -------- Sessão: projeto aberto no mapa + salvamento automático --------
+
+/** Estado publicado para a interface (lista e projeto aberto) */
+export type ProjectSessionState = { projects: ProjectSummary[]; currentId: string | null };
+
+export type ProjectSessionOptions = {
+  store: ProjectStore;
+  /** Handle do mapa (pode ainda não existir) */
+  getHandle: () => MapEditorHandle | null;
+  /** Chamado quando a lista ou o projeto aberto mudam */
+  onStateChange?: (state: ProjectSessionState) => void;
+  /** Espera (ms) depois da última alteração antes de salvar (padrão 800) */
+  autosaveDelay?: number;
+  /** Nome do projeto criado quando ainda não existe nenhum */
+  defaultProjectName?: string;
+};
+
+export type ProjectSession = {
+  /** Reabre o último projeto (ou cria o primeiro). Chamar depois que o mapa carregou */
+  start: () => Promise<void>;
+  /** Repassar o onDrawChange do mapa: agenda o salvamento automático */
+  handleDrawChange: (collection: FeatureCollection) => void;
+  /** Grava imediatamente o que estiver pendente (inclusive a visualização atual) */
+  flush: () => Promise<void>;
+  open: (id: string) => Promise<void>;
+  create: (name: string) => Promise<void>;
+  rename: (id: string, name: string) => Promise<void>;
+  duplicate: (id: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  getState: () => ProjectSessionState;
+};
+
+/**
+ * Liga o mapa ao armazenamento de projetos: salva os desenhos (com espera) e a visualização,
+ * abre/cria/renomeia/duplica/exclui projetos e reabre o último ao iniciar.
+ */
+export function createProjectSession({ store, getHandle, onStateChange, autosaveDelay = 800, defaultProjectName = 'Meu projeto' }: ProjectSessionOptions): ProjectSession {
+  let state: ProjectSessionState = { projects: [], currentId: null };
+  let pending: FeatureCollection | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Enquanto um projeto é carregado no mapa, o onDrawChange resultante não deve ser salvo
+  let restoring = false;
+
+  async function publish(currentId = state.currentId) {
+    state = { projects: await store.list(), currentId };
+    onStateChange?.(state);
+  }
+
+  async function flush() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const id = state.currentId;
+    if (!id) return;
+    const view = getHandle()?.getView() ?? undefined;
+    const layers = getHandle()?.getLayers();
+    const columns = getHandle()?.getAttributeColumns();
+    const thematic = getHandle()?.getThematicStyle();
+    const collection = pending ?? undefined;
+    pending = null;
+    await store.save(id, { collection, view, layers, columns, thematic });
+    await publish();
+  }
+
+  async function open(id: string) {
+    if (state.currentId && state.currentId !== id) await flush();
+    const record = await store.get(id);
+    if (!record) return;
+    const handle = getHandle();
+    restoring = true;
+    try {
+      // Camadas antes das feições, para cada feição cair na camada gravada
+      handle?.setLayers(record.layers ?? defaultLayers);
+      handle?.setAttributeColumns(record.columns ?? []);
+      handle?.setThematicStyle(record.thematic ?? null);
+      handle?.loadGeoJson(record.collection, { fitBounds: !record.view });
+      // Abrir um projeto não é um passo que se desfaz
+      handle?.clearHistory();
+      if (record.view) handle?.setView(record.view);
+    } finally {
+      restoring = false;
+    }
+    await store.setLastOpenedId(id);
+    await publish(id);
+  }
+
+  async function create(name: string) {
+    const record = await store.create(name);
+    await open(record.id);
+  }
+
+  return {
+    start: async () => {
+      const lastId = await store.getLastOpenedId();
+      const last = lastId ? await store.get(lastId) : undefined;
+      if (last) return open(last.id);
+      const [recent] = await store.list();
+      if (recent) return open(recent.id);
+      // Primeiro uso: o que já estiver no mapa vira o primeiro projeto
+      const handle = getHandle();
+      const record = await store.create(defaultProjectName, { collection: handle?.getDrawData(), view: handle?.getView() ?? undefined, layers: handle?.getLayers(), columns: handle?.getAttributeColumns(), thematic: handle?.getThematicStyle() });
+      await store.setLastOpenedId(record.id);
+      await publish(record.id);
+    },
+    handleDrawChange: (collection) => {
+      if (restoring || !state.currentId) return;
+      pending = collection;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => { void flush(); }, autosaveDelay);
+    },
+    flush,
+    open,
+    create,
+    rename: async (id, name) => {
+      await store.rename(id, name);
+      await publish();
+    },
+    duplicate: async (id) => {
+      if (id === state.currentId) await flush();
+      await store.duplicate(id);
+      await publish();
+    },
+    remove: async (id) => {
+      await store.remove(id);
+      if (id !== state.currentId) return publish();
+      // Excluiu o projeto aberto: abre o mais recente ou começa um novo
+      if (timer) clearTimeout(timer);
+      timer = null;
+      pending = null;
+      state = { ...state, currentId: null };
+      const [next] = await store.list();
+      if (next) await open(next.id);
+      else await create(defaultProjectName);
+    },
+    getState: () => state,
+  };
+}
@@ -0,0 +1,123 @@
+import type { Feature } from 'geojson';
+import { attributeLabel, reservedAttributeKeys, type AttributeColumn, type AttributeType, type AttributeValue } from './attributes';
+
+// ===============================
+// Esquema dos atributos: validação e JSON Schema
+// ===============================
+
+/**
+ * Pendências de uma feição em relação ao esquema:
+ * - `missing-required`: coluna obrigatória sem valor
+ * - `invalid-type`: valor que não é do tipo da coluna (ex.: texto em coluna de número)
+ * - `not-allowed`: valor fora da lista da coluna
+ */
+export type SchemaViolationType = 'missing-required' | 'invalid-type' | 'not-allowed';
+
+export const schemaViolationLabels: Record<SchemaViolationType, string> = {
+  'missing-required': 'Obrigatório sem valor',
+  'invalid-type': 'Tipo inválido',
+  'not-allowed': 'Valor fora da lista',
+};
+
+export type SchemaViolation = {
+  featureId: string;
+  /** Coluna com problema */
+  key: string;
+  type: SchemaViolationType;
+  message: string;
+};
+
+/** Documento JSON Schema (só o que o editor lê e grava) */
+export type JsonSchema = {
+  $schema?: string;
+  title?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+};
+
+const jsonSchemaDialect = 'https://json-schema.org/draft/2020-12/schema';
+const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Pendência de um valor em uma coluna (null se está de acordo)
+function checkValue(column: AttributeColumn, value: unknown): { type: SchemaViolationType; message: string } | null {
+  const label = attributeLabel(column);
+  if (isEmpty(value)) return column.required ? { type: 'missing-required', message: `${label} é obrigatório` } : null;
+  switch (column.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : { type: 'invalid-type', message: `${label} deve ser um número` };
+    case 'date':
+      return typeof value === 'string' && isoDate.test(value) ? null : { type: 'invalid-type', message: `${label} deve ser uma data (AAAA-MM-DD)` };
+    case 'enum':
+      return column.options?.includes(String(value)) ? null : { type: 'not-allowed', message: `${label}: "${value}" não está na lista` };
+    default:
+      return typeof value === 'string' || typeof value === 'number' ? null : { type: 'invalid-type', message: `${label} deve ser um texto` };
+  }
+}
+
+/** Confere as feições contra as colunas (obrigatórias, tipo e lista de valores) */
+export function validateAttributes(features: Feature[], columns: AttributeColumn[]): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  for (const feature of features) {
+    if (feature.id === undefined) continue;
+    for (const column of columns) {
+      const problem = checkValue(column, feature.properties?.[column.key]);
+      if (problem) violations.push({ featureId: String(feature.id), key: column.key, ...problem });
+    }
+  }
+  return violations;
+}
+
+/** Converte as colunas em um JSON Schema (das propriedades de cada feição) */
+export function toJsonSchema(columns: AttributeColumn[], title = 'Atributos das feições'): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  for (const column of columns) {
+    const property: JsonSchema = { type: column.type === 'number' ? 'number' : 'string' };
+    if (column.label) property.title = column.label;
+    if (column.type === 'date') property.format = 'date';
+    if (column.type === 'enum') property.enum = column.options ?? [];
+    if (!isEmpty(column.default)) property.default = column.default;
+    properties[column.key] = property;
+  }
+  const required = columns.filter(c => c.required).map(c => c.key);
+  return { $schema: jsonSchemaDialect, title, type: 'object', properties, ...(required.length ? { required } : {}) };
+}
+
+/**
+ * Lê as colunas de um JSON Schema (texto ou objeto). Aceita o esquema das propriedades
+ * ou o de uma Feature GeoJSON (com `properties.properties`). Propriedades do próprio editor são ignoradas
+ */
+export function fromJsonSchema(input: string | JsonSchema): AttributeColumn[] {
+  let schema: JsonSchema;
+  try {
+    schema = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch {
+    throw new Error('O arquivo não é um JSON válido');
+  }
+  const nested = schema?.properties?.properties;
+  const root = nested?.properties ? nested : schema;
+  if (!root || typeof root !== 'object' || !root.properties || typeof root.properties !== 'object') {
+    throw new Error('O JSON Schema não tem "properties" com os campos');
+  }
+  const required = new Set(Array.isArray(root.required) ? root.required : []);
+  return Object.entries(root.properties)
+    .filter(([key]) => !reservedAttributeKeys.includes(key))
+    .map(([key, property]) => {
+      const types = Array.isArray(property.type) ? property.type : [property.type];
+      let type: AttributeType = 'string';
+      if (Array.isArray(property.enum)) type = 'enum';
+      else if (types.includes('number') || types.includes('integer')) type = 'number';
+      else if (property.format === 'date') type = 'date';
+      const column: AttributeColumn = { key, type };
+      if (typeof property.title === 'string' && property.title) column.label = property.title;
+      if (type === 'enum') column.options = (property.enum ?? []).filter(v => !isEmpty(v)).map(String);
+      if (required.has(key)) column.required = true;
+      if (typeof property.default === 'string' || typeof property.default === 'number') column.default = property.default as AttributeValue;
+      return column;
+    });
+}
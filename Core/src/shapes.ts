@@ -0,0 +1,99 @@
+import type { Feature, GeoJsonProperties, Polygon, Position } from 'geojson';
+import { earthMeanRadius } from './metrics';
+
+// ===============================
+// Formas desenhadas por modos especiais: círculo, retângulo e mão livre
+// ===============================
+
+/** Lados do polígono que representa um círculo */
+export const circleSteps = 64;
+
+/** Desvio máximo (px) do traço à mão livre simplificado em relação ao traço original */
+export const freehandTolerance = 3;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/** Ponto a `distance` metros de `origin` no rumo dado (graus a partir do norte, sentido horário), na esfera */
+export function destinationPoint(origin: Position, distance: number, bearing: number): Position {
+  const angular = distance / earthMeanRadius;
+  const theta = toRad(bearing);
+  const lat1 = toRad(origin[1]);
+  const lng1 = toRad(origin[0]);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta));
+  const lng2 = lng1 + Math.atan2(Math.sin(theta) * Math.sin(angular) * Math.cos(lat1), Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2));
+  return [((toDeg(lng2) + 540) % 360) - 180, toDeg(lat2)];
+}
+
+/** Polígono (anel fechado, anti-horário) que aproxima o círculo geodésico */
+export function circlePolygon(center: Position, radiusMeters: number, steps = circleSteps): Polygon {
+  const ring: Position[] = [];
+  for (let i = 0; i < steps; i++) ring.push(destinationPoint(center, radiusMeters, 360 - (i * 360) / steps));
+  ring.push(ring[0]);
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+/**
+ * Círculo guardado como polígono: `shape: 'circle'`, `center` ([lng, lat]) e `radius` (m) nas propriedades
+ * permitem refazer o polígono quando o raio muda
+ */
+export function circleFeature(center: Position, radiusMeters: number, properties: GeoJsonProperties = {}): Feature<Polygon> {
+  const radius = Math.round(radiusMeters * 100) / 100;
+  return {
+    type: 'Feature',
+    properties: { ...properties, shape: 'circle', center: [center[0], center[1]], radius },
+    geometry: circlePolygon(center, radius),
+  };
+}
+
+/** Indica se a feição é um círculo com centro e raio válidos */
+export function isCircleFeature(feature: Feature): boolean {
+  const p = feature.properties;
+  return p?.shape === 'circle'
+    && Array.isArray(p.center) && p.center.length >= 2 && p.center.every((n: unknown) => Number.isFinite(n))
+    && Number.isFinite(Number(p.radius)) && Number(p.radius) > 0;
+}
+
+/** Refaz o polígono do círculo a partir de `center` e `radius` (outras feições voltam como estão) */
+export function withCircleGeometry<T extends Feature>(feature: T): T {
+  if (!isCircleFeature(feature)) return feature;
+  const { center, radius } = feature.properties!;
+  return { ...feature, geometry: circlePolygon(center, Number(radius)) };
+}
+
+/** Retângulo alinhado aos meridianos com os cantos opostos dados */
+export function rectanglePolygon(a: Position, b: Position): Polygon {
+  const [west, east] = [Math.min(a[0], b[0]), Math.max(a[0], b[0])];
+  const [south, north] = [Math.min(a[1], b[1]), Math.max(a[1], b[1])];
+  return { type: 'Polygon', coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]] };
+}
+
+/** Simplifica um traço (Douglas-Peucker) no plano da tela; a tolerância é na mesma unidade dos pontos */
+export function simplifyPath<T extends [number, number]>(points: T[], tolerance = freehandTolerance): T[] {
+  if (points.length <= 2) return points;
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    const [ax, ay] = points[first];
+    const [bx, by] = points[last];
+    const length = Math.hypot(bx - ax, by - ay);
+    let index = -1;
+    let max = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const [px, py] = points[i];
+      const distance = length
+        ? Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length
+        : Math.hypot(px - ax, py - ay);
+      if (distance > max) {
+        index = i;
+        max = distance;
+      }
+    }
+    if (index === -1) continue;
+    keep[index] = true;
+    stack.push([first, index], [index, last]);
+  }
+  return points.filter((_, i) => keep[i]);
+}
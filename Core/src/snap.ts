@@ -0,0 +1,243 @@
+import type { FeatureCollection, Geometry, Position } from 'geojson';
+
+// ===============================
+// Snap ao desenhar e editar: o cursor gruda em vértices, pontos médios e arestas das feições existentes
+// ===============================
+
+/** Onde o cursor grudou */
+export type SnapKind = 'vertex' | 'midpoint' | 'edge';
+
+export const snapKindLabels: Record<SnapKind, string> = {
+  vertex: 'Vértice',
+  midpoint: 'Ponto médio',
+  edge: 'Aresta',
+};
+
+/** Configuração do snap (segurar Alt desliga por um momento, em qualquer configuração) */
+export type SnapOptions = {
+  enabled: boolean;
+  /** Distância máxima (px) entre o cursor e o alvo */
+  tolerance: number;
+  vertex: boolean;
+  midpoint: boolean;
+  edge: boolean;
+};
+
+export const defaultSnapOptions: SnapOptions = {
+  enabled: true,
+  tolerance: 12,
+  vertex: true,
+  midpoint: true,
+  edge: true,
+};
+
+/** Posição grudada e a feição de onde ela veio */
+export type SnapResult = {
+  position: Position;
+  kind: SnapKind;
+  featureId: string | null;
+};
+
+/** Conversão entre [lng, lat] e px do mapa, feita pelo adaptador */
+export type SnapProjection = {
+  project: (position: Position) => [number, number];
+  unproject: (point: [number, number]) => Position;
+};
+
+type SnapSegment = { a: Position; b: Position; featureId: string | null };
+
+/** Vértices e lados das feições, candidatos do snap */
+export type SnapTargets = {
+  vertices: { position: Position; featureId: string | null }[];
+  segments: SnapSegment[];
+};
+
+// Linhas (e anéis) de uma geometria; pontos soltos entram só como vértices
+function geometryLines(geometry: Geometry): Position[][] {
+  switch (geometry.type) {
+    case 'LineString':
+      return [geometry.coordinates];
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates;
+    case 'MultiPolygon':
+      return geometry.coordinates.flat();
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(geometryLines);
+    default:
+      return [];
+  }
+}
+
+function geometryPoints(geometry: Geometry): Position[] {
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'MultiPoint':
+      return geometry.coordinates;
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(geometryPoints);
+    default:
+      return [];
+  }
+}
+
+/** Separa vértices e lados de todas as feições da coleção */
+export function collectSnapTargets(collection: FeatureCollection): SnapTargets {
+  const targets: SnapTargets = { vertices: [], segments: [] };
+  for (const feature of collection.features) {
+    if (!feature.geometry) continue;
+    const featureId = feature.id === undefined ? null : String(feature.id);
+    for (const position of geometryPoints(feature.geometry)) targets.vertices.push({ position, featureId });
+    for (const line of geometryLines(feature.geometry)) {
+      // O último vértice de um anel repete o primeiro
+      const closed = line.length > 1 && line[0][0] === line[line.length - 1][0] && line[0][1] === line[line.length - 1][1];
+      (closed ? line.slice(0, -1) : line).forEach((position) => targets.vertices.push({ position, featureId }));
+      for (let i = 1; i < line.length; i++) targets.segments.push({ a: line[i - 1], b: line[i], featureId });
+    }
+  }
+  return targets;
+}
+
+/**
+ * Alvo mais próximo do ponto na tela dentro da tolerância. Vértices têm prioridade sobre pontos médios
+ * e estes sobre arestas; `excludeId` ignora a feição em edição. Retorna null sem alvo por perto
+ */
+export function findSnap(
+  point: [number, number],
+  targets: SnapTargets,
+  projection: SnapProjection,
+  options: SnapOptions,
+  excludeId: string | null = null,
+): SnapResult | null {
+  if (!options.enabled || options.tolerance <= 0) return null;
+  const tolerance = options.tolerance;
+
+  // Janela em [lng, lat] ao redor do cursor (os quatro cantos, pois o mapa pode estar girado)
+  const corners = [
+    [point[0] - tolerance, point[1] - tolerance],
+    [point[0] + tolerance, point[1] - tolerance],
+    [point[0] - tolerance, point[1] + tolerance],
+    [point[0] + tolerance, point[1] + tolerance],
+  ].map((corner) => projection.unproject(corner as [number, number]));
+  const west = Math.min(...corners.map((c) => c[0]));
+  const east = Math.max(...corners.map((c) => c[0]));
+  const south = Math.min(...corners.map((c) => c[1]));
+  const north = Math.max(...corners.map((c) => c[1]));
+  const inside = (p: Position) => p[0] >= west && p[0] <= east && p[1] >= south && p[1] <= north;
+
+  const distanceTo = (p: Position) => {
+    const [x, y] = projection.project(p);
+    return Math.hypot(x - point[0], y - point[1]);
+  };
+  const nearest = (candidates: { position: Position; featureId: string | null }[], kind: SnapKind): SnapResult | null => {
+    let best: SnapResult | null = null;
+    let bestDistance = tolerance;
+    for (const candidate of candidates) {
+      if (candidate.featureId !== null && candidate.featureId === excludeId) continue;
+      if (!inside(candidate.position)) continue;
+      const distance = distanceTo(candidate.position);
+      if (distance <= bestDistance) {
+        best = { position: [candidate.position[0], candidate.position[1]], kind, featureId: candidate.featureId };
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  // Lados que passam pela janela do cursor
+  const segments = targets.segments.filter((s) => s.featureId === null || s.featureId !== excludeId)
+    .filter((s) => Math.max(s.a[0], s.b[0]) >= west && Math.min(s.a[0], s.b[0]) <= east
+      && Math.max(s.a[1], s.b[1]) >= south && Math.min(s.a[1], s.b[1]) <= north);
+
+  if (options.vertex) {
+    const vertex = nearest(targets.vertices, 'vertex');
+    if (vertex) return vertex;
+  }
+  if (options.midpoint) {
+    const midpoints = segments.map((s) => ({ position: [(s.a[0] + s.b[0]) / 2, (s.a[1] + s.b[1]) / 2], featureId: s.featureId }));
+    const midpoint = nearest(midpoints, 'midpoint');
+    if (midpoint) return midpoint;
+  }
+  if (!options.edge) return null;
+  let best: SnapResult | null = null;
+  let bestDistance = tolerance;
+  for (const segment of segments) {
+    const [ax, ay] = projection.project(segment.a);
+    const [bx, by] = projection.project(segment.b);
+    const length2 = (bx - ax) ** 2 + (by - ay) ** 2;
+    if (!length2) continue;
+    const t = Math.max(0, Math.min(1, ((point[0] - ax) * (bx - ax) + (point[1] - ay) * (by - ay)) / length2));
+    const distance = Math.hypot(ax + t * (bx - ax) - point[0], ay + t * (by - ay) - point[1]);
+    if (distance <= bestDistance) {
+      // Ponto no lado interpolado em [lng, lat] (lados curtos: a diferença para a reta na tela é desprezível)
+      const position = [segment.a[0] + t * (segment.b[0] - segment.a[0]), segment.a[1] + t * (segment.b[1] - segment.a[1])];
+      best = { position, kind: 'edge', featureId: segment.featureId };
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/** Quem desenha o indicador do snap no mapa */
+export type SnapperOptions = {
+  render: (result: SnapResult | null) => void;
+};
+
+/**
+ * Snap de um mapa: guarda a configuração e os alvos (recalculados quando a coleção desenhada muda)
+ * e avisa o indicador só quando o alvo muda
+ */
+export type Snapper = {
+  setOptions: (options: Partial<SnapOptions>) => void;
+  getOptions: () => SnapOptions;
+  /** Coleção desenhada (camadas visíveis) de onde saem os alvos */
+  setCollection: (collection: FeatureCollection) => void;
+  /**
+   * Posição grudada para o ponto na tela; `suspended` (Alt pressionado) só apaga o indicador.
+   * Retorna null quando não gruda
+   */
+  snap: (point: [number, number], projection: SnapProjection, options?: { excludeId?: string | null; suspended?: boolean }) => SnapResult | null;
+  /** Apaga o indicador (fim do desenho ou da edição) */
+  clear: () => void;
+};
+
+export function createSnapper(snapperOptions: SnapperOptions): Snapper {
+  let options: SnapOptions = { ...defaultSnapOptions };
+  let collection: FeatureCollection | null = null;
+  let targets: SnapTargets | null = null;
+  let shown: SnapResult | null = null;
+
+  function show(result: SnapResult | null) {
+    const same = result && shown
+      ? result.kind === shown.kind && result.position[0] === shown.position[0] && result.position[1] === shown.position[1]
+      : result === shown;
+    if (same) return;
+    shown = result;
+    snapperOptions.render(result);
+  }
+
+  return {
+    setOptions: (next) => {
+      options = { ...options, ...next };
+      if (!options.enabled) show(null);
+    },
+    getOptions: () => options,
+    setCollection: (next) => {
+      if (next === collection) return;
+      collection = next;
+      targets = null;
+    },
+    snap: (point, projection, snapOptions = {}) => {
+      if (snapOptions.suspended || !collection) {
+        show(null);
+        return null;
+      }
+      if (!targets) targets = collectSnapTargets(collection);
+      const result = findSnap(point, targets, projection, options, snapOptions.excludeId ?? null);
+      show(result);
+      return result;
+    },
+    clear: () => show(null),
+  };
+}
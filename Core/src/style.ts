@@ -0,0 +1,69 @@
+import type { Feature, GeoJsonProperties } from 'geojson';
+import type { FeatureStyleProperties } from './types';
+
+// ===============================
+// Propriedades de estilo das feições
+// ===============================
+
+/** Propriedades que só mudam a aparência (alterá-las gera o evento 'style', não 'update') */
+export const stylePropertyKeys: (keyof FeatureStyleProperties)[] = ['fillColor', 'fillOpacity', 'fillRgb', 'strokeColor', 'strokeWidth', 'labelText'];
+
+/** Converte uma cor hex (#rrggbb) para a string "r,g,b" gravada em `fillRgb` */
+export function hexToRgb(color: string): string {
+  const hex = (color || '#ffffff').replace('#', '');
+  // Só o canal ilegível vira 255; canal 0 é válido (#ff0000 → 255,0,0)
+  const channel = (start: number) => {
+    const value = parseInt(hex.substring(start, start + 2), 16);
+    return Number.isNaN(value) ? 255 : value;
+  };
+  return `${channel(0)},${channel(2)},${channel(4)}`;
+}
+
+/** Indica se a feição é um polígono (únicas geometrias que recebem preenchimento e texto) */
+export function isPolygonFeature(feature: Feature): boolean {
+  return !!feature.geometry && (feature.geometry.type === 'Polygon' || feature.geometry.type === 'MultiPolygon');
+}
+
+/** Retorna novas propriedades com a cor/opacidade de preenchimento aplicadas */
+export function withFill(properties: GeoJsonProperties, color: string, opacity?: number): GeoJsonProperties {
+  const next: GeoJsonProperties = { ...properties, fillColor: color, fillRgb: hexToRgb(color) };
+  if (typeof opacity === 'number') next.fillOpacity = opacity;
+  return next;
+}
+
+/** Retorna novas propriedades com a cor/espessura da borda aplicadas */
+export function withStroke(properties: GeoJsonProperties, color: string, width?: number): GeoJsonProperties {
+  const next: GeoJsonProperties = { ...properties, strokeColor: color };
+  if (typeof width === 'number') next.strokeWidth = width;
+  return next;
+}
+
+/** Retorna novas propriedades com o texto central definido */
+export function withLabelText(properties: GeoJsonProperties, text: string): GeoJsonProperties {
+  return { ...properties, labelText: text };
+}
+
+/** Retorna novas propriedades sem o texto central */
+export function withoutLabelText(properties: GeoJsonProperties): GeoJsonProperties {
+  const next: GeoJsonProperties = { ...properties };
+  delete next.labelText;
+  return next;
+}
+
+/**
+ * Completa as propriedades com o estilo padrão do motor, sem sobrescrever o que já existe.
+ * Também garante `fillRgb` quando há `fillColor`.
+ */
+export function withDefaultStyle(properties: GeoJsonProperties, defaults: FeatureStyleProperties): GeoJsonProperties {
+  const next: GeoJsonProperties = { ...properties };
+  for (const [key, value] of Object.entries(defaults)) {
+    if (typeof next[key] === 'undefined') next[key] = value;
+  }
+  return withFillRgb(next);
+}
+
+/** Garante que `fillRgb` acompanhe `fillColor` (para exportação) */
+export function withFillRgb(properties: GeoJsonProperties): GeoJsonProperties {
+  if (!properties?.fillColor || properties.fillRgb) return properties;
+  return { ...properties, fillRgb: hexToRgb(properties.fillColor) };
+}
@@ -0,0 +1,228 @@
+import type { Feature } from 'geojson';
+import { isPolygonFeature } from './style';
+
+// ===============================
+// Estilo temático (cor do preenchimento a partir de um atributo)
+// ===============================
+
+/**
+ * - `categorized`: uma cor para cada valor distinto do atributo
+ * - `graduated`: classes numéricas (faixas de valores), cada uma com uma cor
+ */
+export type ThematicMode = 'categorized' | 'graduated';
+
+/** Como as faixas do modo graduado são calculadas */
+export type ClassificationMethod = 'quantile' | 'equal-interval' | 'natural-breaks';
+
+export const thematicModeLabels: Record<ThematicMode, string> = {
+  categorized: 'Categorizado (valores únicos)',
+  graduated: 'Graduado (classes)',
+};
+
+export const classificationMethodLabels: Record<ClassificationMethod, string> = {
+  quantile: 'Quantis',
+  'equal-interval': 'Intervalos iguais',
+  'natural-breaks': 'Quebras naturais (Jenks)',
+};
+
+/** Paletas disponíveis: a qualitativa serve ao modo categorizado; as sequenciais, ao graduado */
+export const thematicPalettes: Record<string, string[]> = {
+  Categorias: ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'],
+  Verdes: ['#f7fcf5', '#e5f5e0', '#c7e9c0', '#a1d99b', '#74c476', '#41ab5d', '#238b45', '#006d2c', '#00441b'],
+  Laranjas: ['#fff5eb', '#fee6ce', '#fdd0a2', '#fdae6b', '#fd8d3c', '#f16913', '#d94801', '#a63603', '#7f2704'],
+  Azuis: ['#f7fbff', '#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c', '#08306b'],
+  'Vermelho-verde': ['#d73027', '#f46d43', '#fdae61', '#fee08b', '#ffffbf', '#d9ef8b', '#a6d96a', '#66bd63', '#1a9850'],
+};
+
+/** Uma classe da legenda: valor (categorizado) ou faixa [min, max] (graduado) e sua cor */
+export type ThematicClass = {
+  label: string;
+  color: string;
+  value?: string;
+  min?: number;
+  max?: number;
+};
+
+/**
+ * Regra temática aplicada ao preenchimento dos polígonos. As classes são calculadas ao aplicar
+ * e ficam gravadas na regra (a legenda não muda sozinha quando os dados mudam; "Reclassificar" recalcula)
+ */
+export type ThematicStyle = {
+  attribute: string;
+  mode: ThematicMode;
+  method?: ClassificationMethod;
+  /** Quantidade de classes pedida (modo graduado) */
+  classCount?: number;
+  palette: string;
+  classes: ThematicClass[];
+  /** Cor das feições sem valor ou com valor fora das classes */
+  otherColor: string;
+};
+
+/** Opções para criar uma regra (as classes vêm dos dados) */
+export type ThematicOptions = Omit<ThematicStyle, 'classes' | 'otherColor'> & { otherColor?: string };
+
+const defaultOtherColor = '#cbd5e1';
+/** Máximo de categorias distintas (as demais caem em "Outros") */
+export const maxCategories = 20;
+
+// Cor na posição i de n, espalhando a paleta (sequenciais) ou repetindo (qualitativa)
+function paletteColor(palette: string, index: number, count: number): string {
+  const colors = thematicPalettes[palette] ?? thematicPalettes.Categorias;
+  if (palette === 'Categorias' || count <= 1) return colors[index % colors.length];
+  return colors[Math.round((index * (colors.length - 1)) / (count - 1))];
+}
+
+const formatNumber = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+
+/** Bordas das classes por quantis (cada classe com ~a mesma quantidade de feições) */
+export function quantileBreaks(values: number[], count: number): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const edges = [sorted[0]];
+  for (let i = 1; i < count; i++) edges.push(sorted[Math.min(sorted.length - 1, Math.floor((i * sorted.length) / count))]);
+  edges.push(sorted[sorted.length - 1]);
+  return edges;
+}
+
+/** Bordas das classes por intervalos de mesmo tamanho */
+export function equalIntervalBreaks(values: number[], count: number): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const step = (max - min) / count;
+  return Array.from({ length: count + 1 }, (_, i) => (i === count ? max : min + step * i));
+}
+
+/**
+ * Bordas das classes por quebras naturais de Jenks (minimiza a variância dentro das classes).
+ * Acima de 1000 valores usa uma amostra ordenada, para não travar a interface
+ */
+export function naturalBreaks(values: number[], count: number): number[] {
+  let data = [...values].sort((a, b) => a - b);
+  if (data.length > 1000) data = Array.from({ length: 1000 }, (_, i) => data[Math.floor((i * (data.length - 1)) / 999)]);
+  const n = data.length;
+  const k = Math.min(count, n);
+  // lower[i][j]: início da última classe na melhor divisão dos i primeiros valores em j classes
+  const lower = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+  const variance = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(Infinity));
+  for (let j = 1; j <= k; j++) {
+    lower[1][j] = 1;
+    variance[1][j] = 0;
+  }
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let w = 0;
+    let v = 0;
+    for (let m = 1; m <= l; m++) {
+      const lowerIndex = l - m + 1;
+      const value = data[lowerIndex - 1];
+      w++;
+      sum += value;
+      sumSquares += value * value;
+      v = sumSquares - (sum * sum) / w;
+      if (lowerIndex === 1) continue;
+      for (let j = 2; j <= k; j++) {
+        if (variance[l][j] >= v + variance[lowerIndex - 1][j - 1]) {
+          lower[l][j] = lowerIndex;
+          variance[l][j] = v + variance[lowerIndex - 1][j - 1];
+        }
+      }
+    }
+    lower[l][1] = 1;
+    variance[l][1] = v;
+  }
+  // Como nos outros métodos, cada borda interna é o primeiro valor da classe seguinte
+  const edges = new Array<number>(k + 1);
+  edges[k] = data[n - 1];
+  edges[0] = data[0];
+  let end = n;
+  for (let j = k; j >= 2; j--) {
+    const start = lower[end][j] - 1;
+    edges[j - 1] = data[start];
+    end = start;
+  }
+  return edges;
+}
+
+/** Bordas das classes pelo método escolhido (sem repetir bordas quando há poucos valores distintos) */
+export function classBreaks(values: number[], count: number, method: ClassificationMethod): number[] {
+  if (!values.length) return [];
+  const compute = method === 'quantile' ? quantileBreaks : method === 'equal-interval' ? equalIntervalBreaks : naturalBreaks;
+  const edges = compute(values, Math.max(1, count));
+  return edges.filter((edge, i) => i === 0 || edge > edges[i - 1]);
+}
+
+/** Valores do atributo nos polígonos */
+function attributeValues(features: Feature[], attribute: string): unknown[] {
+  return features.filter(isPolygonFeature).map(f => f.properties?.[attribute]).filter(v => v !== null && v !== undefined && v !== '');
+}
+
+/** Cria a regra temática, calculando as classes a partir das feições */
+export function createThematicStyle(options: ThematicOptions, features: Feature[]): ThematicStyle {
+  const values = attributeValues(features, options.attribute);
+  let classes: ThematicClass[] = [];
+  if (options.mode === 'categorized') {
+    const distinct = [...new Set(values.map(String))]
+      .sort((a, b) => a.localeCompare(b, 'pt-BR', { numeric: true }))
+      .slice(0, maxCategories);
+    classes = distinct.map((value, i) => ({ label: value, value, color: paletteColor(options.palette, i, distinct.length) }));
+  } else {
+    const numbers = values.filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+    const edges = classBreaks(numbers, options.classCount ?? 5, options.method ?? 'quantile');
+    // Um único valor distinto vira uma classe só
+    const ranges = edges.length === 1 ? [[edges[0], edges[0]]] : edges.slice(1).map((max, i) => [edges[i], max]);
+    classes = ranges.map(([min, max], i) => ({
+      label: min === max ? formatNumber(min) : `${formatNumber(min)} – ${formatNumber(max)}`,
+      min,
+      max,
+      color: paletteColor(options.palette, i, ranges.length),
+    }));
+  }
+  return { ...options, otherColor: options.otherColor ?? defaultOtherColor, classes };
+}
+
+/** Cor da feição pela regra (a do "Outros" quando o valor não cai em nenhuma classe) */
+export function thematicColor(style: ThematicStyle, value: unknown): string {
+  if (value === null || value === undefined || value === '') return style.otherColor;
+  if (style.mode === 'categorized') return style.classes.find(c => c.value === String(value))?.color ?? style.otherColor;
+  // Como na expressão do Mapbox: só números entram nas classes
+  if (typeof value !== 'number' || !style.classes.length) return style.otherColor;
+  const first = style.classes[0];
+  const last = style.classes[style.classes.length - 1];
+  if (value < (first.min ?? -Infinity) || value > (last.max ?? Infinity)) return style.otherColor;
+  // Cada classe começa na sua borda inferior (a última inclui o máximo)
+  let color = first.color;
+  for (const c of style.classes.slice(1)) if (value >= (c.min ?? 0)) color = c.color;
+  return color;
+}
+
+/**
+ * Expressão de estilo do Mapbox GL equivalente a thematicColor (para 'fill-color').
+ * Tipada como unknown[] para o núcleo não depender do mapbox-gl
+ */
+export function thematicExpression(style: ThematicStyle): unknown[] {
+  const value = ['get', style.attribute];
+  if (style.mode === 'categorized') {
+    if (!style.classes.length) return ['literal', style.otherColor];
+    return ['match', ['to-string', ['coalesce', value, '']], ...style.classes.flatMap(c => [c.value ?? '', c.color]), style.otherColor];
+  }
+  if (!style.classes.length) return ['literal', style.otherColor];
+  const first = style.classes[0];
+  const last = style.classes[style.classes.length - 1];
+  // step: cor da primeira classe até a borda da segunda, e assim por diante
+  const steps = style.classes.slice(1).flatMap(c => [c.min ?? 0, c.color]);
+  const numeric = ['to-number', value];
+  return [
+    'case',
+    ['!=', ['typeof', value], 'number'], style.otherColor,
+    ['any', ['<', numeric, first.min ?? -Infinity], ['>', numeric, last.max ?? Infinity]], style.otherColor,
+    steps.length ? ['step', numeric, first.color, ...steps] : first.color,
+  ];
+}
+
+/** Itens da legenda da regra (as classes e, se houver feições fora delas, "Outros") */
+export function thematicLegend(style: ThematicStyle, features: Feature[] = []): ThematicClass[] {
+  const colored = new Set(style.classes.map(c => c.color));
+  const outside = features.some(f => isPolygonFeature(f) && !colored.has(thematicColor(style, f.properties?.[style.attribute])));
+  return outside ? [...style.classes, { label: 'Outros / sem valor', color: style.otherColor }] : style.classes;
+}
@@ -0,0 +1,229 @@
+import type { Feature, FeatureCollection, Polygon, Position } from 'geojson';
+import { getCollectionBBox, getLabelPoint, type BBox } from './geometry';
+import { formatArea, polygonArea } from './metrics';
+import { intersectAreas, isAreaGeometry, overlayProperties, subtractAreas, unionAreas, type AreaGeometry } from './overlay';
+
+// ===============================
+// Topologia entre talhões vizinhos: sobreposições e vãos
+// ===============================
+
+/** Área (m²) até a qual uma sobreposição ou vão é considerado lasca (padrão 1.000 m² = 0,1 ha) */
+export const defaultSliverAreaM2 = 1000;
+
+// Sobreposições menores que isto são ruído numérico de lados coincidentes
+const minOverlapAreaM2 = 0.01;
+
+export type TopologyOptions = {
+  /** Só os polígonos destes ids (padrão: todos) */
+  ids?: string[];
+  /** Vãos acima desta área não entram no relatório (são buracos de propósito); sobreposições acima não são corrigidas */
+  sliverAreaM2?: number;
+};
+
+/** Área comum a dois polígonos */
+export type TopologyOverlap = {
+  ids: [string, string];
+  areaM2: number;
+  geometry: AreaGeometry;
+  /** Onde centralizar o mapa [lng, lat] */
+  location: Position;
+  /** Pequena o bastante para fixTopology resolver */
+  sliver: boolean;
+};
+
+/** Buraco entre polígonos, dentro do contorno externo do conjunto (sem os polígonos ilhados nele) */
+export type TopologyGap = {
+  areaM2: number;
+  geometry: AreaGeometry;
+  location: Position;
+  /** Polígonos em volta, do que tem mais borda com o vão para o que tem menos */
+  neighbourIds: string[];
+};
+
+export type TopologyReport = {
+  overlaps: TopologyOverlap[];
+  gaps: TopologyGap[];
+};
+
+export type ResolveTopologyOptions = {
+  /** Só estes polígonos podem mudar (ex.: fora de camadas travadas); padrão: todos */
+  isEditable?: (id: string) => boolean;
+};
+
+type AreaFeature = Feature<AreaGeometry> & { id: string };
+
+const areaOf = (geometry: AreaGeometry) =>
+  geometry.type === 'Polygon' ? polygonArea(geometry.coordinates) : geometry.coordinates.reduce((sum, rings) => sum + polygonArea(rings), 0);
+
+const bboxOf = (feature: Feature): BBox | null => getCollectionBBox({ type: 'FeatureCollection', features: [feature] });
+
+const bboxesTouch = (a: BBox, b: BBox) => a[0][0] <= b[1][0] && b[0][0] <= a[1][0] && a[0][1] <= b[1][1] && b[0][1] <= a[1][1];
+
+const locationOf = (geometry: AreaGeometry): Position => getLabelPoint({ type: 'Feature', properties: {}, geometry }) ?? [0, 0];
+
+function areaFeatures(collection: FeatureCollection, ids?: string[]): AreaFeature[] {
+  const only = ids ? new Set(ids) : null;
+  return collection.features
+    .filter((f): f is Feature<AreaGeometry> => isAreaGeometry(f.geometry))
+    .map(f => ({ ...f, id: String(f.id) }))
+    .filter(f => !only || only.has(f.id));
+}
+
+// Distância (em graus, no plano) do ponto ao lado a-b
+function distanceToSegment(p: Position, a: Position, b: Position): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const length2 = dx * dx + dy * dy;
+  const t = length2 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / length2)) : 0;
+  return Math.hypot(a[0] + t * dx - p[0], a[1] + t * dy - p[1]);
+}
+
+// Vizinhos do vão: cada lado do vão (contorno e bordas das ilhas) conta para o polígono mais próximo do seu ponto médio
+function gapNeighbours(gapRings: Position[][], candidates: AreaFeature[]): string[] {
+  const rings = candidates.map(f => ({
+    id: f.id,
+    rings: f.geometry.type === 'Polygon' ? f.geometry.coordinates : f.geometry.coordinates.flat(),
+  }));
+  const shared = new Map<string, number>();
+  for (const ring of gapRings) {
+    for (let i = 1; i < ring.length; i++) {
+      const a = ring[i - 1];
+      const b = ring[i];
+      const middle = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+      let best: string | null = null;
+      let bestDistance = Infinity;
+      for (const candidate of rings) {
+        for (const r of candidate.rings) {
+          for (let j = 1; j < r.length; j++) {
+            const distance = distanceToSegment(middle, r[j - 1], r[j]);
+            if (distance < bestDistance) {
+              best = candidate.id;
+              bestDistance = distance;
+            }
+          }
+        }
+      }
+      if (best) shared.set(best, (shared.get(best) ?? 0) + Math.hypot(b[0] - a[0], b[1] - a[1]));
+    }
+  }
+  return [...shared.entries()].sort((x, y) => y[1] - x[1]).map(([id]) => id);
+}
+
+/**
+ * Sobreposições entre pares de polígonos (com a área em m²) e vãos menores que `sliverAreaM2`
+ * dentro do contorno externo do conjunto
+ */
+export function auditTopology(collection: FeatureCollection, options: TopologyOptions = {}): TopologyReport {
+  const sliverAreaM2 = options.sliverAreaM2 ?? defaultSliverAreaM2;
+  const features = areaFeatures(collection, options.ids);
+  const bboxes = features.map(bboxOf);
+
+  const overlaps: TopologyOverlap[] = [];
+  for (let i = 0; i < features.length; i++) {
+    for (let j = i + 1; j < features.length; j++) {
+      const a = bboxes[i];
+      const b = bboxes[j];
+      if (!a || !b || !bboxesTouch(a, b)) continue;
+      const geometry = intersectAreas(features[i].geometry, [features[j].geometry]);
+      if (!geometry) continue;
+      const areaM2 = areaOf(geometry);
+      if (areaM2 < minOverlapAreaM2) continue;
+      overlaps.push({ ids: [features[i].id, features[j].id], areaM2, geometry, location: locationOf(geometry), sliver: areaM2 <= sliverAreaM2 });
+    }
+  }
+
+  // Vãos: buracos da união de todos os polígonos
+  const gaps: TopologyGap[] = [];
+  if (features.length > 1) {
+    const [first, ...rest] = features.map(f => f.geometry);
+    const union = unionAreas(first, rest);
+    const polygons = !union ? [] : union.type === 'Polygon' ? [union.coordinates] : union.coordinates;
+    for (const [index, [, ...holes]] of polygons.entries()) {
+      for (const hole of holes) {
+        // O buraco sai em sentido horário; como polígono próprio, o anel fica anti-horário
+        const outline: Polygon = { type: 'Polygon', coordinates: [[...hole].reverse()] };
+        const box = bboxOf({ type: 'Feature', properties: {}, geometry: outline });
+        if (!box) continue;
+        // Partes da união ilhadas no buraco (talhão cercado por um vão estreito) não são vão
+        const islands = polygons
+          .filter((_, i) => i !== index)
+          .map((coordinates): Polygon => ({ type: 'Polygon', coordinates }))
+          .filter(island => {
+            const islandBox = bboxOf({ type: 'Feature', properties: {}, geometry: island });
+            return islandBox && bboxesTouch(box, islandBox);
+          });
+        const geometry = islands.length ? subtractAreas(outline, islands) : outline;
+        if (!geometry) continue;
+        const areaM2 = areaOf(geometry);
+        if (areaM2 > sliverAreaM2) continue;
+        const around = features.filter((_, i) => bboxes[i] && bboxesTouch(box, bboxes[i]!));
+        const rings = geometry.type === 'Polygon' ? geometry.coordinates : geometry.coordinates.flat();
+        gaps.push({ areaM2, geometry, location: locationOf(geometry), neighbourIds: gapNeighbours(rings, around) });
+      }
+    }
+  }
+  return { overlaps, gaps };
+}
+
+/** Texto de cada problema para a interface */
+export function topologyOverlapMessage(overlap: TopologyOverlap): string {
+  return `Sobreposição de ${formatArea(overlap.areaM2)} entre ${overlap.ids[0]} e ${overlap.ids[1]}`;
+}
+
+export function topologyGapMessage(gap: TopologyGap): string {
+  return `Vão de ${formatArea(gap.areaM2)}${gap.neighbourIds.length ? ` junto a ${gap.neighbourIds.join(', ')}` : ''}`;
+}
+
+/** Áreas dos problemas, para a camada de destaque no mapa */
+export function topologyToCollection(report: TopologyReport): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: [
+      ...report.overlaps.map((overlap): Feature => ({
+        type: 'Feature',
+        geometry: overlap.geometry,
+        properties: { topologyType: 'overlap', areaM2: overlap.areaM2, sliver: overlap.sliver, message: topologyOverlapMessage(overlap) },
+      })),
+      ...report.gaps.map((gap): Feature => ({
+        type: 'Feature',
+        geometry: gap.geometry,
+        properties: { topologyType: 'gap', areaM2: gap.areaM2, sliver: true, message: topologyGapMessage(gap) },
+      })),
+    ],
+  };
+}
+
+/**
+ * Correção das lascas: a sobreposição fica no maior dos dois polígonos (sai do menor) e cada vão vai
+ * para o vizinho com mais borda em comum. Com `isEditable`, polígono travado não muda: a sobreposição
+ * sai do outro e o vão vai para o vizinho editável. Retorna as feições que mudaram (mesmo id, geometria nova)
+ */
+export function resolveTopology<T extends Feature>(features: T[], report: TopologyReport, options: ResolveTopologyOptions = {}): T[] {
+  const editable = options.isEditable ?? (() => true);
+  const byId = new Map(features.filter(f => isAreaGeometry(f.geometry)).map(f => [String(f.id), f]));
+  const geometries = new Map<string, AreaGeometry>();
+  const current = (id: string) => geometries.get(id) ?? (byId.get(id)?.geometry as AreaGeometry | undefined);
+
+  for (const overlap of report.overlaps) {
+    if (!overlap.sliver) continue;
+    const [a, b] = overlap.ids.map(id => byId.get(id));
+    if (!a || !b) continue;
+    const [smaller, larger] = areaOf(a.geometry as AreaGeometry) < areaOf(b.geometry as AreaGeometry) ? [a, b] : [b, a];
+    const target = [smaller, larger].map(f => String(f.id)).find(editable);
+    if (!target) continue;
+    const geometry = current(target);
+    const trimmed = geometry && subtractAreas(geometry, [overlap.geometry]);
+    if (trimmed) geometries.set(target, trimmed);
+  }
+  for (const gap of report.gaps) {
+    const owner = gap.neighbourIds.find(id => byId.has(id) && editable(id));
+    const geometry = owner && current(owner);
+    const filled = geometry && unionAreas(geometry, [gap.geometry]);
+    if (owner && filled) geometries.set(owner, filled);
+  }
+
+  return [...geometries].map(([id, geometry]) => {
+    const feature = byId.get(id)!;
+    return { ...feature, geometry, properties: overlayProperties(feature.properties) };
+  });
+}
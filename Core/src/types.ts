@@ -0,0 +1,249 @@
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
+import type { AttributeColumn, AttributeValue } from './attributes';
+import type { BufferOptions } from './buffer';
+import type { MapEventHandler, MapEventName } from './events';
+import type { MapLayer, MapLayerPatch } from './layers';
+import type { ThematicStyle } from './thematic';
+import type { ImageExportOptions, MapImage } from './print';
+import type { MeasureKind, Measurement } from './measure';
+import type { FeatureMetrics } from './metrics';
+import type { TopologyOptions, TopologyReport } from './topology';
+import type { GeometryIssue, RepairOptions } from './validation';
+
+// ===============================
+// Tipos compartilhados pelo núcleo do editor
+// ===============================
+
+/**
+ * Propriedades de estilo gravadas em `feature.properties`.
+ * São as mesmas nos dois motores (Mapbox e Leaflet) e seguem junto no GeoJSON exportado.
+ */
+export type FeatureStyleProperties = {
+  /** Cor de preenchimento (hex) */
+  fillColor?: string;
+  /** Opacidade do preenchimento (0-1) */
+  fillOpacity?: number;
+  /** Cor de preenchimento em "r,g,b" (usada por quem consome o GeoJSON exportado) */
+  fillRgb?: string;
+  /** Cor da borda (hex) */
+  strokeColor?: string;
+  /** Espessura da borda (px) */
+  strokeWidth?: number;
+  /** Texto exibido no centro do polígono */
+  labelText?: string;
+};
+
+/** Visualização do mapa: centro e zoom */
+export type MapView = { lng: number; lat: number; zoom: number };
+
+/** Escala no centro do mapa e rotação (para a barra de escala e o norte) */
+export type MapScale = { metersPerPixel: number; bearing: number };
+
+/** Feição gerenciada pelo editor: sempre possui um id estável */
+export type EditorFeature = Feature<Geometry> & { id: string };
+
+/**
+ * Adaptador de renderização implementado por cada motor de mapa.
+ * O núcleo decide *o que* mudou; o adaptador só sabe *como* desenhar no motor.
+ */
+export type RendererAdapter = {
+  /** Substitui todas as feições desenhadas no motor pela coleção informada */
+  setFeatures: (collection: FeatureCollection) => void;
+  /** Redesenha as camadas auxiliares (preenchimento, borda, rótulos de texto e de coordenadas) */
+  renderDecorations: (collection: FeatureCollection) => void;
+  /** Reflete a seleção atual no motor */
+  setSelection: (ids: string[]) => void;
+  /**
+   * Camadas atuais (chamado antes de setFeatures/renderDecorations). As feições já chegam sem as
+   * camadas ocultas e na ordem de desenho; o motor aplica a opacidade de cada camada
+   */
+  setLayers?: (layers: MapLayer[]) => void;
+  /**
+   * Regra temática atual (chamado antes de renderDecorations quando muda). Com regra, o preenchimento
+   * dos polígonos vem da regra em vez de `fillColor`
+   */
+  setThematicStyle?: (style: ThematicStyle | null) => void;
+};
+
+/** Origem de uma alteração: feita pelo editor (API/UI) ou vinda do motor (ex.: usuário terminou de desenhar) */
+export type ChangeOptions = {
+  /** true quando o motor já mostra o novo estado e não precisa ser redesenhado */
+  fromRenderer?: boolean;
+};
+
+/**
+ * API imperativa comum aos componentes de mapa (exposta via ref).
+ * Cada motor estende com seus próprios extras (ex.: fullscreen no Mapbox).
+ */
+export type MapEditorHandle = {
+  /** Move a visualização do mapa para as coordenadas e zoom especificados */
+  flyTo: (options: { lng: number; lat: number; zoom?: number }) => void;
+  /** Centro e zoom atuais (null se o mapa ainda não existe) */
+  getView: () => MapView | null;
+  /** Posiciona o mapa no centro e zoom informados, sem animação */
+  setView: (view: MapView) => void;
+  /** Metros por pixel no centro do mapa e rotação em graus (null se o mapa ainda não existe) */
+  getMapScale: () => MapScale | null;
+  /**
+   * Captura o mapa (fundo, preenchimentos, bordas, rótulos e marcadores) como imagem.
+   * Com `dpi` acima de 96 a imagem sai com mais pixels e detalhes, cobrindo a mesma região
+   */
+  exportImage: (options?: ImageExportOptions) => Promise<MapImage>;
+  /**
+   * Retorna todos os dados desenhados no mapa (GeoJSON FeatureCollection).
+   * Com `includeMetrics`, grava área e perímetro nas propriedades dos polígonos.
+   */
+  getDrawData: (options?: { includeMetrics?: boolean }) => FeatureCollection;
+  /** Área (m², ha, alqueires) e perímetro (m, km) de uma feição; null se não for polígono */
+  getFeatureMetrics: (id: string) => FeatureMetrics | null;
+  /**
+   * Feição pelo id, com todas as propriedades. O id é o mesmo do GeoJSON importado/exportado
+   * (convertido para texto); feições desenhadas recebem um id ao serem criadas
+   */
+  getFeatureById: (id: string) => EditorFeature | null;
+  /** Seleciona somente a feição do id. Retorna false se não existe */
+  selectById: (id: string) => boolean;
+  /** Carrega um GeoJSON no mapa, substituindo os desenhos atuais. Pode ajustar o zoom automaticamente */
+  loadGeoJson: (collection: FeatureCollection, options?: { fitBounds?: boolean }) => void;
+  /** Remove todos os desenhos do mapa */
+  clearDrawings: () => void;
+  /**
+   * Valida as geometrias (todas ou as dos ids) e destaca os problemas no mapa.
+   * Cada problema traz o id da feição, o tipo e a posição
+   */
+  validateGeometry: (ids?: string[]) => GeometryIssue[];
+  /**
+   * Corrige automaticamente (fecha anéis, remove duplicados e agulhas, divide "gravatas", ajusta o sentido).
+   * Feições de camadas travadas ficam como estão. É um único passo do histórico. Retorna os ids alterados
+   */
+  repairGeometry: (options?: RepairOptions & { ids?: string[] }) => string[];
+  /** Remove o destaque dos problemas de geometria */
+  clearGeometryIssues: () => void;
+  /**
+   * Confere a topologia dos polígonos: pares sobrepostos (com a área) e vãos menores que `sliverAreaM2`
+   * dentro do contorno externo. Destaca os problemas em uma camada própria
+   */
+  auditTopology: (options?: TopologyOptions) => TopologyReport;
+  /**
+   * Resolve as lascas: sobreposição pequena sai do menor polígono e cada vão vai para o vizinho com mais
+   * borda em comum; polígono de camada travada não muda (a correção fica com o vizinho editável).
+   * É um único passo do histórico. Retorna os ids alterados
+   */
+  fixTopology: (options?: TopologyOptions) => string[];
+  /** Remove o destaque da topologia */
+  clearTopologyIssues: () => void;
+  /** Inicia o modo de desenho de polígono */
+  startDrawPolygon: () => void;
+  /** Desenha uma linha (estradas, cercas): um clique por vértice, clique no último vértice encerra */
+  startDrawLine: () => void;
+  /** Marca um ponto (poços, porteiras) com um clique */
+  startDrawPoint: () => void;
+  /** Desenha um retângulo: clique num canto e no canto oposto */
+  startDrawRectangle: () => void;
+  /**
+   * Desenha um círculo: clique no centro e depois na borda. É guardado como polígono, com `shape: 'circle'`,
+   * `center` e `radius` (m) nas propriedades; mudar `radius` depois refaz o polígono
+   */
+  startDrawCircle: () => void;
+  /** Desenha um polígono à mão livre: arraste com o botão pressionado e solte para fechar */
+  startDrawFreehand: () => void;
+  /**
+   * Mede distância (linha) ou área (polígono) com vértices temporários que grudam nos vértices existentes.
+   * Clicar de novo no último vértice (ou no primeiro, na área), duplo clique ou Enter encerram; Esc cancela.
+   * Nada entra no editor: a coleção de onDrawChange e o histórico não mudam
+   */
+  startMeasure: (kind: MeasureKind) => void;
+  /** Medição atual (com o trecho até o cursor enquanto desenha) ou null */
+  getMeasurement: () => Measurement | null;
+  /** Apaga a medição do mapa (e sai do modo de medição) */
+  clearMeasure: () => void;
+  /** Dá zoom in (aproxima) no mapa */
+  zoomIn: () => void;
+  /** Dá zoom out (afasta) no mapa */
+  zoomOut: () => void;
+  /** Ajusta o mapa para enquadrar todos os desenhos atuais */
+  fitToDrawings: () => void;
+  /** Exclui o(s) desenho(s) selecionado(s) */
+  deleteSelected: () => void;
+  /** Muda a cor de preenchimento (hex) e opacidade (0-1) dos polígonos selecionados */
+  changeSelectedFill: (color: string, opacity?: number) => void;
+  /** Muda a cor da borda (hex) e espessura (px) dos polígonos selecionados */
+  changeSelectedStroke: (color: string, width?: number) => void;
+  /** Aplica cor de preenchimento (hex) e opacidade (0-1) a todos os polígonos */
+  applyFillToAll: (color: string, opacity?: number) => void;
+  /** Aplica cor da borda (hex) e espessura (px) a todos os polígonos */
+  applyStrokeToAll: (color: string, width?: number) => void;
+  /** Adiciona texto no centro dos polígonos selecionados */
+  addTextToSelected: (text: string) => void;
+  /** Remove texto dos polígonos selecionados */
+  removeTextFromSelected: () => void;
+  /** Une os polígonos selecionados no primeiro da seleção, que mantém as propriedades; retorna o id do resultado */
+  mergeSelected: () => string | null;
+  /** Recorta do primeiro polígono selecionado a área dos demais selecionados */
+  subtractSelected: () => string | null;
+  /** Reduz o primeiro polígono selecionado à área comum a todos os selecionados */
+  intersectSelected: () => string | null;
+  /** Divide os polígonos selecionados pelas linhas selecionadas; retorna os ids das partes */
+  splitSelectedByLine: () => string[];
+  /** Cria faixas de `distanceMeters` em volta (ou por dentro) das feições selecionadas, na camada escolhida; retorna os ids */
+  bufferSelected: (distanceMeters: number, options?: BufferOptions & { layer?: string }) => string[];
+  /** Desfaz a última alteração (desenho, estilo, exclusão, importação...) */
+  undo: () => void;
+  /** Refaz a última alteração desfeita */
+  redo: () => void;
+  /** Indica se há alteração para desfazer */
+  canUndo: () => boolean;
+  /** Indica se há alteração para refazer */
+  canRedo: () => boolean;
+  /** Agrupa várias operações em um único passo do histórico */
+  transaction: (fn: () => void) => void;
+  /** Esquece o histórico de desfazer/refazer (ex.: depois de abrir um projeto) */
+  clearHistory: () => void;
+  /** Camadas do usuário, da de baixo para a de cima */
+  getLayers: () => MapLayer[];
+  /** Substitui as camadas (ex.: ao abrir um projeto) */
+  setLayers: (layers: MapLayer[]) => void;
+  /** Cria uma camada no topo; retorna o nome gravado */
+  addLayer: (name: string, style?: FeatureStyleProperties) => string;
+  /** Mostra/oculta, opacidade, trava, estilo padrão ou nome de uma camada */
+  updateLayer: (name: string, patch: MapLayerPatch) => void;
+  /** Remove a camada (as feições vão para a camada ativa, ou são excluídas com deleteFeatures); camada travada não sai */
+  removeLayer: (name: string, options?: { deleteFeatures?: boolean }) => void;
+  /** Muda a posição da camada na ordem de desenho (0 = embaixo) */
+  moveLayer: (name: string, index: number) => void;
+  /** Camada que recebe os novos desenhos */
+  getActiveLayer: () => string;
+  setActiveLayer: (name: string) => void;
+  /** Aplica o estilo padrão da camada a todas as feições dela (nada muda em camada travada) */
+  applyLayerStyle: (name: string) => void;
+  /** Move as feições selecionadas para a camada */
+  moveSelectedToLayer: (name: string) => void;
+  /** Colunas da tabela de atributos (tipo texto, número, data ou lista) */
+  getAttributeColumns: () => AttributeColumn[];
+  /** Substitui as colunas (ex.: ao abrir um projeto) */
+  setAttributeColumns: (columns: AttributeColumn[]) => void;
+  /** Cria uma coluna; retorna a chave gravada */
+  addAttributeColumn: (column: AttributeColumn) => string;
+  /** Altera título, tipo, opções ou chave de uma coluna (mudar a chave renomeia a propriedade nas feições) */
+  updateAttributeColumn: (key: string, patch: Partial<AttributeColumn>) => void;
+  /** Remove a coluna e o valor dela em todas as feições */
+  removeAttributeColumn: (key: string) => void;
+  /**
+   * Grava atributos nas feições dos ids (null apaga). Um passo do histórico; dispara onDrawChange e 'update'.
+   * Feições de camadas travadas não são alteradas
+   */
+  setFeatureAttributes: (ids: string[], values: Record<string, AttributeValue>) => void;
+  /** Regra temática do preenchimento (categorizada ou graduada por um atributo), ou null */
+  getThematicStyle: () => ThematicStyle | null;
+  /** Aplica a regra temática (crie com createThematicStyle) ou remove com null. Um passo do histórico */
+  setThematicStyle: (style: ThematicStyle | null) => void;
+  /** Seleciona as feições dos ids (vazio limpa a seleção). Retorna os ids selecionados */
+  selectByIds: (ids: string[]) => string[];
+  /**
+   * Assina um evento do mapa (select, create, update, delete, style, viewchange, modechange, layerchange, columnschange, thematicchange, measurechange).
+   * Os payloads trazem os ids e o antes/depois de cada feição. Retorna a função que cancela a assinatura
+   */
+  on: <K extends MapEventName>(name: K, handler: MapEventHandler<K>) => () => void;
+  /** Cancela a assinatura de um evento */
+  off: <K extends MapEventName>(name: K, handler: MapEventHandler<K>) => void;
+};
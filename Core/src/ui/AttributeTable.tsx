@@ -0,0 +1,410 @@
+// Tabela de atributos ao lado do mapa: colunas do usuário, edição na célula, ordenação, filtro e seleção sincronizada
+import { useEffect, useRef, useState, type KeyboardEvent, type MouseEvent } from 'react';
+import type { Feature } from 'geojson';
+import styled from 'styled-components';
+import {
+  attributeLabel,
+  attributeTypeLabels,
+  compareAttributeValues,
+  formatAttributeValue,
+  matchesAttributeFilter,
+  parseAttributeValue,
+  type AttributeColumn,
+  type AttributeType,
+  type AttributeValue,
+} from '../attributes';
+import { getFeatureLayer } from '../layers';
+import type { SchemaViolation } from '../schema';
+
+// Propriedades da tabela de atributos
+export type AttributeTableProps = {
+  features: Feature[]; // Feições do mapa (getDrawData)
+  columns: AttributeColumn[]; // Colunas definidas (e as detectadas nos arquivos importados): o esquema do projeto
+  violations: SchemaViolation[]; // Pendências das feições em relação ao esquema
+  selectedIds: string[]; // Seleção atual do mapa
+  onSelect: (ids: string[]) => void; // Clique na linha (Ctrl/Cmd soma à seleção)
+  onEdit: (id: string, key: string, value: AttributeValue) => void; // Valor confirmado em uma célula
+  onAddColumn: (column: AttributeColumn) => void;
+  onUpdateColumn: (key: string, patch: Partial<AttributeColumn>) => void;
+  onRemoveColumn: (key: string) => void;
+  onSaveSchema: () => void; // Baixa o esquema como JSON Schema
+  onLoadSchema: (file: File) => void; // Substitui as colunas pelas de um JSON Schema
+  onClose: () => void;
+};
+
+// Coluna fixa do texto central (labelText), editável como texto
+const labelColumn: AttributeColumn = { key: 'labelText', label: 'Texto', type: 'string' };
+
+// Painel encaixado à esquerda do mapa (o mapa encolhe para caber)
+const Panel = styled.aside`
+  width: 460px;
+  max-width: 50vw;
+  height: 100%;
+  flex-shrink: 0;
+  display: flex;
+  flex-direction: column;
+  background: #fff;
+  border-right: 1px solid #e2e8f0;
+  font-size: 12px;
+  color: #1e293b;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 10px;
+  border-bottom: 1px solid #e2e8f0;
+  & strong { font-size: 13px; }
+`;
+
+const Input = styled.input`
+  font-size: 12px;
+  padding: 4px 6px;
+  border: 1px solid #e2e8f0;
+  border-radius: 6px;
+  min-width: 0;
+`;
+
+const Select = styled.select`
+  font-size: 12px;
+  padding: 3px 4px;
+  border: 1px solid #e2e8f0;
+  border-radius: 6px;
+`;
+
+const SmallButton = styled.button<{ $variant?: 'primary' | 'danger'; $pressed?: boolean }>`
+  padding: 3px 7px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  white-space: nowrap;
+  border: 1px solid ${({ $variant }) => ($variant === 'danger' ? '#fecaca' : '#e2e8f0')};
+  background: ${({ $variant, $pressed }) => ($variant === 'primary' ? '#0ea5e9' : $pressed ? '#e0f2fe' : '#fff')};
+  color: ${({ $variant }) => ($variant === 'primary' ? '#fff' : $variant === 'danger' ? '#b91c1c' : '#1e293b')};
+  &:disabled { opacity: 0.5; cursor: default; }
+`;
+
+// Editor das colunas (abre abaixo do cabeçalho)
+const ColumnsEditor = styled.div`
+  padding: 8px 10px;
+  border-bottom: 1px solid #e2e8f0;
+  background: #f8fafc;
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+`;
+
+const ColumnLine = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+`;
+
+// Bloco de uma coluna do esquema (duas linhas)
+const ColumnBlock = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  padding-bottom: 6px;
+  border-bottom: 1px dashed #e2e8f0;
+`;
+
+const TableScroll = styled.div`
+  flex: 1;
+  overflow: auto;
+`;
+
+const Table = styled.table`
+  border-collapse: collapse;
+  width: max-content;
+  min-width: 100%;
+  & th, & td { border-bottom: 1px solid #f1f5f9; padding: 4px 8px; text-align: left; white-space: nowrap; }
+  & th { position: sticky; top: 0; background: #f8fafc; cursor: pointer; user-select: none; z-index: 1; }
+`;
+
+// Linha da tabela; a selecionada no mapa fica destacada e a com pendências ganha a borda vermelha
+const Row = styled.tr<{ $selected: boolean; $pending: boolean }>`
+  cursor: pointer;
+  background: ${({ $selected }) => ($selected ? '#e0f2fe' : 'transparent')};
+  box-shadow: ${({ $pending }) => ($pending ? 'inset 3px 0 0 #dc2626' : 'none')};
+  &:hover { background: ${({ $selected }) => ($selected ? '#bae6fd' : '#f8fafc')}; }
+`;
+
+// Célula editável: mostra o valor; com duplo clique vira campo. Pendência do esquema fica em vermelho
+const Cell = styled.td<{ $invalid?: boolean; $violation?: boolean }>`
+  min-width: 80px;
+  max-width: 220px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  outline: ${({ $invalid }) => ($invalid ? '1px solid #dc2626' : 'none')};
+  background: ${({ $violation }) => ($violation ? '#fef2f2' : 'transparent')};
+`;
+
+const Footer = styled.div`
+  padding: 6px 10px;
+  border-top: 1px solid #e2e8f0;
+  color: #64748b;
+`;
+
+type SortState = { key: string; direction: 1 | -1 } | null;
+type EditingCell = { id: string; key: string; error?: string };
+
+// Campo de edição conforme o tipo da coluna (data usa o seletor do navegador, lista vira <select>)
+// onCommit retorna false quando o valor é inválido (o campo continua aberto)
+function CellEditor({ column, value, onCommit, onCancel }: { column: AttributeColumn; value: unknown; onCommit: (raw: string) => boolean; onCancel: () => void }) {
+  const initial = value === null || value === undefined ? '' : column.type === 'number' ? formatAttributeValue(column, value).replace(/\./g, '') : String(value);
+  // Enter, troca na lista e perda de foco podem chegar juntos: só o primeiro vale
+  const done = useRef(false);
+  const commit = (raw: string) => {
+    if (!done.current) done.current = onCommit(raw);
+  };
+  const keyDown = (e: KeyboardEvent<HTMLInputElement | HTMLSelectElement>) => {
+    if (e.key === 'Enter') commit(e.currentTarget.value);
+    if (e.key === 'Escape') {
+      done.current = true;
+      onCancel();
+    }
+  };
+  if (column.type === 'enum') {
+    return (
+      <Select autoFocus defaultValue={initial} onBlur={(e) => commit(e.target.value)} onChange={(e) => commit(e.target.value)} onKeyDown={keyDown}>
+        <option value="">—</option>
+        {column.options?.map(option => <option key={option} value={option}>{option}</option>)}
+      </Select>
+    );
+  }
+  return (
+    <Input
+      autoFocus
+      type={column.type === 'date' ? 'date' : 'text'}
+      inputMode={column.type === 'number' ? 'decimal' : undefined}
+      defaultValue={initial}
+      onBlur={(e) => commit(e.target.value)}
+      onKeyDown={keyDown}
+      style={{ width: '100%' }}
+    />
+  );
+}
+
+// Componente da tabela de atributos
+export default function AttributeTable({
+  features, columns, violations, selectedIds, onSelect, onEdit, onAddColumn, onUpdateColumn, onRemoveColumn, onSaveSchema, onLoadSchema, onClose,
+}: AttributeTableProps) {
+  const [filter, setFilter] = useState('');
+  const [onlyPending, setOnlyPending] = useState(false);
+  const [sort, setSort] = useState<SortState>(null);
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+  const [columnsOpen, setColumnsOpen] = useState(false);
+  const [newColumn, setNewColumn] = useState<{ key: string; type: AttributeType; options: string }>({ key: '', type: 'string', options: '' });
+  const rowRefs = useRef(new Map<string, HTMLTableRowElement>());
+
+  const tableColumns = [labelColumn, ...columns];
+  // Pendências por feição e coluna ("id\u0000chave")
+  const violationByCell = new Map(violations.map(v => [`${v.featureId}\u0000${v.key}`, v]));
+  const pendingIds = new Set(violations.map(v => v.featureId));
+  const rows = features
+    .filter((f): f is Feature & { id: string | number } => f.id !== undefined && matchesAttributeFilter(f, tableColumns, filter))
+    .filter(f => !onlyPending || pendingIds.has(String(f.id)));
+  if (sort) {
+    const column = sort.key === 'layer' ? { key: 'layer', type: 'string' as const } : tableColumns.find(c => c.key === sort.key);
+    if (column) rows.sort((a, b) => sort.direction * compareAttributeValues(column, a.properties?.[column.key], b.properties?.[column.key]));
+  }
+
+  // Seleção feita no mapa: rola a tabela até a primeira linha selecionada
+  useEffect(() => {
+    if (selectedIds.length) rowRefs.current.get(selectedIds[0])?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIds]);
+
+  const toggleSort = (key: string) => {
+    setSort(current => (current?.key !== key ? { key, direction: 1 } : current.direction === 1 ? { key, direction: -1 } : null));
+  };
+
+  const handleRowClick = (id: string, e: MouseEvent) => {
+    if (e.ctrlKey || e.metaKey) onSelect(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+    else onSelect([id]);
+  };
+
+  const commitEdit = (id: string, column: AttributeColumn, raw: string) => {
+    const parsed = parseAttributeValue(column, raw);
+    if ('error' in parsed) {
+      setEditing({ id, key: column.key, error: parsed.error });
+      return false;
+    }
+    setEditing(null);
+    const feature = features.find(f => String(f.id) === id);
+    const current = feature?.properties?.[column.key] ?? null;
+    if (current !== parsed.value) onEdit(id, column.key, parsed.value);
+    return true;
+  };
+
+  const handleAddColumn = () => {
+    if (!newColumn.key.trim()) return;
+    const options = newColumn.options.split(',').map(o => o.trim()).filter(Boolean);
+    onAddColumn({ key: newColumn.key.trim(), type: newColumn.type, ...(newColumn.type === 'enum' ? { options } : {}) });
+    setNewColumn({ key: '', type: 'string', options: '' });
+  };
+
+  const sortMark = (key: string) => (sort?.key === key ? (sort.direction === 1 ? ' ▲' : ' ▼') : '');
+
+  return (
+    <Panel aria-label="Tabela de atributos">
+      <Header>
+        <strong>Atributos</strong>
+        <Input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Filtrar..." style={{ flex: 1 }} />
+        <SmallButton $pressed={columnsOpen} onClick={() => setColumnsOpen(v => !v)}>Colunas</SmallButton>
+        <SmallButton onClick={onClose} aria-label="Fechar">✕</SmallButton>
+      </Header>
+      {columnsOpen && (
+        <ColumnsEditor>
+          {columns.map(column => (
+            <ColumnBlock key={column.key}>
+              <ColumnLine>
+                <code style={{ width: 90, overflow: 'hidden', textOverflow: 'ellipsis' }} title={column.key}>{column.key}</code>
+                <Input
+                  key={`${column.key}-${column.label ?? ''}`}
+                  defaultValue={column.label ?? ''}
+                  placeholder="Título"
+                  onBlur={(e) => { if (e.target.value !== (column.label ?? '')) onUpdateColumn(column.key, { label: e.target.value || undefined }); }}
+                  style={{ flex: 1 }}
+                />
+                <Select value={column.type} onChange={(e) => onUpdateColumn(column.key, { type: e.target.value as AttributeType })}>
+                  {Object.entries(attributeTypeLabels).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+                </Select>
+                <SmallButton
+                  $variant="danger"
+                  onClick={() => { if (window.confirm(`Excluir a coluna "${attributeLabel(column)}" e os valores dela em todas as feições?`)) onRemoveColumn(column.key); }}
+                  aria-label={`Excluir coluna ${attributeLabel(column)}`}
+                >
+                  ✕
+                </SmallButton>
+              </ColumnLine>
+              <ColumnLine>
+                {column.type === 'enum' && (
+                  <Input
+                    key={`${column.key}-${column.options?.join(',') ?? ''}`}
+                    defaultValue={column.options?.join(', ') ?? ''}
+                    placeholder="Opções, separadas por vírgula"
+                    onBlur={(e) => onUpdateColumn(column.key, { options: e.target.value.split(',').map(o => o.trim()).filter(Boolean) })}
+                    style={{ flex: 1 }}
+                  />
+                )}
+                <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                  <input type="checkbox" checked={!!column.required} onChange={(e) => onUpdateColumn(column.key, { required: e.target.checked || undefined })} />
+                  Obrigatório
+                </label>
+                <Input
+                  key={`${column.key}-${column.type}-${column.default ?? ''}`}
+                  defaultValue={column.default ?? ''}
+                  placeholder="Padrão"
+                  title="Valor gravado nas feições novas"
+                  onBlur={(e) => {
+                    const parsed = parseAttributeValue(column, e.target.value);
+                    if ('error' in parsed) {
+                      alert(parsed.error);
+                      e.target.value = String(column.default ?? '');
+                    } else if (parsed.value !== (column.default ?? null)) {
+                      onUpdateColumn(column.key, { default: parsed.value ?? undefined });
+                    }
+                  }}
+                  style={{ flex: column.type === 'enum' ? undefined : 1, width: column.type === 'enum' ? 90 : undefined }}
+                />
+              </ColumnLine>
+            </ColumnBlock>
+          ))}
+          <ColumnLine>
+            <Input
+              value={newColumn.key}
+              onChange={(e) => setNewColumn(c => ({ ...c, key: e.target.value }))}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAddColumn(); }}
+              placeholder="Nova coluna (nome da propriedade)"
+              style={{ flex: 1 }}
+            />
+            <Select value={newColumn.type} onChange={(e) => setNewColumn(c => ({ ...c, type: e.target.value as AttributeType }))}>
+              {Object.entries(attributeTypeLabels).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+            </Select>
+            <SmallButton $variant="primary" onClick={handleAddColumn} disabled={!newColumn.key.trim()}>Adicionar</SmallButton>
+          </ColumnLine>
+          {newColumn.type === 'enum' && (
+            <Input
+              value={newColumn.options}
+              onChange={(e) => setNewColumn(c => ({ ...c, options: e.target.value }))}
+              placeholder="Opções da lista, separadas por vírgula"
+            />
+          )}
+          <ColumnLine>
+            <SmallButton onClick={onSaveSchema} disabled={!columns.length}>Salvar esquema (JSON Schema)</SmallButton>
+            <SmallButton as="label" style={{ display: 'inline-block' }}>
+              Carregar esquema
+              <input
+                type="file"
+                accept=".json,application/schema+json,application/json"
+                onChange={(e) => { const file = e.target.files?.[0]; if (file) onLoadSchema(file); e.target.value = ''; }}
+                style={{ display: 'none' }}
+              />
+            </SmallButton>
+          </ColumnLine>
+        </ColumnsEditor>
+      )}
+      <TableScroll>
+        <Table>
+          <thead>
+            <tr>
+              <th onClick={() => toggleSort('layer')}>Camada{sortMark('layer')}</th>
+              {tableColumns.map(column => (
+                <th key={column.key} onClick={() => toggleSort(column.key)} title={`${column.key} (${attributeTypeLabels[column.type]}${column.required ? ', obrigatório' : ''})`}>
+                  {attributeLabel(column)}{column.required ? ' *' : ''}{sortMark(column.key)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(feature => {
+              const id = String(feature.id);
+              return (
+                <Row
+                  key={id}
+                  ref={(el) => { if (el) rowRefs.current.set(id, el); else rowRefs.current.delete(id); }}
+                  $selected={selectedIds.includes(id)}
+                  $pending={pendingIds.has(id)}
+                  onClick={(e) => handleRowClick(id, e)}
+                >
+                  <td style={{ color: '#64748b' }}>{getFeatureLayer(feature) ?? ''}</td>
+                  {tableColumns.map(column => {
+                    const value = feature.properties?.[column.key];
+                    const isEditing = editing?.id === id && editing.key === column.key;
+                    const violation = violationByCell.get(`${id}\u0000${column.key}`);
+                    return (
+                      <Cell
+                        key={column.key}
+                        $invalid={isEditing && !!editing?.error}
+                        $violation={!!violation}
+                        title={isEditing ? editing?.error : violation ? violation.message : 'Duplo clique para editar'}
+                        onDoubleClick={() => setEditing({ id, key: column.key })}
+                      >
+                        {isEditing
+                          ? <CellEditor column={column} value={value} onCommit={(raw) => commitEdit(id, column, raw)} onCancel={() => setEditing(null)} />
+                          : formatAttributeValue(column, value)}
+                      </Cell>
+                    );
+                  })}
+                </Row>
+              );
+            })}
+          </tbody>
+        </Table>
+      </TableScroll>
+      <Footer>
+        {rows.length} de {features.length} {features.length === 1 ? 'feição' : 'feições'}
+        {selectedIds.length > 0 && <> • {selectedIds.length} {selectedIds.length === 1 ? 'selecionada' : 'selecionadas'}</>}
+        {pendingIds.size > 0 && (
+          <label style={{ color: '#b91c1c', marginLeft: 6 }}>
+            • <input type="checkbox" checked={onlyPending} onChange={(e) => setOnlyPending(e.target.checked)} style={{ verticalAlign: 'middle' }} />
+            {' '}{pendingIds.size} {pendingIds.size === 1 ? 'feição com pendências' : 'feições com pendências'}
+          </label>
+        )}
+        {editing?.error && <span style={{ color: '#b91c1c' }}> • {editing.error}</span>}
+      </Footer>
+    </Panel>
+  );
+}
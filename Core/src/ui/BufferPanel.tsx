@@ -0,0 +1,108 @@
+// Painel da faixa (buffer): distância, para fora ou por dentro (bordadura) e camada de destino
+import { useState } from 'react';
+import styled from 'styled-components';
+import type { BufferOptions } from '../buffer';
+import type { MapLayer } from '../layers';
+
+// Propriedades do painel de faixa
+export type BufferPanelProps = {
+  layers: MapLayer[];
+  activeLayer: string;
+  /** Há polígono na seleção (só polígonos aceitam bordadura) */
+  hasPolygon: boolean;
+  onApply: (distanceMeters: number, options: BufferOptions & { layer: string }) => void;
+  onClose: () => void;
+};
+
+// Painel flutuante (mesmo visual do painel de snap)
+const Panel = styled.div`
+  position: absolute;
+  right: 0;
+  top: 110%;
+  background: #fff;
+  border: 1.5px solid #e2e8f0;
+  padding: 10px;
+  border-radius: 10px;
+  box-shadow: 0 6px 24px rgba(15,23,42,0.18);
+  z-index: 10001;
+  width: 220px;
+  text-align: left;
+  color: #1e293b;
+  font-size: 12px;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+  font-size: 13px;
+  font-weight: 600;
+`;
+
+const SmallButton = styled.button`
+  padding: 3px 7px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  border: 1px solid #e2e8f0;
+  background: #fff;
+  color: #1e293b;
+`;
+
+const Field = styled.label<{ $disabled?: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 3px 0;
+  opacity: ${({ $disabled }) => ($disabled ? 0.5 : 1)};
+
+  input[type='number'], select {
+    flex: 1;
+    min-width: 0;
+    font-size: 12px;
+  }
+`;
+
+const ApplyButton = styled(SmallButton)`
+  width: 100%;
+  margin-top: 8px;
+  background: #2563eb;
+  border-color: #2563eb;
+  color: #fff;
+`;
+
+// Componente do painel de faixa
+export default function BufferPanel({ layers, activeLayer, hasPolygon, onApply, onClose }: BufferPanelProps) {
+  // 30 m: APP dos rios com menos de 10 m de largura (Código Florestal)
+  const [distance, setDistance] = useState(30);
+  const [inward, setInward] = useState(false);
+  const [layer, setLayer] = useState(activeLayer);
+
+  return (
+    <Panel>
+      <Header>
+        <span>Faixa (buffer)</span>
+        <SmallButton onClick={onClose} aria-label="Fechar">✕</SmallButton>
+      </Header>
+      <Field>
+        Distância
+        <input type="number" min={0} step={1} value={distance} onChange={(e) => setDistance(Number(e.target.value))} />
+        m
+      </Field>
+      <Field $disabled={!hasPolygon}>
+        <input type="checkbox" checked={inward && hasPolygon} disabled={!hasPolygon} onChange={(e) => setInward(e.target.checked)} />
+        Por dentro do polígono (bordadura)
+      </Field>
+      <Field>
+        Camada
+        <select value={layer} onChange={(e) => setLayer(e.target.value)}>
+          {layers.map(l => <option key={l.name} value={l.name}>{l.name}</option>)}
+        </select>
+      </Field>
+      <ApplyButton disabled={!(distance > 0)} onClick={() => onApply(distance, { inward: inward && hasPolygon, layer })}>
+        Criar faixa
+      </ApplyButton>
+    </Panel>
+  );
+}
@@ -0,0 +1,60 @@
+// Aviso de centro inicial com latitude/longitude possivelmente trocadas (troca com um clique)
+import styled from 'styled-components';
+import type { ResolvedCenter } from '../axisOrder';
+
+// Propriedades do aviso
+export type CenterOrderNoticeProps = {
+  resolved: ResolvedCenter; // Centro resolvido pelo mapa (com a suspeita)
+  onSwap: (lngLat: [number, number]) => void; // Leva o mapa para o outro centro [lng, lat]
+  onDismiss: () => void;
+};
+
+const Notice = styled.div`
+  position: fixed;
+  top: 24px;
+  left: 50%;
+  transform: translateX(-50%);
+  z-index: 22;
+  background: #fff7ed;
+  border: 1px solid #fed7aa;
+  color: #9a3412;
+  border-radius: 8px;
+  box-shadow: 0 2px 8px rgba(15,23,42,0.12);
+  font-size: 12px;
+  padding: 8px 10px;
+  max-width: 80vw;
+  display: flex;
+  gap: 8px;
+  align-items: center;
+`;
+
+const SmallButton = styled.button<{ $variant?: 'primary' }>`
+  padding: 4px 8px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  border: 1px solid #e2e8f0;
+  background: ${({ $variant }) => ($variant === 'primary' ? '#0ea5e9' : '#fff')};
+  color: ${({ $variant }) => ($variant === 'primary' ? '#fff' : '#1e293b')};
+  white-space: nowrap;
+`;
+
+// Componente do aviso de lat/lng trocados no centro inicial
+export default function CenterOrderNotice({ resolved, onSwap, onDismiss }: CenterOrderNoticeProps) {
+  if (!resolved.check) return null;
+  const { swapped, message } = resolved.check;
+
+  // Centro inválido já foi trocado pelo mapa (não há como voltar); o suspeito pode ser trocado aqui
+  return (
+    <Notice role="status">
+      <span>
+        {resolved.autoSwapped ? 'Centro inicial inválido; latitude e longitude foram trocadas.' : 'O centro inicial parece ter latitude e longitude trocadas.'}
+        {' '}{message}
+      </span>
+      {!resolved.autoSwapped && (
+        <SmallButton $variant="primary" onClick={() => onSwap(swapped)}>Trocar lat/lng</SmallButton>
+      )}
+      <SmallButton onClick={onDismiss}>{resolved.autoSwapped ? 'OK' : 'Ignorar'}</SmallButton>
+    </Notice>
+  );
+}
@@ -0,0 +1,109 @@
+// Painel com os problemas de geometria encontrados (canto inferior esquerdo)
+import { useState } from 'react';
+import styled from 'styled-components';
+import { geometryIssueLabels, type GeometryIssue } from '../validation';
+
+// Propriedades do painel de problemas
+export type GeometryIssuesPanelProps = {
+  issues: GeometryIssue[]; // Problemas da última validação
+  onSelect: (issue: GeometryIssue) => void; // Clique em um problema (seleciona a feição e centraliza)
+  onRepair: () => void; // Correção automática de tudo que tem correção
+  onDismiss: () => void; // Esconde o destaque até a próxima alteração
+};
+
+const Panel = styled.div`
+  position: fixed;
+  left: 24px;
+  bottom: 24px;
+  z-index: 22;
+  background: #fff;
+  border: 1px solid #fecaca;
+  border-radius: 8px;
+  box-shadow: 0 2px 8px rgba(15,23,42,0.12);
+  font-size: 12px;
+  color: #475569;
+  width: 340px;
+  max-width: 80vw;
+`;
+
+const Header = styled.button`
+  appearance: none;
+  border: none;
+  background: #fef2f2;
+  color: #b91c1c;
+  font-weight: 600;
+  font-size: 12px;
+  width: 100%;
+  text-align: left;
+  padding: 8px 10px;
+  border-radius: 8px;
+  cursor: pointer;
+`;
+
+const List = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 4px 0;
+  max-height: 40vh;
+  overflow-y: auto;
+`;
+
+// Item de problema; a cor indica se há correção automática
+const Item = styled.li<{ $repairable: boolean }>`
+  padding: 6px 10px;
+  cursor: pointer;
+  border-left: 3px solid ${({ $repairable }) => ($repairable ? '#dc2626' : '#f97316')};
+  &:hover { background: #f8fafc; }
+`;
+
+const Footer = styled.div`
+  display: flex;
+  gap: 6px;
+  justify-content: flex-end;
+  padding: 8px 10px;
+  border-top: 1px solid #e2e8f0;
+`;
+
+const SmallButton = styled.button<{ $variant?: 'primary' }>`
+  padding: 4px 8px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  border: 1px solid #e2e8f0;
+  background: ${({ $variant }) => ($variant === 'primary' ? '#0ea5e9' : '#fff')};
+  color: ${({ $variant }) => ($variant === 'primary' ? '#fff' : '#1e293b')};
+  &:disabled { opacity: 0.5; cursor: default; }
+`;
+
+// Componente do painel de problemas de geometria
+export default function GeometryIssuesPanel({ issues, onSelect, onRepair, onDismiss }: GeometryIssuesPanelProps) {
+  const [open, setOpen] = useState(false);
+  const repairable = issues.filter(issue => issue.repairable).length;
+  const featureCount = new Set(issues.map(issue => issue.featureId)).size;
+
+  return (
+    <Panel>
+      <Header onClick={() => setOpen(v => !v)} title={open ? 'Recolher lista' : 'Ver lista de problemas'}>
+        ⚠ {issues.length} {issues.length === 1 ? 'problema' : 'problemas'} de geometria em {featureCount} {featureCount === 1 ? 'feição' : 'feições'} {open ? '▾' : '▸'}
+      </Header>
+      {open && (
+        <List>
+          {issues.map((issue, index) => (
+            <Item key={`${issue.featureId}-${index}`} $repairable={issue.repairable} onClick={() => onSelect(issue)}>
+              <strong>{geometryIssueLabels[issue.type]}</strong>
+              {!issue.repairable && ' (ajuste manual)'}
+              <div>{issue.message}</div>
+              <div style={{ color: '#94a3b8' }}>Feição {issue.featureId}</div>
+            </Item>
+          ))}
+        </List>
+      )}
+      <Footer>
+        <SmallButton onClick={onDismiss}>Ocultar</SmallButton>
+        <SmallButton $variant="primary" onClick={onRepair} disabled={!repairable}>
+          Corrigir automaticamente ({repairable})
+        </SmallButton>
+      </Footer>
+    </Panel>
+  );
+}
@@ -0,0 +1,200 @@
+// Painel de revisão da importação: avisos por feição e decisão de aceitar, ignorar ou corrigir
+import { useState } from 'react';
+import styled from 'styled-components';
+import {
+  importWarningLabels,
+  type ImportDecision,
+  type ImportItem,
+  type ImportReport,
+} from '../importReview';
+
+// Propriedades do painel de revisão
+export type ImportReviewPanelProps = {
+  fileName: string; // Nome do arquivo escolhido
+  report: ImportReport | null; // Relatório da leitura (null quando o arquivo nem pôde ser lido)
+  error: string | null; // Erro que impediu a leitura do arquivo
+  onDecide: (decision: ImportDecision, key?: string) => void; // Aceitar/ignorar uma feição (ou todas, sem key)
+  onFix: (key?: string) => void; // Corrigir uma feição (ou todas, sem key)
+  onConfirm: () => void; // Importa as feições aceitas
+  onCancel: () => void;
+};
+
+// Fundo escuro que cobre o mapa enquanto a revisão está aberta
+const Overlay = styled.div`
+  position: fixed;
+  inset: 0;
+  z-index: 10002;
+  background: rgba(15,23,42,0.35);
+  display: flex;
+  align-items: center;
+  justify-content: center;
+`;
+
+const Dialog = styled.div`
+  background: #fff;
+  border-radius: 10px;
+  box-shadow: 0 6px 24px rgba(15,23,42,0.18);
+  width: 520px;
+  max-width: 92vw;
+  max-height: 80vh;
+  display: flex;
+  flex-direction: column;
+  font-size: 12px;
+  color: #475569;
+`;
+
+const Header = styled.div`
+  padding: 12px 14px 8px;
+  border-bottom: 1px solid #e2e8f0;
+  & strong { font-size: 14px; color: #1e293b; }
+`;
+
+const Body = styled.div`
+  padding: 8px 14px;
+  overflow-y: auto;
+`;
+
+const ErrorBox = styled.div`
+  background: #fef2f2;
+  border: 1px solid #fecaca;
+  color: #b91c1c;
+  border-radius: 8px;
+  padding: 8px 10px;
+  white-space: pre-wrap;
+`;
+
+const FileWarnings = styled.ul`
+  margin: 0 0 8px;
+  padding: 6px 10px 6px 24px;
+  background: #fff7ed;
+  border: 1px solid #fed7aa;
+  border-radius: 8px;
+  color: #9a3412;
+`;
+
+// Log das correções já aplicadas (também vai para o console ao importar)
+const Changes = styled.div`
+  margin: 0 0 8px;
+  padding: 6px 10px;
+  background: #f0fdf4;
+  border: 1px solid #bbf7d0;
+  border-radius: 8px;
+  color: #166534;
+  & ul { margin: 4px 0 0; padding-left: 14px; }
+`;
+
+// Linha de uma feição; a borda indica a decisão atual
+const Row = styled.div<{ $accepted: boolean }>`
+  padding: 6px 8px;
+  border-left: 3px solid ${({ $accepted }) => ($accepted ? '#059669' : '#cbd5e1')};
+  opacity: ${({ $accepted }) => ($accepted ? 1 : 0.75)};
+  & + & { margin-top: 6px; }
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: 6px;
+  margin-top: 4px;
+`;
+
+const Footer = styled.div`
+  display: flex;
+  gap: 6px;
+  align-items: center;
+  padding: 10px 14px;
+  border-top: 1px solid #e2e8f0;
+`;
+
+const SmallButton = styled.button<{ $variant?: 'primary'; $active?: boolean }>`
+  padding: 4px 8px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  border: 1px solid ${({ $active }) => ($active ? '#0ea5e9' : '#e2e8f0')};
+  background: ${({ $variant, $active }) => ($variant === 'primary' ? '#0ea5e9' : $active ? '#e0f2fe' : '#fff')};
+  color: ${({ $variant }) => ($variant === 'primary' ? '#fff' : '#1e293b')};
+  &:disabled { opacity: 0.5; cursor: default; }
+`;
+
+// Nome amigável da feição: texto, nome ou id; senão a posição no arquivo
+function itemTitle(item: ImportItem) {
+  const props = item.feature.properties ?? {};
+  const name = props.labelText ?? props.name ?? props.nome ?? item.feature.id;
+  return name !== undefined && name !== null && name !== '' ? String(name) : `Feição ${item.key}`;
+}
+
+// Componente do painel de revisão da importação
+export default function ImportReviewPanel({ fileName, report, error, onDecide, onFix, onConfirm, onCancel }: ImportReviewPanelProps) {
+  const [showAll, setShowAll] = useState(false);
+  const items = report?.items ?? [];
+  const withWarnings = items.filter(item => item.warnings.length);
+  const visible = showAll ? items : withWarnings;
+  const accepted = items.filter(item => item.decision === 'accept').length;
+  const fixable = withWarnings.filter(item => item.warnings.some(w => w.fixable)).length;
+
+  return (
+    <Overlay>
+      <Dialog role="dialog" aria-label="Revisar importação">
+        <Header>
+          <strong>Importar {fileName}</strong>
+          {report && (
+            <div>
+              {items.length} {items.length === 1 ? 'feição' : 'feições'}, {withWarnings.length} com avisos
+            </div>
+          )}
+        </Header>
+        <Body>
+          {error && <ErrorBox>Não foi possível ler o arquivo. Verifique se é um GeoJSON, KML, KMZ ou shapefile (.zip) válido.{`\n${error}`}</ErrorBox>}
+          {report && report.fileWarnings.length > 0 && (
+            <FileWarnings>
+              {report.fileWarnings.map((warning, index) => <li key={index}>{warning}</li>)}
+            </FileWarnings>
+          )}
+          {report && report.changes.length > 0 && (
+            <Changes>
+              <strong>Alterações aplicadas</strong>
+              <ul>{report.changes.map((change, index) => <li key={index}>{change}</li>)}</ul>
+            </Changes>
+          )}
+          {report && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 8 }}>
+              <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+              Mostrar também as feições sem avisos
+            </label>
+          )}
+          {visible.map(item => (
+            <Row key={item.key} $accepted={item.decision === 'accept'}>
+              <strong style={{ color: '#1e293b' }}>{itemTitle(item)}</strong>
+              <span style={{ color: '#94a3b8' }}> • {item.feature.geometry?.type ?? 'sem geometria'}</span>
+              {item.warnings.map((warning, index) => (
+                <div key={index}>
+                  <strong>{importWarningLabels[warning.type]}:</strong> {warning.message}
+                </div>
+              ))}
+              <Actions>
+                <SmallButton $active={item.decision === 'accept'} onClick={() => onDecide('accept', item.key)}>Aceitar</SmallButton>
+                <SmallButton $active={item.decision === 'skip'} onClick={() => onDecide('skip', item.key)}>Ignorar</SmallButton>
+                {item.warnings.some(w => w.fixable) && <SmallButton onClick={() => onFix(item.key)}>Corrigir</SmallButton>}
+              </Actions>
+            </Row>
+          ))}
+        </Body>
+        <Footer>
+          {report && (
+            <>
+              <SmallButton onClick={() => onFix()} disabled={!fixable}>Corrigir todas ({fixable})</SmallButton>
+              <SmallButton onClick={() => onDecide('accept')}>Aceitar todas</SmallButton>
+            </>
+          )}
+          <span style={{ flex: 1 }} />
+          <SmallButton onClick={onCancel}>{report ? 'Cancelar' : 'Fechar'}</SmallButton>
+          {report && (
+            <SmallButton $variant="primary" onClick={onConfirm} disabled={!accepted}>
+              Importar {accepted} de {items.length}
+            </SmallButton>
+          )}
+        </Footer>
+      </Dialog>
+    </Overlay>
+  );
+}
@@ -0,0 +1,191 @@
+// Painel de camadas do usuário: visibilidade, opacidade, ordem, trava e estilo padrão
+import { useState } from 'react';
+import styled from 'styled-components';
+import type { MapLayer, MapLayerPatch } from '../layers';
+
+// Propriedades do painel de camadas
+export type LayersPanelProps = {
+  layers: MapLayer[]; // Camadas, da de baixo para a de cima
+  activeLayer: string; // Camada que recebe os novos desenhos
+  featureCounts: Record<string, number>; // Quantidade de feições por camada
+  hasSelection: boolean; // Há feições selecionadas (para mover de camada)
+  onSetActive: (name: string) => void;
+  onUpdate: (name: string, patch: MapLayerPatch) => void;
+  onMove: (name: string, index: number) => void; // Nova posição (0 = embaixo)
+  onAdd: (name: string) => void;
+  onRemove: (name: string) => void;
+  onApplyStyle: (name: string) => void; // Aplica o estilo padrão às feições da camada
+  onMoveSelection: (name: string) => void;
+  onClose: () => void;
+};
+
+// Painel flutuante (mesmo visual do seletor de projetos)
+const Panel = styled.div`
+  position: absolute;
+  right: 0;
+  top: 110%;
+  background: #fff;
+  border: 1.5px solid #e2e8f0;
+  padding: 10px;
+  border-radius: 10px;
+  box-shadow: 0 6px 24px rgba(15,23,42,0.18);
+  z-index: 10001;
+  width: 340px;
+  max-height: 70vh;
+  overflow-y: auto;
+  text-align: left;
+  color: #1e293b;
+  font-size: 12px;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+  font-size: 13px;
+  font-weight: 600;
+`;
+
+// Linha de uma camada; a ativa fica destacada
+const Row = styled.div<{ $active: boolean }>`
+  padding: 8px;
+  border-radius: 8px;
+  background: ${({ $active }) => ($active ? '#eff6ff' : 'transparent')};
+  border: 1px solid ${({ $active }) => ($active ? '#bfdbfe' : '#f1f5f9')};
+  & + & { margin-top: 4px; }
+`;
+
+const Line = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  & + & { margin-top: 6px; }
+`;
+
+const NameInput = styled.input`
+  flex: 1;
+  min-width: 0;
+  font-size: 12px;
+  border: 1px solid transparent;
+  border-radius: 4px;
+  padding: 2px 4px;
+  background: transparent;
+  &:hover, &:focus { border-color: #e2e8f0; background: #fff; }
+`;
+
+const SmallButton = styled.button<{ $variant?: 'primary' | 'danger'; $pressed?: boolean }>`
+  padding: 3px 7px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  border: 1px solid ${({ $variant }) => ($variant === 'danger' ? '#fecaca' : '#e2e8f0')};
+  background: ${({ $variant, $pressed }) => ($variant === 'primary' ? '#0ea5e9' : $pressed ? '#e0f2fe' : '#fff')};
+  color: ${({ $variant }) => ($variant === 'primary' ? '#fff' : $variant === 'danger' ? '#b91c1c' : '#1e293b')};
+  &:disabled { opacity: 0.5; cursor: default; }
+`;
+
+// Componente do painel de camadas
+export default function LayersPanel({
+  layers, activeLayer, featureCounts, hasSelection,
+  onSetActive, onUpdate, onMove, onAdd, onRemove, onApplyStyle, onMoveSelection, onClose,
+}: LayersPanelProps) {
+  const [newName, setNewName] = useState('');
+  // A de cima aparece primeiro na lista
+  const ordered = layers.map((layer, index) => ({ layer, index })).reverse();
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    onAdd(newName.trim());
+    setNewName('');
+  };
+
+  return (
+    <Panel>
+      <Header>
+        <span>Camadas</span>
+        <SmallButton onClick={onClose} aria-label="Fechar">✕</SmallButton>
+      </Header>
+      {ordered.map(({ layer, index }) => (
+        <Row key={layer.name} $active={layer.name === activeLayer}>
+          <Line>
+            <input
+              type="radio"
+              name="active-layer"
+              checked={layer.name === activeLayer}
+              onChange={() => onSetActive(layer.name)}
+              title="Camada ativa (recebe os novos desenhos)"
+            />
+            <input
+              type="checkbox"
+              checked={layer.visible}
+              onChange={(e) => onUpdate(layer.name, { visible: e.target.checked })}
+              title={layer.visible ? 'Ocultar camada' : 'Mostrar camada'}
+            />
+            {/* key com o nome: o campo volta ao nome gravado quando a camada é renomeada ou desfeita */}
+            <NameInput
+              key={layer.name}
+              defaultValue={layer.name}
+              aria-label="Nome da camada"
+              onBlur={(e) => { if (e.target.value.trim() && e.target.value !== layer.name) onUpdate(layer.name, { name: e.target.value }); else e.target.value = layer.name; }}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            />
+            <span style={{ color: '#64748b' }}>{featureCounts[layer.name] ?? 0}</span>
+            <SmallButton $pressed={layer.locked} onClick={() => onUpdate(layer.name, { locked: !layer.locked })} title={layer.locked ? 'Destravar camada' : 'Travar camada contra edição'}>
+              {layer.locked ? '🔒' : '🔓'}
+            </SmallButton>
+          </Line>
+          <Line>
+            <label style={{ color: '#374151' }}>Opacidade</label>
+            <input
+              type="range" min={0} max={1} step={0.05}
+              value={layer.opacity}
+              onChange={(e) => onUpdate(layer.name, { opacity: Number(e.target.value) })}
+              style={{ flex: 1 }}
+            />
+            <span style={{ width: 32, textAlign: 'right' }}>{Math.round(layer.opacity * 100)}%</span>
+            <SmallButton onClick={() => onMove(layer.name, index + 1)} disabled={index === layers.length - 1} title="Subir (desenhar por cima)">▲</SmallButton>
+            <SmallButton onClick={() => onMove(layer.name, index - 1)} disabled={index === 0} title="Descer (desenhar por baixo)">▼</SmallButton>
+          </Line>
+          <Line>
+            <label style={{ color: '#374151' }} title="Estilo das feições novas desta camada">Estilo</label>
+            <input
+              type="color"
+              value={layer.style.fillColor ?? '#ffffff'}
+              onChange={(e) => onUpdate(layer.name, { style: { ...layer.style, fillColor: e.target.value } })}
+              title="Preenchimento"
+            />
+            <input
+              type="color"
+              value={layer.style.strokeColor ?? '#ffffff'}
+              onChange={(e) => onUpdate(layer.name, { style: { ...layer.style, strokeColor: e.target.value } })}
+              title="Borda"
+            />
+            <SmallButton onClick={() => onApplyStyle(layer.name)} disabled={!featureCounts[layer.name] || layer.locked} title="Aplicar o estilo a todas as feições da camada">
+              Aplicar
+            </SmallButton>
+            <span style={{ flex: 1 }} />
+            <SmallButton $variant="danger" onClick={() => onRemove(layer.name)} disabled={layers.length < 2} title="Excluir camada (as feições vão para a camada ativa)">
+              Excluir
+            </SmallButton>
+          </Line>
+        </Row>
+      ))}
+      <Line style={{ marginTop: 10 }}>
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="Nova camada"
+          style={{ flex: 1, fontSize: 12, padding: '4px 6px', border: '1px solid #e2e8f0', borderRadius: 6 }}
+        />
+        <SmallButton $variant="primary" onClick={handleAdd} disabled={!newName.trim()}>Adicionar</SmallButton>
+      </Line>
+      <Line>
+        <SmallButton onClick={() => onMoveSelection(activeLayer)} disabled={!hasSelection} style={{ width: '100%' }}>
+          Mover seleção para "{activeLayer}"
+        </SmallButton>
+      </Line>
+    </Panel>
+  );
+}
@@ -0,0 +1,104 @@
+// Legenda do mapa: estilos em uso (ou classes da regra temática), barra de escala e norte
+import styled from 'styled-components';
+import type { LegendItem, LegendSection, ScaleBar } from '../legend';
+
+// Propriedades da legenda
+export type MapLegendProps = {
+  sections: LegendSection[]; // Regra temática e estilos em uso (mapLegendSections)
+  scale: ScaleBar | null; // Barra de escala no zoom atual
+  bearing: number; // Rotação do mapa em graus (gira a seta do norte)
+};
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+`;
+
+const Title = styled.div`
+  font-weight: 600;
+  color: #1e293b;
+  margin: 6px 0 4px;
+`;
+
+const Item = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  & + & { margin-top: 3px; }
+`;
+
+const Detail = styled.span`
+  color: #94a3b8;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  max-width: 160px;
+`;
+
+// Régua alternando preto e branco, como nas plantas impressas
+const ScaleRule = styled.div`
+  height: 6px;
+  border: 1px solid #1e293b;
+  background: linear-gradient(to right, #1e293b 50%, #fff 50%);
+  box-sizing: border-box;
+`;
+
+// Símbolo do item: quadrado (polígono), traço (linha) ou círculo (ponto)
+function SymbolSwatch({ item }: { item: LegendItem }) {
+  const stroke = item.strokeColor ?? 'none';
+  const strokeWidth = Math.min(item.strokeWidth ?? 2, 4);
+  return (
+    <svg width="16" height="16" viewBox="0 0 16 16" style={{ flex: 'none' }}>
+      {item.symbol === 'line' && <line x1="1" y1="8" x2="15" y2="8" stroke={stroke} strokeWidth={strokeWidth} />}
+      {item.symbol === 'point' && <circle cx="8" cy="8" r="5" fill={item.fillColor ?? 'none'} fillOpacity={item.fillOpacity ?? 1} stroke={stroke} strokeWidth={strokeWidth} />}
+      {item.symbol === 'polygon' && (
+        <rect x="1.5" y="1.5" width="13" height="13" rx="2" fill={item.fillColor ?? 'none'} fillOpacity={Math.max(item.fillOpacity ?? 1, 0.25)} stroke={stroke} strokeWidth={strokeWidth} />
+      )}
+    </svg>
+  );
+}
+
+// Seta do norte (gira junto com o mapa)
+function NorthArrow({ bearing }: { bearing: number }) {
+  return (
+    <svg width="22" height="28" viewBox="0 0 22 28" aria-label="Norte" style={{ transform: `rotate(${-bearing}deg)` }}>
+      <text x="11" y="9" textAnchor="middle" fontSize="9" fontWeight="700" fill="#1e293b">N</text>
+      <path d="M11 10 L17 27 L11 23 L5 27 Z" fill="#1e293b" />
+    </svg>
+  );
+}
+
+// Componente da legenda
+export default function MapLegend({ sections, scale, bearing }: MapLegendProps) {
+  return (
+    <div>
+      <Header>
+        <strong style={{ color: '#1e293b' }}>Legenda</strong>
+        <NorthArrow bearing={bearing} />
+      </Header>
+      {sections.map(section => (
+        <div key={section.title}>
+          <Title>{section.title}</Title>
+          {section.items.map((item, i) => (
+            <Item key={`${item.label}-${i}`}>
+              <SymbolSwatch item={item} />
+              <span>{item.label}</span>
+              {item.detail && <Detail title={item.detail}>{item.detail}</Detail>}
+            </Item>
+          ))}
+        </div>
+      ))}
+      {scale && (
+        <div style={{ marginTop: 8, width: scale.widthPx }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', color: '#1e293b' }}>
+            <span>0</span>
+            <span>{scale.label}</span>
+          </div>
+          <ScaleRule />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+// Painel da medição: distância ou área com vértices temporários, trechos, total e cópia do resultado
+import { useState } from 'react';
+import styled from 'styled-components';
+import { formatArea, formatLength } from '../metrics';
+import { measureKindLabels, measurementText, type MeasureKind, type Measurement } from '../measure';
+
+// Propriedades do painel de medição
+export type MeasurePanelProps = {
+  measurement: Measurement | null; // Medição atual (com o trecho até o cursor enquanto desenha)
+  onStart: (kind: MeasureKind) => void;
+  onClear: () => void;
+  onClose: () => void;
+};
+
+// Painel flutuante (mesmo visual do painel de camadas)
+const Panel = styled.div`
+  position: absolute;
+  right: 0;
+  top: 110%;
+  background: #fff;
+  border: 1.5px solid #e2e8f0;
+  padding: 10px;
+  border-radius: 10px;
+  box-shadow: 0 6px 24px rgba(15,23,42,0.18);
+  z-index: 10001;
+  width: 240px;
+  max-height: 70vh;
+  overflow-y: auto;
+  text-align: left;
+  color: #1e293b;
+  font-size: 12px;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+  font-size: 13px;
+  font-weight: 600;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: 6px;
+  margin: 8px 0;
+`;
+
+const SmallButton = styled.button<{ $variant?: 'primary' | 'danger' }>`
+  padding: 3px 7px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  border: 1px solid ${({ $variant }) => ($variant === 'danger' ? '#fecaca' : '#e2e8f0')};
+  background: ${({ $variant }) => ($variant === 'primary' ? '#0ea5e9' : '#fff')};
+  color: ${({ $variant }) => ($variant === 'primary' ? '#fff' : $variant === 'danger' ? '#b91c1c' : '#1e293b')};
+  &:disabled { opacity: 0.5; cursor: default; }
+`;
+
+const Row = styled.div<{ $strong?: boolean }>`
+  display: flex;
+  justify-content: space-between;
+  padding: 2px 0;
+  font-weight: ${({ $strong }) => ($strong ? 600 : 400)};
+  border-top: ${({ $strong }) => ($strong ? '1px solid #e2e8f0' : 'none')};
+`;
+
+const Hint = styled.div`
+  color: #64748b;
+  margin-bottom: 6px;
+`;
+
+// Componente do painel de medição
+export default function MeasurePanel({ measurement, onStart, onClear, onClose }: MeasurePanelProps) {
+  const [copied, setCopied] = useState(false);
+  const measuring = !!measurement && !measurement.finished;
+  const closing = measurement?.kind === 'area' && measurement.points.length >= 3 ? measurement.segments.length - 1 : -1;
+
+  // Copia o resumo (um valor por linha) para colar em planilhas e mensagens
+  const copy = async () => {
+    if (!measurement) return;
+    try {
+      await navigator.clipboard.writeText(measurementText(measurement));
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error(err);
+      alert('Não foi possível copiar o resultado');
+    }
+  };
+
+  return (
+    <Panel>
+      <Header>
+        <span>Medir</span>
+        <SmallButton onClick={onClose} aria-label="Fechar">✕</SmallButton>
+      </Header>
+      <Actions>
+        {(Object.keys(measureKindLabels) as MeasureKind[]).map(kind => (
+          <SmallButton key={kind} $variant={measurement?.kind === kind && measuring ? 'primary' : undefined} onClick={() => onStart(kind)}>
+            {measureKindLabels[kind]}
+          </SmallButton>
+        ))}
+      </Actions>
+      {measuring && (
+        <Hint>Clique para marcar os vértices (grudam nos vértices próximos). Clique de novo no último ponto, ou Enter, para encerrar; Esc cancela.</Hint>
+      )}
+      {measurement && measurement.segments.length > 0 && (
+        <>
+          {measurement.segments.map((meters, i) => (
+            <Row key={i}>
+              <span>Trecho {i + 1}{i === closing ? ' (fechamento)' : ''}</span>
+              <span>{formatLength(meters)}</span>
+            </Row>
+          ))}
+          <Row $strong>
+            <span>{measurement.kind === 'area' ? 'Perímetro' : 'Total'}</span>
+            <span>{formatLength(measurement.length)}</span>
+          </Row>
+          {measurement.area !== null && (
+            <Row $strong>
+              <span>Área</span>
+              <span>{formatArea(measurement.area)}</span>
+            </Row>
+          )}
+          <Actions>
+            <SmallButton onClick={copy}>{copied ? 'Copiado!' : 'Copiar'}</SmallButton>
+            <SmallButton $variant="danger" onClick={onClear}>Limpar</SmallButton>
+          </Actions>
+        </>
+      )}
+    </Panel>
+  );
+}
@@ -0,0 +1,126 @@
+// Seletor de projetos salvos no navegador (abrir, renomear, duplicar, excluir)
+import styled from 'styled-components';
+import type { ProjectSummary } from '../projects';
+
+// Propriedades do seletor de projetos
+export type ProjectPickerProps = {
+  projects: ProjectSummary[]; // Projetos salvos (mais recente primeiro)
+  currentId: string | null; // Projeto aberto no mapa
+  onOpen: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+};
+
+// Painel flutuante (mesmo visual dos seletores de cor/borda)
+const Panel = styled.div`
+  position: absolute;
+  right: 0;
+  top: 110%;
+  background: #fff;
+  border: 1.5px solid #e2e8f0;
+  padding: 10px;
+  border-radius: 10px;
+  box-shadow: 0 6px 24px rgba(15,23,42,0.18);
+  z-index: 10001;
+  width: 320px;
+  max-height: 60vh;
+  overflow-y: auto;
+  text-align: left;
+  color: #1e293b;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+  font-size: 13px;
+  font-weight: 600;
+`;
+
+// Linha de um projeto; o aberto fica destacado
+const Row = styled.div<{ $active: boolean }>`
+  padding: 8px;
+  border-radius: 8px;
+  background: ${({ $active }) => ($active ? '#eff6ff' : 'transparent')};
+  border: 1px solid ${({ $active }) => ($active ? '#bfdbfe' : 'transparent')};
+  & + & { margin-top: 4px; }
+`;
+
+const Meta = styled.div`
+  font-size: 11px;
+  color: #64748b;
+  margin: 2px 0 6px;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: 6px;
+  flex-wrap: wrap;
+`;
+
+const SmallButton = styled.button<{ $variant?: 'primary' | 'danger' }>`
+  padding: 4px 8px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  border: 1px solid ${({ $variant }) => ($variant === 'danger' ? '#fecaca' : '#e2e8f0')};
+  background: ${({ $variant }) => ($variant === 'primary' ? '#0ea5e9' : '#fff')};
+  color: ${({ $variant }) => ($variant === 'primary' ? '#fff' : $variant === 'danger' ? '#b91c1c' : '#1e293b')};
+  &:disabled { opacity: 0.5; cursor: default; }
+`;
+
+// Data de alteração no formato brasileiro (ex.: 18/10/2026 14:32)
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+// Componente do seletor de projetos
+export default function ProjectPicker({ projects, currentId, onOpen, onCreate, onRename, onDuplicate, onDelete, onClose }: ProjectPickerProps) {
+  // Pede o nome e cria um projeto novo (vazio)
+  const handleCreate = () => {
+    const name = prompt('Nome do novo projeto (ex.: nome da fazenda):', 'Novo projeto')?.trim();
+    if (name) onCreate(name);
+  };
+
+  // Pede o novo nome do projeto
+  const handleRename = (project: ProjectSummary) => {
+    const name = prompt('Novo nome do projeto:', project.name)?.trim();
+    if (name && name !== project.name) onRename(project.id, name);
+  };
+
+  // Confirma antes de excluir (não há como desfazer)
+  const handleDelete = (project: ProjectSummary) => {
+    if (confirm(`Excluir o projeto "${project.name}"? Os desenhos salvos nele serão perdidos.`)) onDelete(project.id);
+  };
+
+  return (
+    <Panel>
+      <Header>
+        Projetos
+        <div style={{ display: 'flex', gap: 6 }}>
+          <SmallButton $variant="primary" onClick={handleCreate}>Novo</SmallButton>
+          <SmallButton onClick={onClose}>Fechar</SmallButton>
+        </div>
+      </Header>
+      {projects.length === 0 && <Meta>Nenhum projeto salvo ainda.</Meta>}
+      {projects.map(project => (
+        <Row key={project.id} $active={project.id === currentId}>
+          <div style={{ fontSize: 13, fontWeight: 500 }}>{project.name}{project.id === currentId && ' (aberto)'}</div>
+          <Meta>
+            Alterado em {formatDate(project.updatedAt)} • {project.featureCount} {project.featureCount === 1 ? 'feição' : 'feições'}
+          </Meta>
+          <Actions>
+            <SmallButton $variant="primary" onClick={() => onOpen(project.id)} disabled={project.id === currentId}>Abrir</SmallButton>
+            <SmallButton onClick={() => handleRename(project)}>Renomear</SmallButton>
+            <SmallButton onClick={() => onDuplicate(project.id)}>Duplicar</SmallButton>
+            <SmallButton $variant="danger" onClick={() => handleDelete(project)}>Excluir</SmallButton>
+          </Actions>
+        </Row>
+      ))}
+    </Panel>
+  );
+}
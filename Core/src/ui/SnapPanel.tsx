@@ -0,0 +1,97 @@
+// Painel do snap: liga/desliga, tolerância em px e alvos (vértices, pontos médios, arestas)
+import styled from 'styled-components';
+import { snapKindLabels, type SnapKind, type SnapOptions } from '../snap';
+
+// Propriedades do painel de snap
+export type SnapPanelProps = {
+  options: SnapOptions;
+  onChange: (options: SnapOptions) => void;
+  onClose: () => void;
+};
+
+// Painel flutuante (mesmo visual do painel de medição)
+const Panel = styled.div`
+  position: absolute;
+  right: 0;
+  top: 110%;
+  background: #fff;
+  border: 1.5px solid #e2e8f0;
+  padding: 10px;
+  border-radius: 10px;
+  box-shadow: 0 6px 24px rgba(15,23,42,0.18);
+  z-index: 10001;
+  width: 220px;
+  text-align: left;
+  color: #1e293b;
+  font-size: 12px;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+  font-size: 13px;
+  font-weight: 600;
+`;
+
+const SmallButton = styled.button`
+  padding: 3px 7px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  border: 1px solid #e2e8f0;
+  background: #fff;
+  color: #1e293b;
+`;
+
+const Field = styled.label<{ $disabled?: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 3px 0;
+  opacity: ${({ $disabled }) => ($disabled ? 0.5 : 1)};
+`;
+
+const Hint = styled.div`
+  color: #64748b;
+  margin-top: 6px;
+`;
+
+// Componente do painel de snap
+export default function SnapPanel({ options, onChange, onClose }: SnapPanelProps) {
+  const update = (changes: Partial<SnapOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <Panel>
+      <Header>
+        <span>Snap</span>
+        <SmallButton onClick={onClose} aria-label="Fechar">✕</SmallButton>
+      </Header>
+      <Field>
+        <input type="checkbox" checked={options.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        Grudar ao desenhar e editar
+      </Field>
+      <Field $disabled={!options.enabled}>
+        Tolerância
+        <input
+          type="range"
+          min={2}
+          max={40}
+          step={1}
+          value={options.tolerance}
+          disabled={!options.enabled}
+          onChange={(e) => update({ tolerance: Number(e.target.value) })}
+        />
+        <span>{options.tolerance} px</span>
+      </Field>
+      {(Object.keys(snapKindLabels) as SnapKind[]).map(kind => (
+        <Field key={kind} $disabled={!options.enabled}>
+          <input type="checkbox" checked={options[kind]} disabled={!options.enabled} onChange={(e) => update({ [kind]: e.target.checked })} />
+          {snapKindLabels[kind]}
+        </Field>
+      ))}
+      <Hint>Segure Alt para desenhar sem grudar.</Hint>
+    </Panel>
+  );
+}
@@ -0,0 +1,195 @@
+// Painel do estilo temático: cor do preenchimento a partir de um atributo (categorizado ou graduado)
+import { useState } from 'react';
+import styled from 'styled-components';
+import { attributeLabel, type AttributeColumn } from '../attributes';
+import {
+  classificationMethodLabels,
+  createThematicStyle,
+  thematicLegend,
+  thematicModeLabels,
+  thematicPalettes,
+  type ClassificationMethod,
+  type ThematicMode,
+  type ThematicStyle,
+} from '../thematic';
+import type { Feature } from 'geojson';
+
+// Propriedades do painel temático
+export type ThematicPanelProps = {
+  style: ThematicStyle | null; // Regra aplicada (null = cores manuais)
+  columns: AttributeColumn[]; // Colunas da tabela de atributos
+  features: Feature[]; // Feições atuais (para calcular as classes)
+  onApply: (style: ThematicStyle | null) => void;
+  onClose: () => void;
+};
+
+// Painel flutuante (mesmo visual do painel de camadas)
+const Panel = styled.div`
+  position: absolute;
+  right: 0;
+  top: 110%;
+  background: #fff;
+  border: 1.5px solid #e2e8f0;
+  padding: 10px;
+  border-radius: 10px;
+  box-shadow: 0 6px 24px rgba(15,23,42,0.18);
+  z-index: 10001;
+  width: 300px;
+  max-height: 70vh;
+  overflow-y: auto;
+  text-align: left;
+  color: #1e293b;
+  font-size: 12px;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+  font-size: 13px;
+  font-weight: 600;
+`;
+
+const Field = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  margin-bottom: 6px;
+  color: #374151;
+  & > select, & > input { flex: 1; min-width: 0; font-size: 12px; padding: 3px 4px; border: 1px solid #e2e8f0; border-radius: 6px; }
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: 6px;
+  margin: 8px 0;
+`;
+
+const SmallButton = styled.button<{ $variant?: 'primary' | 'danger' }>`
+  padding: 3px 7px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  border: 1px solid ${({ $variant }) => ($variant === 'danger' ? '#fecaca' : '#e2e8f0')};
+  background: ${({ $variant }) => ($variant === 'primary' ? '#0ea5e9' : '#fff')};
+  color: ${({ $variant }) => ($variant === 'primary' ? '#fff' : $variant === 'danger' ? '#b91c1c' : '#1e293b')};
+  &:disabled { opacity: 0.5; cursor: default; }
+`;
+
+const LegendItem = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  & + & { margin-top: 3px; }
+`;
+
+const Swatch = styled.span<{ $color: string }>`
+  width: 14px;
+  height: 14px;
+  flex: none;
+  border-radius: 3px;
+  border: 1px solid rgba(15,23,42,0.25);
+  background: ${({ $color }) => $color};
+`;
+
+// Componente do painel temático
+export default function ThematicPanel({ style, columns, features, onApply, onClose }: ThematicPanelProps) {
+  // O formulário começa com a regra aplicada (ou com a primeira coluna)
+  const [attribute, setAttribute] = useState(style?.attribute ?? columns[0]?.key ?? '');
+  const [mode, setMode] = useState<ThematicMode>(style?.mode ?? 'categorized');
+  const [method, setMethod] = useState<ClassificationMethod>(style?.method ?? 'quantile');
+  const [classCount, setClassCount] = useState(style?.classCount ?? 5);
+  const [palette, setPalette] = useState(style?.palette ?? 'Categorias');
+
+  const numericColumns = columns.filter(c => c.type === 'number');
+  const available = mode === 'graduated' ? numericColumns : columns;
+
+  const changeMode = (next: ThematicMode) => {
+    setMode(next);
+    // Paleta qualitativa para categorias, sequencial para classes
+    if (next === 'graduated' && palette === 'Categorias') setPalette('Verdes');
+    if (next === 'categorized' && palette !== 'Categorias') setPalette('Categorias');
+    if (next === 'graduated' && !numericColumns.some(c => c.key === attribute)) setAttribute(numericColumns[0]?.key ?? '');
+  };
+
+  const handleApply = () => {
+    if (!attribute) return;
+    onApply(createThematicStyle(
+      mode === 'graduated' ? { attribute, mode, method, classCount, palette } : { attribute, mode, palette },
+      features,
+    ));
+  };
+
+  const legend = style ? thematicLegend(style, features) : [];
+  const column = style ? columns.find(c => c.key === style.attribute) : undefined;
+
+  return (
+    <Panel>
+      <Header>
+        <span>Estilo temático</span>
+        <SmallButton onClick={onClose} aria-label="Fechar">✕</SmallButton>
+      </Header>
+      {!columns.length ? (
+        <div style={{ color: '#64748b' }}>Crie colunas na tabela de atributos para colorir as feições pelos valores.</div>
+      ) : (
+        <>
+          <Field>
+            Tipo
+            <select value={mode} onChange={(e) => changeMode(e.target.value as ThematicMode)}>
+              {Object.entries(thematicModeLabels).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </Field>
+          <Field>
+            Atributo
+            <select value={attribute} onChange={(e) => setAttribute(e.target.value)}>
+              {!available.length && <option value="">(nenhuma coluna numérica)</option>}
+              {available.map(c => <option key={c.key} value={c.key}>{attributeLabel(c)}</option>)}
+            </select>
+          </Field>
+          {mode === 'graduated' && (
+            <>
+              <Field>
+                Método
+                <select value={method} onChange={(e) => setMethod(e.target.value as ClassificationMethod)}>
+                  {Object.entries(classificationMethodLabels).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </Field>
+              <Field>
+                Classes
+                <input type="number" min={2} max={9} value={classCount} onChange={(e) => setClassCount(Math.min(9, Math.max(2, Number(e.target.value) || 2)))} />
+              </Field>
+            </>
+          )}
+          <Field>
+            Paleta
+            <select value={palette} onChange={(e) => setPalette(e.target.value)}>
+              {Object.keys(thematicPalettes).map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </Field>
+          <Actions>
+            <SmallButton $variant="primary" onClick={handleApply} disabled={!attribute} title="Calcula as classes com os valores atuais e aplica">
+              {style ? 'Reclassificar' : 'Aplicar'}
+            </SmallButton>
+            <span style={{ flex: 1 }} />
+            <SmallButton $variant="danger" onClick={() => onApply(null)} disabled={!style} title="Volta às cores definidas em cada feição">
+              Remover
+            </SmallButton>
+          </Actions>
+        </>
+      )}
+      {style && (
+        <div style={{ borderTop: '1px solid #f1f5f9', paddingTop: 8 }}>
+          <div style={{ fontWeight: 600, marginBottom: 4 }}>{column ? attributeLabel(column) : style.attribute}</div>
+          {!legend.length && <div style={{ color: '#64748b' }}>Nenhuma feição com valor neste atributo.</div>}
+          {legend.map(item => (
+            <LegendItem key={`${item.label}-${item.color}`}>
+              <Swatch $color={item.color} />
+              <span>{item.label}</span>
+            </LegendItem>
+          ))}
+        </div>
+      )}
+    </Panel>
+  );
+}
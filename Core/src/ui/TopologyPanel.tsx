@@ -0,0 +1,140 @@
+// Painel da topologia: sobreposições e vãos entre polígonos vizinhos, com correção das lascas
+import styled from 'styled-components';
+import {
+  topologyGapMessage,
+  topologyOverlapMessage,
+  type TopologyGap,
+  type TopologyOverlap,
+  type TopologyReport,
+} from '../topology';
+
+// Propriedades do painel de topologia
+export type TopologyPanelProps = {
+  report: TopologyReport | null; // Resultado da última conferência
+  sliverAreaM2: number; // Área máxima de uma lasca
+  onSliverAreaChange: (areaM2: number) => void;
+  onSelectOverlap: (overlap: TopologyOverlap) => void; // Clique em uma sobreposição (seleciona o par e centraliza)
+  onSelectGap: (gap: TopologyGap) => void; // Clique em um vão (seleciona os vizinhos e centraliza)
+  onFix: () => void; // Atribui cada lasca a um vizinho
+  onClose: () => void;
+};
+
+// Painel flutuante (mesmo visual do painel de snap)
+const Panel = styled.div`
+  position: absolute;
+  right: 0;
+  top: 110%;
+  background: #fff;
+  border: 1.5px solid #e2e8f0;
+  padding: 10px;
+  border-radius: 10px;
+  box-shadow: 0 6px 24px rgba(15,23,42,0.18);
+  z-index: 10001;
+  width: 280px;
+  text-align: left;
+  color: #1e293b;
+  font-size: 12px;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+  font-size: 13px;
+  font-weight: 600;
+`;
+
+const SmallButton = styled.button`
+  padding: 3px 7px;
+  font-size: 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  border: 1px solid #e2e8f0;
+  background: #fff;
+  color: #1e293b;
+`;
+
+const Field = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 3px 0;
+
+  input {
+    width: 80px;
+    font-size: 12px;
+  }
+`;
+
+const Summary = styled.div`
+  color: #64748b;
+  margin: 6px 0 4px;
+`;
+
+const List = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  max-height: 40vh;
+  overflow-y: auto;
+`;
+
+// Item da lista; a cor segue o destaque no mapa (sobreposição vermelha, vão âmbar)
+const Item = styled.li<{ $color: string }>`
+  padding: 6px 8px;
+  cursor: pointer;
+  border-left: 3px solid ${({ $color }) => $color};
+  &:hover { background: #f8fafc; }
+`;
+
+const FixButton = styled(SmallButton)`
+  width: 100%;
+  margin-top: 8px;
+  background: #0ea5e9;
+  border-color: #0ea5e9;
+  color: #fff;
+  &:disabled { opacity: 0.5; cursor: default; }
+`;
+
+// Componente do painel de topologia
+export default function TopologyPanel({ report, sliverAreaM2, onSliverAreaChange, onSelectOverlap, onSelectGap, onFix, onClose }: TopologyPanelProps) {
+  const overlaps = report?.overlaps ?? [];
+  const gaps = report?.gaps ?? [];
+  const fixable = overlaps.filter(o => o.sliver).length + gaps.filter(g => g.neighbourIds.length).length;
+
+  return (
+    <Panel>
+      <Header>
+        <span>Topologia</span>
+        <SmallButton onClick={onClose} aria-label="Fechar">✕</SmallButton>
+      </Header>
+      <Field>
+        Lasca até
+        <input type="number" min={0} step={100} value={sliverAreaM2} onChange={(e) => onSliverAreaChange(Math.max(0, Number(e.target.value)))} />
+        m²
+      </Field>
+      <Summary>
+        {overlaps.length || gaps.length
+          ? `${overlaps.length} ${overlaps.length === 1 ? 'sobreposição' : 'sobreposições'}, ${gaps.length} ${gaps.length === 1 ? 'vão' : 'vãos'}`
+          : 'Nenhuma sobreposição ou vão encontrado.'}
+      </Summary>
+      <List>
+        {overlaps.map(overlap => (
+          <Item key={`overlap-${overlap.ids.join('-')}`} $color="#dc2626" onClick={() => onSelectOverlap(overlap)}>
+            {topologyOverlapMessage(overlap)}
+            {!overlap.sliver && ' (ajuste manual)'}
+          </Item>
+        ))}
+        {gaps.map((gap, index) => (
+          <Item key={`gap-${index}`} $color="#f59e0b" onClick={() => onSelectGap(gap)}>
+            {topologyGapMessage(gap)}
+          </Item>
+        ))}
+      </List>
+      <FixButton onClick={onFix} disabled={!fixable}>
+        Corrigir lascas ({fixable})
+      </FixButton>
+    </Panel>
+  );
+}
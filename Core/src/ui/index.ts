@@ -0,0 +1,13 @@
+// Painéis React comuns aos apps Mapbox e Leaflet (map-editor-core/ui); React e styled-components vêm do app
+export { default as AttributeTable, type AttributeTableProps } from './AttributeTable';
+export { default as BufferPanel, type BufferPanelProps } from './BufferPanel';
+export { default as CenterOrderNotice, type CenterOrderNoticeProps } from './CenterOrderNotice';
+export { default as GeometryIssuesPanel, type GeometryIssuesPanelProps } from './GeometryIssuesPanel';
+export { default as ImportReviewPanel, type ImportReviewPanelProps } from './ImportReviewPanel';
+export { default as LayersPanel, type LayersPanelProps } from './LayersPanel';
+export { default as MapLegend, type MapLegendProps } from './MapLegend';
+export { default as MeasurePanel, type MeasurePanelProps } from './MeasurePanel';
+export { default as ProjectPicker, type ProjectPickerProps } from './ProjectPicker';
+export { default as SnapPanel, type SnapPanelProps } from './SnapPanel';
+export { default as ThematicPanel, type ThematicPanelProps } from './ThematicPanel';
+export { default as TopologyPanel, type TopologyPanelProps } from './TopologyPanel';
@@ -0,0 +1,417 @@
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { pointInRing, ringSignedArea } from './geometry';
+import type { EditorFeature } from './types';
+
+// ===============================
+// Validação e correção de geometrias
+// ===============================
+
+/**
+ * Problemas detectados:
+ * - `invalid-coordinate`: coordenada que não é número ou fora de -180..180 / -90..90
+ * - `unclosed-ring`: anel cujo último vértice não repete o primeiro
+ * - `too-few-points`: anel com menos de 3 vértices distintos (ou linha com menos de 2)
+ * - `duplicate-vertex`: vértice repetido em sequência
+ * - `spike`: vértice que vai e volta pelo mesmo caminho (agulha)
+ * - `self-intersection`: lados que se cruzam (ex.: polígono em "gravata borboleta")
+ * - `wrong-winding`: sentido dos anéis diferente da RFC 7946 (externo anti-horário, buracos horários)
+ */
+export type GeometryIssueType =
+  | 'invalid-coordinate'
+  | 'unclosed-ring'
+  | 'too-few-points'
+  | 'duplicate-vertex'
+  | 'spike'
+  | 'self-intersection'
+  | 'wrong-winding';
+
+/** Descrição de cada tipo de problema para a interface */
+export const geometryIssueLabels: Record<GeometryIssueType, string> = {
+  'invalid-coordinate': 'Coordenada inválida',
+  'unclosed-ring': 'Anel não fechado',
+  'too-few-points': 'Poucos vértices',
+  'duplicate-vertex': 'Vértice duplicado',
+  spike: 'Agulha (vai e volta)',
+  'self-intersection': 'Lados se cruzam',
+  'wrong-winding': 'Sentido dos anéis invertido',
+};
+
+export type GeometryIssue = {
+  featureId: string;
+  type: GeometryIssueType;
+  /** Onde está o problema [lng, lat]: vértice, cruzamento ou início do anel */
+  location: Position;
+  /** Parte (em Multi*), anel (ou linha) e vértice onde o problema foi encontrado */
+  path: { part: number; ring: number; vertex?: number };
+  /** Texto para a interface */
+  message: string;
+  /** true se repairGeometry resolve o problema */
+  repairable: boolean;
+};
+
+/** Correções aplicadas por repairGeometry (todas ligadas por padrão) */
+export type RepairOptions = {
+  closeRings?: boolean;
+  removeDuplicates?: boolean;
+  removeSpikes?: boolean;
+  /** Divide anéis que se cruzam em polígonos separados (vira MultiPolygon) */
+  splitBowTies?: boolean;
+  /** Externo anti-horário e buracos horários (RFC 7946) */
+  rewind?: boolean;
+};
+
+// Área mínima (graus²) para um pedaço resultante da divisão não ser descartado (~1 cm² no equador)
+const minPieceArea = 1e-14;
+
+const samePosition = (a: Position, b: Position) => a[0] === b[0] && a[1] === b[1];
+const isFinitePosition = (p: Position) => Number.isFinite(p[0]) && Number.isFinite(p[1]);
+const isInRange = (p: Position) => Math.abs(p[0]) <= 180 && Math.abs(p[1]) <= 90;
+
+function closeRing(ring: Position[]): Position[] {
+  return ring.length && !samePosition(ring[0], ring[ring.length - 1]) ? [...ring, ring[0]] : ring;
+}
+
+function removeConsecutiveDuplicates(line: Position[]): Position[] {
+  return line.filter((p, i) => i === 0 || !samePosition(p, line[i - 1]));
+}
+
+// Vértice `cur` em que o caminho volta sobre si mesmo (prev e next do mesmo lado, alinhados)
+function isSpike(prev: Position, cur: Position, next: Position): boolean {
+  const ux = prev[0] - cur[0];
+  const uy = prev[1] - cur[1];
+  const vx = next[0] - cur[0];
+  const vy = next[1] - cur[1];
+  const lengths = Math.hypot(ux, uy) * Math.hypot(vx, vy);
+  if (lengths === 0) return false;
+  return Math.abs(ux * vy - uy * vx) <= 1e-9 * lengths && ux * vx + uy * vy > 0;
+}
+
+/** Índices (no anel fechado) dos vértices que são agulhas */
+function findSpikes(ring: Position[]): number[] {
+  const points = ring.slice(0, -1);
+  const n = points.length;
+  if (n < 3) return [];
+  const spikes: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (isSpike(points[(i - 1 + n) % n], points[i], points[(i + 1) % n])) spikes.push(i);
+  }
+  return spikes;
+}
+
+/** Remove agulhas até não sobrar nenhuma (remover uma pode revelar outra) */
+function removeSpikesFromRing(ring: Position[]): Position[] {
+  let points = ring.slice(0, -1);
+  let changed = true;
+  while (changed && points.length >= 3) {
+    changed = false;
+    for (let i = 0; i < points.length; i++) {
+      const n = points.length;
+      if (isSpike(points[(i - 1 + n) % n], points[i], points[(i + 1) % n])) {
+        points.splice(i, 1);
+        points = removeConsecutiveDuplicates(points);
+        if (points.length > 1 && samePosition(points[0], points[points.length - 1])) points.pop();
+        changed = true;
+        break;
+      }
+    }
+  }
+  return closeRing(points);
+}
+
+/** Ponto de encontro dos segmentos ab e cd (o primeiro ponto em comum, se forem colineares) */
+function segmentIntersection(a: Position, b: Position, c: Position, d: Position): Position | null {
+  const rx = b[0] - a[0];
+  const ry = b[1] - a[1];
+  const sx = d[0] - c[0];
+  const sy = d[1] - c[1];
+  const qx = c[0] - a[0];
+  const qy = c[1] - a[1];
+  const denominator = rx * sy - ry * sx;
+  if (denominator === 0) {
+    // Paralelos: só interessam se forem colineares e se sobrepuserem
+    if (qx * ry - qy * rx !== 0) return null;
+    const rr = rx * rx + ry * ry;
+    if (rr === 0) return null;
+    const t0 = (qx * rx + qy * ry) / rr;
+    const t1 = t0 + (sx * rx + sy * ry) / rr;
+    const start = Math.max(0, Math.min(t0, t1));
+    if (start > Math.min(1, Math.max(t0, t1))) return null;
+    return [a[0] + start * rx, a[1] + start * ry];
+  }
+  const t = (qx * sy - qy * sx) / denominator;
+  const u = (qx * ry - qy * rx) / denominator;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+  return [a[0] + t * rx, a[1] + t * ry];
+}
+
+function segmentBoxesOverlap(a: Position, b: Position, c: Position, d: Position): boolean {
+  return Math.max(a[0], b[0]) >= Math.min(c[0], d[0]) && Math.max(c[0], d[0]) >= Math.min(a[0], b[0])
+    && Math.max(a[1], b[1]) >= Math.min(c[1], d[1]) && Math.max(c[1], d[1]) >= Math.min(a[1], b[1]);
+}
+
+type RingCrossing = { i: number; j: number; point: Position };
+
+/** Cruzamentos entre lados não vizinhos de um anel fechado (sem duplicados) */
+function findRingCrossings(ring: Position[], firstOnly = false): RingCrossing[] {
+  const segments = ring.length - 1;
+  const crossings: RingCrossing[] = [];
+  for (let i = 0; i < segments; i++) {
+    for (let j = i + 2; j < segments; j++) {
+      // O primeiro e o último lado são vizinhos (compartilham o vértice inicial)
+      if (i === 0 && j === segments - 1) continue;
+      const [a, b, c, d] = [ring[i], ring[i + 1], ring[j], ring[j + 1]];
+      if (!segmentBoxesOverlap(a, b, c, d)) continue;
+      const point = segmentIntersection(a, b, c, d);
+      if (!point) continue;
+      crossings.push({ i, j, point });
+      if (firstOnly) return crossings;
+    }
+  }
+  return crossings;
+}
+
+/** Pontos em que dois anéis diferentes (externo x buraco, buraco x buraco) se cruzam */
+function findCrossingsBetween(first: Position[], second: Position[]): Position[] {
+  const points: Position[] = [];
+  for (let i = 0; i < first.length - 1; i++) {
+    for (let j = 0; j < second.length - 1; j++) {
+      const [a, b, c, d] = [first[i], first[i + 1], second[j], second[j + 1]];
+      if (!segmentBoxesOverlap(a, b, c, d)) continue;
+      const point = segmentIntersection(a, b, c, d);
+      if (point) points.push(point);
+    }
+  }
+  return points;
+}
+
+/**
+ * Divide um anel que se cruza em anéis simples: corta no primeiro cruzamento
+ * e repete nos dois pedaços. Pedaços sem área são descartados.
+ */
+function splitRing(ring: Position[]): Position[][] {
+  const [crossing] = findRingCrossings(ring, true);
+  if (!crossing) return [ring];
+  const { i, j, point } = crossing;
+  const loop = [point, ...ring.slice(i + 1, j + 1), point];
+  const rest = [...ring.slice(0, i + 1), point, ...ring.slice(j + 1)];
+  return [loop, rest]
+    .map(removeConsecutiveDuplicates)
+    .filter(piece => piece.length >= 4 && Math.abs(ringSignedArea(piece)) > minPieceArea)
+    .flatMap(splitRing);
+}
+
+const orient = (ring: Position[], counterClockwise: boolean) => ((ringSignedArea(ring) > 0) === counterClockwise ? ring : [...ring].reverse());
+
+// -------- Validação --------
+
+function formatLocation(p: Position): string {
+  return `${p[1].toFixed(6)}, ${p[0].toFixed(6)}`;
+}
+
+function validateRings(featureId: string, rings: Position[][], part: number, issues: GeometryIssue[]) {
+  const issue = (type: GeometryIssueType, location: Position, ring: number, vertex: number | undefined, repairable: boolean, detail = '') => {
+    issues.push({
+      featureId,
+      type,
+      location,
+      path: { part, ring, vertex },
+      message: `${geometryIssueLabels[type]}${detail} em ${formatLocation(location)}`,
+      repairable,
+    });
+  };
+
+  const cleaned: Position[][] = [];
+  rings.forEach((raw, r) => {
+    const ringName = r === 0 ? 'anel externo' : `buraco ${r}`;
+    raw.forEach((p, v) => {
+      if (!isFinitePosition(p)) issue('invalid-coordinate', raw.find(isFinitePosition) ?? [0, 0], r, v, true, ` (${ringName}, vértice ${v + 1})`);
+      else if (!isInRange(p)) issue('invalid-coordinate', p, r, v, false, ` (${ringName}, vértice ${v + 1})`);
+    });
+    const finite = raw.filter(isFinitePosition);
+    if (!finite.length) return;
+    if (!samePosition(finite[0], finite[finite.length - 1])) issue('unclosed-ring', finite[0], r, undefined, true, ` (${ringName})`);
+    const closed = closeRing(finite);
+    closed.forEach((p, v) => {
+      if (v > 0 && samePosition(p, closed[v - 1])) issue('duplicate-vertex', p, r, v, true, ` (${ringName})`);
+    });
+    const ring = removeConsecutiveDuplicates(closed);
+    if (ring.length < 4) {
+      issue('too-few-points', ring[0], r, undefined, false, ` (${ringName})`);
+      return;
+    }
+    const spikes = findSpikes(ring);
+    for (const v of spikes) issue('spike', ring[v], r, v, true, ` (${ringName})`);
+    // Cruzamentos e sentido são avaliados sem as agulhas (que sempre "tocam" o lado vizinho)
+    const simple = spikes.length ? removeSpikesFromRing(ring) : ring;
+    if (simple.length < 4) return;
+    const crossings = findRingCrossings(simple);
+    const seen = new Set<string>();
+    for (const { point } of crossings) {
+      const key = `${point[0]},${point[1]}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      issue('self-intersection', point, r, undefined, true, ` (${ringName})`);
+    }
+    // Com cruzamentos o sentido não é bem definido: a divisão já corrige
+    if (!crossings.length && (ringSignedArea(simple) > 0) !== (r === 0)) issue('wrong-winding', simple[0], r, undefined, true, ` (${ringName})`);
+    cleaned[r] = simple;
+  });
+
+  // Buracos que cruzam o anel externo ou outros buracos não têm correção automática
+  for (let a = 0; a < cleaned.length; a++) {
+    for (let b = a + 1; b < cleaned.length; b++) {
+      if (!cleaned[a] || !cleaned[b]) continue;
+      const [point] = findCrossingsBetween(cleaned[a], cleaned[b]);
+      if (point) issue('self-intersection', point, b, undefined, false, a === 0 ? ` (buraco ${b} cruza o anel externo)` : ` (buracos ${a} e ${b})`);
+    }
+  }
+}
+
+function validateLine(featureId: string, line: Position[], part: number, issues: GeometryIssue[]) {
+  const issue = (type: GeometryIssueType, location: Position, vertex: number | undefined, repairable: boolean) => {
+    issues.push({ featureId, type, location, path: { part, ring: 0, vertex }, message: `${geometryIssueLabels[type]} em ${formatLocation(location)}`, repairable });
+  };
+  line.forEach((p, v) => {
+    if (!isFinitePosition(p)) issue('invalid-coordinate', line.find(isFinitePosition) ?? [0, 0], v, true);
+    else if (!isInRange(p)) issue('invalid-coordinate', p, v, false);
+    else if (v > 0 && samePosition(p, line[v - 1])) issue('duplicate-vertex', p, v, true);
+  });
+  const distinct = removeConsecutiveDuplicates(line.filter(isFinitePosition));
+  if (distinct.length < 2) issue('too-few-points', distinct[0] ?? [0, 0], undefined, false);
+}
+
+function validateGeometryInto(featureId: string, geometry: Geometry, issues: GeometryIssue[]) {
+  switch (geometry.type) {
+    case 'Point':
+    case 'MultiPoint': {
+      const points = geometry.type === 'Point' ? [geometry.coordinates] : geometry.coordinates;
+      points.forEach((p, part) => {
+        if (!isFinitePosition(p) || !isInRange(p)) {
+          issues.push({ featureId, type: 'invalid-coordinate', location: isFinitePosition(p) ? p : [0, 0], path: { part, ring: 0 }, message: geometryIssueLabels['invalid-coordinate'], repairable: false });
+        }
+      });
+      break;
+    }
+    case 'LineString':
+      validateLine(featureId, geometry.coordinates, 0, issues);
+      break;
+    case 'MultiLineString':
+      geometry.coordinates.forEach((line, part) => validateLine(featureId, line, part, issues));
+      break;
+    case 'Polygon':
+      validateRings(featureId, geometry.coordinates, 0, issues);
+      break;
+    case 'MultiPolygon':
+      geometry.coordinates.forEach((rings, part) => validateRings(featureId, rings, part, issues));
+      break;
+    case 'GeometryCollection':
+      for (const child of geometry.geometries) validateGeometryInto(featureId, child, issues);
+      break;
+  }
+}
+
+/** Lista os problemas de geometria de uma feição */
+export function validateFeature(feature: EditorFeature): GeometryIssue[] {
+  const issues: GeometryIssue[] = [];
+  if (feature.geometry) validateGeometryInto(feature.id, feature.geometry, issues);
+  return issues;
+}
+
+/** Lista os problemas de geometria das feições (todas ou só as dos ids informados) */
+export function validateCollection(collection: FeatureCollection, ids?: string[]): GeometryIssue[] {
+  const only = ids ? new Set(ids) : null;
+  return collection.features
+    .filter(f => !only || only.has(String(f.id)))
+    .flatMap(f => validateFeature({ ...f, id: String(f.id) }));
+}
+
+/** Pontos dos problemas, para a camada de destaque no mapa */
+export function issuesToCollection(issues: GeometryIssue[]): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: issues.map(issue => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: issue.location },
+      properties: { featureId: issue.featureId, issueType: issue.type, message: issue.message, repairable: issue.repairable },
+    })),
+  };
+}
+
+// -------- Correção --------
+
+function repairRing(ring: Position[], options: Required<RepairOptions>): Position[] {
+  let next = ring.filter(isFinitePosition);
+  if (options.closeRings) next = closeRing(next);
+  if (options.removeDuplicates || options.removeSpikes) next = removeConsecutiveDuplicates(next);
+  if (options.removeSpikes && next.length >= 4 && samePosition(next[0], next[next.length - 1])) next = removeSpikesFromRing(next);
+  return next;
+}
+
+/** Corrige os anéis de um polígono; pode devolver vários polígonos (divisão de "gravatas") */
+function repairPolygon(rings: Position[][], options: Required<RepairOptions>): Position[][][] {
+  const [shell, ...holes] = rings.map(ring => repairRing(ring, options));
+  if (!shell || shell.length < 4) return [];
+  const isClosed = (ring: Position[]) => samePosition(ring[0], ring[ring.length - 1]);
+  const split = (ring: Position[]) => (options.splitBowTies && isClosed(ring) ? splitRing(ring) : [ring]);
+
+  const shells = split(shell);
+  const validHoles = holes.filter(hole => hole.length >= 4).flatMap(split);
+  if (!shells.length) return [];
+
+  const polygons: Position[][][] = shells.map(ring => [options.rewind ? orient(ring, true) : ring]);
+  for (const hole of validHoles) {
+    // Cada buraco fica no pedaço que o contém (se a divisão separou o polígono)
+    const owner = polygons.find(polygon => pointInRing(hole[0], polygon[0])) ?? polygons[0];
+    owner.push(options.rewind ? orient(hole, false) : hole);
+  }
+  return polygons;
+}
+
+function repairLine(line: Position[], options: Required<RepairOptions>): Position[] {
+  const finite = line.filter(isFinitePosition);
+  const next = options.removeDuplicates ? removeConsecutiveDuplicates(finite) : finite;
+  return next.length >= 2 ? next : line;
+}
+
+/** Geometria corrigida (ou a mesma referência, se não havia o que corrigir) */
+export function repairGeometry(geometry: Geometry, options: RepairOptions = {}): Geometry {
+  const resolved: Required<RepairOptions> = { closeRings: true, removeDuplicates: true, removeSpikes: true, splitBowTies: true, rewind: true, ...options };
+  let repaired: Geometry;
+  switch (geometry.type) {
+    case 'LineString':
+      repaired = { ...geometry, coordinates: repairLine(geometry.coordinates, resolved) };
+      break;
+    case 'MultiLineString':
+      repaired = { ...geometry, coordinates: geometry.coordinates.map(line => repairLine(line, resolved)) };
+      break;
+    case 'Polygon': {
+      const polygons = repairPolygon(geometry.coordinates, resolved);
+      if (!polygons.length) return geometry;
+      repaired = polygons.length === 1 ? { type: 'Polygon', coordinates: polygons[0] } : { type: 'MultiPolygon', coordinates: polygons };
+      break;
+    }
+    case 'MultiPolygon': {
+      const polygons = geometry.coordinates.flatMap(rings => repairPolygon(rings, resolved));
+      if (!polygons.length) return geometry;
+      repaired = { type: 'MultiPolygon', coordinates: polygons };
+      break;
+    }
+    case 'GeometryCollection':
+      repaired = { ...geometry, geometries: geometry.geometries.map(child => repairGeometry(child, resolved)) };
+      break;
+    default:
+      return geometry;
+  }
+  return JSON.stringify(repaired) === JSON.stringify(geometry) ? geometry : repaired;
+}
+
+/** Feições que mudaram com a correção (mesmo id e propriedades, geometria nova) */
+export function repairFeatures<T extends Feature>(features: T[], options?: RepairOptions): T[] {
+  const changed: T[] = [];
+  for (const feature of features) {
+    if (!feature.geometry) continue;
+    const geometry = repairGeometry(feature.geometry, options);
+    if (geometry !== feature.geometry) changed.push({ ...feature, geometry });
+  }
+  return changed;
+}
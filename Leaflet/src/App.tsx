@@ -16,10 +16,102 @@ import {
   IconFullscreen,
   IconExitFullscreen,
   IconPolygon,
+  IconLine,
+  IconPoint,
+  IconRectangle,
+  IconCircle,
+  IconFreehand,
   IconImport,
   IconExport,
-  IconTrash
+  IconTrash,
+  IconUndo,
+  IconRedo,
+  IconFolder,
+  IconLayers,
+  IconTable,
+  IconPalette,
+  IconLegend,
+  IconRuler,
+  IconMagnet,
+  IconMerge,
+  IconSubtract,
+  IconIntersect,
+  IconSplit,
+  IconBuffer,
+  IconTopology,
+  IconEditVertices
 } from './components/icons';
+// Painéis comuns aos apps Mapbox e Leaflet
+import {
+  AttributeTable,
+  BufferPanel,
+  CenterOrderNotice,
+  GeometryIssuesPanel,
+  ImportReviewPanel,
+  LayersPanel,
+  MapLegend,
+  MeasurePanel,
+  ProjectPicker,
+  SnapPanel,
+  ThematicPanel,
+  TopologyPanel,
+} from 'map-editor-core/ui';
+// Núcleo compartilhado: medidas, formatos de arquivo, coordenadas e projetos
+import {
+  computeCollectionMetrics,
+  coordinateFormatLabels,
+  createProjectSession,
+  defaultSliverAreaM2,
+  defaultSnapOptions,
+  createPrintPdf,
+  createProjectStore,
+  downloadBlob,
+  exportCollection,
+  exportFormatLabels,
+  formatArea,
+  formatLength,
+  getCollectionBBox,
+  getCrs,
+  getFeatureLayer,
+  fromJsonSchema,
+  importAccept,
+  inferAttributeColumns,
+  mapLegendSections,
+  paperOrientationLabels,
+  pdfPaperSizes,
+  printMapFrame,
+  fixImportItems,
+  importNeedsReview,
+  importReportToCollection,
+  prepareImport,
+  scaleBar,
+  setImportDecision,
+  sirgas2000,
+  supportedCrs,
+  toJsonSchema,
+  validateAttributes,
+  type AttributeColumn,
+  type BufferOptions,
+  type CoordinateFormat,
+  type ExportFormat,
+  type GeometryIssue,
+  type ImportDecision,
+  type ImportReport,
+  type MapLayer,
+  type MapMode,
+  type MapScale,
+  type Measurement,
+  type PaperOrientation,
+  type PaperSize,
+  type ProjectSession,
+  type ResolvedCenter,
+  type ProjectSessionState,
+  type SnapOptions,
+  type ThematicStyle,
+  type TopologyGap,
+  type TopologyOverlap,
+  type TopologyReport,
+} from 'map-editor-core';
 // Estilo global da aplicação
 import GlobalStyle from '../GlobalStyle';
 
@@ -32,6 +124,7 @@ const AppShell = styled.div`
   position: fixed;
   inset: 0;
   overflow: hidden;
+  display: flex;
 `;
 
 
@@ -39,7 +132,8 @@ const AppShell = styled.div`
 const MapWrapper = styled.section`
   position: relative;
   height: 100%;
-  width: 100%;
+  flex: 1;
+  min-width: 0;
   z-index: 0;
 `;
 
@@ -86,6 +180,8 @@ const IconButton = styled.button`
   padding: 0;
   &:first-child { border-left: none; }
   &:hover { background: #f8fafc; }
+  &:disabled { color: #cbd5e1; cursor: default; background: #fff; }
+  &[aria-pressed='true'] { background: #e0f2fe; color: #0369a1; }
   & > div {
     margin: 0;
     display: flex;
@@ -112,6 +208,16 @@ const InfoChip = styled.div`
   z-index: 22;
 `;
 
+// Legenda no canto inferior esquerdo do mapa (mesmo visual do chip de informação)
+const LegendChip = styled(InfoChip)`
+  position: absolute;
+  right: auto;
+  left: 24px;
+  bottom: 36px;
+  max-height: 40vh;
+  overflow-y: auto;
+`;
+
 // Tela de carregamento do mapa
 const MapLoading = styled.div`
   position: absolute;
@@ -142,16 +248,12 @@ const TokenWarning = styled.div`
   & a { color: #bfdbfe; text-decoration: underline; }
 `;
 
+// Estilo que o Leaflet usa nas feições sem propriedades de estilo (para a legenda)
+const legendFallbackStyle = { fillColor: '#3bb2d0', fillOpacity: 0.4, strokeColor: '#3bb2d0', strokeWidth: 2 };
+
 // FeatureCollection vazio para inicialização
 const emptyCollection: FeatureCollection = { type: 'FeatureCollection', features: [] };
 
-// Função utilitária para validar se um objeto é um FeatureCollection
-function isFeatureCollection(value: unknown): value is FeatureCollection {
-  if (typeof value !== 'object' || value === null) return false;
-  const maybe = value as FeatureCollection;
-  return maybe.type === 'FeatureCollection' && Array.isArray(maybe.features);
-}
-
 
 // Componente principal da aplicação
 function App() {
@@ -165,10 +267,16 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   // Nome do último arquivo importado
   const [lastImportedFile, setLastImportedFile] = useState<string | null>(null);
+  // Importação aguardando revisão (relatório com avisos ou erro de leitura)
+  const [importReview, setImportReview] = useState<{ fileName: string; report: ImportReport | null; error: string | null } | null>(null);
+  // Centro inicial com suspeita de latitude/longitude trocadas
+  const [centerWarning, setCenterWarning] = useState<ResolvedCenter | null>(null);
   // Indica se o mapa está pronto
   const [mapReady, setMapReady] = useState(false);
   // Indica se está em tela cheia
   const [isFullscreen, setIsFullscreen] = useState(false);
+  // Formato dos rótulos de coordenadas dos vértices
+  const [coordinateFormat, setCoordinateFormat] = useState<CoordinateFormat>('decimal');
 
   // Efeito para simular carregamento do mapa (fallback)
   useEffect(() => {
@@ -200,18 +308,274 @@ function App() {
     return () => document.removeEventListener('fullscreenchange', onFsChange);
   }, []);
 
-  // Atualiza o estado ao desenhar no mapa
+  // Indica se há passos para desfazer/refazer (habilita os botões)
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  // Projetos salvos no IndexedDB: lista, projeto aberto e painel de seleção
+  const [projectState, setProjectState] = useState<ProjectSessionState>({ projects: [], currentId: null });
+  const [projectPickerOpen, setProjectPickerOpen] = useState(false);
+  const projectSessionRef = useRef<ProjectSession | null>(null);
+
+  // Retorna a sessão de projetos (salvamento automático), criando-a na primeira chamada
+  const getProjectSession = () => {
+    if (!projectSessionRef.current) {
+      projectSessionRef.current = createProjectSession({
+        store: createProjectStore(),
+        getHandle: () => mapRef.current,
+        onStateChange: setProjectState,
+      });
+    }
+    return projectSessionRef.current;
+  };
+
+  // Reabre o último projeto quando o mapa termina de carregar
+  const handleMapLoad = () => {
+    setMapReady(true);
+    setError(null);
+    getProjectSession().start().catch(err => console.error('Erro ao abrir o projeto salvo:', err));
+  };
+
+  // Ao esconder/fechar a aba, grava na hora o que estiver pendente (inclusive centro e zoom)
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') void projectSessionRef.current?.flush();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  // Nome do projeto aberto (exibido no botão de projetos)
+  const currentProject = projectState.projects.find(p => p.id === projectState.currentId);
+
+  // Atualiza o estado ao desenhar no mapa (e agenda o salvamento automático do projeto)
   const handleDrawChange = (collection: FeatureCollection) => {
     setDrawData(collection);
+    setCanUndo(!!mapRef.current?.canUndo());
+    setCanRedo(!!mapRef.current?.canRedo());
+    getProjectSession().handleDrawChange(collection);
+  };
+
+  // Problemas de geometria: revalidados a cada feição criada, alterada ou removida (desenho, edição e importação)
+  const [geometryIssues, setGeometryIssues] = useState<GeometryIssue[]>([]);
+  useEffect(() => {
+    const handle = mapRef.current;
+    if (!mapReady || !handle) return;
+    const revalidate = () => setGeometryIssues(handle.validateGeometry());
+    const unsubscribe = [handle.on('create', revalidate), handle.on('update', revalidate), handle.on('delete', revalidate)];
+    revalidate();
+    return () => unsubscribe.forEach(off => off());
+  }, [mapReady]);
+
+  // Topologia (sobreposições e vãos): reconferida a cada alteração enquanto o painel está aberto
+  const [topologyPanelOpen, setTopologyPanelOpen] = useState(false);
+  const [sliverAreaM2, setSliverAreaM2] = useState(defaultSliverAreaM2);
+  const [topologyReport, setTopologyReport] = useState<TopologyReport | null>(null);
+  useEffect(() => {
+    const handle = mapRef.current;
+    if (!mapReady || !topologyPanelOpen || !handle) return;
+    const reaudit = () => setTopologyReport(handle.auditTopology({ sliverAreaM2 }));
+    const unsubscribe = [handle.on('create', reaudit), handle.on('update', reaudit), handle.on('delete', reaudit)];
+    reaudit();
+    // Fechar o painel apaga o destaque
+    return () => {
+      unsubscribe.forEach(off => off());
+      handle.clearTopologyIssues();
+    };
+  }, [mapReady, topologyPanelOpen, sliverAreaM2]);
+
+  // Camadas e colunas de atributos do usuário (espelho do editor) e seleção atual, para os painéis
+  const [layers, setLayers] = useState<MapLayer[]>([]);
+  const [activeLayer, setActiveLayer] = useState('');
+  const [attributeColumns, setAttributeColumns] = useState<AttributeColumn[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [layersPanelOpen, setLayersPanelOpen] = useState(false);
+  const [attributeTableOpen, setAttributeTableOpen] = useState(false);
+  const [thematic, setThematic] = useState<ThematicStyle | null>(null);
+  const [thematicPanelOpen, setThematicPanelOpen] = useState(false);
+  // Modo de interação do mapa (destaca o botão do desenho em andamento)
+  const [mapMode, setMapMode] = useState<MapMode>('select');
+  // Medição temporária (fora dos desenhos): resultado ao vivo e painel
+  const [measurement, setMeasurement] = useState<Measurement | null>(null);
+  const [measurePanelOpen, setMeasurePanelOpen] = useState(false);
+  // Snap ao desenhar e editar (tolerância e alvos) e seu painel
+  const [snapOptions, setSnapOptions] = useState<SnapOptions>(defaultSnapOptions);
+  const [snapPanelOpen, setSnapPanelOpen] = useState(false);
+  // Painel da faixa (buffer)
+  const [bufferPanelOpen, setBufferPanelOpen] = useState(false);
+  // Legenda, escala e norte sobre o mapa (também entram na imagem exportada)
+  const [legendVisible, setLegendVisible] = useState(true);
+  const [mapScale, setMapScale] = useState<MapScale | null>(null);
+  useEffect(() => {
+    const handle = mapRef.current;
+    if (!mapReady || !handle) return;
+    setLayers(handle.getLayers());
+    setActiveLayer(handle.getActiveLayer());
+    setAttributeColumns(handle.getAttributeColumns());
+    setThematic(handle.getThematicStyle());
+    setMapScale(handle.getMapScale());
+    const unsubscribe = [
+      handle.on('layerchange', (e) => { setLayers(e.layers); setActiveLayer(e.activeLayer); }),
+      handle.on('columnschange', (e) => setAttributeColumns(e.columns)),
+      handle.on('thematicchange', (e) => setThematic(e.style)),
+      handle.on('measurechange', (e) => setMeasurement(e.measurement)),
+      handle.on('modechange', (e) => setMapMode(e.mode)),
+      handle.on('select', (e) => setSelectedIds(e.ids)),
+      handle.on('viewchange', () => setMapScale(handle.getMapScale())),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [mapReady]);
+
+  // Itens da legenda: classes da regra temática e estilos em uso
+  const legendSections = mapLegendSections(drawData.features, { layers, thematic, columns: attributeColumns, fallback: legendFallbackStyle });
+
+  // Quantidade de feições por camada (exibida no painel)
+  const layerFeatureCounts: Record<string, number> = {};
+  for (const feature of drawData.features) {
+    const name = getFeatureLayer(feature);
+    if (name) layerFeatureCounts[name] = (layerFeatureCounts[name] ?? 0) + 1;
+  }
+
+  const handleRemoveLayer = (name: string) => {
+    if (layers.find(l => l.name === name)?.locked) {
+      alert(`A camada "${name}" está travada. Destrave-a antes de removê-la.`);
+      return;
+    }
+    const count = layerFeatureCounts[name] ?? 0;
+    let deleteFeatures = false;
+    if (count) {
+      // OK exclui as feições junto; Cancelar as move para outra camada
+      deleteFeatures = window.confirm(`A camada "${name}" tem ${count} ${count === 1 ? 'feição' : 'feições'}. Excluir as feições junto com a camada?\n(Cancelar move as feições para a camada ativa)`);
+    }
+    mapRef.current?.removeLayer(name, { deleteFeatures });
+  };
+
+  // Pendências do esquema (colunas obrigatórias, tipo e lista de valores): marcadas na tabela e bloqueiam a exportação
+  const schemaViolations = validateAttributes(drawData.features, attributeColumns);
+  const pendingFeatureCount = new Set(schemaViolations.map(v => v.featureId)).size;
+
+  // Baixa as colunas como JSON Schema
+  const handleSaveSchema = () => {
+    const schema = toJsonSchema(attributeColumns, currentProject ? `Atributos - ${currentProject.name}` : undefined);
+    downloadBlob(new Blob([JSON.stringify(schema, null, 2)], { type: 'application/schema+json' }), `${currentProject?.name ?? 'esquema'}.schema.json`);
+  };
+
+  // Substitui as colunas pelas de um JSON Schema (propriedades já gravadas sem coluna continuam visíveis)
+  const handleLoadSchema = async (file: File) => {
+    try {
+      const columns = fromJsonSchema(await file.text());
+      mapRef.current?.setAttributeColumns([...columns, ...inferAttributeColumns(drawData.features, columns)]);
+    } catch (schemaError) {
+      console.error(schemaError);
+      alert(`Não foi possível carregar o esquema: ${schemaError instanceof Error ? schemaError.message : schemaError}`);
+    }
+  };
+
+  // Seleciona a feição do problema e centraliza o mapa nele
+  const handleSelectIssue = (issue: GeometryIssue) => {
+    mapRef.current?.selectById(issue.featureId);
+    mapRef.current?.flyTo({ lng: issue.location[0], lat: issue.location[1] });
+  };
+
+  // Corrige tudo que tem correção automática (a revalidação vem pelo evento 'update')
+  const handleRepairGeometry = () => {
+    if (!mapRef.current?.repairGeometry().length) alert('Nenhuma geometria pôde ser corrigida automaticamente.');
+  };
+
+  // Esconde o painel e o destaque até a próxima alteração
+  const handleDismissIssues = () => {
+    mapRef.current?.clearGeometryIssues();
+    setGeometryIssues([]);
+  };
+
+  // Topologia: clique no item seleciona as feições envolvidas e centraliza; a correção é um passo do histórico
+  const handleSelectOverlap = (overlap: TopologyOverlap) => {
+    mapRef.current?.selectByIds(overlap.ids);
+    mapRef.current?.flyTo({ lng: overlap.location[0], lat: overlap.location[1] });
   };
+  const handleSelectGap = (gap: TopologyGap) => {
+    mapRef.current?.selectByIds(gap.neighbourIds);
+    mapRef.current?.flyTo({ lng: gap.location[0], lat: gap.location[1] });
+  };
+  const handleFixTopology = () => {
+    if (!mapRef.current?.fixTopology({ sliverAreaM2 }).length) alert('Nenhuma lasca pôde ser corrigida automaticamente.');
+  };
+
+  // Desfaz/refaz a última alteração no mapa
+  const handleUndo = () => mapRef.current?.undo?.();
+  const handleRedo = () => mapRef.current?.redo?.();
+
+  // Atalhos de teclado: Ctrl+Z desfaz e Ctrl+Shift+Z refaz (Cmd no macOS)
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      // Não interfere no desfazer nativo de campos de texto
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      event.preventDefault();
+      if (event.shiftKey) mapRef.current?.redo?.();
+      else mapRef.current?.undo?.();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
   // Conta quantos polígonos existem no GeoJSON desenhado
   const polygonCount = drawData.features.filter(
     (f: any) => f.geometry && (f.geometry.type === 'Polygon' || f.geometry.type === 'MultiPolygon')
   ).length;
+  // Área e perímetro totais (geodésicos, buracos descontados)
+  const totals = computeCollectionMetrics(drawData);
+  // Se a exportação deve gravar área/perímetro nas propriedades de cada polígono
+  const [exportMetrics, setExportMetrics] = useState(false);
+
+  // Polígonos e linhas selecionados: habilitam unir, recortar, interseção e dividir
+  const selectedGeometryTypes = drawData.features.filter(f => selectedIds.includes(String(f.id))).map(f => f.geometry?.type);
+  const selectedPolygonCount = selectedGeometryTypes.filter(t => t === 'Polygon' || t === 'MultiPolygon').length;
+  const selectedLineCount = selectedGeometryTypes.filter(t => t === 'LineString' || t === 'MultiLineString').length;
+  const handleSubtract = () => {
+    if (!mapRef.current?.subtractSelected()) alert('O recorte removeria todo o polígono.');
+  };
+  const handleIntersect = () => {
+    if (!mapRef.current?.intersectSelected()) alert('Os polígonos selecionados não se sobrepõem.');
+  };
+  const handleSplit = () => {
+    if (!mapRef.current?.splitSelectedByLine().length) alert('A linha precisa atravessar o polígono de um lado a outro.');
+  };
+  const handleBuffer = (distance: number, options: BufferOptions & { layer: string }) => {
+    if (mapRef.current?.bufferSelected(distance, options).length) setBufferPanelOpen(false);
+    else if (!selectedIds.length) alert('Selecione as feições em volta das quais criar a faixa.');
+    else if (!(distance > 0)) alert('A distância da faixa precisa ser maior que zero.');
+    else if (options.inward && !selectedPolygonCount) alert('A bordadura só vale para polígonos.');
+    else alert('Nenhuma faixa foi criada para as feições selecionadas.');
+  };
 
   // Inicia o modo de desenho de polígono
   const handleDrawPolygon = () => mapRef.current?.startDrawPolygon?.();
+  // Indica se a edição de vértices está ativa
+  const [isEditingVertices, setIsEditingVertices] = useState(false);
+  // Entra/sai da edição de vértices da feição selecionada
+  const handleToggleEditVertices = () => {
+    if (isEditingVertices) {
+      mapRef.current?.finishEdit();
+      setIsEditingVertices(false);
+      return;
+    }
+    if (mapRef.current?.startEditSelected()) setIsEditingVertices(true);
+    else alert('Selecione um polígono ou uma linha para editar os vértices.');
+  };
+
+  // Esc ou Enter encerram a edição de vértices
+  useEffect(() => {
+    if (!isEditingVertices) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape' && event.key !== 'Enter') return;
+      mapRef.current?.finishEdit();
+      setIsEditingVertices(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isEditingVertices]);
   // Dá zoom in no mapa
   const handleZoomIn = () => mapRef.current?.zoomIn?.();
   // Dá zoom out no mapa
@@ -238,71 +602,153 @@ function App() {
   const [textPickerOpen, setTextPickerOpen] = useState(false);
   const [textInput, setTextInput] = useState('');
 
-  // Exporta o GeoJSON desenhado para um arquivo .geojson baixado pelo usuário
-  // Esta função é chamada ao clicar no botão de exportar
-  const exportGeoJson = () => {
+  // Estado para o menu de exportação (GeoJSON, KML, KMZ, Shapefile)
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  // Sistema de coordenadas do shapefile exportado (EPSG)
+  const [exportCrs, setExportCrs] = useState(sirgas2000.code);
+
+  // Exporta os desenhos no formato escolhido e baixa o arquivo
+  // Esta função é chamada ao clicar em uma opção do menu de exportar
+  const exportDrawings = (format: ExportFormat) => {
     // Obtém os dados desenhados no mapa (FeatureCollection)
-    const data = mapRef.current?.getDrawData?.();
+    // (com área e perímetro nas propriedades, se o usuário pediu)
+    const data = mapRef.current?.getDrawData?.({ includeMetrics: exportMetrics });
+    setExportMenuOpen(false);
     if (!data) return; // Se não houver dados, não faz nada
+    // Feições fora do esquema só saem com a confirmação do usuário
+    if (pendingFeatureCount && !window.confirm(`${pendingFeatureCount} ${pendingFeatureCount === 1 ? 'feição não atende' : 'feições não atendem'} ao esquema de atributos (veja a tabela de atributos). Exportar mesmo assim?`)) return;
 
-    // Converte o objeto GeoJSON para string formatada
-    const jsonString = JSON.stringify(data, null, 2);
-
-    // Cria um Blob (arquivo temporário em memória) com o conteúdo do GeoJSON
-    const blob = new Blob([jsonString], { type: 'application/geo+json' });
+    try {
+      // Gera o arquivo (estilos e texto viram estilo/nome do Placemark no KML, campos do DBF no shapefile) e dispara o download
+      const { blob, fileName } = exportCollection(data, format, { crs: getCrs(exportCrs) });
+      downloadBlob(blob, fileName);
+    } catch (exportError) {
+      console.error(exportError);
+      alert(`Falha ao exportar: ${exportError instanceof Error ? exportError.message : exportError}`);
+    }
+  };
 
-    // Gera uma URL temporária para o Blob
-    const url = URL.createObjectURL(blob);
+  // Folha, orientação e título do PDF para impressão
+  const [printPaper, setPrintPaper] = useState<PaperSize>('A4');
+  const [printOrientation, setPrintOrientation] = useState<PaperOrientation>('landscape');
+  const [printTitle, setPrintTitle] = useState('');
+  // Imagem ou PDF em geração (a captura espera os tiles carregarem)
+  const [printing, setPrinting] = useState(false);
 
-    // Cria um elemento <a> para simular o download
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'desenhos.geojson'; // Nome sugerido para o arquivo
+  // Baixa a vista atual em PNG (com a legenda, se estiver visível), em resolução dobrada
+  const exportMapImage = async () => {
+    if (!mapRef.current) return;
+    setExportMenuOpen(false);
+    setPrinting(true);
+    try {
+      const image = await mapRef.current.exportImage({ dpi: 192, legend: legendVisible ? legendSections : undefined });
+      downloadBlob(image.blob, `${currentProject?.name ?? 'mapa'}.png`);
+    } catch (imageError) {
+      console.error(imageError);
+      alert(`Falha ao gerar a imagem: ${imageError instanceof Error ? imageError.message : imageError}`);
+    } finally {
+      setPrinting(false);
+    }
+  };
 
-    // Dispara o clique no <a> para iniciar o download
-    a.click();
+  // Gera o PDF para impressão: mapa com grade, legenda, escala e norte e a tabela de áreas das feições
+  const exportPrintPdf = async () => {
+    if (!mapRef.current) return;
+    setExportMenuOpen(false);
+    setPrinting(true);
+    try {
+      const layout = { paper: printPaper, orientation: printOrientation };
+      const frame = printMapFrame(layout);
+      const image = await mapRef.current.exportImage({ width: frame.imageWidth, height: frame.imageHeight, dpi: 150, format: 'jpeg' });
+      const pdf = await createPrintPdf({
+        ...layout,
+        title: printTitle.trim() || currentProject?.name || 'Mapa',
+        image,
+        legend: legendSections,
+        features: mapRef.current.getDrawData().features,
+      });
+      downloadBlob(pdf, `${currentProject?.name ?? 'mapa'}.pdf`);
+    } catch (pdfError) {
+      console.error(pdfError);
+      alert(`Falha ao gerar o PDF: ${pdfError instanceof Error ? pdfError.message : pdfError}`);
+    } finally {
+      setPrinting(false);
+    }
+  };
 
-    // Libera a URL temporária da memória
-    URL.revokeObjectURL(url);
+  // Carrega no mapa as feições aceitas de um relatório de importação
+  const loadImportReport = (report: ImportReport) => {
+    // Registra no console o que as correções mudaram (ex.: lat/lng trocados)
+    report.changes.forEach(change => console.info(`[importação] ${report.fileName}: ${change}`));
+    // Carrega no mapa e ajusta o mapa para enquadrar os dados
+    mapRef.current?.loadGeoJson?.(importReportToCollection(report), { fitBounds: true });
+    // Atualiza o estado com o nome do último arquivo importado
+    setLastImportedFile(report.fileName);
   };
 
-  // Importa um arquivo GeoJSON do disco e carrega no mapa
+  // Importa um arquivo GeoJSON (também Feature, geometria solta ou NDJSON), KML, KMZ ou shapefile (.zip)
   // Esta função é chamada quando o usuário seleciona um arquivo no input
   const handleFileUpload: ChangeEventHandler<HTMLInputElement> = async (event) => {
+    // Pega o primeiro arquivo selecionado pelo usuário
+    const file = event.target.files?.[0];
+    if (!file) return; // Se não houver arquivo, não faz nada
     try {
-      // Pega o primeiro arquivo selecionado pelo usuário
-      const file = event.target.files?.[0];
-      if (!file) return; // Se não houver arquivo, não faz nada
-
-      // Lê o conteúdo do arquivo como texto
-      const text = await file.text();
-
-      // Tenta fazer o parse do texto para JSON
-      const json = JSON.parse(text);
-
-      // Valida se o JSON é um FeatureCollection válido (GeoJSON)
-      if (!isFeatureCollection(json)) {
-        // Se não for, lança erro para ser tratado abaixo
-        throw new Error('Arquivo não é um FeatureCollection válido');
-      }
-
-      // Carrega o GeoJSON no mapa e ajusta o mapa para enquadrar os dados
-      mapRef.current?.loadGeoJson?.(json, { fitBounds: true });
-
-      // Atualiza o estado com o nome do último arquivo importado
-      setLastImportedFile(file.name);
+      // Lê o arquivo em WGS84 (o formato é decidido pela extensão) e verifica cada feição
+      const report = await prepareImport(file, { referenceExtent: getCollectionBBox(drawData) ?? undefined });
+      // Sem avisos, carrega direto; senão abre a revisão para aceitar, ignorar ou corrigir
+      if (importNeedsReview(report)) setImportReview({ fileName: file.name, report, error: null });
+      else loadImportReport(report);
     } catch (uploadError) {
-      // Se ocorrer qualquer erro (parse, leitura, validação), mostra no console e alerta o usuário
+      // Arquivo ilegível: mostra o erro no painel de revisão
       console.error(uploadError);
-      alert('Falha ao importar o GeoJSON. Verifique o arquivo.');
+      setImportReview({ fileName: file.name, report: null, error: uploadError instanceof Error ? uploadError.message : String(uploadError) });
+    } finally {
+      // Permite importar o mesmo arquivo de novo
+      event.target.value = '';
     }
   };
 
+  // Troca latitude/longitude do centro inicial (aviso do mapa) e registra no console
+  const handleSwapCenter = ([lng, lat]: [number, number]) => {
+    const zoom = mapRef.current?.getView()?.zoom ?? 17;
+    mapRef.current?.setView({ lng, lat, zoom });
+    console.info(`[mapa] centro inicial trocado de ${centerWarning?.check?.center.join(', ')} para ${lng}, ${lat}`);
+    setCenterWarning(null);
+  };
+
+  // Ações do painel de revisão da importação
+  const handleImportDecision = (decision: ImportDecision, key?: string) => {
+    setImportReview(prev => (prev?.report ? { ...prev, report: setImportDecision(prev.report, decision, key) } : prev));
+  };
+  const handleImportFix = (key?: string) => {
+    setImportReview(prev => (prev?.report ? { ...prev, report: fixImportItems(prev.report, key) } : prev));
+  };
+  const handleImportConfirm = () => {
+    if (importReview?.report) loadImportReport(importReview.report);
+    setImportReview(null);
+  };
+
   // Renderização do componente
   return (
     <>
       <GlobalStyle />
       <AppShell>
+        {attributeTableOpen && (
+          <AttributeTable
+            features={drawData.features}
+            columns={attributeColumns}
+            violations={schemaViolations}
+            selectedIds={selectedIds}
+            onSelect={(ids) => mapRef.current?.selectByIds(ids)}
+            onEdit={(id, key, value) => mapRef.current?.setFeatureAttributes([id], { [key]: value })}
+            onAddColumn={(column) => mapRef.current?.addAttributeColumn(column)}
+            onUpdateColumn={(key, patch) => mapRef.current?.updateAttributeColumn(key, patch)}
+            onRemoveColumn={(key) => mapRef.current?.removeAttributeColumn(key)}
+            onSaveSchema={handleSaveSchema}
+            onLoadSchema={handleLoadSchema}
+            onClose={() => setAttributeTableOpen(false)}
+          />
+        )}
         {/*
           Renderiza o componente do mapa principal (LeafletMap)
           - ref={mapRef}: permite controlar o mapa via métodos expostos (zoom, desenho, etc)
@@ -319,7 +765,10 @@ function App() {
             initialCenter={[-14.886187924998506, -56.93025371958118]}
             initialZoom={17}
             onDrawChange={handleDrawChange}
-            onMapLoad={() => { setMapReady(true); setError(null); }}
+            coordinateFormat={coordinateFormat}
+            snapOptions={snapOptions}
+            onMapLoad={handleMapLoad}
+            onCenterOrderWarning={setCenterWarning}
             onMapError={() => { setMapReady(false); setError('Não foi possível carregar o mapa.'); }}
           />
           {/* Exibe tela de carregamento enquanto o mapa não está pronto */}
@@ -347,17 +796,233 @@ function App() {
                 </IconButton>
               )}
             </ToolGroup>
+            {/* Grupo de botões de desfazer/refazer */}
+            <ToolGroup>
+              <IconButton aria-label="Desfazer" onClick={handleUndo} disabled={!canUndo} title="Desfazer (Ctrl+Z)">
+                <IconUndo />
+              </IconButton>
+              <IconButton aria-label="Refazer" onClick={handleRedo} disabled={!canRedo} title="Refazer (Ctrl+Shift+Z)">
+                <IconRedo />
+              </IconButton>
+            </ToolGroup>
             {/* Botão para desenhar polígono */}
             <ToolGroup>
-              <IconButton aria-label="Desenhar polígono" onClick={handleDrawPolygon} title="Desenhar polígono">
+              <IconButton aria-label="Desenhar polígono" aria-pressed={mapMode === 'draw_polygon'} onClick={handleDrawPolygon} title="Desenhar polígono">
                 <IconPolygon />
               </IconButton>
+              <IconButton aria-label="Desenhar linha" aria-pressed={mapMode === 'draw_line'} onClick={() => mapRef.current?.startDrawLine()} title="Desenhar linha (estradas, cercas)">
+                <IconLine />
+              </IconButton>
+              <IconButton aria-label="Marcar ponto" aria-pressed={mapMode === 'draw_point'} onClick={() => mapRef.current?.startDrawPoint()} title="Marcar ponto (poços, porteiras)">
+                <IconPoint />
+              </IconButton>
+              <IconButton aria-label="Desenhar retângulo" aria-pressed={mapMode === 'draw_rectangle'} onClick={() => mapRef.current?.startDrawRectangle()} title="Desenhar retângulo">
+                <IconRectangle />
+              </IconButton>
+              <IconButton aria-label="Desenhar círculo" aria-pressed={mapMode === 'draw_circle'} onClick={() => mapRef.current?.startDrawCircle()} title="Desenhar círculo (centro e raio, ex.: pivô)">
+                <IconCircle />
+              </IconButton>
+              <IconButton aria-label="Desenhar à mão livre" aria-pressed={mapMode === 'draw_freehand'} onClick={() => mapRef.current?.startDrawFreehand()} title="Desenhar polígono à mão livre (arraste)">
+                <IconFreehand />
+              </IconButton>
+              <IconButton
+                aria-label="Editar vértices"
+                aria-pressed={isEditingVertices}
+                onClick={handleToggleEditVertices}
+                title={isEditingVertices ? 'Concluir edição de vértices (Esc)' : 'Editar vértices do polígono selecionado'}
+              >
+                <IconEditVertices />
+              </IconButton>
             </ToolGroup>
-            {/* Botão para importar GeoJSON */}
+            {/* Operações entre polígonos: o primeiro selecionado recebe o resultado (Shift+clique seleciona vários) */}
             <ToolGroup>
-              <IconButton as="label" aria-label="Importar GeoJSON" title="Importar GeoJSON">
+              <IconButton aria-label="Unir polígonos" onClick={() => mapRef.current?.mergeSelected()} disabled={selectedPolygonCount < 2} title="Unir os polígonos selecionados">
+                <IconMerge />
+              </IconButton>
+              <IconButton aria-label="Recortar polígono" onClick={handleSubtract} disabled={selectedPolygonCount < 2} title="Recortar do primeiro polígono selecionado a área dos demais">
+                <IconSubtract />
+              </IconButton>
+              <IconButton aria-label="Interseção" onClick={handleIntersect} disabled={selectedPolygonCount < 2} title="Manter só a área comum aos polígonos selecionados">
+                <IconIntersect />
+              </IconButton>
+              <IconButton aria-label="Dividir por linha" onClick={handleSplit} disabled={!selectedPolygonCount || !selectedLineCount} title="Dividir os polígonos selecionados pela linha selecionada">
+                <IconSplit />
+              </IconButton>
+            </ToolGroup>
+            {/* Faixa (buffer) em volta das feições selecionadas: APP de rios, bordaduras */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton aria-label="Faixa" onClick={() => setBufferPanelOpen(v => !v)} disabled={!selectedIds.length} title="Criar faixa (buffer) em volta das feições selecionadas">
+                  <IconBuffer />
+                </IconButton>
+                {bufferPanelOpen && selectedIds.length > 0 && (
+                  <BufferPanel
+                    layers={layers}
+                    activeLayer={activeLayer}
+                    hasPolygon={selectedPolygonCount > 0}
+                    onApply={handleBuffer}
+                    onClose={() => setBufferPanelOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            {/* Topologia: sobreposições e vãos entre talhões vizinhos */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton aria-label="Topologia" aria-pressed={topologyPanelOpen} onClick={() => setTopologyPanelOpen(v => !v)} title="Conferir sobreposições e vãos entre polígonos">
+                  <IconTopology />
+                </IconButton>
+                {topologyPanelOpen && (
+                  <TopologyPanel
+                    report={topologyReport}
+                    sliverAreaM2={sliverAreaM2}
+                    onSliverAreaChange={setSliverAreaM2}
+                    onSelectOverlap={handleSelectOverlap}
+                    onSelectGap={handleSelectGap}
+                    onFix={handleFixTopology}
+                    onClose={() => setTopologyPanelOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            {/* Botão de projetos salvos (abrir, renomear, duplicar, excluir) */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton
+                  aria-label="Projetos"
+                  title={currentProject ? `Projeto: ${currentProject.name}` : 'Projetos'}
+                  onClick={() => setProjectPickerOpen(v => !v)}
+                >
+                  <IconFolder />
+                </IconButton>
+                {projectPickerOpen && (
+                  <ProjectPicker
+                    projects={projectState.projects}
+                    currentId={projectState.currentId}
+                    onOpen={(id) => { getProjectSession().open(id).catch(console.error); setProjectPickerOpen(false); }}
+                    onCreate={(name) => { getProjectSession().create(name).catch(console.error); setProjectPickerOpen(false); }}
+                    onRename={(id, name) => { getProjectSession().rename(id, name).catch(console.error); }}
+                    onDuplicate={(id) => { getProjectSession().duplicate(id).catch(console.error); }}
+                    onDelete={(id) => { getProjectSession().remove(id).catch(console.error); }}
+                    onClose={() => setProjectPickerOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            {/* Botão de camadas (visibilidade, opacidade, ordem, trava e estilo) */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton
+                  aria-label="Camadas"
+                  title={activeLayer ? `Camadas (ativa: ${activeLayer})` : 'Camadas'}
+                  onClick={() => setLayersPanelOpen(v => !v)}
+                >
+                  <IconLayers />
+                </IconButton>
+                {layersPanelOpen && (
+                  <LayersPanel
+                    layers={layers}
+                    activeLayer={activeLayer}
+                    featureCounts={layerFeatureCounts}
+                    hasSelection={selectedIds.length > 0}
+                    onSetActive={(name) => mapRef.current?.setActiveLayer(name)}
+                    onUpdate={(name, patch) => mapRef.current?.updateLayer(name, patch)}
+                    onMove={(name, index) => mapRef.current?.moveLayer(name, index)}
+                    onAdd={(name) => { const added = mapRef.current?.addLayer(name); if (added) mapRef.current?.setActiveLayer(added); }}
+                    onRemove={handleRemoveLayer}
+                    onApplyStyle={(name) => mapRef.current?.applyLayerStyle(name)}
+                    onMoveSelection={(name) => mapRef.current?.moveSelectedToLayer(name)}
+                    onClose={() => setLayersPanelOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            {/* Tabela de atributos encaixada ao lado do mapa */}
+            <ToolGroup>
+              <IconButton
+                aria-label="Tabela de atributos"
+                aria-pressed={attributeTableOpen}
+                title={attributeTableOpen ? 'Fechar tabela de atributos' : 'Tabela de atributos'}
+                onClick={() => setAttributeTableOpen(v => !v)}
+              >
+                <IconTable />
+              </IconButton>
+            </ToolGroup>
+            {/* Mostra/oculta a legenda, a escala e o norte */}
+            <ToolGroup>
+              <IconButton
+                aria-label="Legenda"
+                aria-pressed={legendVisible}
+                title={legendVisible ? 'Ocultar legenda, escala e norte' : 'Mostrar legenda, escala e norte'}
+                onClick={() => setLegendVisible(v => !v)}
+              >
+                <IconLegend />
+              </IconButton>
+            </ToolGroup>
+            {/* Estilo temático: cores pelo valor de um atributo */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton
+                  aria-label="Estilo temático"
+                  aria-pressed={!!thematic}
+                  title={thematic ? `Estilo temático: ${thematic.attribute}` : 'Estilo temático'}
+                  onClick={() => setThematicPanelOpen(v => !v)}
+                >
+                  <IconPalette />
+                </IconButton>
+                {thematicPanelOpen && (
+                  <ThematicPanel
+                    style={thematic}
+                    columns={attributeColumns}
+                    features={drawData.features}
+                    onApply={(style) => mapRef.current?.setThematicStyle(style)}
+                    onClose={() => setThematicPanelOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            {/* Medição de distância e área (não cria desenhos) */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton
+                  aria-label="Medir"
+                  aria-pressed={!!measurement}
+                  title="Medir distância ou área"
+                  onClick={() => setMeasurePanelOpen(v => !v)}
+                >
+                  <IconRuler />
+                </IconButton>
+                {measurePanelOpen && (
+                  <MeasurePanel
+                    measurement={measurement}
+                    onStart={(kind) => mapRef.current?.startMeasure(kind)}
+                    onClear={() => mapRef.current?.clearMeasure()}
+                    onClose={() => setMeasurePanelOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            {/* Snap nos vértices, pontos médios e arestas ao desenhar e editar */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton
+                  aria-label="Snap"
+                  aria-pressed={snapOptions.enabled}
+                  title={snapOptions.enabled ? `Snap ligado (${snapOptions.tolerance} px)` : 'Snap desligado'}
+                  onClick={() => setSnapPanelOpen(v => !v)}
+                >
+                  <IconMagnet />
+                </IconButton>
+                {snapPanelOpen && (
+                  <SnapPanel options={snapOptions} onChange={setSnapOptions} onClose={() => setSnapPanelOpen(false)} />
+                )}
+              </div>
+            </ToolGroup>
+            {/* Botão para importar GeoJSON, KML, KMZ ou shapefile */}
+            <ToolGroup>
+              <IconButton as="label" aria-label="Importar arquivo" title="Importar GeoJSON, KML, KMZ ou shapefile (.zip)">
                 <IconImport />
-                <input type="file" accept=".json,.geojson,application/geo+json" onChange={handleFileUpload} style={{ display: 'none' }} />
+                <input type="file" accept={importAccept} onChange={handleFileUpload} style={{ display: 'none' }} />
               </IconButton>
             </ToolGroup>
             {/* Grupo: Cor, Borda, Texto */}
@@ -480,11 +1145,85 @@ function App() {
                 )}
               </div>
             </ToolGroup>
-            {/* Botão para exportar GeoJSON */}
+            {/* Botão para exportar (abre o menu de formatos) */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton aria-label="Exportar" onClick={() => setExportMenuOpen(v => !v)} title="Exportar desenhos">
+                  <IconExport />
+                </IconButton>
+                {exportMenuOpen && (
+                  <div style={{
+                    position: 'absolute',
+                    right: 0,
+                    top: '110%',
+                    background: '#fff',
+                    border: '1.5px solid #e2e8f0',
+                    padding: 6,
+                    borderRadius: 10,
+                    boxShadow: '0 6px 24px rgba(15,23,42,0.18)',
+                    zIndex: 10001,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 4,
+                    minWidth: 160,
+                  }}>
+                    {(Object.keys(exportFormatLabels) as ExportFormat[]).map(format => (
+                      <button key={format} onClick={() => exportDrawings(format)} style={{ padding: '6px 10px', textAlign: 'left', background: 'transparent', border: 'none', borderRadius: 6, cursor: 'pointer', color: '#1e293b' }}>
+                        {exportFormatLabels[format]}
+                      </button>
+                    ))}
+                    <label style={{ display: 'flex', flexDirection: 'column', gap: 4, padding: '6px 10px 2px', fontSize: 12, color: '#475569', borderTop: '1px solid #e2e8f0' }}>
+                      SRC do shapefile
+                      <select value={exportCrs} onChange={(e) => setExportCrs(e.target.value)} style={{ padding: 4, borderRadius: 6, border: '1px solid #cbd5e1' }}>
+                        {supportedCrs.map(crs => (
+                          <option key={crs.code} value={crs.code}>{crs.name} ({crs.code})</option>
+                        ))}
+                      </select>
+                    </label>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: 4, padding: '6px 0 0', borderTop: '1px solid #e2e8f0' }}>
+                      <button disabled={printing} onClick={exportMapImage} style={{ padding: '6px 10px', textAlign: 'left', background: 'transparent', border: 'none', borderRadius: 6, cursor: 'pointer', color: '#1e293b' }}>
+                        Imagem PNG
+                      </button>
+                      <div style={{ display: 'flex', flexDirection: 'column', gap: 4, padding: '2px 10px', fontSize: 12, color: '#475569' }}>
+                        PDF para impressão
+                        <input
+                          placeholder={currentProject?.name ?? 'Título'}
+                          value={printTitle}
+                          onChange={(e) => setPrintTitle(e.target.value)}
+                          style={{ padding: 4, borderRadius: 6, border: '1px solid #cbd5e1' }}
+                        />
+                        <div style={{ display: 'flex', gap: 4 }}>
+                          <select aria-label="Folha" value={printPaper} onChange={(e) => setPrintPaper(e.target.value as PaperSize)} style={{ padding: 4, borderRadius: 6, border: '1px solid #cbd5e1' }}>
+                            {(Object.keys(pdfPaperSizes) as PaperSize[]).map(paper => <option key={paper} value={paper}>{paper}</option>)}
+                          </select>
+                          <select aria-label="Orientação" value={printOrientation} onChange={(e) => setPrintOrientation(e.target.value as PaperOrientation)} style={{ flex: 1, padding: 4, borderRadius: 6, border: '1px solid #cbd5e1' }}>
+                            {(Object.keys(paperOrientationLabels) as PaperOrientation[]).map(orientation => (
+                              <option key={orientation} value={orientation}>{paperOrientationLabels[orientation]}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <button disabled={printing} onClick={exportPrintPdf} style={{ padding: '6px 10px', background: '#0ea5e9', color: '#fff', border: 'none', borderRadius: 6, cursor: 'pointer' }}>
+                          {printing ? 'Gerando…' : 'Gerar PDF'}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </ToolGroup>
+            {/* Formato dos rótulos de coordenadas (decimal, DMS, DDM, UTM) */}
             <ToolGroup>
-              <IconButton aria-label="Exportar GeoJSON" onClick={exportGeoJson} title="Exportar GeoJSON">
-                <IconExport />
-              </IconButton>
+              <select
+                aria-label="Formato das coordenadas"
+                title="Formato das coordenadas dos vértices"
+                value={coordinateFormat}
+                onChange={(e) => setCoordinateFormat(e.target.value as CoordinateFormat)}
+                style={{ padding: '6px 8px', borderRadius: 8, border: '1px solid #e2e8f0', background: '#fff', color: '#1e293b', fontSize: 12, boxShadow: '0 2px 8px rgba(15,23,42,0.12)' }}
+              >
+                {(Object.keys(coordinateFormatLabels) as CoordinateFormat[]).map(format => (
+                  <option key={format} value={format}>{coordinateFormatLabels[format]}</option>
+                ))}
+              </select>
             </ToolGroup>
             {/* Botão para limpar polígonos */}
             <ToolGroup>
@@ -492,13 +1231,51 @@ function App() {
                 <IconTrash />
               </IconButton>
             </ToolGroup>
-            {/* Exibe informações do último arquivo importado e contagem de polígonos */}
-            {lastImportedFile && (
+            {/* Exibe informações do último arquivo importado, contagem de polígonos e totais de área/perímetro */}
+            {(lastImportedFile || polygonCount > 0) && (
               <InfoChip>
-                Arquivo: {lastImportedFile} | Polígonos: <strong>{polygonCount}</strong>
+                {currentProject && <>Projeto: <strong>{currentProject.name}</strong> | </>}
+                {lastImportedFile && <>Arquivo: {lastImportedFile} | </>}Polígonos: <strong>{polygonCount}</strong>
+                {' '}| Área: <strong>{formatArea(totals.areaM2)}</strong> ({totals.areaAlqueires.toLocaleString('pt-BR', { maximumFractionDigits: 2 })} alq.)
+                {' '}| Perímetro: <strong>{formatLength(totals.perimeterM)}</strong>
+                {pendingFeatureCount > 0 && (
+                  <>{' '}| <button onClick={() => setAttributeTableOpen(true)} style={{ color: '#b91c1c', background: 'none', border: 'none', padding: 0, cursor: 'pointer', font: 'inherit' }}>Pendências de atributos: <strong>{pendingFeatureCount}</strong></button></>
+                )}
+                <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 4 }}>
+                  <input type="checkbox" checked={exportMetrics} onChange={(e) => setExportMetrics(e.target.checked)} />
+                  Incluir área e perímetro na exportação
+                </label>
               </InfoChip>
             )}
+            {geometryIssues.length > 0 && (
+              <GeometryIssuesPanel
+                issues={geometryIssues}
+                onSelect={handleSelectIssue}
+                onRepair={handleRepairGeometry}
+                onDismiss={handleDismissIssues}
+              />
+            )}
+            {centerWarning && (
+              <CenterOrderNotice resolved={centerWarning} onSwap={handleSwapCenter} onDismiss={() => setCenterWarning(null)} />
+            )}
+            {importReview && (
+              <ImportReviewPanel
+                fileName={importReview.fileName}
+                report={importReview.report}
+                error={importReview.error}
+                onDecide={handleImportDecision}
+                onFix={handleImportFix}
+                onConfirm={handleImportConfirm}
+                onCancel={() => setImportReview(null)}
+              />
+            )}
           </Toolbar>
+          {/* Legenda, barra de escala e norte (canto inferior esquerdo) */}
+          {legendVisible && mapReady && (
+            <LegendChip>
+              <MapLegend sections={legendSections} scale={mapScale && scaleBar(mapScale.metersPerPixel)} bearing={mapScale?.bearing ?? 0} />
+            </LegendChip>
+          )}
         </MapWrapper>
       </AppShell>
     </>
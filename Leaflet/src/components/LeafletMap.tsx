@@ -4,73 +4,140 @@ import { forwardRef, useEffect, useImperativeHandle, useRef, type Ref } from 're
 // Biblioteca principal do Leaflet
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+// Handlers de desenho (L.Draw.*, tipos em @types/leaflet-draw)
 import 'leaflet-draw';
 import 'leaflet-draw/dist/leaflet.draw.css';
-// Import leaflet-draw types if available, or declare minimal types for L.Draw
-// @ts-ignore
-import 'leaflet-draw'; // Ensures side effects are loaded
-
-// Extend Leaflet namespace for Draw if types are missing
-declare global {
-  namespace L {
-    // eslint-disable-next-line @typescript-eslint/no-namespace
-    namespace Draw {
-      class Polygon {
-        constructor(map: L.Map, options?: any);
-        enable(): void;
-        disable(): void;
-      }
-    }
-  }
-}
+// Snap nos desenhos e na edição de vértices do leaflet-draw
+import { snapDrawHandler, snapVertexEditing } from '../leaflet/snapHandlers';
 // Estilização
 import styled from 'styled-components';
 // Tipo para coleções GeoJSON
-import type { FeatureCollection } from 'geojson';
+import type { Feature, FeatureCollection, GeoJsonProperties, Position } from 'geojson';
+// Núcleo compartilhado do editor (feições, seleção e estilos)
+import {
+  auditTopology,
+  canvasToBlob,
+  circleFeature,
+  collectionVertices,
+  computeFeatureMetrics,
+  createCoordinateFormatter,
+  createMapEditor,
+  createMeasureTool,
+  createSnapper,
+  drawBoxedText,
+  drawFeatures,
+  drawMapOverlay,
+  drawMarker,
+  drawTextLabels,
+  extractVertexEntries,
+  getLabelPoint,
+  layerOpacity,
+  loadImage,
+  repairFeatures,
+  resolveTopology,
+  resolveCenterOrder,
+  scaleBar,
+  simplifyPath,
+  snapToVertex,
+  thematicColor,
+  topologyToCollection,
+  validateCollection,
+  type CoordinateFormat,
+  type CoordinateFormatOptions,
+  type EditorFeature,
+  type GeometryIssue,
+  type ImageExportOptions,
+  type MapImage,
+  type MapEditor,
+  type MapEditorHandle,
+  type MapLayer,
+  type MapMode,
+  type MeasureTool,
+  type ResolvedCenter,
+  type TopologyReport,
+  type SnapOptions,
+  type SnapProjection,
+  type SnapResult,
+  type Snapper,
+  type ThematicStyle,
+  withCollectionMetrics,
+} from 'map-editor-core';
 
 
 // Métodos expostos para manipulação externa do mapa
-export type LeafletMapHandle = {
-  flyTo: (options: { lng: number; lat: number; zoom?: number }) => void; // Move o mapa para uma coordenada
-  getDrawData: () => FeatureCollection; // Retorna os dados desenhados (GeoJSON)
-  loadGeoJson: (collection: FeatureCollection, options?: { fitBounds?: boolean }) => void; // Carrega GeoJSON no mapa
-  clearDrawings: () => void; // Limpa todos os desenhos
-  startDrawPolygon: () => void; // Inicia modo de desenho de polígono
-  zoomIn: () => void; // Dá zoom in
-  zoomOut: () => void; // Dá zoom out
-  fitToDrawings: () => void; // Ajusta o mapa para caber os desenhos
-  deleteSelected: () => void; // Remove o desenho selecionado
-  // Novos métodos para parity com Mapbox implementation
-  changeSelectedFill?: (color: string, opacity?: number) => void;
-  changeSelectedStroke?: (color: string, width?: number) => void;
-  applyFillToAll?: (color: string, opacity?: number) => void;
-  applyStrokeToAll?: (color: string, width?: number) => void;
-  addTextToSelected?: (text: string) => void;
-  removeTextFromSelected?: () => void;
+export type LeafletMapHandle = MapEditorHandle & {
+  /**
+   * Entra na edição de vértices da feição selecionada (polígono ou linha): arrastar move o vértice,
+   * arrastar o ponto do meio de um lado cria um vértice e clicar em um vértice o remove.
+   * Retorna false se não há seleção editável.
+   */
+  startEditSelected: () => boolean;
+  /** Sai da edição de vértices (as alterações já foram gravadas a cada vértice movido) */
+  finishEdit: () => void;
+};
+
+// Camada com o editor de vértices do leaflet-draw (L.Edit.Poly)
+type EditablePath = L.Path & {
+  editing?: L.Edit.Poly;
+  toGeoJSON: () => Feature;
 };
 
 
 // Propriedades aceitas pelo componente LeafletMap
 export type LeafletMapProps = {
-  initialCenter?: [number, number]; // Centro inicial do mapa
+  initialCenter?: [number, number]; // Centro inicial do mapa [latitude, longitude]
   initialZoom?: number; // Zoom inicial
   initialData?: FeatureCollection; // Dados GeoJSON iniciais
   onDrawChange?: (collection: FeatureCollection) => void; // Callback ao desenhar
   onMapLoad?: () => void; // Callback ao carregar o mapa
   onMapError?: (error: Error) => void; // Callback em erro
+  historyDepth?: number; // Quantos passos podem ser desfeitos (padrão 100)
+  coordinateFormat?: CoordinateFormat; // Modo dos rótulos de vértices: decimal (padrão), DMS, DDM ou UTM
+  coordinatePrecision?: number; // Casas decimais dos rótulos de vértices (padrão depende do modo)
+  utmZone?: number; // Fuso UTM fixo (sem ele o fuso é detectado automaticamente)
+  onCenterOrderWarning?: (resolved: ResolvedCenter) => void; // Centro inicial parece ter lat/lng trocados (inválido é trocado automaticamente)
+  snapOptions?: Partial<SnapOptions>; // Snap ao desenhar e editar: tolerância (px) e alvos; Alt desliga por um momento
 };
 
 
-// Centro e zoom padrão (Brasília)
-const defaultCenter: [number, number] = [-47.8825, -15.7942];
+// Centro ([latitude, longitude]) e zoom padrão (Brasília)
+const defaultCenter: [number, number] = [-15.7942, -47.8825];
 const defaultZoom = 12;
-// FeatureCollection vazio
-const emptyCollection: FeatureCollection = { type: 'FeatureCollection', features: [] };
+// Cor padrão dos desenhos (mesma do leaflet-draw)
+const defaultDrawColor = '#3bb2d0';
+// Estilo das formas enquanto são desenhadas no leaflet-draw
+const drawShapeOptions = { color: defaultDrawColor, weight: 2, fillOpacity: 0.4, fillColor: defaultDrawColor };
+// Cor da linha/polígono temporário da medição
+const measureColor = '#f59e0b';
+// Cor do indicador do snap
+const snapColor = '#ec4899';
+// Estilo gravado nos polígonos recém-desenhados
+const defaultFeatureStyle = { fillColor: defaultDrawColor, fillOpacity: 0.4, strokeColor: defaultDrawColor, strokeWidth: 2 };
+// Destaque da camada selecionada
+const selectedStyle: L.PathOptions = { color: '#2563eb', weight: 3 };
+// Geometrias que o leaflet-draw sabe editar (só o anel externo dos polígonos)
+const editableGeometryTypes = ['Polygon', 'LineString'];
+
+
+// Converte as propriedades de estilo de uma feição em opções de estilo do Leaflet
+function getFeatureStyle(props: GeoJsonProperties, opacity = 1, thematic: ThematicStyle | null = null): L.PathOptions {
+  const p = props || {};
+  // Com regra temática o preenchimento vem do atributo, não de fillColor
+  const fillColor = thematic ? thematicColor(thematic, p[thematic.attribute]) : p.fillColor || defaultDrawColor;
+  return {
+    color: p.strokeColor || defaultDrawColor,
+    weight: p.strokeWidth || 2,
+    // A opacidade da camada do usuário multiplica a da feição
+    opacity,
+    fillOpacity: (typeof p.fillOpacity === 'number' ? p.fillOpacity : 0.4) * opacity,
+    fillColor
+  };
+}
 
 
 // Componente principal do mapa Leaflet
 const LeafletMap = forwardRef(function LeafletMap(
-  { initialCenter, initialZoom, initialData, onDrawChange, onMapLoad, onMapError }: LeafletMapProps,
+  { initialCenter, initialZoom, initialData, onDrawChange, onMapLoad, onMapError, historyDepth, coordinateFormat, coordinatePrecision, utmZone, onCenterOrderWarning, snapOptions }: LeafletMapProps,
   ref: Ref<LeafletMapHandle>
 ) {
   // Referência para o container do mapa
@@ -82,126 +149,500 @@ const LeafletMap = forwardRef(function LeafletMap(
   // Camadas para rótulos de vértices e rótulos de texto central
   const coordLabelsRef: React.MutableRefObject<L.LayerGroup<any> | null> = useRef<L.LayerGroup<any> | null>(null);
   const textLabelsRef: React.MutableRefObject<L.LayerGroup<any> | null> = useRef<L.LayerGroup<any> | null>(null);
-  // Camada selecionada
-  const selectedLayerRef = useRef<L.Layer | null>(null);
+  // Camada com o destaque dos problemas de geometria
+  const issuesLayerRef = useRef<L.LayerGroup | null>(null);
+  // Destaque da topologia (sobreposições e vãos)
+  const topologyLayerRef = useRef<L.LayerGroup | null>(null);
+  // Camada do Leaflet de cada feição, indexada pelo id da feição
+  const layersByIdRef = useRef<Map<string, L.Path>>(new Map());
+  // Feição em edição de vértices (continua em edição quando as camadas são recriadas, ex.: desfazer)
+  const editingIdRef = useRef<string | null>(null);
+  // Modo de interação atual (avisado no evento 'modechange')
+  const modeRef = useRef<MapMode>('select');
+  // Camadas do usuário (opacidade de cada uma)
+  const layersRef = useRef<MapLayer[]>([]);
+  // Regra temática do preenchimento (null: cor de cada feição)
+  const thematicRef = useRef<ThematicStyle | null>(null);
+  // Última coleção desenhada (camadas visíveis, na ordem de desenho), usada na captura da imagem
+  const renderedRef = useRef<FeatureCollection>({ type: 'FeatureCollection', features: [] });
+  // Fundo em tiles (modelo do endereço e camada) e marcadores fixos, redesenhados na captura da imagem
+  const tileSourceRef = useRef<{ url: string; layer: L.TileLayer } | null>(null);
+  const markersRef = useRef<{ lngLat: [number, number]; label?: string }[]>([]);
+  // Desenho do leaflet-draw em andamento (desligado ao trocar de modo) e traço à mão livre
+  const drawHandlerRef = useRef<{ disable: () => void } | null>(null);
+  const freehandRef = useRef<{ points: [number, number][]; line: L.Polyline | null } | null>(null);
+  // Medição em andamento (fora do editor) e a camada que a desenha
+  const measureRef = useRef<MeasureTool | null>(null);
+  const measureLayerRef = useRef<L.FeatureGroup | null>(null);
+  // Vértices candidatos do snap da medição, recalculados quando a coleção desenhada muda
+  const snapCacheRef = useRef<{ collection: FeatureCollection; vertices: Position[] } | null>(null);
+  // Snap do desenho e da edição de vértices, sua configuração (prop snapOptions) e o indicador no mapa
+  const snapperRef = useRef<Snapper | null>(null);
+  const snapOptionsRef = useRef<Partial<SnapOptions>>(snapOptions ?? {});
+  const snapMarkerRef = useRef<L.CircleMarker | null>(null);
+  // Núcleo do editor (dono das feições, seleção e estilos)
+  const editorRef = useRef<MapEditor | null>(null);
   // Dados iniciais
   const initialDataRef = useRef<FeatureCollection | undefined>(initialData);
   // Callback de mudança de desenho
   const onDrawChangeRef = useRef(onDrawChange);
-  // Centro inicial
-  const initialCenterRef = useRef<[number, number]>(initialCenter ?? defaultCenter);
+  // Centro inicial conferido quanto à ordem lat/lng (resposta em [lng, lat])
+  const resolvedCenterRef = useRef<ResolvedCenter>(resolveCenterOrder(initialCenter ?? defaultCenter, 'latlng'));
+  // Centro inicial ([latitude, longitude], como o Leaflet espera)
+  const initialCenterRef = useRef<[number, number]>([resolvedCenterRef.current.lngLat[1], resolvedCenterRef.current.lngLat[0]]);
+  // Aviso de lat/lng trocados no centro inicial
+  const onCenterOrderWarningRef = useRef(onCenterOrderWarning);
   // Zoom inicial
   const initialZoomRef = useRef<number>(initialZoom ?? defaultZoom);
+  // Opções atuais dos rótulos de vértices (lidas a cada redesenho)
+  const coordinateFormatRef = useRef<CoordinateFormatOptions>({ format: coordinateFormat, precision: coordinatePrecision, utmZone });
 
-  // Função auxiliar: adiciona GeoJSON ao mapa
-  function addGeoJsonToMap(geojson: FeatureCollection, fitBounds = true) {
-    if (!mapRef.current || !drawnItemsRef.current) return;
-    // limpa camadas desenhadas e labels
+  // Retorna o editor, criando-o na primeira chamada com o adaptador do Leaflet
+  function getEditor(): MapEditor {
+    if (!editorRef.current) {
+      editorRef.current = createMapEditor({
+        defaultStyle: defaultFeatureStyle,
+        historyDepth,
+        onChange: (collection) => onDrawChangeRef.current?.(collection),
+        adapter: {
+          setFeatures: renderFeatures,
+          renderDecorations: (collection) => {
+            renderedRef.current = collection;
+            upsertCoordinateLabels(collection);
+            upsertTextLabels(collection);
+            // As feições recriadas ficam por cima; a medição volta para o topo
+            measureLayerRef.current?.bringToFront();
+          },
+          setSelection: highlightSelection,
+          setLayers: (layers) => {
+            layersRef.current = layers;
+          },
+          setThematicStyle: (style) => {
+            thematicRef.current = style;
+            // Reaplica o estilo nas camadas já desenhadas (a regra não recria as feições)
+            highlightSelection(editorRef.current?.getSelectedIds() ?? []);
+          },
+        },
+      });
+    }
+    return editorRef.current;
+  }
+
+  // Retorna a ferramenta de medição: desenha na camada própria e avisa em 'measurechange', sem passar pelo editor
+  function getMeasureTool(): MeasureTool {
+    if (!measureRef.current) {
+      measureRef.current = createMeasureTool({
+        render: renderMeasure,
+        onChange: (measurement) => getEditor().events.emit('measurechange', { measurement }),
+      });
+    }
+    return measureRef.current;
+  }
+
+  // Desenha a medição: linha ou polígono tracejado, vértices e rótulos de cada trecho (e da área)
+  function renderMeasure(collection: FeatureCollection) {
+    if (!mapRef.current) return;
+    measureLayerRef.current = measureLayerRef.current || L.featureGroup().addTo(mapRef.current);
+    measureLayerRef.current.clearLayers();
+    L.geoJSON(collection, {
+      interactive: false,
+      style: () => ({ color: measureColor, weight: 2, dashArray: '6 4', fillColor: measureColor, fillOpacity: 0.12 }),
+      pointToLayer: (feature, latlng) => {
+        if (feature.properties?.measure === 'label') {
+          const weight = feature.properties.total ? 700 : 500;
+          return L.marker(latlng, {
+            interactive: false,
+            icon: L.divIcon({ className: 'measure-label', iconSize: undefined, html: `<div style="transform:translate(-50%,-50%);white-space:nowrap;font-size:11px;font-weight:${weight};padding:2px 6px;background:#fff;border:1px solid ${measureColor};border-radius:4px;">${feature.properties.label}</div>` }),
+          });
+        }
+        return L.circleMarker(latlng, { interactive: false, radius: 4, color: measureColor, weight: 2, fillColor: '#fff', fillOpacity: 1 });
+      },
+    }).addTo(measureLayerRef.current);
+  }
+
+  // Posição do mouse na medição, grudada no vértice mais próximo (feições visíveis e vértices já medidos)
+  function snapMeasurePosition(latlng: L.LatLng): Position {
+    const map = mapRef.current;
+    const position: Position = [latlng.lng, latlng.lat];
+    if (!map) return position;
+    if (snapCacheRef.current?.collection !== renderedRef.current) {
+      snapCacheRef.current = { collection: renderedRef.current, vertices: collectionVertices(renderedRef.current) };
+    }
+    const project = (p: Position): [number, number] => {
+      const point = map.latLngToContainerPoint([p[1], p[0]]);
+      return [point.x, point.y];
+    };
+    const candidates = [...getMeasureTool().getPoints(), ...snapCacheRef.current.vertices];
+    return snapToVertex(project(position), candidates, project) ?? position;
+  }
+
+  // Retorna o snap do desenho, criando-o na primeira chamada com o indicador do Leaflet
+  function getSnapper(): Snapper {
+    if (!snapperRef.current) {
+      snapperRef.current = createSnapper({ render: renderSnapIndicator });
+      snapperRef.current.setOptions(snapOptionsRef.current);
+    }
+    return snapperRef.current;
+  }
+
+  // Indicador do snap: anel no ponto grudado (cheio no vértice, vazado no ponto médio e na aresta)
+  function renderSnapIndicator(result: SnapResult | null) {
+    const map = mapRef.current;
+    if (!result || !map) {
+      snapMarkerRef.current?.remove();
+      snapMarkerRef.current = null;
+      return;
+    }
+    const latlng = L.latLng(result.position[1], result.position[0]);
+    const style = { fillOpacity: result.kind === 'vertex' ? 0.6 : 0 };
+    if (snapMarkerRef.current) {
+      snapMarkerRef.current.setLatLng(latlng).setStyle(style);
+    } else {
+      snapMarkerRef.current = L.circleMarker(latlng, { radius: 7, color: snapColor, weight: 2, fillColor: snapColor, interactive: false, ...style }).addTo(map);
+    }
+  }
+
+  // Posição grudada para os handlers do leaflet-draw (Alt pressionado desliga o snap); a feição em edição não é alvo
+  function snapLatLng(latlng: L.LatLng, originalEvent?: Event): L.LatLng | null {
+    const map = mapRef.current;
+    if (!map) return null;
+    const snapper = getSnapper();
+    snapper.setCollection(renderedRef.current);
+    const projection: SnapProjection = {
+      project: (p) => {
+        const point = map.latLngToContainerPoint([p[1], p[0]]);
+        return [point.x, point.y];
+      },
+      unproject: ([x, y]) => {
+        const position = map.containerPointToLatLng([x, y]);
+        return [position.lng, position.lat];
+      },
+    };
+    const point = map.latLngToContainerPoint(latlng);
+    const suspended = Boolean((originalEvent as MouseEvent | undefined)?.altKey);
+    const result = snapper.snap([point.x, point.y], projection, { excludeId: editingIdRef.current, suspended });
+    return result ? L.latLng(result.position[1], result.position[0]) : null;
+  }
+
+  // Sai do modo de medição (o resultado continua no mapa até clearMeasure)
+  function stopMeasuring() {
+    const map = mapRef.current;
+    if (map) {
+      map.getContainer().style.cursor = '';
+      // Reativado depois do duplo clique que encerrou a medição, para ele não dar zoom
+      window.setTimeout(() => map.doubleClickZoom.enable(), 0);
+    }
+    if (modeRef.current === 'measure') setMode('select');
+  }
+
+  // Liga um modo de desenho do leaflet-draw, encerrando o desenho, a edição ou a medição anteriores
+  function startDrawHandler(create: (map: L.DrawMap) => L.Draw.Feature, mode: MapMode) {
+    const map = mapRef.current;
+    if (!map) return;
+    stopDrawing();
+    disableVertexEditing();
+    if (modeRef.current === 'measure') {
+      getMeasureTool().finish();
+      stopMeasuring();
+    }
+    // L.DrawMap só acrescenta a L.Map membros estáticos (declarados como de instância nos tipos)
+    const handler = create(map as L.DrawMap);
+    snapDrawHandler(handler, { snap: snapLatLng });
+    handler.enable();
+    drawHandlerRef.current = handler;
+    setMode(mode);
+  }
+
+  // Desliga o desenho em andamento (leaflet-draw ou mão livre) sem criar feição
+  function stopDrawing() {
+    const handler = drawHandlerRef.current;
+    drawHandlerRef.current = null;
+    handler?.disable();
+    if (freehandRef.current) finishFreehand(false);
+  }
+
+  // Mão livre: arrastar com o botão pressionado desenha o traço; ao soltar vira polígono
+  function startFreehand() {
+    const map = mapRef.current;
+    if (!map) return;
+    stopDrawing();
+    disableVertexEditing();
+    map.dragging.disable();
+    map.getContainer().style.cursor = 'crosshair';
+    freehandRef.current = { points: [], line: null };
+    setMode('draw_freehand');
+  }
+
+  // Encerra a mão livre; com `create`, o traço simplificado (em px) vira polígono no editor
+  function finishFreehand(create: boolean) {
+    const map = mapRef.current;
+    const freehand = freehandRef.current;
+    freehandRef.current = null;
+    if (!map || !freehand) return;
+    freehand.line?.remove();
+    map.dragging.enable();
+    map.getContainer().style.cursor = '';
+    const points = simplifyPath(freehand.points);
+    if (create && points.length >= 3) {
+      const ring = points.map(([x, y]) => {
+        const latlng = map.containerPointToLatLng([x, y]);
+        return [latlng.lng, latlng.lat];
+      });
+      ring.push(ring[0]);
+      getEditor().addFeatures([{ type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [ring] } }], { fromRenderer: true });
+    }
+    if (modeRef.current === 'draw_freehand') setMode('select');
+  }
+
+  // Atualiza o modo de interação e emite 'modechange' quando ele muda
+  function setMode(mode: MapMode) {
+    const previousMode = modeRef.current;
+    if (mode === previousMode) return;
+    modeRef.current = mode;
+    snapperRef.current?.clear();
+    getEditor().events.emit('modechange', { mode, previousMode });
+  }
+
+  // Adaptador: recria as camadas desenhadas a partir da coleção do editor
+  function renderFeatures(collection: FeatureCollection) {
+    if (!drawnItemsRef.current) return;
     drawnItemsRef.current.clearLayers();
-    coordLabelsRef.current?.clearLayers();
-    textLabelsRef.current?.clearLayers();
+    layersByIdRef.current.clear();
 
     // Cria camada GeoJSON aplicando estilos a partir das propriedades (se existirem)
-    const geoLayer = L.geoJSON(geojson, {
-      onEachFeature: (feature: any, layer: any) => {
-        // Preserve feature properties on the Leaflet layer for later export
-        if (!layer.feature) layer.feature = feature;
-
-        layer.on('click', () => {
-          selectedLayerRef.current = layer;
-          // Destaca camada selecionada
-          if ((layer as L.Path).setStyle) {
-            (layer as L.Path).setStyle({ color: '#2563eb', weight: 3 });
-          }
+    const geoLayer = L.geoJSON(collection, {
+      onEachFeature: (feature, layer) => {
+        const id = String(feature.id);
+        layersByIdRef.current.set(id, layer as L.Path);
+        // Clique seleciona a feição no editor; com Shift, adiciona ou tira da seleção (como no Mapbox)
+        layer.on('click', (e: L.LeafletMouseEvent) => {
+          // Medindo, o clique vira vértice da medição (tratado no clique do mapa)
+          if (modeRef.current === 'measure') return;
+          const selected = getEditor().getSelectedIds();
+          if (!e.originalEvent.shiftKey) getEditor().setSelectedIds([id]);
+          else getEditor().setSelectedIds(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
         });
-
-        // Apply stored style properties if present
-        try {
-          const props = feature.properties || {};
-          const style: any = {};
-          if (props.strokeColor) style.color = props.strokeColor;
-          if (props.strokeWidth) style.weight = props.strokeWidth;
-          if (typeof props.fillOpacity !== 'undefined') style.fillOpacity = props.fillOpacity;
-          if (props.fillColor) style.fillColor = props.fillColor;
-          if (Object.keys(style).length && (layer as L.Path).setStyle) {
-            (layer as L.Path).setStyle(style);
-          }
-        } catch (e) { /* ignore */ }
       },
-      style: (feature: any) => {
-        const props = feature.properties || {};
-        return {
-          color: props.strokeColor || '#3bb2d0',
-          weight: props.strokeWidth || 2,
-          fillOpacity: typeof props.fillOpacity === 'number' ? props.fillOpacity : 0.4,
-          fillColor: props.fillColor || '#3bb2d0'
-        } as L.PathOptions;
-      },
-      pointToLayer: (feature: any, latlng: any) => L.circleMarker(latlng, { radius: 7, color: '#3bb2d0', fillOpacity: 0.7 })
+      style: (feature) => getFeatureStyle(feature?.properties ?? null, feature ? layerOpacity(feature, layersRef.current) : 1, thematicRef.current),
+      pointToLayer: (_feature, latlng) => L.circleMarker(latlng, { radius: 7, color: defaultDrawColor, fillOpacity: 0.7 })
     });
-
     geoLayer.addTo(drawnItemsRef.current);
 
-    // After adding features, create coordinate labels and text labels
-    upsertCoordinateLabels(geojson);
-    upsertTextLabels(geojson);
-
-    if (fitBounds && geoLayer.getBounds().isValid()) {
-      mapRef.current.fitBounds(geoLayer.getBounds(), { padding: [48, 48] });
+    // Reativa a edição de vértices na camada nova (ou encerra se a feição sumiu)
+    if (editingIdRef.current && !enableVertexEditing(editingIdRef.current)) {
+      editingIdRef.current = null;
+      setMode('select');
     }
   }
 
+  // Feição do editor com a geometria atual da camada em edição (estilo e propriedades preservados)
+  function getEditedFeature(id: string, layer: EditablePath): EditorFeature | null {
+    const feature = getEditor().getFeature(id);
+    return feature ? { ...feature, geometry: layer.toGeoJSON().geometry } : null;
+  }
+
+  // Liga o editor de vértices do leaflet-draw à camada da feição
+  function enableVertexEditing(id: string): boolean {
+    const layer = layersByIdRef.current.get(id) as EditablePath | undefined;
+    const type = getEditor().getFeature(id)?.geometry.type;
+    if (!layer?.editing || !type || !editableGeometryTypes.includes(type)) return false;
+    snapVertexEditing(layer.editing, { snap: snapLatLng });
+    layer.editing.enable();
+    // Durante o arraste só os rótulos acompanham; o editor é atualizado ao soltar
+    layer.on('editdrag', () => {
+      const edited = getEditedFeature(id, layer);
+      if (!edited) return;
+      const collection = getEditor().getCollection();
+      const preview = { ...collection, features: collection.features.map(f => (f.id === id ? edited : f)) };
+      upsertCoordinateLabels(preview);
+      upsertTextLabels(preview);
+    });
+    // Vértice solto, criado ou removido: um passo no histórico e onDrawChange
+    layer.on('edit', () => {
+      snapperRef.current?.clear();
+      const edited = getEditedFeature(id, layer);
+      if (edited) getEditor().updateFeatures([edited], { fromRenderer: true });
+    });
+    return true;
+  }
+
+  // Desliga o editor de vértices da feição em edição
+  function disableVertexEditing() {
+    const id = editingIdRef.current;
+    editingIdRef.current = null;
+    if (!id) return;
+    setMode('select');
+    const layer = layersByIdRef.current.get(id) as EditablePath | undefined;
+    if (!layer) return;
+    layer.off('editdrag edit');
+    layer.editing?.disable();
+    // O leaflet-draw mexe no estilo ao desligar; restaura o destaque da seleção
+    highlightSelection(getEditor().getSelectedIds());
+  }
+
+  // Adaptador: destaca as camadas selecionadas e restaura o estilo das demais
+  function highlightSelection(ids: string[]) {
+    const selected = new Set(ids);
+    layersByIdRef.current.forEach((layer, id) => {
+      if (!layer.setStyle) return;
+      const feature = getEditor().getFeature(id);
+      const style = getFeatureStyle(feature?.properties ?? null, feature ? layerOpacity(feature, layersRef.current) : 1, thematicRef.current);
+      layer.setStyle(selected.has(id) ? { ...style, ...selectedStyle } : style);
+    });
+  }
+
+  // Ajusta o mapa para enquadrar as camadas desenhadas
+  function fitToDrawnItems() {
+    if (!mapRef.current || !drawnItemsRef.current) return;
+    const bounds = drawnItemsRef.current.getBounds();
+    if (bounds.isValid()) mapRef.current.fitBounds(bounds, { padding: [48, 48] });
+  }
+
   // Atualiza/insere rótulos de vértices no mapa com base em um FeatureCollection
   function upsertCoordinateLabels(collection: FeatureCollection) {
     if (!mapRef.current) return;
     coordLabelsRef.current = coordLabelsRef.current || L.layerGroup().addTo(mapRef.current);
     coordLabelsRef.current.clearLayers();
+    for (const label of placeCoordinateLabels(collection)) {
+      const marker = L.marker(L.latLng(label.coord[1], label.coord[0]), {
+        icon: L.divIcon({ className: 'coord-label', html: `<div style="font-size:10px;line-height:1;padding:2px 6px;background:#fff;border:1px solid #e6e6e6;border-radius:4px;box-shadow:0 1px 2px rgba(0,0,0,0.06);">${label.text}</div>` }),
+        interactive: false
+      });
+      coordLabelsRef.current.addLayer(marker);
+    }
+  }
+
+  // Rótulos de vértices que cabem na tela (sem empilhar rótulos a menos de 40 px), com o texto no formato escolhido
+  function placeCoordinateLabels(collection: FeatureCollection): { coord: Position; text: string }[] {
+    const map = mapRef.current;
+    if (!map) return [];
     // Keep placed label screen positions to avoid stacking multiple labels at same point
     const placed: L.Point[] = [];
+    const labels: { coord: Position; text: string }[] = [];
     const minPxDistance = 40; // minimum pixel distance between labels
-
-    const entries: Array<{ coord: [number, number]; label: string }> = [];
-    for (const f of collection.features) {
-      if (!f.geometry) continue;
-      if (f.geometry.type === 'Polygon') {
-        const rings = f.geometry.coordinates as number[][][];
-        if (rings.length === 0) continue;
-        const ring = rings[0];
-        for (const pt of ring) entries.push({ coord: [pt[1], pt[0]], label: `${pt[1].toFixed(6)}, ${pt[0].toFixed(6)}` });
-      } else if (f.geometry.type === 'MultiPolygon') {
-        const polys = f.geometry.coordinates as number[][][][];
-        for (const poly of polys) {
-          const ring = poly[0];
-          for (const pt of ring) entries.push({ coord: [pt[1], pt[0]], label: `${pt[1].toFixed(6)}, ${pt[0].toFixed(6)}` });
-        }
-      }
-    }
+    // Texto do rótulo no formato escolhido (mesmo fuso UTM para toda a coleção)
+    const formatLabel = createCoordinateFormatter(collection, coordinateFormatRef.current);
 
     // Convert candidate label coords to container points and filter by distance
-    for (const e of entries) {
+    for (const e of extractVertexEntries(collection)) {
       try {
-        const pt = L.latLng(e.coord[0], e.coord[1]);
-        const containerPoint = mapRef.current.project(pt);
-        let tooClose = false;
-        for (const p of placed) {
-          if (p.distanceTo(containerPoint) < minPxDistance) {
-            tooClose = true;
-            break;
-          }
-        }
-        if (tooClose) continue;
+        const containerPoint = map.project(L.latLng(e.coord[1], e.coord[0]));
+        if (placed.some(p => p.distanceTo(containerPoint) < minPxDistance)) continue;
         placed.push(containerPoint);
-
-        const marker = L.marker([e.coord[0], e.coord[1]] as any, {
-          icon: L.divIcon({ className: 'coord-label', html: `<div style="font-size:10px;line-height:1;padding:2px 6px;background:#fff;border:1px solid #e6e6e6;border-radius:4px;box-shadow:0 1px 2px rgba(0,0,0,0.06);">${e.label}</div>` }),
-          interactive: false
-        });
-        coordLabelsRef.current.addLayer(marker);
+        labels.push({ coord: e.coord, text: formatLabel(e.coord) });
       } catch (err) {
         // in case projection fails, skip the label
         continue;
       }
     }
+    return labels;
+  }
+
+  // Desenha no canvas os tiles do fundo que cobrem a imagem. Com mais dpi usa tiles de um zoom acima
+  async function drawTiles(ctx: CanvasRenderingContext2D, origin: L.Point, width: number, height: number, zoom: number, ratio: number) {
+    const source = tileSourceRef.current;
+    if (!source) return;
+    const tileSize = 256;
+    const maxZoom = source.layer.options.maxZoom ?? 18;
+    const tileZoom = Math.max(0, Math.min(maxZoom, Math.round(zoom + Math.log2(ratio))));
+    // px do zoom dos tiles por px da imagem
+    const factor = 2 ** (tileZoom - zoom);
+    const size = tileSize / factor;
+    const min = origin.multiplyBy(factor).divideBy(tileSize).floor();
+    const max = origin.add(L.point(width, height)).multiplyBy(factor).divideBy(tileSize).floor();
+    const count = 2 ** tileZoom;
+    const subdomains = source.layer.options.subdomains ?? 'abc';
+    const jobs: Promise<void>[] = [];
+    for (let x = min.x; x <= max.x; x++) {
+      for (let y = min.y; y <= max.y; y++) {
+        if (y < 0 || y >= count) continue;
+        const url = L.Util.template(source.url, {
+          s: subdomains[Math.abs(x + y) % subdomains.length],
+          z: tileZoom,
+          x: ((x % count) + count) % count,
+          y,
+        });
+        jobs.push(loadImage(url).then(image => {
+          if (image) ctx.drawImage(image, x * size - origin.x, y * size - origin.y, size, size);
+        }));
+      }
+    }
+    await Promise.all(jobs);
+  }
+
+  // Captura a vista atual num canvas: tiles, feições com o estilo da tela, rótulos, marcadores e a legenda opcional
+  async function captureImage(options: ImageExportOptions = {}): Promise<MapImage> {
+    const map = mapRef.current;
+    if (!map) throw new Error('O mapa ainda não carregou');
+    const size = map.getSize();
+    const width = Math.round(options.width ?? size.x);
+    const height = Math.round(options.height ?? size.y);
+    const dpi = options.dpi ?? 96;
+    const ratio = dpi / 96;
+    const zoom = map.getZoom();
+    // Canto superior esquerdo da imagem, em px do mundo no zoom atual (mesmo centro da tela)
+    const origin = map.project(map.getCenter(), zoom).subtract(L.point(width / 2, height / 2));
+    const project = (position: Position): [number, number] => {
+      const point = map.project(L.latLng(position[1], position[0]), zoom).subtract(origin);
+      return [point.x, point.y];
+    };
+    const unproject = (x: number, y: number) => map.unproject(origin.add(L.point(x, y)), zoom);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('O navegador não oferece canvas 2D');
+    ctx.scale(ratio, ratio);
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillRect(0, 0, width, height);
+    await drawTiles(ctx, origin, width, height, zoom, ratio);
+
+    const features = renderedRef.current.features;
+    drawFeatures(ctx, features, {
+      project,
+      style: (feature) => {
+        if (feature.geometry?.type === 'Point' || feature.geometry?.type === 'MultiPoint') {
+          return { fillColor: defaultDrawColor, fillOpacity: 0.7, strokeColor: defaultDrawColor, strokeWidth: 3 };
+        }
+        const style = getFeatureStyle(feature.properties, layerOpacity(feature, layersRef.current), thematicRef.current);
+        return { fillColor: style.fillColor, fillOpacity: style.fillOpacity, strokeColor: style.color, strokeWidth: style.weight, strokeOpacity: style.opacity };
+      },
+    });
+    drawTextLabels(ctx, features, project);
+    for (const label of placeCoordinateLabels(renderedRef.current)) {
+      const [x, y] = project(label.coord);
+      drawBoxedText(ctx, label.text, x, y);
+    }
+    for (const marker of markersRef.current) {
+      const [x, y] = project(marker.lngLat);
+      drawMarker(ctx, x, y, marker.label);
+    }
+
+    // Escala medida no centro da imagem, como na barra da tela
+    const center = L.point(width / 2, height / 2);
+    const metersPerPixel = map.distance(unproject(center.x - 50, center.y), unproject(center.x + 50, center.y)) / 100 / ratio;
+    if (options.legend) {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      drawMapOverlay(ctx, {
+        width: canvas.width,
+        height: canvas.height,
+        sections: options.legend,
+        scale: scaleBar(metersPerPixel, 120 * ratio),
+        pixelRatio: ratio,
+      });
+    }
+    const northWest = unproject(0, 0);
+    const southEast = unproject(width, height);
+    return {
+      blob: await canvasToBlob(canvas, options.format),
+      width: canvas.width,
+      height: canvas.height,
+      dpi,
+      bounds: [[northWest.lng, southEast.lat], [southEast.lng, northWest.lat]],
+      metersPerPixel,
+      bearing: 0,
+    };
   }
 
   // Atualiza/insere rótulos de texto centralizados para polígonos que têm properties.labelText
@@ -211,41 +652,61 @@ const LeafletMap = forwardRef(function LeafletMap(
     textLabelsRef.current.clearLayers();
 
     for (const f of collection.features) {
-      if (!f.geometry) continue;
       const props = f.properties || {};
       if (!props.labelText) continue;
-
-      let centroid: [number, number] | null = null;
-      if (f.geometry.type === 'Polygon') {
-        const ring = (f.geometry.coordinates as number[][][])[0];
-        centroid = calculatePolygonCentroid(ring);
-      } else if (f.geometry.type === 'MultiPolygon') {
-        const first = (f.geometry.coordinates as number[][][][])[0];
-        if (first) centroid = calculatePolygonCentroid(first[0]);
-      }
-
+      const centroid = getLabelPoint(f);
       if (!centroid) continue;
-      const latlng: [number, number] = [centroid[1], centroid[0]];
-      const marker = L.marker(latlng as any, {
-        icon: L.divIcon({ className: 'polygon-label', html: `<div style="font-size:14px;color:#000;text-align:center;text-shadow:0 0 2px #fff;padding:2px 6px">${props.labelText}</div>` }),
+      // O texto vem de arquivos importados (ex.: <name> do KML): entra como texto, nunca como HTML
+      const label = document.createElement('div');
+      label.style.cssText = 'font-size:14px;color:#000;text-align:center;text-shadow:0 0 2px #fff;padding:2px 6px';
+      label.textContent = String(props.labelText);
+      const marker = L.marker([centroid[1], centroid[0]], {
+        icon: L.divIcon({ className: 'polygon-label', html: label }),
         interactive: false
       });
       textLabelsRef.current.addLayer(marker);
     }
   }
 
-  // Calcula centroide simples (média) de um anel de polígono [[lng,lat],...]
-  function calculatePolygonCentroid(ring: number[][]): [number, number] | null {
-    if (!ring || ring.length === 0) return null;
-    let sx = 0, sy = 0, count = 0;
-    for (const p of ring) {
-      if (!p || p.length < 2) continue;
-      sx += p[0]; sy += p[1]; count++;
+
+  // Destaca os problemas de geometria: vermelho (tem correção automática) ou laranja (ajuste manual)
+  function renderGeometryIssues(issues: GeometryIssue[]) {
+    if (!mapRef.current) return;
+    issuesLayerRef.current = issuesLayerRef.current || L.layerGroup().addTo(mapRef.current);
+    issuesLayerRef.current.clearLayers();
+    for (const issue of issues) {
+      const color = issue.repairable ? '#dc2626' : '#f97316';
+      L.circleMarker([issue.location[1], issue.location[0]], { radius: 8, color, weight: 3, fillColor: color, fillOpacity: 0.15 })
+        .bindTooltip(issue.message)
+        .addTo(issuesLayerRef.current);
     }
-    if (count === 0) return null;
-    return [sx / count, sy / count];
   }
 
+  // Destaca a topologia: sobreposições em vermelho e vãos em âmbar; tracejado se precisa de ajuste manual
+  function renderTopologyIssues(report: TopologyReport | null) {
+    if (!mapRef.current) return;
+    topologyLayerRef.current = topologyLayerRef.current || L.layerGroup().addTo(mapRef.current);
+    topologyLayerRef.current.clearLayers();
+    if (!report) return;
+    L.geoJSON(topologyToCollection(report), {
+      style: (feature) => {
+        const color = feature?.properties?.topologyType === 'gap' ? '#f59e0b' : '#dc2626';
+        return { color, weight: 2, fillColor: color, fillOpacity: 0.45, dashArray: feature?.properties?.sliver ? undefined : '6 4' };
+      },
+      onEachFeature: (feature, layer) => layer.bindTooltip(feature.properties?.message ?? ''),
+    }).addTo(topologyLayerRef.current);
+  }
+
+
+  // Avisa se o centro inicial parece estar com latitude/longitude trocadas
+  useEffect(() => {
+    const resolved = resolvedCenterRef.current;
+    if (!resolved.check) return;
+    console.warn(
+      `[LeafletMap] initialCenter ${resolved.autoSwapped ? 'inválido, latitude/longitude trocadas automaticamente' : 'suspeito'}: ${resolved.check.message}`,
+    );
+    onCenterOrderWarningRef.current?.(resolved);
+  }, []);
 
   // Efeito para inicializar o mapa Leaflet
   useEffect(() => {
@@ -260,19 +721,23 @@ const LeafletMap = forwardRef(function LeafletMap(
       });
       // Adiciona camada de tiles (satélite MapTiler ou OSM)
       const maptilerToken = import.meta.env.VITE_MAPTILER_TOKEN;
+      // crossOrigin permite copiar os tiles para o canvas na exportação da imagem
       if (maptilerToken && maptilerToken !== 'COLE_SEU_TOKEN_AQUI') {
-        L.tileLayer(
-          `https://api.maptiler.com/tiles/satellite-v2/{z}/{x}/{y}.jpg?key=${maptilerToken}`,
-          {
-            attribution: '© MapTiler © OpenStreetMap contributors',
-            tileSize: 256,
-            maxZoom: 20
-          }
-        ).addTo(map);
+        const url = `https://api.maptiler.com/tiles/satellite-v2/{z}/{x}/{y}.jpg?key=${maptilerToken}`;
+        const layer = L.tileLayer(url, {
+          attribution: '© MapTiler © OpenStreetMap contributors',
+          tileSize: 256,
+          maxZoom: 20,
+          crossOrigin: 'anonymous',
+        }).addTo(map);
+        tileSourceRef.current = { url, layer };
       } else {
-        L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+        const url = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+        const layer = L.tileLayer(url, {
           attribution: '&copy; OpenStreetMap contributors',
+          crossOrigin: 'anonymous',
         }).addTo(map);
+        tileSourceRef.current = { url, layer };
       }
       mapRef.current = map;
       // Grupo de camadas desenhadas
@@ -287,9 +752,67 @@ const LeafletMap = forwardRef(function LeafletMap(
         })
       }).addTo(map);
       marker.bindTooltip('Fazenda', { permanent: true, direction: 'right', offset: [8, 0] });
+      markersRef.current = [{ lngLat: [-56.93058631349245, -14.886146449974284], label: 'Fazenda' }];
+      // Polígono finalizado no leaflet-draw: entrega ao editor, que recria a camada com id e estilo padrão
+      // O círculo do leaflet-draw (L.Circle) vira polígono com centro e raio nas propriedades
+      map.on(L.Draw.Event.CREATED, (event) => {
+        const { layer } = event as L.DrawEvents.Created;
+        const feature = layer instanceof L.Circle ? circleFeature([layer.getLatLng().lng, layer.getLatLng().lat], layer.getRadius()) : layer.toGeoJSON();
+        getEditor().addFeatures([feature], { fromRenderer: true });
+      });
+      // Fim do desenho (concluído ou cancelado) volta ao modo de seleção
+      map.on('draw:drawstop', () => {
+        drawHandlerRef.current = null;
+        setMode('select');
+      });
+      // Mão livre: o traço segue o mouse enquanto o botão está pressionado
+      map.on('mousedown', (e: L.LeafletMouseEvent) => {
+        if (!freehandRef.current) return;
+        freehandRef.current.points = [[e.containerPoint.x, e.containerPoint.y]];
+        freehandRef.current.line = L.polyline([e.latlng], { color: defaultDrawColor, weight: 2, interactive: false }).addTo(map);
+      });
+      map.on('mousemove', (e: L.LeafletMouseEvent) => {
+        const freehand = freehandRef.current;
+        if (!freehand?.line) return;
+        freehand.points.push([e.containerPoint.x, e.containerPoint.y]);
+        freehand.line.addLatLng(e.latlng);
+      });
+      map.on('mouseup', () => {
+        if (freehandRef.current?.line) finishFreehand(true);
+      });
+      // Medição: clique adiciona vértice (clicar no último, ou no primeiro da área, encerra), o mouse mostra o trecho provisório
+      map.on('click', (e: L.LeafletMouseEvent) => {
+        if (modeRef.current !== 'measure') return;
+        if (!getMeasureTool().add(snapMeasurePosition(e.latlng))) stopMeasuring();
+      });
+      map.on('mousemove', (e: L.LeafletMouseEvent) => {
+        if (modeRef.current === 'measure') getMeasureTool().move(snapMeasurePosition(e.latlng));
+      });
+      map.on('dblclick', () => {
+        if (modeRef.current !== 'measure') return;
+        getMeasureTool().finish();
+        stopMeasuring();
+      });
+      // Enter encerra e Esc cancela a medição (Esc também cancela a mão livre)
+      map.on('keydown', (e: L.LeafletKeyboardEvent) => {
+        if (freehandRef.current && e.originalEvent.key === 'Escape') finishFreehand(false);
+        if (modeRef.current !== 'measure') return;
+        if (e.originalEvent.key === 'Enter') getMeasureTool().finish();
+        else if (e.originalEvent.key === 'Escape') getMeasureTool().clear();
+        else return;
+        stopMeasuring();
+      });
+      // Avisa a nova visualização ao final de cada movimento (arraste, zoom, flyTo)
+      map.on('moveend', () => {
+        const center = map.getCenter();
+        getEditor().events.emit('viewchange', { view: { lng: center.lng, lat: center.lat, zoom: map.getZoom() } });
+      });
       // Carrega dados iniciais, se houver
       if (initialDataRef.current && initialDataRef.current.features.length) {
-        addGeoJsonToMap(initialDataRef.current, true);
+        getEditor().load(initialDataRef.current);
+        // Os dados iniciais não entram no histórico de desfazer
+        getEditor().clearHistory();
+        fitToDrawnItems();
       }
       // Callback de mapa carregado
       if (onMapLoad) onMapLoad();
@@ -301,7 +824,12 @@ const LeafletMap = forwardRef(function LeafletMap(
     return () => {
       mapRef.current?.remove();
       mapRef.current = null;
+      snapMarkerRef.current = null;
       drawnItemsRef.current = null;
+      measureLayerRef.current = null;
+      layersByIdRef.current.clear();
+      issuesLayerRef.current = null;
+      topologyLayerRef.current = null;
       if (coordLabelsRef.current) {
         try { coordLabelsRef.current.clearLayers(); (mapRef.current as L.Map | null)?.removeLayer(coordLabelsRef.current as any); } catch (e) { /* ignore */ }
         coordLabelsRef.current = null;
@@ -313,6 +841,28 @@ const LeafletMap = forwardRef(function LeafletMap(
     };
   }, []);
 
+  // O contêiner muda de tamanho sem a janela mudar (ex.: tabela de atributos aberta ao lado)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => mapRef.current?.invalidateSize());
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+
+  // Redesenha os rótulos de vértices quando o modo, a precisão ou o fuso mudam
+  useEffect(() => {
+    coordinateFormatRef.current = { format: coordinateFormat, precision: coordinatePrecision, utmZone };
+    editorRef.current?.refresh();
+  }, [coordinateFormat, coordinatePrecision, utmZone]);
+
+  // Aplica a configuração do snap quando a prop muda
+  useEffect(() => {
+    snapOptionsRef.current = snapOptions ?? {};
+    snapperRef.current?.setOptions(snapOptionsRef.current);
+  }, [snapOptions]);
+
 
   // Expõe métodos para o componente pai via ref
   useImperativeHandle(ref, () => ({
@@ -320,83 +870,101 @@ const LeafletMap = forwardRef(function LeafletMap(
     flyTo: ({ lng, lat, zoom }) => {
       mapRef.current?.setView([lat, lng], zoom ?? mapRef.current.getZoom());
     },
-    // Retorna os dados desenhados
-    getDrawData: () => {
-      if (!drawnItemsRef.current) return emptyCollection;
-      // Preserve properties/styles stored on each layer.feature
-      const fc = drawnItemsRef.current.toGeoJSON() as FeatureCollection;
-      // Merge back any properties that were stored on layers
-      const features = fc.features.map((f: any) => {
-        // attempt to find the corresponding layer by comparing coordinates
-        // fallback: keep existing properties
-        return f;
-      });
-      return { ...fc, features };
+    // Centro e zoom atuais (salvos junto com o projeto)
+    getView: () => {
+      if (!mapRef.current) return null;
+      const center = mapRef.current.getCenter();
+      return { lng: center.lng, lat: center.lat, zoom: mapRef.current.getZoom() };
+    },
+    // Restaura centro e zoom sem animação
+    setView: ({ lng, lat, zoom }) => {
+      mapRef.current?.setView([lat, lng], zoom, { animate: false });
+    },
+    // Escala no centro da tela (distância real de 100 px na horizontal); o Leaflet não gira o mapa
+    getMapScale: () => {
+      const map = mapRef.current;
+      if (!map) return null;
+      const size = map.getSize();
+      const y = size.y / 2;
+      const x = Math.max(0, size.x / 2 - 50);
+      const meters = map.distance(map.containerPointToLatLng([x, y]), map.containerPointToLatLng([x + 100, y]));
+      return { metersPerPixel: meters / 100, bearing: 0 };
+    },
+    // Imagem da vista atual (fundo, feições, rótulos e marcadores) redesenhada em canvas
+    exportImage: (options) => captureImage(options),
+    // Retorna os dados desenhados (com ids e propriedades guardados no editor)
+    getDrawData: (options) => {
+      const collection = getEditor().getCollection();
+      return options?.includeMetrics ? withCollectionMetrics(collection) : collection;
+    },
+    // Área e perímetro de uma feição
+    getFeatureMetrics: (id) => {
+      const feature = getEditor().getFeature(id);
+      return feature ? computeFeatureMetrics(feature) : null;
+    },
+    // Feição pelo id (mesmo id do GeoJSON importado/exportado)
+    getFeatureById: (id) => getEditor().getFeature(id) ?? null,
+    // Seleciona a feição do id (como um clique nela)
+    selectById: (id) => {
+      if (!getEditor().getFeature(id)) return false;
+      getEditor().setSelectedIds([id]);
+      return true;
+    },
+    // Seleciona várias feições (ex.: linhas marcadas na tabela de atributos)
+    selectByIds: (ids) => {
+      getEditor().setSelectedIds(ids.filter(id => !!getEditor().getFeature(id)));
+      return getEditor().getSelectedIds();
     },
     // Carrega um GeoJSON no mapa
     loadGeoJson: (collection, options) => {
-      // Ensure incoming features keep their properties
-      const processed = { ...collection, features: collection.features.map(f => ({ ...f, properties: f.properties || {} })) };
-      addGeoJsonToMap(processed, options?.fitBounds !== false);
-      onDrawChangeRef.current?.(processed);
+      getEditor().load(collection);
+      if (options?.fitBounds !== false) fitToDrawnItems();
     },
     // Limpa todos os desenhos
-    clearDrawings: () => {
-      drawnItemsRef.current?.clearLayers();
-      onDrawChangeRef.current?.(emptyCollection);
-    },
+    clearDrawings: () => getEditor().clear(),
     // Inicia modo de desenho de polígono usando leaflet-draw
     startDrawPolygon: () => {
-      if (!mapRef.current || !drawnItemsRef.current) return;
       // Configuração do modo de desenho de polígono
       const polygonOptions = {
         allowIntersection: true,
         showArea: true,
-        shapeOptions: {
-          color: '#3bb2d0',
-          weight: 2,
-          fillOpacity: 0.4,
-          fillColor: '#3bb2d0',
-        },
-      };
-      // Escuta o evento de criação
-  const onDrawCreated = function (e: any) {
-        const layer = e.layer;
-        // Adiciona evento de clique para seleção
-        layer.on('click', () => {
-          selectedLayerRef.current = layer;
-          if ((layer as L.Path).setStyle) {
-            (layer as L.Path).setStyle({ color: '#2563eb', weight: 3 });
-          }
-        });
-        // Salva propriedades de estilo no feature.properties
-        const style = (layer as any).options || {};
-        if (!layer.feature) layer.feature = { type: 'Feature', properties: {}, geometry: null };
-        layer.feature.properties = {
-          ...layer.feature.properties,
-          fillColor: style.fillColor || style.color || '#3bb2d0',
-          fillOpacity: typeof style.fillOpacity === 'number' ? style.fillOpacity : 0.4,
-          strokeColor: style.color || '#3bb2d0',
-          strokeWidth: typeof style.weight === 'number' ? style.weight : 2
-        };
-        if (drawnItemsRef.current) {
-          drawnItemsRef.current.addLayer(layer);
-        }
-        // Fire change event
-        if (drawnItemsRef.current) {
-          onDrawChangeRef.current?.(drawnItemsRef.current.toGeoJSON() as FeatureCollection);
-        }
-        if (drawnItemsRef.current) {
-          upsertCoordinateLabels(drawnItemsRef.current.toGeoJSON() as FeatureCollection);
-        }
-        if (drawnItemsRef.current) {
-          upsertTextLabels(drawnItemsRef.current.toGeoJSON() as FeatureCollection);
-        }
-        // Não reativa o modo de desenho automaticamente
+        shapeOptions: drawShapeOptions,
       };
-      mapRef.current.on('draw:created', onDrawCreated);
       // Ativa o modo de desenho de polígono sem adicionar controles visuais
-      (new (L.Draw as any).Polygon(mapRef.current, polygonOptions)).enable();
+      // (a criação é tratada pelo listener 'draw:created' registrado na inicialização)
+      startDrawHandler((map) => new L.Draw.Polygon(map, polygonOptions), 'draw_polygon');
+    },
+    // Demais modos do leaflet-draw (linha, ponto, retângulo e círculo) e a mão livre própria
+    startDrawLine: () => {
+      startDrawHandler((map) => new L.Draw.Polyline(map, { showLength: true, shapeOptions: { color: defaultDrawColor, weight: 3 } }), 'draw_line');
+    },
+    startDrawPoint: () => {
+      // O raio vai direto para o L.circleMarker criado (os tipos do handler não o listam)
+      const pointOptions: L.DrawOptions.CircleMarkerOptions & L.CircleMarkerOptions = { radius: 7, color: defaultDrawColor, fillOpacity: 0.7 };
+      startDrawHandler((map) => new L.Draw.CircleMarker(map, pointOptions), 'draw_point');
+    },
+    startDrawRectangle: () => {
+      startDrawHandler((map) => new L.Draw.Rectangle(map, { showArea: true, shapeOptions: drawShapeOptions }), 'draw_rectangle');
+    },
+    startDrawCircle: () => {
+      startDrawHandler((map) => new L.Draw.Circle(map, { showRadius: true, metric: true, shapeOptions: drawShapeOptions }), 'draw_circle');
+    },
+    startDrawFreehand: startFreehand,
+    // Medição temporária de distância ou área (não passa pelo editor nem por onDrawChange)
+    startMeasure: (kind) => {
+      const map = mapRef.current;
+      if (!map) return;
+      stopDrawing();
+      disableVertexEditing();
+      map.doubleClickZoom.disable();
+      map.getContainer().style.cursor = 'crosshair';
+      getMeasureTool().start(kind);
+      setMode('measure');
+    },
+    getMeasurement: () => measureRef.current?.get() ?? null,
+    clearMeasure: () => {
+      measureRef.current?.clear();
+      stopMeasuring();
     },
     // Zoom in
     zoomIn: () => {
@@ -407,107 +975,94 @@ const LeafletMap = forwardRef(function LeafletMap(
       mapRef.current?.zoomOut();
     },
     // Ajusta o mapa para caber os desenhos
-    fitToDrawings: () => {
-      if (!drawnItemsRef.current) return;
-      const bounds = drawnItemsRef.current.getBounds();
-      if (bounds.isValid()) mapRef.current?.fitBounds(bounds, { padding: [48, 48] });
-    },
+    fitToDrawings: fitToDrawnItems,
     // Remove camada selecionada
-    deleteSelected: () => {
-      if (selectedLayerRef.current && drawnItemsRef.current) {
-        drawnItemsRef.current.removeLayer(selectedLayerRef.current);
-        selectedLayerRef.current = null;
-        const fc = drawnItemsRef.current.toGeoJSON() as FeatureCollection;
-        onDrawChangeRef.current?.(fc);
-        upsertCoordinateLabels(fc);
-        upsertTextLabels(fc);
-      }
+    deleteSelected: () => getEditor().deleteSelected(),
+    // Edição de vértices da feição selecionada (equivalente ao direct_select do MapboxDraw)
+    startEditSelected: () => {
+      disableVertexEditing();
+      const [id] = getEditor().getSelectedIds();
+      if (!id || !enableVertexEditing(id)) return false;
+      editingIdRef.current = id;
+      setMode('edit_vertices');
+      return true;
     },
-    // Change fill color/opacity for selected layer
-    changeSelectedFill: (color: string, opacity?: number) => {
-      if (!selectedLayerRef.current) return;
-      try {
-        const layer = selectedLayerRef.current as any;
-        const props = (layer.feature && layer.feature.properties) ? layer.feature.properties : (layer.options && layer.options.properties ? layer.options.properties : {});
-        props.fillColor = color;
-        if (typeof opacity === 'number') props.fillOpacity = opacity;
-        if ((layer as L.Path).setStyle) {
-          (layer as L.Path).setStyle({ fillColor: color, fillOpacity: typeof opacity === 'number' ? opacity : (layer as any).options.fillOpacity });
-        }
-        // update stored feature props
-        if (layer.feature) layer.feature.properties = props;
-        onDrawChangeRef.current?.(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-        // update labels
-        upsertTextLabels(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-        upsertCoordinateLabels(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-      } catch (e) { console.error(e); }
-    },
-    // Change stroke color/width for selected layer
-    changeSelectedStroke: (color: string, width?: number) => {
-      if (!selectedLayerRef.current) return;
-      try {
-        const layer = selectedLayerRef.current as any;
-        const props = (layer.feature && layer.feature.properties) ? layer.feature.properties : {};
-        props.strokeColor = color;
-        if (typeof width === 'number') props.strokeWidth = width;
-        if ((layer as L.Path).setStyle) {
-          (layer as L.Path).setStyle({ color, weight: typeof width === 'number' ? width : (layer as any).options.weight });
-        }
-        if (layer.feature) layer.feature.properties = props;
-        onDrawChangeRef.current?.(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-        upsertTextLabels(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-      } catch (e) { console.error(e); }
-    },
-    applyFillToAll: (color: string, opacity?: number) => {
-      if (!drawnItemsRef.current) return;
-      drawnItemsRef.current.eachLayer((layer: any) => {
-        try {
-          const props = (layer.feature && layer.feature.properties) ? layer.feature.properties : {};
-          props.fillColor = color;
-          if (typeof opacity === 'number') props.fillOpacity = opacity;
-          if ((layer as L.Path).setStyle) (layer as L.Path).setStyle({ fillColor: color, fillOpacity: typeof opacity === 'number' ? opacity : (layer as any).options.fillOpacity });
-          if (layer.feature) layer.feature.properties = props;
-        } catch (e) { /* ignore */ }
-      });
-      onDrawChangeRef.current?.(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-      upsertTextLabels(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
+    finishEdit: disableVertexEditing,
+    // Estilos e texto: delegados ao núcleo compartilhado
+    changeSelectedFill: (color, opacity) => getEditor().changeSelectedFill(color, opacity),
+    changeSelectedStroke: (color, width) => getEditor().changeSelectedStroke(color, width),
+    applyFillToAll: (color, opacity) => getEditor().applyFillToAll(color, opacity),
+    applyStrokeToAll: (color, width) => getEditor().applyStrokeToAll(color, width),
+    addTextToSelected: (text) => getEditor().addTextToSelected(text),
+    removeTextFromSelected: () => getEditor().removeTextFromSelected(),
+    // Operações entre polígonos (união, diferença, interseção e divisão por linha)
+    mergeSelected: () => getEditor().mergeSelected(),
+    subtractSelected: () => getEditor().subtractSelected(),
+    intersectSelected: () => getEditor().intersectSelected(),
+    splitSelectedByLine: () => getEditor().splitSelectedByLine(),
+    bufferSelected: (distance, options) => getEditor().bufferSelected(distance, options),
+    // Histórico de desfazer/refazer
+    undo: () => getEditor().undo(),
+    redo: () => getEditor().redo(),
+    canUndo: () => getEditor().canUndo(),
+    canRedo: () => getEditor().canRedo(),
+    transaction: (fn) => getEditor().transaction(fn),
+    clearHistory: () => getEditor().clearHistory(),
+    // Camadas do usuário (visibilidade, opacidade, ordem, trava e estilo padrão)
+    getLayers: () => getEditor().getLayers(),
+    setLayers: (layers) => getEditor().setLayers(layers),
+    addLayer: (name, style) => getEditor().addLayer(name, style),
+    updateLayer: (name, patch) => getEditor().updateLayer(name, patch),
+    removeLayer: (name, options) => getEditor().removeLayer(name, options),
+    moveLayer: (name, index) => getEditor().moveLayer(name, index),
+    getActiveLayer: () => getEditor().getActiveLayer(),
+    setActiveLayer: (name) => getEditor().setActiveLayer(name),
+    applyLayerStyle: (name) => getEditor().applyLayerStyle(name),
+    moveSelectedToLayer: (name) => getEditor().moveSelectedToLayer(name),
+    // Tabela de atributos: colunas e valores (as edições passam pelo editor e disparam onDrawChange)
+    getAttributeColumns: () => getEditor().getAttributeColumns(),
+    setAttributeColumns: (columns) => getEditor().setAttributeColumns(columns),
+    addAttributeColumn: (column) => getEditor().addAttributeColumn(column),
+    updateAttributeColumn: (key, patch) => getEditor().updateAttributeColumn(key, patch),
+    removeAttributeColumn: (key) => getEditor().removeAttributeColumn(key),
+    setFeatureAttributes: (ids, values) => getEditor().setFeatureAttributes(ids, values),
+    // Estilo temático: cor do preenchimento calculada a partir de um atributo
+    getThematicStyle: () => getEditor().getThematicStyle(),
+    setThematicStyle: (style) => getEditor().setThematicStyle(style),
+    // Validação de geometria: destaca os problemas no mapa
+    validateGeometry: (ids) => {
+      const issues = validateCollection(getEditor().getCollection(), ids);
+      renderGeometryIssues(issues);
+      return issues;
     },
-    applyStrokeToAll: (color: string, width?: number) => {
-      if (!drawnItemsRef.current) return;
-      drawnItemsRef.current.eachLayer((layer: any) => {
-        try {
-          const props = (layer.feature && layer.feature.properties) ? layer.feature.properties : {};
-          props.strokeColor = color;
-          if (typeof width === 'number') props.strokeWidth = width;
-          if ((layer as L.Path).setStyle) (layer as L.Path).setStyle({ color, weight: typeof width === 'number' ? width : (layer as any).options.weight });
-          if (layer.feature) layer.feature.properties = props;
-        } catch (e) { /* ignore */ }
-      });
-      onDrawChangeRef.current?.(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-      upsertTextLabels(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
+    // Corrige as geometrias (um passo do histórico) e atualiza o destaque
+    repairGeometry: ({ ids, ...options } = {}) => {
+      // Feições de camadas travadas ficam como estão
+      const features = getEditor().getCollection().features.filter(f => (!ids || ids.includes(String(f.id))) && getEditor().isEditable(String(f.id)));
+      const repaired = repairFeatures(features, options);
+      if (repaired.length) getEditor().updateFeatures(repaired);
+      renderGeometryIssues(validateCollection(getEditor().getCollection(), ids));
+      return repaired.map(f => String(f.id));
     },
-    addTextToSelected: (text: string) => {
-      if (!selectedLayerRef.current) return;
-      try {
-        const layer = selectedLayerRef.current as any;
-        const props = (layer.feature && layer.feature.properties) ? layer.feature.properties : {};
-        props.labelText = text;
-        if (layer.feature) layer.feature.properties = props;
-        onDrawChangeRef.current?.(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-        upsertTextLabels(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-      } catch (e) { console.error(e); }
+    clearGeometryIssues: () => renderGeometryIssues([]),
+    // Topologia entre polígonos vizinhos: sobreposições e vãos destacados em uma camada própria
+    auditTopology: (options) => {
+      const report = auditTopology(getEditor().getCollection(), options);
+      renderTopologyIssues(report);
+      return report;
     },
-    removeTextFromSelected: () => {
-      if (!selectedLayerRef.current) return;
-      try {
-        const layer = selectedLayerRef.current as any;
-        if (layer.feature && layer.feature.properties) {
-          delete layer.feature.properties.labelText;
-        }
-        onDrawChangeRef.current?.(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-        upsertTextLabels(drawnItemsRef.current?.toGeoJSON() as FeatureCollection);
-      } catch (e) { console.error(e); }
+    // Resolve as lascas (um passo do histórico) e atualiza o destaque
+    fixTopology: (options) => {
+      const collection = getEditor().getCollection();
+      const changed = resolveTopology(collection.features, auditTopology(collection, options), { isEditable: getEditor().isEditable });
+      if (changed.length) getEditor().updateFeatures(changed);
+      renderTopologyIssues(auditTopology(getEditor().getCollection(), options));
+      return changed.map(f => String(f.id));
     },
+    clearTopologyIssues: () => renderTopologyIssues(null),
+    // Eventos tipados (seleção, criação, alteração, exclusão, estilo, visualização e modo)
+    on: (name, handler) => getEditor().events.on(name, handler),
+    off: (name, handler) => getEditor().events.off(name, handler),
   }));
 
 
@@ -58,6 +58,58 @@ export function IconPolygon(props: React.SVGProps<SVGSVGElement>) {
 	);
 }
 
+// Ícone: Linha
+export function IconLine(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<polyline points="3 19 9 11 15 15 21 5"/>
+			<circle cx="3" cy="19" r="1.5" fill="currentColor" stroke="none"/>
+			<circle cx="9" cy="11" r="1.5" fill="currentColor" stroke="none"/>
+			<circle cx="15" cy="15" r="1.5" fill="currentColor" stroke="none"/>
+			<circle cx="21" cy="5" r="1.5" fill="currentColor" stroke="none"/>
+		</svg>
+	);
+}
+
+// Ícone: Ponto
+export function IconPoint(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M12 21s-6-5.5-6-11a6 6 0 0 1 12 0c0 5.5-6 11-6 11z"/>
+			<circle cx="12" cy="10" r="2"/>
+		</svg>
+	);
+}
+
+// Ícone: Retângulo
+export function IconRectangle(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<rect x="3" y="6" width="18" height="12" rx="1"/>
+		</svg>
+	);
+}
+
+// Ícone: Círculo
+export function IconCircle(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<circle cx="12" cy="12" r="9"/>
+			<line x1="12" y1="12" x2="21" y2="12"/>
+			<circle cx="12" cy="12" r="1.5" fill="currentColor" stroke="none"/>
+		</svg>
+	);
+}
+
+// Ícone: Mão livre
+export function IconFreehand(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M5 12c0-5 5-8 9-7s6 5 4 9-6 6-9 5-4-3-4-7z"/>
+		</svg>
+	);
+}
+
 // Ícone: Importar
 export function IconImport(props: React.SVGProps<SVGSVGElement>) {
 	return (
@@ -91,3 +143,178 @@ export function IconTrash(props: React.SVGProps<SVGSVGElement>) {
 		</svg>
 	);
 }
+
+// Ícone: Desfazer
+export function IconUndo(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M9 14L4 9l5-5"/>
+			<path d="M4 9h10.5a5.5 5.5 0 0 1 0 11H11"/>
+		</svg>
+	);
+}
+
+// Ícone: Refazer
+export function IconRedo(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M15 14l5-5-5-5"/>
+			<path d="M20 9H9.5a5.5 5.5 0 0 0 0 11H13"/>
+		</svg>
+	);
+}
+
+// Ícone: Projetos (pasta)
+export function IconFolder(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M3 7a2 2 0 0 1 2-2h4l2 2h8a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"/>
+		</svg>
+	);
+}
+
+// Ícone: Editar vértices
+export function IconEditVertices(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<polyline points="4 18 8 6 18 9"/>
+			<rect x="2" y="16" width="4" height="4" fill="currentColor" stroke="none"/>
+			<rect x="6" y="4" width="4" height="4" fill="currentColor" stroke="none"/>
+			<path d="M14 20l6-6 2 2-6 6h-2z"/>
+		</svg>
+	);
+}
+
+// Ícone: Camadas
+export function IconLayers(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<polygon points="12 2 2 7 12 12 22 7 12 2"/>
+			<polyline points="2 17 12 22 22 17"/>
+			<polyline points="2 12 12 17 22 12"/>
+		</svg>
+	);
+}
+
+// Ícone: Tabela de atributos
+export function IconTable(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<rect x="3" y="4" width="18" height="16" rx="2"/>
+			<line x1="3" y1="10" x2="21" y2="10"/>
+			<line x1="3" y1="15" x2="21" y2="15"/>
+			<line x1="10" y1="4" x2="10" y2="20"/>
+		</svg>
+	);
+}
+
+// Ícone: Estilo temático (paleta)
+export function IconPalette(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M12 3a9 9 0 1 0 0 18c1.1 0 2-.9 2-2 0-.5-.2-1-.5-1.3-.3-.4-.5-.8-.5-1.3 0-1.1.9-2 2-2h2.3c2.6 0 4.7-2.1 4.7-4.7C22 6.2 17.5 3 12 3z"/>
+			<circle cx="7.5" cy="11.5" r="1.2" fill="currentColor" stroke="none"/>
+			<circle cx="10.5" cy="7.5" r="1.2" fill="currentColor" stroke="none"/>
+			<circle cx="15.5" cy="7.5" r="1.2" fill="currentColor" stroke="none"/>
+		</svg>
+	);
+}
+
+// Ícone: Legenda
+export function IconLegend(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<rect x="3" y="4" width="5" height="4" rx="1"/>
+			<rect x="3" y="12" width="5" height="4" rx="1"/>
+			<line x1="11" y1="6" x2="21" y2="6"/>
+			<line x1="11" y1="14" x2="21" y2="14"/>
+			<line x1="3" y1="20" x2="21" y2="20"/>
+		</svg>
+	);
+}
+
+// Ícone: Ímã (snap ao desenhar)
+export function IconMagnet(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M6 3v8a6 6 0 0 0 12 0V3h-4v8a2 2 0 0 1-4 0V3z"/>
+			<line x1="6" y1="7" x2="10" y2="7"/>
+			<line x1="14" y1="7" x2="18" y2="7"/>
+		</svg>
+	);
+}
+
+// Ícone: Régua (medir distância e área)
+export function IconRuler(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M3 17 17 3l4 4L7 21z"/>
+			<line x1="7" y1="13" x2="9" y2="15"/>
+			<line x1="10" y1="10" x2="12" y2="12"/>
+			<line x1="13" y1="7" x2="15" y2="9"/>
+		</svg>
+	);
+}
+
+// Ícone: Unir polígonos
+export function IconMerge(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M3 3h11v6h7v12H10v-6H3z"/>
+		</svg>
+	);
+}
+
+// Ícone: Recortar (diferença entre polígonos)
+export function IconSubtract(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M3 3h11v6H9v5H3z"/>
+			<rect x="9" y="9" width="12" height="12" strokeDasharray="2 2"/>
+		</svg>
+	);
+}
+
+// Ícone: Interseção de polígonos
+export function IconIntersect(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<rect x="3" y="3" width="12" height="12" strokeDasharray="2 2"/>
+			<rect x="9" y="9" width="12" height="12" strokeDasharray="2 2"/>
+			<rect x="9" y="9" width="6" height="6" fill="currentColor"/>
+		</svg>
+	);
+}
+
+// Ícone: Dividir polígono por linha
+export function IconSplit(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<rect x="3" y="5" width="18" height="14"/>
+			<line x1="15" y1="2" x2="9" y2="22"/>
+		</svg>
+	);
+}
+
+// Ícone: Faixa (buffer) em volta de uma linha
+export function IconBuffer(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M4 17 10 9l4 4 6-6"/>
+			<path d="M3 12 9 4h2l4 4 5-5" strokeDasharray="2 2"/>
+			<path d="M5 22l6-7 3 3 7-7" strokeDasharray="2 2"/>
+		</svg>
+	);
+}
+
+// Ícone: Topologia (talhões vizinhos com vão entre eles)
+export function IconTopology(props: React.SVGProps<SVGSVGElement>) {
+	return (
+		<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20" {...props}>
+			<path d="M3 3h8v8H3z"/>
+			<path d="M13 3h8v8h-8z"/>
+			<path d="M3 13h8v8H3z"/>
+			<path d="M14 14l6 6M20 14l-6 6"/>
+		</svg>
+	);
+}
@@ -0,0 +1,102 @@
+import L from 'leaflet';
+import 'leaflet-draw';
+
+// Snap nos desenhos e na edição de vértices do leaflet-draw: os handlers recebem a posição já grudada
+// no vértice, ponto médio ou aresta mais próximos. Os métodos de mouse são trocados só na instância
+// ligada (antes de habilitá-la); as demais instâncias e os protótipos ficam intactos
+
+/** Quem resolve o snap (o componente do mapa, com o núcleo): posição grudada ou null */
+export type LeafletSnap = {
+  snap: (latlng: L.LatLng, originalEvent?: Event) => L.LatLng | null;
+};
+
+// Nos namespaces Draw e Edit, Marker e Polyline são os handlers; estes são as camadas do Leaflet
+type MarkerLayer = L.Marker;
+type PolylineLayer = L.Polyline;
+
+// Membros internos do leaflet-draw usados pelo snap (fora de @types/leaflet-draw)
+declare module 'leaflet' {
+  namespace Draw {
+    interface Polyline {
+      _map: Map;
+      _currentLatLng?: LatLng;
+      _mouseMarker: MarkerLayer;
+      _onMouseMove(e: LeafletMouseEvent): void;
+      _endPoint(clientX: number, clientY: number, e: LeafletMouseEvent): void;
+      _updateTooltip(latlng?: LatLng): void;
+      _updateGuide(newPos?: Point): void;
+    }
+    interface SimpleShape {
+      _onMouseDown(e: LeafletMouseEvent): void;
+      _onMouseMove(e: LeafletMouseEvent): void;
+    }
+    interface Marker {
+      _onMouseMove(e: LeafletMouseEvent): void;
+    }
+  }
+  namespace Edit {
+    /** Editor de vértices das linhas e polígonos (camada.editing); um PolyVerticesEdit por anel */
+    class Poly extends Handler {
+      constructor(poly: PolylineLayer);
+      _verticesHandlers: PolyVerticesEdit[];
+      _initHandlers(): void;
+    }
+    interface PolyVerticesEdit {
+      _onMarkerDrag(e: LeafletEvent & { originalEvent?: Event }): void;
+    }
+  }
+}
+
+// Evento com a posição trocada pela grudada (ou o próprio evento, sem snap)
+function snapEvent(snap: LeafletSnap, e: L.LeafletMouseEvent): L.LeafletMouseEvent {
+  const snapped = snap.snap(e.latlng, e.originalEvent);
+  return snapped ? { ...e, latlng: snapped } : e;
+}
+
+/** Liga o snap a um handler de desenho do leaflet-draw (chamar antes de `enable`) */
+export function snapDrawHandler(handler: L.Draw.Feature, snap: LeafletSnap) {
+  if (handler instanceof L.Draw.Polyline) {
+    // Linha e polígono: o movimento recalcula a posição a partir do evento DOM, então o cursor é corrigido
+    // depois; o clique (fim do ponto) já recebe a posição grudada
+    const mouseMove = handler._onMouseMove;
+    handler._onMouseMove = (e) => {
+      mouseMove.call(handler, e);
+      const snapped = handler._currentLatLng && snap.snap(handler._currentLatLng, e.originalEvent);
+      if (!snapped) return;
+      handler._currentLatLng = snapped;
+      handler._updateTooltip(snapped);
+      handler._updateGuide(handler._map.latLngToLayerPoint(snapped));
+      handler._mouseMarker.setLatLng(snapped);
+    };
+    const endPoint = handler._endPoint;
+    handler._endPoint = (clientX, clientY, e) => endPoint.call(handler, clientX, clientY, snapEvent(snap, e));
+  } else if (handler instanceof L.Draw.SimpleShape) {
+    // Retângulo e círculo: o canto (ou centro) inicial e o ponto sob o cursor
+    const mouseDown = handler._onMouseDown;
+    const mouseMove = handler._onMouseMove;
+    handler._onMouseDown = (e) => mouseDown.call(handler, snapEvent(snap, e));
+    handler._onMouseMove = (e) => mouseMove.call(handler, snapEvent(snap, e));
+  } else if (handler instanceof L.Draw.Marker) {
+    // Ponto: o marcador segue o cursor e é criado onde está
+    const mouseMove = handler._onMouseMove;
+    handler._onMouseMove = (e) => mouseMove.call(handler, snapEvent(snap, e));
+  }
+}
+
+/** Liga o snap ao editor de vértices de uma camada (chamar antes de `enable`; religar não acumula) */
+export function snapVertexEditing(editing: L.Edit.Poly, snap: LeafletSnap) {
+  // Os editores de cada anel são recriados a cada `enable`: o snap entra logo depois
+  editing._initHandlers = () => {
+    L.Edit.Poly.prototype._initHandlers.call(editing);
+    for (const vertices of editing._verticesHandlers) {
+      // O vértice arrastado vai para a posição grudada antes de o polígono ser refeito
+      const markerDrag = vertices._onMarkerDrag;
+      vertices._onMarkerDrag = (e) => {
+        const dragged = e.target as L.Marker;
+        const snapped = snap.snap(dragged.getLatLng(), e.originalEvent);
+        if (snapped) dragged.setLatLng(snapped);
+        markerDrag.call(vertices, e);
+      };
+    }
+  };
+}
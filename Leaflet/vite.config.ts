@@ -3,7 +3,13 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // Os painéis de map-editor-core/ui (fora do app, via link) usam o React e o styled-components deste app
+    dedupe: ['react', 'react-dom', 'styled-components'],
+  },
   server: {
     open: true,
+    // Permite servir o núcleo compartilhado (../Core), ligado via "file:../Core"
+    fs: { allow: ['..'] },
   },
 });
@@ -3,7 +3,77 @@ import type { ChangeEventHandler } from 'react';
 import type { FeatureCollection } from 'geojson';
 import styled from 'styled-components';
 import MapboxMap, { type MapboxMapHandle } from './components/MapboxMap';
+// Painéis comuns aos apps Mapbox e Leaflet
+import {
+  AttributeTable,
+  BufferPanel,
+  CenterOrderNotice,
+  GeometryIssuesPanel,
+  ImportReviewPanel,
+  LayersPanel,
+  MapLegend,
+  MeasurePanel,
+  ProjectPicker,
+  SnapPanel,
+  ThematicPanel,
+  TopologyPanel,
+} from 'map-editor-core/ui';
 import GlobalStyle from './GlobalStyle';
+import {
+  computeCollectionMetrics,
+  coordinateFormatLabels,
+  createProjectSession,
+  defaultSliverAreaM2,
+  defaultSnapOptions,
+  createPrintPdf,
+  createProjectStore,
+  downloadBlob,
+  exportCollection,
+  exportFormatLabels,
+  formatArea,
+  formatLength,
+  getCollectionBBox,
+  getCrs,
+  getFeatureLayer,
+  fromJsonSchema,
+  importAccept,
+  inferAttributeColumns,
+  mapLegendSections,
+  paperOrientationLabels,
+  pdfPaperSizes,
+  printMapFrame,
+  fixImportItems,
+  importNeedsReview,
+  importReportToCollection,
+  prepareImport,
+  scaleBar,
+  setImportDecision,
+  sirgas2000,
+  supportedCrs,
+  toJsonSchema,
+  validateAttributes,
+  type AttributeColumn,
+  type BufferOptions,
+  type CoordinateFormat,
+  type ExportFormat,
+  type GeometryIssue,
+  type ImportDecision,
+  type ImportReport,
+  type MapLayer,
+  type MapMode,
+  type MapScale,
+  type Measurement,
+  type PaperOrientation,
+  type PaperSize,
+  type ProjectSession,
+  type ResolvedCenter,
+  type ProjectSessionState,
+  type SnapOptions,
+  type ThematicStyle,
+  type TopologyGap,
+  type TopologyOverlap,
+  type TopologyReport,
+} from 'map-editor-core';
 
 // Layout base
 const AppShell = styled.div`
@@ -11,6 +81,7 @@ const AppShell = styled.div`
   height: 100vh;
   background-color: #f1f5f9;
   position: relative;
+  display: flex;
 `;
 
 // Toolbar vertical no topo direito
@@ -50,6 +121,7 @@ const IconButton = styled.button`
   line-height: 1;
   &:first-child { border-left: none; }
   &:hover { background: #f8fafc; }
+  &:disabled { color: #cbd5e1; cursor: default; background: #fff; }
 `;
 
 const InfoChip = styled.div`
@@ -68,10 +140,19 @@ const InfoChip = styled.div`
   z-index: 22;
 `;
 
+// Legenda no canto inferior esquerdo do mapa (mesmo visual do chip de informação)
+const LegendChip = styled(InfoChip)`
+  right: auto;
+  left: 10px;
+  bottom: 36px;
+  max-height: 40vh;
+  overflow-y: auto;
+`;
+
 const MapWrapper = styled.section`
   position: relative;
   height: 100%;
-  width: 100%;
+  flex: 1;
   min-height: 0;
   min-width: 0;
 `;
@@ -104,13 +185,10 @@ const TokenWarning = styled.div`
   & a { color: #bfdbfe; text-decoration: underline; }
 `;
 
-const emptyCollection: FeatureCollection = { type: 'FeatureCollection', features: [] };
+// Estilo do tema do MapboxDraw nas feições sem propriedades de estilo (para a legenda)
+const legendFallbackStyle = { fillColor: '#3bb2d0', fillOpacity: 0.1, strokeColor: '#3bb2d0', strokeWidth: 2 };
 
-function isFeatureCollection(value: unknown): value is FeatureCollection {
-  if (typeof value !== 'object' || value === null) return false;
-  const maybe = value as FeatureCollection;
-  return maybe.type === 'FeatureCollection' && Array.isArray(maybe.features);
-}
+const emptyCollection: FeatureCollection = { type: 'FeatureCollection', features: [] };
 
 function App() {
   const accessToken = import.meta.env.VITE_MAPBOX_TOKEN as string | undefined;
@@ -119,8 +197,14 @@ function App() {
   const [drawData, setDrawData] = useState<FeatureCollection>(emptyCollection);
   const [error, setError] = useState<string | null>(null);
   const [lastImportedFile, setLastImportedFile] = useState<string | null>(null);
+  // Importação aguardando revisão (relatório com avisos ou erro de leitura)
+  const [importReview, setImportReview] = useState<{ fileName: string; report: ImportReport | null; error: string | null } | null>(null);
+  // Centro inicial com suspeita de latitude/longitude trocadas
+  const [centerWarning, setCenterWarning] = useState<ResolvedCenter | null>(null);
   const [mapReady, setMapReady] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  // Formato dos rótulos de coordenadas dos vértices (decimal, DMS, DDM, UTM)
+  const [coordinateFormat, setCoordinateFormat] = useState<CoordinateFormat>('decimal');
 
   // Fallback: some o overlay após 3s se algo falhar
   useEffect(() => {
@@ -142,20 +226,128 @@ function App() {
     onFsChange();
     return () => document.removeEventListener('fullscreenchange', onFsChange);
   }, []);
-  // Atualiza estado quando os desenhos mudam
+  // Habilita os botões de desfazer/refazer conforme o histórico do mapa
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  // Projetos salvos no IndexedDB (salvamento automático) e painel de seleção
+  const [projectState, setProjectState] = useState<ProjectSessionState>({ projects: [], currentId: null });
+  const [projectPickerOpen, setProjectPickerOpen] = useState(false);
+  const projectSessionRef = useRef<ProjectSession | null>(null);
+  const getProjectSession = () => {
+    if (!projectSessionRef.current) {
+      projectSessionRef.current = createProjectSession({
+        store: createProjectStore(),
+        getHandle: () => mapRef.current,
+        onStateChange: setProjectState,
+      });
+    }
+    return projectSessionRef.current;
+  };
+  const currentProject = projectState.projects.find(p => p.id === projectState.currentId);
+
+  // Mapa carregado: reabre o último projeto (desenhos, centro e zoom)
+  const handleMapLoad = () => {
+    setMapReady(true);
+    setError(null);
+    getProjectSession().start().catch(err => console.error('Erro ao abrir o projeto salvo:', err));
+  };
+
+  // Grava o pendente ao esconder/fechar a aba
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') void projectSessionRef.current?.flush();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  // Atualiza estado quando os desenhos mudam e agenda o salvamento automático
   const handleDrawChange = (collection: FeatureCollection) => {
     setDrawData(collection);
+    setCanUndo(!!mapRef.current?.canUndo());
+    setCanRedo(!!mapRef.current?.canRedo());
+    getProjectSession().handleDrawChange(collection);
   };
 
+  // Atalhos: Ctrl+Z desfaz, Ctrl+Shift+Z refaz (Cmd no macOS); campos de texto mantêm o comportamento nativo
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      event.preventDefault();
+      if (event.shiftKey) mapRef.current?.redo?.();
+      else mapRef.current?.undo?.();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   // Contador de polígonos
   const polygonCount = drawData.features.filter(
     (f) => f.geometry && (f.geometry.type === 'Polygon' || f.geometry.type === 'MultiPolygon')
   ).length;
+  // Totais de área/perímetro (geodésicos, buracos descontados)
+  const totals = computeCollectionMetrics(drawData);
+  // Exportar com área/perímetro gravados nas propriedades dos polígonos
+  const [exportMetrics, setExportMetrics] = useState(false);
+  // Menu de exportação (GeoJSON, KML, KMZ, Shapefile) e SRC do shapefile
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [exportCrs, setExportCrs] = useState(sirgas2000.code);
+  // PDF para impressão (folha, orientação e título) e captura em andamento
+  const [printPaper, setPrintPaper] = useState<PaperSize>('A4');
+  const [printOrientation, setPrintOrientation] = useState<PaperOrientation>('landscape');
+  const [printTitle, setPrintTitle] = useState('');
+  const [printing, setPrinting] = useState(false);
+
+  // Camadas e colunas de atributos do usuário (espelho do editor) e seleção atual, para os painéis
+  const [layers, setLayers] = useState<MapLayer[]>([]);
+  const [activeLayer, setActiveLayer] = useState('');
+  const [attributeColumns, setAttributeColumns] = useState<AttributeColumn[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [layersPanelOpen, setLayersPanelOpen] = useState(false);
+  const [attributeTableOpen, setAttributeTableOpen] = useState(false);
+  const [thematic, setThematic] = useState<ThematicStyle | null>(null);
+  const [thematicPanelOpen, setThematicPanelOpen] = useState(false);
+  // Modo de interação do mapa (destaca o botão do desenho em andamento)
+  const [mapMode, setMapMode] = useState<MapMode>('select');
+  // Medição temporária (fora dos desenhos): resultado ao vivo e painel
+  const [measurement, setMeasurement] = useState<Measurement | null>(null);
+  const [measurePanelOpen, setMeasurePanelOpen] = useState(false);
+  // Snap ao desenhar e editar (tolerância e alvos) e seu painel
+  const [snapOptions, setSnapOptions] = useState<SnapOptions>(defaultSnapOptions);
+  const [snapPanelOpen, setSnapPanelOpen] = useState(false);
+  // Painel da faixa (buffer)
+  const [bufferPanelOpen, setBufferPanelOpen] = useState(false);
+  // Legenda, escala e norte sobre o mapa (também entram na imagem exportada)
+  const [legendVisible, setLegendVisible] = useState(true);
+  const [mapScale, setMapScale] = useState<MapScale | null>(null);
 
   // Ações da toolbar
   const handleDrawPolygon = () => mapRef.current?.startDrawPolygon?.();
   const handleZoomIn = () => mapRef.current?.zoomIn?.();
   const handleZoomOut = () => mapRef.current?.zoomOut?.();
+  // Operações entre polígonos: precisam de polígonos (e, para dividir, de uma linha) na seleção
+  const selectedGeometryTypes = drawData.features.filter(f => selectedIds.includes(String(f.id))).map(f => f.geometry?.type);
+  const selectedPolygonCount = selectedGeometryTypes.filter(t => t === 'Polygon' || t === 'MultiPolygon').length;
+  const selectedLineCount = selectedGeometryTypes.filter(t => t === 'LineString' || t === 'MultiLineString').length;
+  const handleSubtract = () => {
+    if (!mapRef.current?.subtractSelected()) alert('O recorte removeria todo o polígono.');
+  };
+  const handleIntersect = () => {
+    if (!mapRef.current?.intersectSelected()) alert('Os polígonos selecionados não se sobrepõem.');
+  };
+  const handleSplit = () => {
+    if (!mapRef.current?.splitSelectedByLine().length) alert('A linha precisa atravessar o polígono de um lado a outro.');
+  };
+  const handleBuffer = (distance: number, options: BufferOptions & { layer: string }) => {
+    if (mapRef.current?.bufferSelected(distance, options).length) setBufferPanelOpen(false);
+    else if (!selectedIds.length) alert('Selecione as feições em volta das quais criar a faixa.');
+    else if (!(distance > 0)) alert('A distância da faixa precisa ser maior que zero.');
+    else if (options.inward && !selectedPolygonCount) alert('A bordadura só vale para polígonos.');
+    else alert('Nenhuma faixa foi criada para as feições selecionadas.');
+  };
   // Fullscreen no wrapper para manter a toolbar visível no modo tela cheia
   const handleFullscreen = () => {
     const el = wrapperRef.current as any;
@@ -164,6 +356,132 @@ function App() {
     }
   };
   const handleClear = () => mapRef.current?.deleteSelected?.();
+  const handleUndo = () => mapRef.current?.undo?.();
+  const handleRedo = () => mapRef.current?.redo?.();
+
+  // Problemas de geometria: revalidados a cada feição criada, alterada ou removida (desenho, edição e importação)
+  const [geometryIssues, setGeometryIssues] = useState<GeometryIssue[]>([]);
+  useEffect(() => {
+    const handle = mapRef.current;
+    if (!mapReady || !handle) return;
+    const revalidate = () => setGeometryIssues(handle.validateGeometry());
+    const unsubscribe = [handle.on('create', revalidate), handle.on('update', revalidate), handle.on('delete', revalidate)];
+    revalidate();
+    return () => unsubscribe.forEach(off => off());
+  }, [mapReady]);
+
+  // Topologia (sobreposições e vãos): reconferida a cada alteração enquanto o painel está aberto
+  const [topologyPanelOpen, setTopologyPanelOpen] = useState(false);
+  const [sliverAreaM2, setSliverAreaM2] = useState(defaultSliverAreaM2);
+  const [topologyReport, setTopologyReport] = useState<TopologyReport | null>(null);
+  useEffect(() => {
+    const handle = mapRef.current;
+    if (!mapReady || !topologyPanelOpen || !handle) return;
+    const reaudit = () => setTopologyReport(handle.auditTopology({ sliverAreaM2 }));
+    const unsubscribe = [handle.on('create', reaudit), handle.on('update', reaudit), handle.on('delete', reaudit)];
+    reaudit();
+    // Fechar o painel apaga o destaque
+    return () => {
+      unsubscribe.forEach(off => off());
+      handle.clearTopologyIssues();
+    };
+  }, [mapReady, topologyPanelOpen, sliverAreaM2]);
+
+  // Acompanha camadas, colunas, estilo temático, modo, medição, seleção e escala do editor
+  useEffect(() => {
+    const handle = mapRef.current;
+    if (!mapReady || !handle) return;
+    setLayers(handle.getLayers());
+    setActiveLayer(handle.getActiveLayer());
+    setAttributeColumns(handle.getAttributeColumns());
+    setThematic(handle.getThematicStyle());
+    setMapScale(handle.getMapScale());
+    const unsubscribe = [
+      handle.on('layerchange', (e) => { setLayers(e.layers); setActiveLayer(e.activeLayer); }),
+      handle.on('columnschange', (e) => setAttributeColumns(e.columns)),
+      handle.on('thematicchange', (e) => setThematic(e.style)),
+      handle.on('measurechange', (e) => setMeasurement(e.measurement)),
+      handle.on('modechange', (e) => setMapMode(e.mode)),
+      handle.on('select', (e) => setSelectedIds(e.ids)),
+      handle.on('viewchange', () => setMapScale(handle.getMapScale())),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [mapReady]);
+
+  // Itens da legenda: classes da regra temática e estilos em uso
+  const legendSections = mapLegendSections(drawData.features, { layers, thematic, columns: attributeColumns, fallback: legendFallbackStyle });
+
+  // Quantidade de feições por camada (exibida no painel)
+  const layerFeatureCounts: Record<string, number> = {};
+  for (const feature of drawData.features) {
+    const name = getFeatureLayer(feature);
+    if (name) layerFeatureCounts[name] = (layerFeatureCounts[name] ?? 0) + 1;
+  }
+
+  const handleRemoveLayer = (name: string) => {
+    if (layers.find(l => l.name === name)?.locked) {
+      alert(`A camada "${name}" está travada. Destrave-a antes de removê-la.`);
+      return;
+    }
+    const count = layerFeatureCounts[name] ?? 0;
+    let deleteFeatures = false;
+    if (count) {
+      // OK exclui as feições junto; Cancelar as move para outra camada
+      deleteFeatures = window.confirm(`A camada "${name}" tem ${count} ${count === 1 ? 'feição' : 'feições'}. Excluir as feições junto com a camada?\n(Cancelar move as feições para a camada ativa)`);
+    }
+    mapRef.current?.removeLayer(name, { deleteFeatures });
+  };
+
+  // Pendências do esquema (colunas obrigatórias, tipo e lista de valores): marcadas na tabela e bloqueiam a exportação
+  const schemaViolations = validateAttributes(drawData.features, attributeColumns);
+  const pendingFeatureCount = new Set(schemaViolations.map(v => v.featureId)).size;
+
+  // Baixa as colunas como JSON Schema
+  const handleSaveSchema = () => {
+    const schema = toJsonSchema(attributeColumns, currentProject ? `Atributos - ${currentProject.name}` : undefined);
+    downloadBlob(new Blob([JSON.stringify(schema, null, 2)], { type: 'application/schema+json' }), `${currentProject?.name ?? 'esquema'}.schema.json`);
+  };
+
+  // Substitui as colunas pelas de um JSON Schema (propriedades já gravadas sem coluna continuam visíveis)
+  const handleLoadSchema = async (file: File) => {
+    try {
+      const columns = fromJsonSchema(await file.text());
+      mapRef.current?.setAttributeColumns([...columns, ...inferAttributeColumns(drawData.features, columns)]);
+    } catch (schemaError) {
+      console.error(schemaError);
+      alert(`Não foi possível carregar o esquema: ${schemaError instanceof Error ? schemaError.message : schemaError}`);
+    }
+  };
+
+  // Seleciona a feição do problema e centraliza o mapa nele
+  const handleSelectIssue = (issue: GeometryIssue) => {
+    mapRef.current?.selectById(issue.featureId);
+    mapRef.current?.flyTo({ lng: issue.location[0], lat: issue.location[1] });
+  };
+
+  // Corrige tudo que tem correção automática (a revalidação vem pelo evento 'update')
+  const handleRepairGeometry = () => {
+    if (!mapRef.current?.repairGeometry().length) alert('Nenhuma geometria pôde ser corrigida automaticamente.');
+  };
+
+  // Esconde o painel e o destaque até a próxima alteração
+  const handleDismissIssues = () => {
+    mapRef.current?.clearGeometryIssues();
+    setGeometryIssues([]);
+  };
+
+  // Topologia: clique no item seleciona as feições envolvidas e centraliza; a correção é um passo do histórico
+  const handleSelectOverlap = (overlap: TopologyOverlap) => {
+    mapRef.current?.selectByIds(overlap.ids);
+    mapRef.current?.flyTo({ lng: overlap.location[0], lat: overlap.location[1] });
+  };
+  const handleSelectGap = (gap: TopologyGap) => {
+    mapRef.current?.selectByIds(gap.neighbourIds);
+    mapRef.current?.flyTo({ lng: gap.location[0], lat: gap.location[1] });
+  };
+  const handleFixTopology = () => {
+    if (!mapRef.current?.fixTopology({ sliverAreaM2 }).length) alert('Nenhuma lasca pôde ser corrigida automaticamente.');
+  };
 
   // Estado para o seletor de cor do polígono
   const [colorPickerOpen, setColorPickerOpen] = useState(false);
@@ -298,35 +616,105 @@ function App() {
     setTextPickerOpen(false);
   };
 
-  const exportGeoJson = () => {
-    const data = mapRef.current?.getDrawData?.();
+  const exportDrawings = (format: ExportFormat) => {
+    const data = mapRef.current?.getDrawData?.({ includeMetrics: exportMetrics });
+    setExportMenuOpen(false);
     if (!data) return;
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/geo+json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'desenhos.geojson';
-    a.click();
-    URL.revokeObjectURL(url);
+    // Feições fora do esquema só saem com a confirmação do usuário
+    if (pendingFeatureCount && !window.confirm(`${pendingFeatureCount} ${pendingFeatureCount === 1 ? 'feição não atende' : 'feições não atendem'} ao esquema de atributos (veja a tabela de atributos). Exportar mesmo assim?`)) return;
+    try {
+      const { blob, fileName } = exportCollection(data, format, { crs: getCrs(exportCrs) });
+      downloadBlob(blob, fileName);
+    } catch (exportError) {
+      console.error(exportError);
+      alert(`Falha ao exportar: ${exportError instanceof Error ? exportError.message : exportError}`);
+    }
+  };
+
+  // Vista atual em PNG (com a legenda, se estiver visível), em resolução dobrada
+  const exportMapImage = async () => {
+    if (!mapRef.current) return;
+    setExportMenuOpen(false);
+    setPrinting(true);
+    try {
+      const image = await mapRef.current.exportImage({ dpi: 192, legend: legendVisible ? legendSections : undefined });
+      downloadBlob(image.blob, `${currentProject?.name ?? 'mapa'}.png`);
+    } catch (imageError) {
+      console.error(imageError);
+      alert(`Falha ao gerar a imagem: ${imageError instanceof Error ? imageError.message : imageError}`);
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  // PDF para impressão: mapa com grade, legenda, escala e norte e a tabela de áreas das feições
+  const exportPrintPdf = async () => {
+    if (!mapRef.current) return;
+    setExportMenuOpen(false);
+    setPrinting(true);
+    try {
+      const layout = { paper: printPaper, orientation: printOrientation };
+      const frame = printMapFrame(layout);
+      const image = await mapRef.current.exportImage({ width: frame.imageWidth, height: frame.imageHeight, dpi: 150, format: 'jpeg' });
+      const pdf = await createPrintPdf({
+        ...layout,
+        title: printTitle.trim() || currentProject?.name || 'Mapa',
+        image,
+        legend: legendSections,
+        features: mapRef.current.getDrawData().features,
+      });
+      downloadBlob(pdf, `${currentProject?.name ?? 'mapa'}.pdf`);
+    } catch (pdfError) {
+      console.error(pdfError);
+      alert(`Falha ao gerar o PDF: ${pdfError instanceof Error ? pdfError.message : pdfError}`);
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const loadImportReport = (report: ImportReport) => {
+    report.changes.forEach(change => console.info(`[importação] ${report.fileName}: ${change}`));
+    mapRef.current?.loadGeoJson?.(importReportToCollection(report), { fitBounds: true });
+    setLastImportedFile(report.fileName);
   };
 
   const handleFileUpload: ChangeEventHandler<HTMLInputElement> = async (event) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
     try {
-      const file = event.target.files?.[0];
-      if (!file) return;
-      const text = await file.text();
-      const json = JSON.parse(text);
-      if (!isFeatureCollection(json)) {
-        throw new Error('Arquivo não é um FeatureCollection válido');
-      }
-      mapRef.current?.loadGeoJson?.(json, { fitBounds: true });
-      setLastImportedFile(file.name);
+      // GeoJSON (também Feature, geometria solta ou NDJSON), KML, KMZ ou shapefile .zip, sempre em WGS84
+      const report = await prepareImport(file, { referenceExtent: getCollectionBBox(drawData) ?? undefined });
+      // Sem avisos, carrega direto; senão abre a revisão para aceitar, ignorar ou corrigir
+      if (importNeedsReview(report)) setImportReview({ fileName: file.name, report, error: null });
+      else loadImportReport(report);
     } catch (uploadError) {
       console.error(uploadError);
-      alert('Falha ao importar o GeoJSON. Verifique o arquivo.');
+      setImportReview({ fileName: file.name, report: null, error: uploadError instanceof Error ? uploadError.message : String(uploadError) });
+    } finally {
+      event.target.value = '';
     }
   };
 
+  // Troca latitude/longitude do centro inicial (aviso do mapa) e registra no console
+  const handleSwapCenter = ([lng, lat]: [number, number]) => {
+    const zoom = mapRef.current?.getView()?.zoom ?? 17;
+    mapRef.current?.setView({ lng, lat, zoom });
+    console.info(`[mapa] centro inicial trocado de ${centerWarning?.check?.center.join(', ')} para ${lng}, ${lat}`);
+    setCenterWarning(null);
+  };
+
+  // Ações do painel de revisão da importação
+  const handleImportDecision = (decision: ImportDecision, key?: string) => {
+    setImportReview(prev => (prev?.report ? { ...prev, report: setImportDecision(prev.report, decision, key) } : prev));
+  };
+  const handleImportFix = (key?: string) => {
+    setImportReview(prev => (prev?.report ? { ...prev, report: fixImportItems(prev.report, key) } : prev));
+  };
+  const handleImportConfirm = () => {
+    if (importReview?.report) loadImportReport(importReview.report);
+    setImportReview(null);
+  };
+
   if (!accessToken) {
     return (
       <>
@@ -350,6 +738,22 @@ function App() {
     <>
       <GlobalStyle />
       <AppShell>
+        {attributeTableOpen && (
+          <AttributeTable
+            features={drawData.features}
+            columns={attributeColumns}
+            violations={schemaViolations}
+            selectedIds={selectedIds}
+            onSelect={(ids) => mapRef.current?.selectByIds(ids)}
+            onEdit={(id, key, value) => mapRef.current?.setFeatureAttributes([id], { [key]: value })}
+            onAddColumn={(column) => mapRef.current?.addAttributeColumn(column)}
+            onUpdateColumn={(key, patch) => mapRef.current?.updateAttributeColumn(key, patch)}
+            onRemoveColumn={(key) => mapRef.current?.removeAttributeColumn(key)}
+            onSaveSchema={handleSaveSchema}
+            onLoadSchema={handleLoadSchema}
+            onClose={() => setAttributeTableOpen(false)}
+          />
+        )}
   <MapWrapper ref={wrapperRef as any}>
           <MapboxMap
             ref={mapRef}
@@ -357,7 +761,10 @@ function App() {
             initialCenter={[-56.93025371958118, -14.886187924998506]}
             initialZoom={17}
             onDrawChange={handleDrawChange}
-            onMapLoad={() => { setMapReady(true); setError(null); }}
+            coordinateFormat={coordinateFormat}
+            snapOptions={snapOptions}
+            onMapLoad={handleMapLoad}
+            onCenterOrderWarning={setCenterWarning}
             onMapError={() => { setMapReady(false); setError('Não foi possível carregar o mapa. Verifique seu token ou conexão com a internet.'); }}
           />
           {!mapReady && !error && (<MapLoading>Carregando mapa...</MapLoading>)}
@@ -401,7 +808,21 @@ function App() {
               )}
             </ToolGroup>
             <ToolGroup>
-              <IconButton aria-label="Desenhar polígono" onClick={handleDrawPolygon} title="Desenhar polígono">
+              <IconButton aria-label="Desfazer" onClick={handleUndo} disabled={!canUndo} title="Desfazer (Ctrl+Z)">
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <path d="M9 14L4 9l5-5"/>
+                  <path d="M4 9h10.5a5.5 5.5 0 0 1 0 11H11"/>
+                </svg>
+              </IconButton>
+              <IconButton aria-label="Refazer" onClick={handleRedo} disabled={!canRedo} title="Refazer (Ctrl+Shift+Z)">
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <path d="M15 14l5-5-5-5"/>
+                  <path d="M20 9H9.5a5.5 5.5 0 0 0 0 11H13"/>
+                </svg>
+              </IconButton>
+            </ToolGroup>
+            <ToolGroup>
+              <IconButton aria-label="Desenhar polígono" aria-pressed={mapMode === 'draw_polygon'} onClick={handleDrawPolygon} title="Desenhar polígono">
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
                   <polygon points="7 3 17 3 21 9 17 21 7 21 3 9"/>
                   <circle cx="7" cy="3" r="1.5" fill="currentColor" stroke="none"/>
@@ -412,26 +833,342 @@ function App() {
                   <circle cx="3" cy="9" r="1.5" fill="currentColor" stroke="none"/>
                 </svg>
               </IconButton>
+              <IconButton aria-label="Desenhar linha" aria-pressed={mapMode === 'draw_line'} onClick={() => mapRef.current?.startDrawLine()} title="Desenhar linha (estradas, cercas)">
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <polyline points="3 19 9 11 15 15 21 5"/>
+                  <circle cx="3" cy="19" r="1.5" fill="currentColor" stroke="none"/>
+                  <circle cx="9" cy="11" r="1.5" fill="currentColor" stroke="none"/>
+                  <circle cx="15" cy="15" r="1.5" fill="currentColor" stroke="none"/>
+                  <circle cx="21" cy="5" r="1.5" fill="currentColor" stroke="none"/>
+                </svg>
+              </IconButton>
+              <IconButton aria-label="Marcar ponto" aria-pressed={mapMode === 'draw_point'} onClick={() => mapRef.current?.startDrawPoint()} title="Marcar ponto (poços, porteiras)">
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <path d="M12 21s-6-5.5-6-11a6 6 0 0 1 12 0c0 5.5-6 11-6 11z"/>
+                  <circle cx="12" cy="10" r="2"/>
+                </svg>
+              </IconButton>
+              <IconButton aria-label="Desenhar retângulo" aria-pressed={mapMode === 'draw_rectangle'} onClick={() => mapRef.current?.startDrawRectangle()} title="Desenhar retângulo">
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <rect x="3" y="6" width="18" height="12" rx="1"/>
+                </svg>
+              </IconButton>
+              <IconButton aria-label="Desenhar círculo" aria-pressed={mapMode === 'draw_circle'} onClick={() => mapRef.current?.startDrawCircle()} title="Desenhar círculo (centro e raio, ex.: pivô)">
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <circle cx="12" cy="12" r="9"/>
+                  <line x1="12" y1="12" x2="21" y2="12"/>
+                  <circle cx="12" cy="12" r="1.5" fill="currentColor" stroke="none"/>
+                </svg>
+              </IconButton>
+              <IconButton aria-label="Desenhar à mão livre" aria-pressed={mapMode === 'draw_freehand'} onClick={() => mapRef.current?.startDrawFreehand()} title="Desenhar polígono à mão livre (arraste)">
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <path d="M5 12c0-5 5-8 9-7s6 5 4 9-6 6-9 5-4-3-4-7z"/>
+                </svg>
+              </IconButton>
             </ToolGroup>
+            {/* Operações entre polígonos: o primeiro selecionado recebe o resultado (Shift+clique seleciona vários) */}
             <ToolGroup>
-              <IconButton as="label" aria-label="Importar GeoJSON" title="Importar GeoJSON">
+              <IconButton aria-label="Unir polígonos" onClick={() => mapRef.current?.mergeSelected()} disabled={selectedPolygonCount < 2} title="Unir os polígonos selecionados">
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
-                  <path d="M12 3v10"/>
-                  <path d="M8 9l4 4 4-4"/>
-                  <rect x="4" y="17" width="16" height="4" rx="1"/>
+                  <path d="M3 3h11v6h7v12H10v-6H3z"/>
+                </svg>
+              </IconButton>
+              <IconButton aria-label="Recortar polígono" onClick={handleSubtract} disabled={selectedPolygonCount < 2} title="Recortar do primeiro polígono selecionado a área dos demais">
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <path d="M3 3h11v6H9v5H3z"/>
+                  <rect x="9" y="9" width="12" height="12" strokeDasharray="2 2"/>
+                </svg>
+              </IconButton>
+              <IconButton aria-label="Interseção" onClick={handleIntersect} disabled={selectedPolygonCount < 2} title="Manter só a área comum aos polígonos selecionados">
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <rect x="3" y="3" width="12" height="12" strokeDasharray="2 2"/>
+                  <rect x="9" y="9" width="12" height="12" strokeDasharray="2 2"/>
+                  <rect x="9" y="9" width="6" height="6" fill="currentColor"/>
+                </svg>
+              </IconButton>
+              <IconButton aria-label="Dividir por linha" onClick={handleSplit} disabled={!selectedPolygonCount || !selectedLineCount} title="Dividir os polígonos selecionados pela linha selecionada">
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <rect x="3" y="5" width="18" height="14"/>
+                  <line x1="15" y1="2" x2="9" y2="22"/>
+                </svg>
+              </IconButton>
+            </ToolGroup>
+            {/* Faixa (buffer) em volta das feições selecionadas: APP de rios, bordaduras */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton aria-label="Faixa" onClick={() => setBufferPanelOpen(v => !v)} disabled={!selectedIds.length} title="Criar faixa (buffer) em volta das feições selecionadas">
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                    <path d="M4 17 10 9l4 4 6-6"/>
+                    <path d="M3 12 9 4h2l4 4 5-5" strokeDasharray="2 2"/>
+                    <path d="M5 22l6-7 3 3 7-7" strokeDasharray="2 2"/>
+                  </svg>
+                </IconButton>
+                {bufferPanelOpen && selectedIds.length > 0 && (
+                  <BufferPanel
+                    layers={layers}
+                    activeLayer={activeLayer}
+                    hasPolygon={selectedPolygonCount > 0}
+                    onApply={handleBuffer}
+                    onClose={() => setBufferPanelOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            {/* Topologia: sobreposições e vãos entre talhões vizinhos */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton aria-label="Topologia" aria-pressed={topologyPanelOpen} onClick={() => setTopologyPanelOpen(v => !v)} title="Conferir sobreposições e vãos entre polígonos">
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                    <path d="M3 3h8v8H3z"/>
+                    <path d="M13 3h8v8h-8z"/>
+                    <path d="M3 13h8v8H3z"/>
+                    <path d="M14 14l6 6M20 14l-6 6"/>
+                  </svg>
+                </IconButton>
+                {topologyPanelOpen && (
+                  <TopologyPanel
+                    report={topologyReport}
+                    sliverAreaM2={sliverAreaM2}
+                    onSliverAreaChange={setSliverAreaM2}
+                    onSelectOverlap={handleSelectOverlap}
+                    onSelectGap={handleSelectGap}
+                    onFix={handleFixTopology}
+                    onClose={() => setTopologyPanelOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton aria-label="Projetos" title={currentProject ? `Projeto: ${currentProject.name}` : 'Projetos'} onClick={() => setProjectPickerOpen(v => !v)}>
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                    <path d="M3 7a2 2 0 0 1 2-2h4l2 2h8a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"/>
+                  </svg>
+                </IconButton>
+                {projectPickerOpen && (
+                  <ProjectPicker
+                    projects={projectState.projects}
+                    currentId={projectState.currentId}
+                    onOpen={(id) => { getProjectSession().open(id).catch(console.error); setProjectPickerOpen(false); }}
+                    onCreate={(name) => { getProjectSession().create(name).catch(console.error); setProjectPickerOpen(false); }}
+                    onRename={(id, name) => { getProjectSession().rename(id, name).catch(console.error); }}
+                    onDuplicate={(id) => { getProjectSession().duplicate(id).catch(console.error); }}
+                    onDelete={(id) => { getProjectSession().remove(id).catch(console.error); }}
+                    onClose={() => setProjectPickerOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton aria-label="Camadas" title={activeLayer ? `Camadas (ativa: ${activeLayer})` : 'Camadas'} onClick={() => setLayersPanelOpen(v => !v)}>
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                    <polygon points="12 2 2 7 12 12 22 7 12 2"/>
+                    <polyline points="2 17 12 22 22 17"/>
+                    <polyline points="2 12 12 17 22 12"/>
+                  </svg>
+                </IconButton>
+                {layersPanelOpen && (
+                  <LayersPanel
+                    layers={layers}
+                    activeLayer={activeLayer}
+                    featureCounts={layerFeatureCounts}
+                    hasSelection={selectedIds.length > 0}
+                    onSetActive={(name) => mapRef.current?.setActiveLayer(name)}
+                    onUpdate={(name, patch) => mapRef.current?.updateLayer(name, patch)}
+                    onMove={(name, index) => mapRef.current?.moveLayer(name, index)}
+                    onAdd={(name) => { const added = mapRef.current?.addLayer(name); if (added) mapRef.current?.setActiveLayer(added); }}
+                    onRemove={handleRemoveLayer}
+                    onApplyStyle={(name) => mapRef.current?.applyLayerStyle(name)}
+                    onMoveSelection={(name) => mapRef.current?.moveSelectedToLayer(name)}
+                    onClose={() => setLayersPanelOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            <ToolGroup>
+              <IconButton
+                aria-label="Tabela de atributos"
+                aria-pressed={attributeTableOpen}
+                title={attributeTableOpen ? 'Fechar tabela de atributos' : 'Tabela de atributos'}
+                onClick={() => setAttributeTableOpen(v => !v)}
+              >
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <rect x="3" y="4" width="18" height="16" rx="2"/>
+                  <line x1="3" y1="10" x2="21" y2="10"/>
+                  <line x1="3" y1="15" x2="21" y2="15"/>
+                  <line x1="10" y1="4" x2="10" y2="20"/>
+                </svg>
+              </IconButton>
+            </ToolGroup>
+            {/* Mostra/oculta a legenda, a escala e o norte */}
+            <ToolGroup>
+              <IconButton
+                aria-label="Legenda"
+                aria-pressed={legendVisible}
+                title={legendVisible ? 'Ocultar legenda, escala e norte' : 'Mostrar legenda, escala e norte'}
+                onClick={() => setLegendVisible(v => !v)}
+              >
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                  <rect x="3" y="4" width="5" height="4" rx="1"/>
+                  <rect x="3" y="12" width="5" height="4" rx="1"/>
+                  <line x1="11" y1="6" x2="21" y2="6"/>
+                  <line x1="11" y1="14" x2="21" y2="14"/>
+                  <line x1="3" y1="20" x2="21" y2="20"/>
                 </svg>
-                <input type="file" accept=".json,.geojson,application/geo+json" onChange={handleFileUpload} style={{ display: 'none' }} />
               </IconButton>
             </ToolGroup>
+            {/* Estilo temático: cores pelo valor de um atributo */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton
+                  aria-label="Estilo temático"
+                  aria-pressed={!!thematic}
+                  title={thematic ? `Estilo temático: ${thematic.attribute}` : 'Estilo temático'}
+                  onClick={() => setThematicPanelOpen(v => !v)}
+                >
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                    <path d="M12 3a9 9 0 1 0 0 18c1.1 0 2-.9 2-2 0-.5-.2-1-.5-1.3-.3-.4-.5-.8-.5-1.3 0-1.1.9-2 2-2h2.3c2.6 0 4.7-2.1 4.7-4.7C22 6.2 17.5 3 12 3z"/>
+                    <circle cx="7.5" cy="11.5" r="1.2" fill="currentColor" stroke="none"/>
+                    <circle cx="10.5" cy="7.5" r="1.2" fill="currentColor" stroke="none"/>
+                    <circle cx="15.5" cy="7.5" r="1.2" fill="currentColor" stroke="none"/>
+                  </svg>
+                </IconButton>
+                {thematicPanelOpen && (
+                  <ThematicPanel
+                    style={thematic}
+                    columns={attributeColumns}
+                    features={drawData.features}
+                    onApply={(style) => mapRef.current?.setThematicStyle(style)}
+                    onClose={() => setThematicPanelOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            {/* Medição de distância e área (não cria desenhos) */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton
+                  aria-label="Medir"
+                  aria-pressed={!!measurement}
+                  title="Medir distância ou área"
+                  onClick={() => setMeasurePanelOpen(v => !v)}
+                >
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                    <path d="M3 17 17 3l4 4L7 21z"/>
+                    <line x1="7" y1="13" x2="9" y2="15"/>
+                    <line x1="10" y1="10" x2="12" y2="12"/>
+                    <line x1="13" y1="7" x2="15" y2="9"/>
+                  </svg>
+                </IconButton>
+                {measurePanelOpen && (
+                  <MeasurePanel
+                    measurement={measurement}
+                    onStart={(kind) => mapRef.current?.startMeasure(kind)}
+                    onClear={() => mapRef.current?.clearMeasure()}
+                    onClose={() => setMeasurePanelOpen(false)}
+                  />
+                )}
+              </div>
+            </ToolGroup>
+            {/* Snap nos vértices, pontos médios e arestas ao desenhar e editar */}
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton
+                  aria-label="Snap"
+                  aria-pressed={snapOptions.enabled}
+                  title={snapOptions.enabled ? `Snap ligado (${snapOptions.tolerance} px)` : 'Snap desligado'}
+                  onClick={() => setSnapPanelOpen(v => !v)}
+                >
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                    <path d="M6 3v8a6 6 0 0 0 12 0V3h-4v8a2 2 0 0 1-4 0V3z"/>
+                    <line x1="6" y1="7" x2="10" y2="7"/>
+                    <line x1="14" y1="7" x2="18" y2="7"/>
+                  </svg>
+                </IconButton>
+                {snapPanelOpen && (
+                  <SnapPanel options={snapOptions} onChange={setSnapOptions} onClose={() => setSnapPanelOpen(false)} />
+                )}
+              </div>
+            </ToolGroup>
             <ToolGroup>
-              <IconButton aria-label="Exportar GeoJSON" onClick={exportGeoJson} title="Exportar GeoJSON">
+              <IconButton as="label" aria-label="Importar arquivo" title="Importar GeoJSON, KML, KMZ ou shapefile (.zip)">
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
-                  <path d="M12 21V11"/>
-                  <path d="M8 15l4 4 4-4"/>
-                  <rect x="4" y="3" width="16" height="4" rx="1"/>
+                  <path d="M12 3v10"/>
+                  <path d="M8 9l4 4 4-4"/>
+                  <rect x="4" y="17" width="16" height="4" rx="1"/>
                 </svg>
+                <input type="file" accept={importAccept} onChange={handleFileUpload} style={{ display: 'none' }} />
               </IconButton>
             </ToolGroup>
+            <ToolGroup style={{ overflow: 'visible' }}>
+              <div style={{ position: 'relative' }}>
+                <IconButton aria-label="Exportar" onClick={() => setExportMenuOpen(v => !v)} title="Exportar desenhos">
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
+                    <path d="M12 21V11"/>
+                    <path d="M8 15l4 4 4-4"/>
+                    <rect x="4" y="3" width="16" height="4" rx="1"/>
+                  </svg>
+                </IconButton>
+                {exportMenuOpen && (
+                  <div style={{ position: 'absolute', right: 0, marginTop: 8, background: '#fff', border: '1px solid #e2e8f0', padding: 6, borderRadius: 8, boxShadow: '0 6px 24px rgba(15,23,42,0.12)', zIndex: 40, display: 'flex', flexDirection: 'column', gap: 4, minWidth: 160 }}>
+                    {(Object.keys(exportFormatLabels) as ExportFormat[]).map(format => (
+                      <button key={format} onClick={() => exportDrawings(format)} style={{ padding: '6px 10px', textAlign: 'left', background: 'transparent', border: 'none', borderRadius: 6, cursor: 'pointer', color: '#1e293b' }}>
+                        {exportFormatLabels[format]}
+                      </button>
+                    ))}
+                    <label style={{ display: 'flex', flexDirection: 'column', gap: 4, padding: '6px 10px 2px', fontSize: 12, color: '#475569', borderTop: '1px solid #e2e8f0' }}>
+                      SRC do shapefile
+                      <select value={exportCrs} onChange={(e) => setExportCrs(e.target.value)} style={{ padding: 4, borderRadius: 6, border: '1px solid #cbd5e1' }}>
+                        {supportedCrs.map(crs => (
+                          <option key={crs.code} value={crs.code}>{crs.name} ({crs.code})</option>
+                        ))}
+                      </select>
+                    </label>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: 4, padding: '6px 0 0', borderTop: '1px solid #e2e8f0' }}>
+                      <button disabled={printing} onClick={exportMapImage} style={{ padding: '6px 10px', textAlign: 'left', background: 'transparent', border: 'none', borderRadius: 6, cursor: 'pointer', color: '#1e293b' }}>
+                        Imagem PNG
+                      </button>
+                      <div style={{ display: 'flex', flexDirection: 'column', gap: 4, padding: '2px 10px', fontSize: 12, color: '#475569' }}>
+                        PDF para impressão
+                        <input
+                          placeholder={currentProject?.name ?? 'Título'}
+                          value={printTitle}
+                          onChange={(e) => setPrintTitle(e.target.value)}
+                          style={{ padding: 4, borderRadius: 6, border: '1px solid #cbd5e1' }}
+                        />
+                        <div style={{ display: 'flex', gap: 4 }}>
+                          <select aria-label="Folha" value={printPaper} onChange={(e) => setPrintPaper(e.target.value as PaperSize)} style={{ padding: 4, borderRadius: 6, border: '1px solid #cbd5e1' }}>
+                            {(Object.keys(pdfPaperSizes) as PaperSize[]).map(paper => <option key={paper} value={paper}>{paper}</option>)}
+                          </select>
+                          <select aria-label="Orientação" value={printOrientation} onChange={(e) => setPrintOrientation(e.target.value as PaperOrientation)} style={{ flex: 1, padding: 4, borderRadius: 6, border: '1px solid #cbd5e1' }}>
+                            {(Object.keys(paperOrientationLabels) as PaperOrientation[]).map(orientation => (
+                              <option key={orientation} value={orientation}>{paperOrientationLabels[orientation]}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <button disabled={printing} onClick={exportPrintPdf} style={{ padding: '6px 10px', background: '#0ea5e9', color: '#fff', border: 'none', borderRadius: 6, cursor: 'pointer' }}>
+                          {printing ? 'Gerando…' : 'Gerar PDF'}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </ToolGroup>
+            <ToolGroup>
+              <select
+                aria-label="Formato das coordenadas"
+                title="Formato das coordenadas dos vértices"
+                value={coordinateFormat}
+                onChange={(e) => setCoordinateFormat(e.target.value as CoordinateFormat)}
+                style={{ padding: '6px 8px', borderRadius: 8, border: '1px solid #e2e8f0', background: '#fff', color: '#1e293b', fontSize: 12, boxShadow: '0 2px 8px rgba(15,23,42,0.12)' }}
+              >
+                {(Object.keys(coordinateFormatLabels) as CoordinateFormat[]).map(format => (
+                  <option key={format} value={format}>{coordinateFormatLabels[format]}</option>
+                ))}
+              </select>
+            </ToolGroup>
             <ToolGroup>
               <IconButton aria-label="Limpar polígonos" onClick={handleClear} title="Limpar polígonos">
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" width="20" height="20">
@@ -576,12 +1313,51 @@ function App() {
             </ToolGroup>
           </Toolbar>
 
+          {/* Legenda, barra de escala e norte (canto inferior esquerdo, acima do logo do Mapbox) */}
+          {legendVisible && mapReady && (
+            <LegendChip>
+              <MapLegend sections={legendSections} scale={mapScale && scaleBar(mapScale.metersPerPixel)} bearing={mapScale?.bearing ?? 0} />
+            </LegendChip>
+          )}
+
           {/* InfoChip movido para o canto inferior direito do mapa (fora da toolbar) */}
-          {lastImportedFile && (
+          {(lastImportedFile || polygonCount > 0) && (
             <InfoChip>
-              Arquivo: {lastImportedFile} | Polígonos: <strong>{polygonCount}</strong>
+              {currentProject && <>Projeto: <strong>{currentProject.name}</strong> | </>}
+              {lastImportedFile && <>Arquivo: {lastImportedFile} | </>}Polígonos: <strong>{polygonCount}</strong>
+              {' '}| Área: <strong>{formatArea(totals.areaM2)}</strong> ({totals.areaAlqueires.toLocaleString('pt-BR', { maximumFractionDigits: 2 })} alq.)
+              {' '}| Perímetro: <strong>{formatLength(totals.perimeterM)}</strong>
+              {pendingFeatureCount > 0 && (
+                <>{' '}| <button onClick={() => setAttributeTableOpen(true)} style={{ color: '#b91c1c', background: 'none', border: 'none', padding: 0, cursor: 'pointer', font: 'inherit' }}>Pendências de atributos: <strong>{pendingFeatureCount}</strong></button></>
+              )}
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 4 }}>
+                <input type="checkbox" checked={exportMetrics} onChange={(e) => setExportMetrics(e.target.checked)} />
+                Incluir área e perímetro na exportação
+              </label>
             </InfoChip>
           )}
+          {geometryIssues.length > 0 && (
+            <GeometryIssuesPanel
+              issues={geometryIssues}
+              onSelect={handleSelectIssue}
+              onRepair={handleRepairGeometry}
+              onDismiss={handleDismissIssues}
+            />
+          )}
+          {centerWarning && (
+            <CenterOrderNotice resolved={centerWarning} onSwap={handleSwapCenter} onDismiss={() => setCenterWarning(null)} />
+          )}
+          {importReview && (
+            <ImportReviewPanel
+              fileName={importReview.fileName}
+              report={importReview.report}
+              error={importReview.error}
+              onDecide={handleImportDecision}
+              onFix={handleImportFix}
+              onConfirm={handleImportConfirm}
+              onCancel={() => setImportReview(null)}
+            />
+          )}
         </MapWrapper>
       </AppShell>
     </>
@@ -33,9 +33,62 @@ import MapboxDraw from '@mapbox/mapbox-gl-draw';
 
 // Importa o tema customizado de estilos para o MapboxDraw (cores, preenchimentos, etc.)
 import drawTheme from '../mapbox/drawTheme';
+// Modo do MapboxDraw usado pela ferramenta de medição
+import measureMode, { type MeasureModeOptions } from '../mapbox/measureMode';
+// Modos do MapboxDraw para retângulo, círculo e mão livre
+import { drawCircleMode, drawFreehandMode, drawRectangleMode } from '../mapbox/shapeModes';
+// Snap dos modos de desenho e da edição de vértices
+import { setDrawSnap, withDrawSnap, withEditSnap } from '../mapbox/snapModes';
 
 // Importa tipos do GeoJSON para tipagem forte dos dados geográficos
-import type { Feature, FeatureCollection, Geometry } from 'geojson';
+import type { Feature, FeatureCollection, Position } from 'geojson';
+
+// Importa o núcleo compartilhado do editor (feições, seleção, estilos e utilitários geométricos)
+import {
+  auditTopology,
+  canvasToBlob,
+  collectionVertices,
+  computeFeatureMetrics,
+  createCoordinateFormatter,
+  createMapEditor,
+  createMeasureTool,
+  createSnapper,
+  distanceMeters,
+  drawMapOverlay,
+  drawMarker,
+  extractVertexEntries,
+  getCollectionBBox,
+  getLabelPoint,
+  issuesToCollection,
+  layerOpacity,
+  repairFeatures,
+  resolveTopology,
+  resolveCenterOrder,
+  scaleBar,
+  snapToVertex,
+  thematicExpression,
+  topologyToCollection,
+  validateCollection,
+  type CoordinateFormat,
+  type CoordinateFormatOptions,
+  type GeometryIssue,
+  type ImageExportOptions,
+  type MapEditor,
+  type MapImage,
+  type MapEditorHandle,
+  type MapLayer,
+  type MapMode,
+  type MeasureTool,
+  type ResolvedCenter,
+  type TopologyReport,
+  type SnapOptions,
+  type SnapProjection,
+  type SnapResult,
+  type Snapper,
+  type ThematicStyle,
+  withCollectionMetrics,
+  type VertexEntry,
+} from 'map-editor-core';
 
 // Importa os estilos CSS padrão do Mapbox GL JS para renderização correta do mapa
 import 'mapbox-gl/dist/mapbox-gl.css';
@@ -48,53 +101,16 @@ import '@mapbox/mapbox-gl-draw/dist/mapbox-gl-draw.css';
 // ===============================
 // Interface de controle externo
 // ===============================
-// Define os métodos expostos via ref para controlar o mapa de fora do componente
-export type MapboxMapHandle = {
-  /** Move a visualização do mapa para as coordenadas e zoom especificados */
-  flyTo: (
-    options: {
-      lng: number; // longitude de destino
-      lat: number; // latitude de destino
-      zoom?: number; // zoom opcional
-    }
-  ) => void;
-  /** Retorna todos os dados desenhados no mapa (GeoJSON FeatureCollection) */
-  getDrawData: () => FeatureCollection; // retorna todos os desenhos atuais
-  /** Carrega um GeoJSON no mapa, substituindo os desenhos atuais. Pode ajustar o zoom automaticamente */
-  loadGeoJson: (
-    collection: FeatureCollection, // coleção GeoJSON a ser carregada
-    options?: { fitBounds?: boolean } // se deve ajustar o zoom automaticamente
-  ) => void;
-  /** Remove todos os desenhos do mapa */
-  clearDrawings: () => void; // apaga todos os desenhos
-  /** Inicia o modo de desenho de polígono */
-  startDrawPolygon: () => void; // ativa modo de desenho
-  /** Dá zoom in (aproxima) no mapa */
-  zoomIn: () => void; // aproxima
-  /** Dá zoom out (afasta) no mapa */
-  zoomOut: () => void; // afasta
+// Define os métodos expostos via ref para controlar o mapa de fora do componente.
+// A API comum (desenho, estilos, importação/exportação) vem do núcleo compartilhado;
+// aqui ficam apenas os extras do Mapbox.
+export type MapboxMapHandle = MapEditorHandle & {
   /** Alterna entre modo tela cheia e normal */
   toggleFullscreen: () => void; // alterna fullscreen
-  /** Ajusta o mapa para enquadrar todos os desenhos atuais */
-  fitToDrawings: () => void; // ajusta o mapa para mostrar todos os desenhos
   /** Entra no modo tela cheia */
   enterFullscreen: () => void; // entra em fullscreen
   /** Sai do modo tela cheia */
   exitFullscreen: () => void; // sai do fullscreen
-  /** Exclui o(s) desenho(s) selecionado(s) */
-  deleteSelected: () => void; // apaga desenhos selecionados
-  /** Muda a cor de preenchimento (hex) e opacidade (0-1) dos polígonos selecionados */
-  changeSelectedFill?: (color: string, opacity?: number) => void;
-  /** Muda a cor da borda (hex) e espessura (px) dos polígonos selecionados */
-  changeSelectedStroke?: (color: string, width?: number) => void;
-  /** Aplica cor de preenchimento (hex) e opacidade (0-1) a todos os polígonos */
-  applyFillToAll?: (color: string, opacity?: number) => void;
-  /** Aplica cor da borda (hex) e espessura (px) a todos os polígonos */
-  applyStrokeToAll?: (color: string, width?: number) => void;
-  /** Adiciona texto no centro dos polígonos selecionados */
-  addTextToSelected?: (text: string) => void;
-  /** Remove texto dos polígonos selecionados */
-  removeTextFromSelected?: () => void;
 };
 
 
@@ -119,6 +135,18 @@ export type MapboxMapProps = {
   onMapError?: (error: Error) => void; // callback de erro
   /** Cor de preenchimento dos polígonos desenhados */
   fillColor?: string; // cor dos polígonos
+  /** Quantos passos podem ser desfeitos (padrão 100; 0 desativa o histórico) */
+  historyDepth?: number; // profundidade do histórico
+  /** Modo dos rótulos de vértices: decimal (padrão), DMS, DDM ou UTM */
+  coordinateFormat?: CoordinateFormat; // formato das coordenadas
+  /** Casas decimais dos rótulos de vértices (padrão depende do modo) */
+  coordinatePrecision?: number; // precisão das coordenadas
+  /** Fuso UTM fixo; sem ele o fuso é detectado automaticamente */
+  utmZone?: number; // fuso UTM
+  /** Chamado se o centro inicial parece ter latitude/longitude trocadas (inválido é trocado automaticamente) */
+  onCenterOrderWarning?: (resolved: ResolvedCenter) => void; // aviso de lat/lng trocados
+  /** Snap ao desenhar e editar: tolerância (px) e alvos (vértices, pontos médios, arestas); Alt desliga por um momento */
+  snapOptions?: Partial<SnapOptions>; // configuração do snap
 };
 
 
@@ -126,12 +154,17 @@ export type MapboxMapProps = {
 // ===============================
 // Constantes de configuração
 // ===============================
-// Centro padrão do mapa (coordenadas de referência)
-const defaultCenter: [number, number] = [-14.886187924998506, -56.93025371958118];
+// Centro padrão do mapa (coordenadas de referência, [longitude, latitude])
+const defaultCenter: [number, number] = [-56.93025371958118, -14.886187924998506];
 // Zoom padrão do mapa
 const defaultZoom = 17;
-// Coleção GeoJSON vazia (usada como valor inicial ou fallback)
-const emptyCollection: FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+// Converte qualquer LngLatLike em [lng, lat] sem validar (LngLat.convert lança erro com latitude inválida)
+function toLngLatPair(center: LngLatLike): [number, number] {
+  if (Array.isArray(center)) return [center[0], center[1]];
+  if ('lon' in center) return [center.lon, center.lat];
+  return [center.lng, center.lat];
+}
 
 
 // ===============================
@@ -139,7 +172,7 @@ const emptyCollection: FeatureCollection = { type: 'FeatureCollection', features
 // ===============================
 // Encapsula toda a lógica de renderização, desenho, eventos e integração do mapa
 const MapboxMap = forwardRef(function MapboxMap(
-  { accessToken, initialCenter, initialZoom, initialData, onDrawChange, onMapLoad, onMapError, fillColor }: MapboxMapProps,
+  { accessToken, initialCenter, initialZoom, initialData, onDrawChange, onMapLoad, onMapError, fillColor, historyDepth, coordinateFormat, coordinatePrecision, utmZone, onCenterOrderWarning, snapOptions }: MapboxMapProps,
   ref: Ref<MapboxMapHandle>
 ) {
   // Refs internas para manter instâncias e valores estáveis
@@ -148,6 +181,7 @@ const MapboxMap = forwardRef(function MapboxMap(
   // drawRef: instância do MapboxDraw
   // initialDataRef: dados GeoJSON iniciais
   // onDrawChangeRef: callback de mudança dos desenhos
+  // resolvedCenterRef: centro inicial conferido quanto à ordem lat/lng
   // initialCenterRef: centro inicial do mapa
   // initialZoomRef: zoom inicial do mapa
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -155,8 +189,158 @@ const MapboxMap = forwardRef(function MapboxMap(
   const drawRef = useRef<MapboxDraw | null>(null);
   const initialDataRef = useRef<FeatureCollection | undefined>(initialData);
   const onDrawChangeRef = useRef(onDrawChange);
-  const initialCenterRef = useRef<LngLatLike>(initialCenter ?? defaultCenter);
+  const resolvedCenterRef = useRef<ResolvedCenter>(resolveCenterOrder(toLngLatPair(initialCenter ?? defaultCenter), 'lnglat'));
+  const initialCenterRef = useRef<LngLatLike>(resolvedCenterRef.current.lngLat);
+  const onCenterOrderWarningRef = useRef(onCenterOrderWarning);
+  // onMapLoadRef / onMapErrorRef: callbacks de carregamento e erro; fillColorRef: cor inicial do tema do desenho
+  const onMapLoadRef = useRef(onMapLoad);
+  const onMapErrorRef = useRef(onMapError);
+  const fillColorRef = useRef(fillColor);
   const initialZoomRef = useRef<number>(initialZoom ?? defaultZoom);
+  // editorRef: núcleo do editor, dono das feições, seleção e estilos
+  const editorRef = useRef<MapEditor | null>(null);
+  // coordinateFormatRef: opções atuais dos rótulos de vértices (lidas a cada redesenho)
+  const coordinateFormatRef = useRef<CoordinateFormatOptions>({ format: coordinateFormat, precision: coordinatePrecision, utmZone });
+  // modeRef: modo de interação atual (avisado no evento 'modechange')
+  const modeRef = useRef<MapMode>('select');
+  // layersRef: camadas do usuário (opacidade aplicada nas camadas customizadas)
+  const layersRef = useRef<MapLayer[]>([]);
+  // thematicRef: regra temática do preenchimento (null: cor de cada feição)
+  const thematicRef = useRef<ThematicStyle | null>(null);
+  // renderedRef: última coleção desenhada (camadas visíveis), base do snap da medição
+  const renderedRef = useRef<FeatureCollection>({ type: 'FeatureCollection', features: [] });
+  // measureRef: medição em andamento (fora do editor); snapCacheRef: vértices candidatos do snap
+  const measureRef = useRef<MeasureTool | null>(null);
+  const snapCacheRef = useRef<{ collection: FeatureCollection; vertices: Position[] } | null>(null);
+  // snapperRef: snap do desenho e da edição de vértices; snapOptionsRef: configuração atual (prop snapOptions)
+  const snapperRef = useRef<Snapper | null>(null);
+  const snapOptionsRef = useRef<Partial<SnapOptions>>(snapOptions ?? {});
+
+  // Ferramenta de medição: desenha na fonte 'measure' e avisa em 'measurechange', sem passar pelo editor
+  function getMeasureTool(): MeasureTool {
+    if (!measureRef.current) {
+      measureRef.current = createMeasureTool({
+        render: (collection) => {
+          if (mapRef.current) upsertMeasure(mapRef.current, collection);
+        },
+        onChange: (measurement) => getEditor().events.emit('measurechange', { measurement }),
+      });
+    }
+    return measureRef.current;
+  }
+
+  // Posição do mouse na medição, grudada no vértice mais próximo (feições visíveis e vértices já medidos)
+  function snapMeasurePosition(e: mapboxgl.MapMouseEvent): Position {
+    const map = mapRef.current;
+    const position: Position = [e.lngLat.lng, e.lngLat.lat];
+    if (!map) return position;
+    if (snapCacheRef.current?.collection !== renderedRef.current) {
+      snapCacheRef.current = { collection: renderedRef.current, vertices: collectionVertices(renderedRef.current) };
+    }
+    const project = (p: Position): [number, number] => {
+      const point = map.project([p[0], p[1]]);
+      return [point.x, point.y];
+    };
+    const candidates = [...getMeasureTool().getPoints(), ...snapCacheRef.current.vertices];
+    return snapToVertex([e.point.x, e.point.y], candidates, project) ?? position;
+  }
+
+  // Snap do desenho: alvos nas feições visíveis e indicador na fonte 'snap-indicator'
+  function getSnapper(): Snapper {
+    if (!snapperRef.current) {
+      snapperRef.current = createSnapper({
+        render: (result) => {
+          if (mapRef.current) upsertSnapIndicator(mapRef.current, result);
+        },
+      });
+      snapperRef.current.setOptions(snapOptionsRef.current);
+    }
+    return snapperRef.current;
+  }
+
+  // Posição grudada de um evento dos modos do MapboxDraw (Alt pressionado desliga o snap)
+  function snapDrawEvent(e: MapboxDraw.MapMouseEvent, excludeId: string | null): Position | null {
+    const map = mapRef.current;
+    if (!map) return null;
+    const snapper = getSnapper();
+    snapper.setCollection(renderedRef.current);
+    const projection: SnapProjection = {
+      project: (p) => {
+        const point = map.project([p[0], p[1]]);
+        return [point.x, point.y];
+      },
+      unproject: (point) => map.unproject(point).toArray(),
+    };
+    const result = snapper.snap([e.point.x, e.point.y], projection, { excludeId, suspended: e.originalEvent.altKey });
+    return result?.position ?? null;
+  }
+
+  // Volta o MapboxDraw à seleção (o resultado da medição continua no mapa até clearMeasure)
+  function stopMeasuring() {
+    if (modeRef.current !== 'measure') return;
+    setMode('select');
+    if (drawRef.current?.getMode() === 'measure') drawRef.current.changeMode('simple_select');
+  }
+
+  // Troca o modo do MapboxDraw para um modo de desenho (o modo anterior encerra no onStop dele)
+  function startDrawMode(change: (draw: MapboxDraw) => void, mode: MapMode) {
+    if (!drawRef.current) return;
+    change(drawRef.current);
+    setMode(mode);
+  }
+
+  // Atualiza o modo de interação e emite 'modechange' quando ele muda
+  function setMode(mode: MapMode) {
+    const previousMode = modeRef.current;
+    if (mode === previousMode) return;
+    modeRef.current = mode;
+    getEditor().events.emit('modechange', { mode, previousMode });
+  }
+
+  /**
+   * Retorna o editor compartilhado, criando-o na primeira chamada.
+   * O adaptador traduz as decisões do núcleo para o MapboxDraw e as camadas customizadas.
+   */
+  function getEditor(): MapEditor {
+    if (!editorRef.current) {
+      editorRef.current = createMapEditor({
+        // Sem estilo fixo: as feições novas recebem os padrões do esquema (colunas) e o estilo da camada ativa.
+        // Sem nenhum dos dois, as camadas customizadas desenham branco semi-transparente
+        historyDepth,
+        onChange: (collection) => onDrawChangeRef.current?.(collection),
+        adapter: {
+          setFeatures: (collection) => {
+            drawRef.current?.set(collection);
+          },
+          renderDecorations: (collection) => {
+            // Atualiza as camadas de cor, borda e texto (isso também trata os rótulos de coordenadas)
+            renderedRef.current = collection;
+            if (!mapRef.current) return;
+            updateCustomColoredLayer(mapRef.current, withLayerOpacity(collection.features, layersRef.current));
+            // As camadas customizadas foram recriadas por cima da medição
+            raiseMeasureLayers(mapRef.current);
+          },
+          setLayers: (layers) => {
+            layersRef.current = layers;
+          },
+          // Lida no próximo renderDecorations, que recria a camada de preenchimento
+          setThematicStyle: (style) => {
+            thematicRef.current = style;
+          },
+          setSelection: (ids) => {
+            // Reseleciona as feições para manter a seleção visível na UI
+            try {
+              drawRef.current?.changeMode('simple_select', { featureIds: ids });
+              setMode('select');
+            } catch (err) {
+              console.error('[MapboxMap] error reselecting features', err);
+            }
+          },
+        },
+      });
+    }
+    return editorRef.current;
+  }
 
 
 
@@ -181,9 +365,28 @@ const MapboxMap = forwardRef(function MapboxMap(
     });
   }
 
+  // Funções internas usadas pelos efeitos de montagem: só leem refs, então as da primeira renderização servem
+  const internalsRef = useRef({ getEditor, setMode, snapDrawEvent });
+
+  // Mantém os callbacks das props atualizados para os listeners registrados na montagem
+  useEffect(() => {
+    onMapLoadRef.current = onMapLoad;
+    onMapErrorRef.current = onMapError;
+  }, [onMapLoad, onMapError]);
+
   // ===============================
   // Efeito de inicialização do mapa
   // ===============================
+  // Avisa se o centro inicial parece estar com latitude/longitude trocadas
+  useEffect(() => {
+    const resolved = resolvedCenterRef.current;
+    if (!resolved.check) return;
+    console.warn(
+      `[MapboxMap] initialCenter ${resolved.autoSwapped ? 'inválido, latitude/longitude trocadas automaticamente' : 'suspeito'}: ${resolved.check.message}`,
+    );
+    onCenterOrderWarningRef.current?.(resolved);
+  }, []);
+
   // Cria o mapa, adiciona controles, listeners e marcador customizado
   useEffect(() => {
     // Garante que o container do mapa existe antes de tentar inicializar
@@ -199,6 +402,7 @@ const MapboxMap = forwardRef(function MapboxMap(
 
     // Define o token global do MapboxGL
     mapboxgl.accessToken = accessToken;
+    const { getEditor, setMode, snapDrawEvent } = internalsRef.current;
 
     // Cria a instância do mapa com estilo, centro e zoom iniciais
     const map = new mapboxgl.Map({
@@ -212,8 +416,7 @@ const MapboxMap = forwardRef(function MapboxMap(
     // Adiciona marcador customizado reutilizável
     useMapboxMarker({
       map,
-      coordinates: [-56.93025371958118, -14.886187924998506],
-      label: 'Fazenda',
+      ...farmMarker,
       iconUrl: 'https://maps.gstatic.com/mapfiles/api-3/images/spotlight-poi2_hdpi.png',
     });
     // Importa o hook de marcador customizado
@@ -238,9 +441,11 @@ const MapboxMap = forwardRef(function MapboxMap(
       controls: {},
       // Define o modo padrão como 'simple_select' (seleção simples de features)
       defaultMode: 'simple_select',
+      // Modos extras: retângulo, círculo, mão livre e medição
+      modes: drawModes,
       // Aplica o tema de estilos customizado, trocando a cor de preenchimento dos polígonos
       // Se fillColor não for fornecido, usa cor padrão '#3bb2d0'
-      styles: getDrawTheme(fillColor || '#3bb2d0'),
+      styles: getDrawTheme(fillColorRef.current || '#3bb2d0'),
     });
 
     // Necessário adicionar para registrar camadas/eventos, UI está vazia
@@ -250,78 +455,73 @@ const MapboxMap = forwardRef(function MapboxMap(
         // Salva as instâncias do draw e do mapa nas refs para acesso posterior
         drawRef.current = draw;
         mapRef.current = map;
+        // Os modos com snap consultam o componente por este mapa
+        setDrawSnap(map, { snap: snapDrawEvent, clear: () => snapperRef.current?.clear() });
 
-        // Função chamada sempre que há alteração nos desenhos (criação, atualização ou remoção)
-        const emitDrawChange = () => {
-          // Obtém todos os dados desenhados no mapa (GeoJSON)
-          const data = draw.getAll();
-          // Dispara o callback de mudança, se fornecido via props
-          onDrawChangeRef.current?.(data);
-          // Update custom colored layer when draw data changes (this also handles coordinate labels)
-          try {
-            updateCustomColoredLayer(map, data.features);
-          } catch (e) {
-            // ignore custom layer errors to not break main flow
-          }
+        // Repassa ao editor as alterações feitas diretamente no MapboxDraw.
+        // O editor completa o estilo padrão, atualiza as camadas customizadas e dispara onDrawChange.
+        const handleDrawCreate = (e: MapboxDraw.DrawCreateEvent) => {
+          getEditor().addFeatures(e.features, { fromRenderer: true });
+        };
+        const handleDrawUpdate = (e: MapboxDraw.DrawUpdateEvent) => {
+          getEditor().updateFeatures(e.features, { fromRenderer: true });
+        };
+        const handleDrawDelete = (e: MapboxDraw.DrawDeleteEvent) => {
+          getEditor().removeFeatures(e.features.map(f => String(f.id)), { fromRenderer: true });
+        };
+        const handleSelectionChange = (e: MapboxDraw.DrawSelectionChangeEvent) => {
+          getEditor().setSelectedIds(e.features.map(f => String(f.id)), { fromRenderer: true });
+        };
+        // Modos do MapboxDraw traduzidos para os modos comuns aos dois motores
+        const handleModeChange = (e: MapboxDraw.DrawModeChangeEvent) => {
+          setMode(drawModeNames[e.mode] ?? 'select');
+        };
+        // Avisa a nova visualização ao final de cada movimento (arraste, zoom, flyTo)
+        const handleMoveEnd = () => {
+          const center = map.getCenter();
+          getEditor().events.emit('viewchange', { view: { lng: center.lng, lat: center.lat, zoom: map.getZoom() } });
         };
 
         // Função para tratar erros do mapa (ex: falha ao carregar tiles)
         const handleError = (event: { error?: Error }) => {
           if (event?.error) {
             // Dispara o callback de erro, se fornecido
-            onMapError?.(event.error);
+            onMapErrorRef.current?.(event.error);
           }
         };
 
         // Registra listeners para eventos do mapa:
         // - 'error': erros gerais do mapa
-        // - 'draw.create', 'draw.update', 'draw.delete': eventos do MapboxDraw
+        // - 'draw.create', 'draw.update', 'draw.delete', 'draw.selectionchange': eventos do MapboxDraw
         map.on('error', handleError);
-        map.on('draw.create', emitDrawChange);
-        map.on('draw.update', emitDrawChange);
-        map.on('draw.delete', emitDrawChange);
-
-        // Quando um novo polígono é criado, força propriedades padrão de preenchimento
-        map.on('draw.create', (e: any) => {
-          try {
-            const created = e.features ?? (e.feature ? [e.feature] : []);
-            (created || []).forEach((f: any) => {
-              // Se não existir, aplica cor branca semi-transparente como padrão
-              if (!f.properties) f.properties = {};
-              if (typeof f.properties.fillColor === 'undefined') f.properties.fillColor = '#ffffff';
-              if (typeof f.properties.fillOpacity === 'undefined') f.properties.fillOpacity = 0.2;
-              // Também salva versão RGB para exportação
-              if (typeof f.properties.fillRgb === 'undefined') {
-                // simple hex -> rgb
-                const hex = (f.properties.fillColor || '#ffffff').replace('#','');
-                const r = parseInt(hex.substring(0,2),16) || 255;
-                const g = parseInt(hex.substring(2,4),16) || 255;
-                const b = parseInt(hex.substring(4,6),16) || 255;
-                f.properties.fillRgb = `${r},${g},${b}`;
-              }
-            });
-          } catch (err) { /* ignore */ }
-        });
+        map.on('draw.create', handleDrawCreate);
+        map.on('draw.update', handleDrawUpdate);
+        map.on('draw.delete', handleDrawDelete);
+        map.on('draw.selectionchange', handleSelectionChange);
+        map.on('draw.modechange', handleModeChange);
+        map.on('moveend', handleMoveEnd);
 
         // Função chamada quando o mapa termina de carregar (evento 'load')
         const handleMapLoad = () => {
           // Se houver dados iniciais, carrega no controle de desenho e ajusta o zoom
+          // (o editor também redesenha rótulos e camadas customizadas e dispara o callback de mudança)
           const data = initialDataRef.current;
           if (data && data.features.length) {
-            draw.set(data);
+            getEditor().load(data);
+            // Os dados iniciais não entram no histórico de desfazer
+            getEditor().clearHistory();
             fitToCollection(map, data);
-            // Adiciona rótulos para todas as coordenadas presentes nos dados iniciais
-            upsertCoordinateLabels(map, data);
+          } else {
+            // Sincroniza o estado inicial com o MapboxDraw recém-criado
+            getEditor().refresh();
           }
 
-          // Dispara o callback de mudança para sincronizar estado inicial
-          onDrawChangeRef.current?.(draw.getAll());
           // Força o resize do mapa para garantir renderização correta
           map.resize();
           // Dispara o callback de carregamento, se fornecido
-          if (onMapLoad) {
+          if (onMapLoadRef.current) {
             console.log('[MapboxMap] Chamando onMapLoad');
-            onMapLoad();
+            onMapLoadRef.current();
           }
         };
 
@@ -354,11 +554,15 @@ const MapboxMap = forwardRef(function MapboxMap(
             // ignore cleanup errors
           }
           // Remove listeners dos eventos de desenho e erro
-          map.off('draw.create', emitDrawChange);
+          map.off('draw.create', handleDrawCreate);
           map.off('error', handleError);
-          map.off('draw.update', emitDrawChange);
-          map.off('draw.delete', emitDrawChange);
+          map.off('draw.update', handleDrawUpdate);
+          map.off('draw.delete', handleDrawDelete);
+          map.off('draw.selectionchange', handleSelectionChange);
+          map.off('draw.modechange', handleModeChange);
+          map.off('moveend', handleMoveEnd);
           map.off('load', handleMapLoad);
+          setDrawSnap(map, null);
           // Remove o mapa do DOM e libera recursos
           map.remove();
           // Limpa as refs para evitar vazamento de memória
@@ -368,6 +572,15 @@ const MapboxMap = forwardRef(function MapboxMap(
 
   }, [accessToken]);
 
+  // O contêiner muda de tamanho sem a janela mudar (ex.: tabela de atributos aberta ao lado)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => mapRef.current?.resize());
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
   // ===============================
   // Efeito de atualização de cor dos polígonos
   // ===============================
@@ -383,6 +596,7 @@ const MapboxMap = forwardRef(function MapboxMap(
           displayControlsDefault: false,
           controls: {},
           defaultMode: 'simple_select',
+          modes: drawModes,
           styles: getDrawTheme(fillColor), // Aplica a nova cor de preenchimento
         });
 
@@ -391,31 +605,26 @@ const MapboxMap = forwardRef(function MapboxMap(
         // Atualiza a ref para o novo controle
         drawRef.current = newDraw;
 
-        // Se houver dados iniciais, recarrega no novo controle para manter os desenhos
-        if (initialDataRef.current) {
-          newDraw.set(initialDataRef.current);
-        }
+        // Reenvia as feições do editor ao novo controle para manter os desenhos
+        editorRef.current?.refresh();
       }, [fillColor]);
 
   // ===============================
-  // Efeito de integração com eventos externos
+  // Efeito de atualização do formato das coordenadas
   // ===============================
-  // Escuta um evento customizado de mudança de cor de polígono disparado na janela
-    useEffect(() => {
-      // Handler para o evento customizado (pode ser disparado por outros componentes)
-      function handlePolygonColorChange(e: any) {
-        if (typeof e.detail === 'string') {
-          // Aqui você pode disparar um callback para o App, se desejar
-          // Por exemplo: atualizar a cor dos polígonos dinamicamente
-        }
-      }
-      // Adiciona o listener para o evento 'polygonColorChange' na window
-      window.addEventListener('polygonColorChange', handlePolygonColorChange);
-      // Remove o listener ao desmontar o componente para evitar vazamento de memória
-      return () => {
-        window.removeEventListener('polygonColorChange', handlePolygonColorChange);
-      };
-    }, []);
+  // Redesenha os rótulos de vértices quando o modo, a precisão ou o fuso mudam
+  useEffect(() => {
+    coordinateFormatRef.current = { format: coordinateFormat, precision: coordinatePrecision, utmZone };
+    editorRef.current?.refresh();
+  }, [coordinateFormat, coordinatePrecision, utmZone]);
+
+  // ===============================
+  // Efeito de atualização do snap
+  // ===============================
+  useEffect(() => {
+    snapOptionsRef.current = snapOptions ?? {};
+    snapperRef.current?.setOptions(snapOptionsRef.current);
+  }, [snapOptions]);
 
   // ===============================
   // Efeito de atualização dos dados desenhados
@@ -438,14 +647,10 @@ const MapboxMap = forwardRef(function MapboxMap(
 
     // Se o mapa e o controle de desenho já existem
     if (mapRef.current && drawRef.current) {
-      // Define os novos desenhos no controle de desenho
-      drawRef.current.set(initialData);
+      // Substitui os desenhos no editor (que redesenha rótulos e dispara o callback de mudança)
+      internalsRef.current.getEditor().load(initialData);
       // Ajusta o mapa para enquadrar todos os desenhos
       fitToCollection(mapRef.current, initialData);
-      // Atualiza/insere rótulos de coordenadas para o novo GeoJSON
-      upsertCoordinateLabels(mapRef.current, initialData);
-      // Dispara callback de mudança, se existir
-      onDrawChangeRef.current?.(drawRef.current.getAll());
     }
   }, [initialData]);
 
@@ -464,6 +669,64 @@ const MapboxMap = forwardRef(function MapboxMap(
       // Move o centro do mapa para as coordenadas fornecidas e aplica o zoom (ou 14 se não informado)
       mapRef.current.flyTo({ center: [lng, lat], zoom: zoom ?? 14, essential: true });
     },
+    // Centro e zoom atuais (salvos junto com o projeto)
+    getView: () => {
+      if (!mapRef.current) return null;
+      const center = mapRef.current.getCenter();
+      return { lng: center.lng, lat: center.lat, zoom: mapRef.current.getZoom() };
+    },
+    // Restaura centro e zoom sem animação
+    setView: ({ lng, lat, zoom }) => {
+      mapRef.current?.jumpTo({ center: [lng, lat], zoom });
+    },
+    // Escala no centro da tela (distância real de 100 px na horizontal) e rotação do mapa
+    getMapScale: () => {
+      const map = mapRef.current;
+      if (!map) return null;
+      const canvas = map.getCanvas();
+      const y = canvas.clientHeight / 2;
+      const x = Math.max(0, canvas.clientWidth / 2 - 50);
+      const a = map.unproject([x, y]);
+      const b = map.unproject([x + 100, y]);
+      return { metersPerPixel: distanceMeters([a.lng, a.lat], [b.lng, b.lat]) / 100, bearing: map.getBearing() };
+    },
+    // Imagem da vista atual renderizada num mapa fora da tela, no tamanho e dpi pedidos
+    exportImage: (options) => {
+      if (!mapRef.current) return Promise.reject(new Error('O mapa ainda não carregou'));
+      return captureMapImage(mapRef.current, options);
+    },
+    // Medição temporária de distância ou área no modo 'measure' do MapboxDraw (não passa pelo editor)
+    startMeasure: (kind) => {
+      const draw = drawRef.current;
+      if (!draw) return;
+      const options: MeasureModeOptions = {
+        // Clicar no último vértice (ou no primeiro da área) encerra
+        onClick: (e) => {
+          if (!getMeasureTool().add(snapMeasurePosition(e))) stopMeasuring();
+        },
+        onMove: (e) => getMeasureTool().move(snapMeasurePosition(e)),
+        // Enter encerra e Esc cancela
+        onKey: (key) => {
+          if (key === 'Enter') getMeasureTool().finish();
+          else if (key === 'Escape') getMeasureTool().clear();
+          else return;
+          stopMeasuring();
+        },
+        // O Draw saiu do modo por conta própria (ex.: seleção pelo editor): mantém o que foi medido
+        onStop: () => {
+          getMeasureTool().finish();
+          if (modeRef.current === 'measure') setMode('select');
+        },
+      };
+      getMeasureTool().start(kind);
+      draw.changeMode('measure', options);
+      setMode('measure');
+    },
+    getMeasurement: () => measureRef.current?.get() ?? null,
+    clearMeasure: () => {
+      measureRef.current?.clear();
+      stopMeasuring();
+    },
     // Inicia o modo de desenho de polígono
     startDrawPolygon: () => {
       // Se o controle de desenho não existe, não faz nada
@@ -471,10 +734,17 @@ const MapboxMap = forwardRef(function MapboxMap(
       try {
         // Altera o modo do MapboxDraw para 'draw_polygon', permitindo desenhar um novo polígono
         (drawRef.current as any).changeMode('draw_polygon');
+        setMode('draw_polygon');
       } catch (e) {
         // Ignora erros silenciosamente (ex: se o modo não existir)
       }
     },
+    // Linha e ponto do próprio MapboxDraw; retângulo, círculo e mão livre pelos modos de shapeModes
+    startDrawLine: () => startDrawMode(draw => draw.changeMode('draw_line_string'), 'draw_line'),
+    startDrawPoint: () => startDrawMode(draw => draw.changeMode('draw_point'), 'draw_point'),
+    startDrawRectangle: () => startDrawMode(draw => draw.changeMode('draw_rectangle'), 'draw_rectangle'),
+    startDrawCircle: () => startDrawMode(draw => draw.changeMode('draw_circle'), 'draw_circle'),
+    startDrawFreehand: () => startDrawMode(draw => draw.changeMode('draw_freehand'), 'draw_freehand'),
     // Dá zoom in (aproxima) no mapa
     zoomIn: () => {
       // Se o mapa não existe, não faz nada
@@ -530,7 +800,7 @@ const MapboxMap = forwardRef(function MapboxMap(
       // Se o mapa não existe, não faz nada
       if (!mapRef.current) return;
       // Obtém todos os desenhos atuais (GeoJSON)
-      const data = drawRef.current?.getAll() ?? emptyCollection;
+      const data = getEditor().getCollection();
       // Se há desenhos, ajusta o mapa para enquadrar todos
       if (data.features.length) {
         fitToCollection(mapRef.current, data);
@@ -540,39 +810,29 @@ const MapboxMap = forwardRef(function MapboxMap(
       }
     },
     // Retorna todos os dados desenhados no mapa (GeoJSON FeatureCollection)
-    getDrawData: () => {
-      // Se o controle de desenho não existe, retorna coleção vazia
-      if (!drawRef.current) {
-        return emptyCollection;
-      }
-      // Retorna todos os desenhos atuais, garantindo que todas as propriedades customizadas sejam exportadas
-      try {
-        const all = drawRef.current.getAll();
-        all.features = all.features.map((f: any) => {
-          const props = f.properties || {};
-          
-          // Ensure all custom styling properties are preserved for export
-          // Fill properties
-          if (props.fillColor) {
-            if (!props.fillRgb) {
-              const hex = (props.fillColor || '#ffffff').replace('#','');
-              const r = parseInt(hex.substring(0,2),16) || 255;
-              const g = parseInt(hex.substring(2,4),16) || 255;
-              const b = parseInt(hex.substring(4,6),16) || 255;
-              props.fillRgb = `${r},${g},${b}`;
-            }
-          }
-          
-          // Stroke properties - ensure they're preserved
-          // (strokeColor and strokeWidth are already set by changeSelectedStroke)
-          
-          f.properties = props;
-          return f;
-        });
-        return all;
-      } catch (err) {
-        return drawRef.current.getAll();
-      }
+    // O editor já garante que as propriedades de estilo (inclusive fillRgb) sejam exportadas;
+    // com includeMetrics, área e perímetro também são gravados nas propriedades
+    getDrawData: (options) => {
+      const collection = getEditor().getCollection();
+      return options?.includeMetrics ? withCollectionMetrics(collection) : collection;
+    },
+    // Retorna área (m², ha, alqueires) e perímetro (m, km) de uma feição
+    getFeatureMetrics: (id) => {
+      const feature = getEditor().getFeature(id);
+      return feature ? computeFeatureMetrics(feature) : null;
+    },
+    // Feição pelo id (mesmo id do GeoJSON importado/exportado)
+    getFeatureById: (id) => getEditor().getFeature(id) ?? null,
+    // Seleciona a feição do id (como um clique nela)
+    selectById: (id) => {
+      if (!getEditor().getFeature(id)) return false;
+      getEditor().setSelectedIds([id]);
+      return true;
+    },
+    // Seleciona várias feições (ex.: linhas marcadas na tabela de atributos)
+    selectByIds: (ids) => {
+      getEditor().setSelectedIds(ids.filter(id => !!getEditor().getFeature(id)));
+      return getEditor().getSelectedIds();
     },
     // Carrega um GeoJSON no mapa, substituindo os desenhos atuais. Pode ajustar o zoom automaticamente
     loadGeoJson: (collection, options) => {
@@ -580,473 +840,96 @@ const MapboxMap = forwardRef(function MapboxMap(
       if (!mapRef.current || !drawRef.current) {
         return;
       }
-      
-      // Ensure all features have their custom properties preserved when loading
-      const processedCollection = {
-        ...collection,
-        features: collection.features.map((f: any) => {
-          // Preserve all existing properties including custom styling
-          const props = f.properties || {};
-          return {
-            ...f,
-            properties: props
-          };
-        })
-      };
-      
-      // Define os novos desenhos no controle de desenho
-      drawRef.current.set(processedCollection);
+      // Substitui os desenhos preservando as propriedades (o editor restaura o estilo customizado)
+      getEditor().load(collection);
       // Se fitBounds não for false, ajusta o mapa para enquadrar os desenhos
       if (options?.fitBounds !== false) {
-        fitToCollection(mapRef.current, processedCollection);
+        fitToCollection(mapRef.current, collection);
       }
-      // Atualiza/insere rótulos de coordenadas para o GeoJSON carregado
-      try {
-        upsertCoordinateLabels(mapRef.current, processedCollection);
-      } catch (e) {
-        // ignore
-      }
-      // Update custom colored layer to restore styling from imported JSON
-      try {
-        updateCustomColoredLayer(mapRef.current, processedCollection.features);
-        console.log('[MapboxMap] Restored custom styling from imported JSON');
-      } catch (e) {
-        // ignore
-      }
-      // Dispara callback de mudança, se existir
-      onDrawChangeRef.current?.(drawRef.current.getAll());
     },
     // Remove todos os desenhos do mapa
-    clearDrawings: () => {
-      // Se o controle de desenho não existe, não faz nada
-      if (!drawRef.current) {
-        return;
-      }
-      // Remove todos os desenhos
-      drawRef.current.deleteAll();
-      // Dispara callback de mudança, se existir
-      const data = drawRef.current.getAll();
-      onDrawChangeRef.current?.(data);
-      // Clear custom colored layer (this also handles coordinate labels)
-      try { if (mapRef.current) updateCustomColoredLayer(mapRef.current, []); } catch (e) { /* ignore */ }
-    },
+    clearDrawings: () => getEditor().clear(),
     // Exclui o(s) desenho(s) selecionado(s)
-    deleteSelected: () => {
-      // Se o controle de desenho não existe, não faz nada
-      if (!drawRef.current) return;
-      // Obtém a instância do controle de desenho
-      const draw: any = drawRef.current as any;
-      // Obtém os IDs dos desenhos selecionados
-      const ids: string[] = typeof draw.getSelectedIds === 'function' ? draw.getSelectedIds() : [];
-      // Se há IDs selecionados
-      if (Array.isArray(ids) && ids.length > 0) {
-        // Se existe método delete, usa para remover os desenhos selecionados
-        if (typeof draw.delete === 'function') {
-          draw.delete(ids);
-        } else if (typeof draw.trash === 'function') {
-          // Fallback para método trash (caso delete não exista)
-          draw.trash();
-        }
-        // Dispara callback de mudança, se existir
-        const data = drawRef.current.getAll();
-        onDrawChangeRef.current?.(data);
-        // Update custom colored layer (this also handles coordinate labels)
-        try { if (mapRef.current) updateCustomColoredLayer(mapRef.current, data.features); } catch (e) { /* ignore */ }
-      }
+    deleteSelected: () => getEditor().deleteSelected(),
+    // Estilos e texto dos polígonos: regras compartilhadas no núcleo do editor
+    changeSelectedFill: (color, opacity) => getEditor().changeSelectedFill(color, opacity),
+    changeSelectedStroke: (color, width) => getEditor().changeSelectedStroke(color, width),
+    applyFillToAll: (color, opacity) => getEditor().applyFillToAll(color, opacity),
+    applyStrokeToAll: (color, width) => getEditor().applyStrokeToAll(color, width),
+    addTextToSelected: (text) => getEditor().addTextToSelected(text),
+    removeTextFromSelected: () => getEditor().removeTextFromSelected(),
+    // Operações entre polígonos (união, diferença, interseção e divisão por linha)
+    mergeSelected: () => getEditor().mergeSelected(),
+    subtractSelected: () => getEditor().subtractSelected(),
+    intersectSelected: () => getEditor().intersectSelected(),
+    splitSelectedByLine: () => getEditor().splitSelectedByLine(),
+    bufferSelected: (distance, options) => getEditor().bufferSelected(distance, options),
+    // Histórico de desfazer/refazer (inclui desenhos feitos direto no MapboxDraw)
+    undo: () => getEditor().undo(),
+    redo: () => getEditor().redo(),
+    canUndo: () => getEditor().canUndo(),
+    canRedo: () => getEditor().canRedo(),
+    transaction: (fn) => getEditor().transaction(fn),
+    clearHistory: () => getEditor().clearHistory(),
+    // Camadas do usuário (visibilidade, opacidade, ordem, trava e estilo padrão)
+    getLayers: () => getEditor().getLayers(),
+    setLayers: (layers) => getEditor().setLayers(layers),
+    addLayer: (name, style) => getEditor().addLayer(name, style),
+    updateLayer: (name, patch) => getEditor().updateLayer(name, patch),
+    removeLayer: (name, options) => getEditor().removeLayer(name, options),
+    moveLayer: (name, index) => getEditor().moveLayer(name, index),
+    getActiveLayer: () => getEditor().getActiveLayer(),
+    setActiveLayer: (name) => getEditor().setActiveLayer(name),
+    applyLayerStyle: (name) => getEditor().applyLayerStyle(name),
+    moveSelectedToLayer: (name) => getEditor().moveSelectedToLayer(name),
+    // Tabela de atributos: colunas e valores (as edições passam pelo editor e disparam onDrawChange)
+    getAttributeColumns: () => getEditor().getAttributeColumns(),
+    setAttributeColumns: (columns) => getEditor().setAttributeColumns(columns),
+    addAttributeColumn: (column) => getEditor().addAttributeColumn(column),
+    updateAttributeColumn: (key, patch) => getEditor().updateAttributeColumn(key, patch),
+    removeAttributeColumn: (key) => getEditor().removeAttributeColumn(key),
+    setFeatureAttributes: (ids, values) => getEditor().setFeatureAttributes(ids, values),
+    // Estilo temático: cor do preenchimento calculada a partir de um atributo
+    getThematicStyle: () => getEditor().getThematicStyle(),
+    setThematicStyle: (style) => getEditor().setThematicStyle(style),
+    // Validação de geometria: destaca os problemas em uma camada própria
+    validateGeometry: (ids) => {
+      const issues = validateCollection(getEditor().getCollection(), ids);
+      if (mapRef.current) upsertGeometryIssues(mapRef.current, issues);
+      return issues;
     },
-    changeSelectedFill: (color: string, opacity?: number) => {
-      console.log('[MapboxMap] changeSelectedFill called', { color, opacity });
-      if (!drawRef.current) {
-        console.log('[MapboxMap] changeSelectedFill: no drawRef');
-        return;
-      }
-      try {
-        const draw: any = drawRef.current as any;
-        const ids: string[] = typeof draw.getSelectedIds === 'function' ? draw.getSelectedIds() : [];
-        console.log('[MapboxMap] selected ids:', ids);
-        if (!Array.isArray(ids) || ids.length === 0) {
-          console.log('[MapboxMap] changeSelectedFill: no selected features');
-          return;
-        }
-        ids.forEach((id) => {
-          // set properties on feature
-          const f = draw.get(id);
-          console.log('[MapboxMap] before feature props for', id, f?.properties);
-          if (!f) {
-            console.log('[MapboxMap] feature not found for id', id);
-            return;
-          }
-          if (!f.properties) f.properties = {};
-          f.properties.fillColor = color;
-          if (typeof opacity === 'number') f.properties.fillOpacity = opacity;
-          const hex = (color || '#ffffff').replace('#','');
-          const r = parseInt(hex.substring(0,2),16) || 255;
-          const g = parseInt(hex.substring(2,4),16) || 255;
-          const b = parseInt(hex.substring(4,6),16) || 255;
-          f.properties.fillRgb = `${r},${g},${b}`;
-
-          // persist properties back to the store
-          if (typeof draw.setFeatureProperty === 'function') {
-            console.log('[MapboxMap] using setFeatureProperty for', id);
-            // set commonly used properties so MapboxDraw triggers change
-            try {
-              draw.setFeatureProperty(id, 'fillColor', f.properties.fillColor);
-              draw.setFeatureProperty(id, 'fillOpacity', f.properties.fillOpacity);
-              draw.setFeatureProperty(id, 'fillRgb', f.properties.fillRgb);
-            } catch (err:any) {
-              console.error('[MapboxMap] error calling setFeatureProperty', err);
-            }
-          } else {
-            console.log('[MapboxMap] setFeatureProperty not available for', id);
-          }
-
-          // Force visual update: replace feature (delete + add)
-          // This is done even when setFeatureProperty exists because some builds
-          // of MapboxDraw don't refresh styles based on feature props.
-          try {
-            console.log('[MapboxMap] forcing replace feature for', id);
-            // ensure feature retains same id when added
-            const toAdd = { ...f, id } as any;
-            draw.delete(id);
-            draw.add(toAdd);
-          } catch (err:any) {
-            console.error('[MapboxMap] error forcing replace feature', err);
-          }
-
-          // read back feature to confirm
-          try {
-            const after = draw.get(id);
-            console.log('[MapboxMap] after feature props for', id, after?.properties);
-          } catch (err:any) {
-            console.error('[MapboxMap] error reading feature after update', err);
-          }
-        });
-        // Reselect the updated features to preserve UI selection
-        try {
-          if (typeof (draw as any).changeMode === 'function') {
-            console.log('[MapboxMap] reselecting features', ids);
-            try {
-              (draw as any).changeMode('simple_select', { featureIds: ids });
-            } catch (err:any) {
-              console.error('[MapboxMap] error reselecting features with changeMode', err);
-            }
-          }
-        } catch (err:any) {
-          console.error('[MapboxMap] error while attempting to reselect features', err);
-        }
-        // emit changes
-        const data = drawRef.current.getAll();
-        console.log('[MapboxMap] emitting draw change, features length:', data.features?.length);
-        onDrawChangeRef.current?.(data);
-
-        // Update custom colored layer to show polygons with their assigned colors
-        try {
-          const map = mapRef.current as mapboxgl.Map | null;
-          if (map) {
-            updateCustomColoredLayer(map, data.features);
-            console.log('[MapboxMap] Successfully updated custom styled layers');
-          } else {
-            console.log('[MapboxMap] No map instance available for custom layer update');
-          }
-        } catch (err: any) {
-          console.error('[MapboxMap] Error updating custom styled layers:', err);
-        }
-      } catch (err:any) {
-        console.error('[MapboxMap] changeSelectedFill caught error', err);
-      }
+    // Corrige as geometrias (um passo do histórico) e atualiza o destaque
+    repairGeometry: ({ ids, ...options } = {}) => {
+      // Feições de camadas travadas ficam como estão
+      const features = getEditor().getCollection().features.filter(f => (!ids || ids.includes(String(f.id))) && getEditor().isEditable(String(f.id)));
+      const repaired = repairFeatures(features, options);
+      if (repaired.length) getEditor().updateFeatures(repaired);
+      if (mapRef.current) upsertGeometryIssues(mapRef.current, validateCollection(getEditor().getCollection(), ids));
+      return repaired.map(f => String(f.id));
     },
-    changeSelectedStroke: (color: string, width?: number) => {
-      console.log('[MapboxMap] changeSelectedStroke called', { color, width });
-      if (!drawRef.current) {
-        console.log('[MapboxMap] changeSelectedStroke: no drawRef');
-        return;
-      }
-      try {
-        const draw: any = drawRef.current as any;
-        const ids: string[] = typeof draw.getSelectedIds === 'function' ? draw.getSelectedIds() : [];
-        console.log('[MapboxMap] selected ids for stroke:', ids);
-        if (!Array.isArray(ids) || ids.length === 0) {
-          console.log('[MapboxMap] changeSelectedStroke: no selected features');
-          return;
-        }
-        ids.forEach((id) => {
-          const f = draw.get(id);
-          console.log('[MapboxMap] before stroke props for', id, f?.properties);
-          if (!f) {
-            console.log('[MapboxMap] feature not found for stroke id', id);
-            return;
-          }
-          if (!f.properties) f.properties = {};
-          f.properties.strokeColor = color;
-          if (typeof width === 'number') f.properties.strokeWidth = width;
-
-          // persist stroke properties
-          if (typeof draw.setFeatureProperty === 'function') {
-            console.log('[MapboxMap] using setFeatureProperty for stroke', id);
-            try {
-              draw.setFeatureProperty(id, 'strokeColor', f.properties.strokeColor);
-              if (typeof width === 'number') draw.setFeatureProperty(id, 'strokeWidth', f.properties.strokeWidth);
-            } catch (err:any) {
-              console.error('[MapboxMap] error calling setFeatureProperty for stroke', err);
-            }
-          }
-
-          // Force visual update
-          try {
-            console.log('[MapboxMap] forcing replace feature for stroke', id);
-            const toAdd = { ...f, id } as any;
-            draw.delete(id);
-            draw.add(toAdd);
-          } catch (err:any) {
-            console.error('[MapboxMap] error forcing replace feature for stroke', err);
-          }
-
-          try {
-            const after = draw.get(id);
-            console.log('[MapboxMap] after stroke props for', id, after?.properties);
-          } catch (err:any) {
-            console.error('[MapboxMap] error reading feature after stroke update', err);
-          }
-        });
-        
-        // Reselect features
-        try {
-          if (typeof (draw as any).changeMode === 'function') {
-            console.log('[MapboxMap] reselecting features after stroke', ids);
-            try {
-              (draw as any).changeMode('simple_select', { featureIds: ids });
-            } catch (err:any) {
-              console.error('[MapboxMap] error reselecting features after stroke', err);
-            }
-          }
-        } catch (err:any) {
-          console.error('[MapboxMap] error while attempting to reselect features after stroke', err);
-        }
-        
-        // emit changes and update custom layers
-        const data = drawRef.current.getAll();
-        console.log('[MapboxMap] emitting draw change after stroke, features length:', data.features?.length);
-        onDrawChangeRef.current?.(data);
-
-        try {
-          const map = mapRef.current as mapboxgl.Map | null;
-          if (map) {
-            updateCustomColoredLayer(map, data.features);
-            console.log('[MapboxMap] Successfully updated custom styled layers after stroke');
-          }
-        } catch (err: any) {
-          console.error('[MapboxMap] Error updating custom styled layers after stroke:', err);
-        }
-      } catch (err:any) {
-        console.error('[MapboxMap] changeSelectedStroke caught error', err);
-      }
+    clearGeometryIssues: () => {
+      if (mapRef.current) upsertGeometryIssues(mapRef.current, []);
     },
-    applyFillToAll: (color: string, opacity?: number) => {
-      console.log('[MapboxMap] applyFillToAll called', { color, opacity });
-      if (!drawRef.current) {
-        console.log('[MapboxMap] applyFillToAll: no drawRef');
-        return;
-      }
-      try {
-        const draw: any = drawRef.current as any;
-        const data = draw.getAll();
-        const polygonFeatures = data.features.filter((f: any) => 
-          f.geometry && (f.geometry.type === 'Polygon' || f.geometry.type === 'MultiPolygon')
-        );
-        
-        console.log('[MapboxMap] applying fill to', polygonFeatures.length, 'polygons');
-        
-        polygonFeatures.forEach((f: any) => {
-          if (!f.properties) f.properties = {};
-          f.properties.fillColor = color;
-          if (typeof opacity === 'number') f.properties.fillOpacity = opacity;
-          const hex = (color || '#ffffff').replace('#','');
-          const r = parseInt(hex.substring(0,2),16) || 255;
-          const g = parseInt(hex.substring(2,4),16) || 255;
-          const b = parseInt(hex.substring(4,6),16) || 255;
-          f.properties.fillRgb = `${r},${g},${b}`;
-          
-          // Force update
-          try {
-            const toAdd = { ...f, id: f.id } as any;
-            draw.delete(f.id);
-            draw.add(toAdd);
-          } catch (err:any) {
-            console.error('[MapboxMap] error replacing feature in applyFillToAll', err);
-          }
-        });
-        
-        // emit changes and update custom layers
-        const updatedData = drawRef.current.getAll();
-        console.log('[MapboxMap] emitting draw change after applyFillToAll, features length:', updatedData.features?.length);
-        onDrawChangeRef.current?.(updatedData);
-
-        try {
-          const map = mapRef.current as mapboxgl.Map | null;
-          if (map) {
-            updateCustomColoredLayer(map, updatedData.features);
-            console.log('[MapboxMap] Successfully updated custom styled layers after applyFillToAll');
-          }
-        } catch (err: any) {
-          console.error('[MapboxMap] Error updating custom styled layers after applyFillToAll:', err);
-        }
-      } catch (err:any) {
-        console.error('[MapboxMap] applyFillToAll caught error', err);
-      }
+    // Topologia entre polígonos vizinhos: sobreposições e vãos destacados em uma camada própria
+    auditTopology: (options) => {
+      const report = auditTopology(getEditor().getCollection(), options);
+      if (mapRef.current) upsertTopologyIssues(mapRef.current, report);
+      return report;
     },
-    applyStrokeToAll: (color: string, width?: number) => {
-      console.log('[MapboxMap] applyStrokeToAll called', { color, width });
-      if (!drawRef.current) {
-        console.log('[MapboxMap] applyStrokeToAll: no drawRef');
-        return;
-      }
-      try {
-        const draw: any = drawRef.current as any;
-        const data = draw.getAll();
-        const polygonFeatures = data.features.filter((f: any) => 
-          f.geometry && (f.geometry.type === 'Polygon' || f.geometry.type === 'MultiPolygon')
-        );
-        
-        console.log('[MapboxMap] applying stroke to', polygonFeatures.length, 'polygons');
-        
-        polygonFeatures.forEach((f: any) => {
-          if (!f.properties) f.properties = {};
-          f.properties.strokeColor = color;
-          if (typeof width === 'number') f.properties.strokeWidth = width;
-          
-          // Force update
-          try {
-            const toAdd = { ...f, id: f.id } as any;
-            draw.delete(f.id);
-            draw.add(toAdd);
-          } catch (err:any) {
-            console.error('[MapboxMap] error replacing feature in applyStrokeToAll', err);
-          }
-        });
-        
-        // emit changes and update custom layers
-        const updatedData = drawRef.current.getAll();
-        console.log('[MapboxMap] emitting draw change after applyStrokeToAll, features length:', updatedData.features?.length);
-        onDrawChangeRef.current?.(updatedData);
-
-        try {
-          const map = mapRef.current as mapboxgl.Map | null;
-          if (map) {
-            updateCustomColoredLayer(map, updatedData.features);
-            console.log('[MapboxMap] Successfully updated custom styled layers after applyStrokeToAll');
-          }
-        } catch (err: any) {
-          console.error('[MapboxMap] Error updating custom styled layers after applyStrokeToAll:', err);
-        }
-      } catch (err:any) {
-        console.error('[MapboxMap] applyStrokeToAll caught error', err);
-      }
+    // Resolve as lascas (um passo do histórico) e atualiza o destaque
+    fixTopology: (options) => {
+      const collection = getEditor().getCollection();
+      const changed = resolveTopology(collection.features, auditTopology(collection, options), { isEditable: getEditor().isEditable });
+      if (changed.length) getEditor().updateFeatures(changed);
+      if (mapRef.current) upsertTopologyIssues(mapRef.current, auditTopology(getEditor().getCollection(), options));
+      return changed.map(f => String(f.id));
     },
-    addTextToSelected: (text: string) => {
-      console.log('[MapboxMap] addTextToSelected called', { text });
-      if (!drawRef.current) {
-        console.log('[MapboxMap] addTextToSelected: no drawRef');
-        return;
-      }
-      try {
-        const draw: any = drawRef.current as any;
-        const ids: string[] = typeof draw.getSelectedIds === 'function' ? draw.getSelectedIds() : [];
-        console.log('[MapboxMap] selected ids for text:', ids);
-        if (!Array.isArray(ids) || ids.length === 0) {
-          console.log('[MapboxMap] addTextToSelected: no selected features');
-          return;
-        }
-        
-        ids.forEach((id) => {
-          const f = draw.get(id);
-          if (!f) {
-            console.log('[MapboxMap] feature not found for text id', id);
-            return;
-          }
-          if (!f.properties) f.properties = {};
-          f.properties.labelText = text;
-          
-          // Force update
-          try {
-            const toAdd = { ...f, id } as any;
-            draw.delete(id);
-            draw.add(toAdd);
-          } catch (err:any) {
-            console.error('[MapboxMap] error forcing replace feature for text', err);
-          }
-        });
-        
-        // emit changes and update custom layers
-        const data = drawRef.current.getAll();
-        console.log('[MapboxMap] emitting draw change after addText, features length:', data.features?.length);
-        onDrawChangeRef.current?.(data);
-
-        try {
-          const map = mapRef.current as mapboxgl.Map | null;
-          if (map) {
-            updateCustomColoredLayer(map, data.features);
-            console.log('[MapboxMap] Successfully updated custom layers after addText');
-          }
-        } catch (err: any) {
-          console.error('[MapboxMap] Error updating custom layers after addText:', err);
-        }
-      } catch (err:any) {
-        console.error('[MapboxMap] addTextToSelected caught error', err);
-      }
-    },
-    removeTextFromSelected: () => {
-      console.log('[MapboxMap] removeTextFromSelected called');
-      if (!drawRef.current) {
-        console.log('[MapboxMap] removeTextFromSelected: no drawRef');
-        return;
-      }
-      try {
-        const draw: any = drawRef.current as any;
-        const ids: string[] = typeof draw.getSelectedIds === 'function' ? draw.getSelectedIds() : [];
-        console.log('[MapboxMap] selected ids for text removal:', ids);
-        if (!Array.isArray(ids) || ids.length === 0) {
-          console.log('[MapboxMap] removeTextFromSelected: no selected features');
-          return;
-        }
-        
-        ids.forEach((id) => {
-          const f = draw.get(id);
-          if (!f) {
-            console.log('[MapboxMap] feature not found for text removal id', id);
-            return;
-          }
-          if (f.properties) {
-            delete f.properties.labelText;
-          }
-          
-          // Force update
-          try {
-            const toAdd = { ...f, id } as any;
-            draw.delete(id);
-            draw.add(toAdd);
-          } catch (err:any) {
-            console.error('[MapboxMap] error forcing replace feature for text removal', err);
-          }
-        });
-        
-        // emit changes and update custom layers
-        const data = drawRef.current.getAll();
-        console.log('[MapboxMap] emitting draw change after removeText, features length:', data.features?.length);
-        onDrawChangeRef.current?.(data);
-
-        try {
-          const map = mapRef.current as mapboxgl.Map | null;
-          if (map) {
-            updateCustomColoredLayer(map, data.features);
-            console.log('[MapboxMap] Successfully updated custom layers after removeText');
-          }
-        } catch (err: any) {
-          console.error('[MapboxMap] Error updating custom layers after removeText:', err);
-        }
-      } catch (err:any) {
-        console.error('[MapboxMap] removeTextFromSelected caught error', err);
-      }
+    clearTopologyIssues: () => {
+      if (mapRef.current) upsertTopologyIssues(mapRef.current, null);
     },
+    // Eventos tipados (seleção, criação, alteração, exclusão, estilo, visualização e modo)
+    on: (name, handler) => getEditor().events.on(name, handler),
+    off: (name, handler) => getEditor().events.off(name, handler),
   }));
 
   // ===============================
@@ -1061,9 +944,10 @@ const MapboxMap = forwardRef(function MapboxMap(
     const strokeLayerId = 'custom-stroked-polygons-layer';
     
     try {
-      // Filter polygon features that have custom fill colors
+      // Filter polygon features that have custom fill colors (with a thematic rule, every polygon is filled by the rule)
+      const thematic = thematicRef.current;
       const coloredFeatures = features.filter(f => 
-        f?.properties?.fillColor && 
+        (thematic || f?.properties?.fillColor) && 
         f.geometry && 
         (f.geometry.type === 'Polygon' || f.geometry.type === 'MultiPolygon')
       );
@@ -1095,7 +979,7 @@ const MapboxMap = forwardRef(function MapboxMap(
           type: 'fill',
           source: fillSourceId,
           paint: {
-            'fill-color': ['coalesce', ['get', 'fillColor'], '#ffffff'],
+            'fill-color': thematic ? thematicExpression(thematic) as mapboxgl.Expression : ['coalesce', ['get', 'fillColor'], '#ffffff'],
             'fill-opacity': ['coalesce', ['get', 'fillOpacity'], 0.2]
           }
         });
@@ -1125,7 +1009,7 @@ const MapboxMap = forwardRef(function MapboxMap(
           paint: {
             'line-color': ['coalesce', ['get', 'strokeColor'], '#ffffff'],
             'line-width': ['coalesce', ['get', 'strokeWidth'], 2],
-            'line-opacity': 1
+            'line-opacity': ['coalesce', ['get', 'layerOpacity'], 1]
           },
           layout: {
             'line-cap': 'round',
@@ -1140,7 +1024,7 @@ const MapboxMap = forwardRef(function MapboxMap(
       // This guarantees text labels added below will be placed above the polygon layers
       try {
         const allData = { type: 'FeatureCollection', features } as FeatureCollection;
-        upsertCoordinateLabels(map, allData);
+        upsertCoordinateLabels(map, allData, coordinateFormatRef.current);
         console.log('[MapboxMap] Upserted coordinate labels before adding text labels');
       } catch (err: any) {
         console.error('[MapboxMap] Error upserting coordinate labels before text labels:', err);
@@ -1161,18 +1045,8 @@ const MapboxMap = forwardRef(function MapboxMap(
           f.geometry && 
           (f.geometry.type === 'Polygon' || f.geometry.type === 'MultiPolygon')
         ).map(f => {
-          // Calculate centroid for text placement
-          let centroid: [number, number] | null = null;
-          
-          if (f.geometry.type === 'Polygon') {
-            centroid = calculatePolygonCentroid(f.geometry.coordinates as number[][][]);
-          } else if (f.geometry.type === 'MultiPolygon') {
-            // For MultiPolygon, use the centroid of the first polygon
-            const firstPolygon = (f.geometry.coordinates as number[][][][])[0];
-            if (firstPolygon) {
-              centroid = calculatePolygonCentroid(firstPolygon);
-            }
-          }
+          // Calculate centroid for text placement (MultiPolygon uses the first polygon)
+          const centroid = getLabelPoint(f);
           
           if (!centroid) return null;
           
@@ -1181,6 +1055,7 @@ const MapboxMap = forwardRef(function MapboxMap(
             id: `text-${f.id}`,
             properties: {
               labelText: f.properties?.labelText,
+              layerOpacity: f.properties?.layerOpacity ?? 1,
               originalId: f.id
             },
             geometry: {
@@ -1220,7 +1095,8 @@ const MapboxMap = forwardRef(function MapboxMap(
               'text-color': '#000000',
               'text-halo-color': '#ffffff',
               'text-halo-width': 2,
-              'text-halo-blur': 1
+              'text-halo-blur': 1,
+              'text-opacity': ['get', 'layerOpacity']
             }
           });
           // Ensure the text layer is above other layers (move to top)
@@ -1269,307 +1145,322 @@ MapboxMap.displayName = 'MapboxMap';
 // Funções utilitárias auxiliares
 // ===============================
 
+// Cópia das feições só para as camadas customizadas: a opacidade da camada do usuário
+// multiplica o preenchimento e vai em `layerOpacity` para borda e texto (o MapboxDraw não recebe essa cópia)
+function withLayerOpacity(features: Feature[], layers: MapLayer[]): Feature[] {
+  return features.map(f => {
+    const opacity = layerOpacity(f, layers);
+    if (opacity === 1) return f;
+    const fillOpacity = typeof f.properties?.fillOpacity === 'number' ? f.properties.fillOpacity : 0.2;
+    return { ...f, properties: { ...f.properties, fillOpacity: fillOpacity * opacity, layerOpacity: opacity } };
+  });
+}
+
 // Ajusta o mapa para enquadrar todos os desenhos de um FeatureCollection
 function fitToCollection(map: mapboxgl.Map, collection: FeatureCollection) {
-  if (!collection.features.length) {
+  // A caixa envolvente é calculada pelo núcleo (percorre qualquer tipo de geometria GeoJSON)
+  const bbox = getCollectionBBox(collection);
+  if (!bbox) {
     return;
   }
 
-  const firstCoordinate = getFirstCoordinate(collection.features[0]);
-  if (!firstCoordinate) {
-    return;
-  }
-
-  const bounds = new mapboxgl.LngLatBounds(firstCoordinate, firstCoordinate);
-
-  for (const feature of collection.features) {
-    extendBoundsWithFeature(bounds, feature);
-  }
-
-  map.fitBounds(bounds, { padding: 48, animate: true });
+  map.fitBounds(bbox, { padding: 48, animate: true });
 }
 
+export default MapboxMap;
 
-// Expande os limites do mapa para incluir a geometria de um Feature
-function extendBoundsWithFeature(bounds: mapboxgl.LngLatBounds, feature: Feature) {
-  if (!feature.geometry) {
-    return;
-  }
+// ===============================
+// Helpers: extrair vértices (extremidades) e gerenciar camada de rótulos
+// ===============================
 
-  extendBoundsWithGeometry(bounds, feature.geometry);
+// Converte os vértices extraídos pelo núcleo em pontos com o texto do rótulo (no formato escolhido) e o ângulo
+function buildPointFeaturesFromVertices(entries: VertexEntry[], formatLabel: (coord: [number, number]) => string): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: entries.map((e, idx) => ({
+      type: 'Feature',
+      id: `vertex-label-${idx}`,
+      properties: { label: formatLabel(e.coord), angle: e.angle },
+      geometry: { type: 'Point', coordinates: e.coord }
+    }))
+  };
 }
 
+// Modos do MapboxDraw: os padrões, mais os desenhos extras e a medição; desenho e edição de vértices com snap
+const drawModes = {
+  ...MapboxDraw.modes,
+  draw_polygon: withDrawSnap(MapboxDraw.modes.draw_polygon),
+  draw_line_string: withDrawSnap(MapboxDraw.modes.draw_line_string),
+  draw_point: withDrawSnap(MapboxDraw.modes.draw_point),
+  direct_select: withEditSnap(MapboxDraw.modes.direct_select),
+  draw_rectangle: withDrawSnap(drawRectangleMode),
+  draw_circle: withDrawSnap(drawCircleMode),
+  draw_freehand: drawFreehandMode,
+  measure: measureMode,
+};
 
-// Expande os limites do mapa para incluir qualquer tipo de geometria GeoJSON
-// Expande os limites do mapa (bounds) para incluir qualquer tipo de geometria GeoJSON
-function extendBoundsWithGeometry(bounds: mapboxgl.LngLatBounds, geometry: Geometry) {
-  // Verifica o tipo da geometria
-  switch (geometry.type) {
-    case 'Point':
-      // Caso seja um ponto único: expande os bounds para incluir esse ponto
-      bounds.extend(geometry.coordinates as [number, number]);
-      break;
-    case 'MultiPoint':
-    case 'LineString':
-      // Caso seja uma coleção de pontos ou uma linha: expande para cada coordenada
-      for (const coordinate of geometry.coordinates as [number, number][]) {
-        bounds.extend(coordinate);
-      }
-      break;
-    case 'MultiLineString':
-    case 'Polygon':
-      // Caso seja uma coleção de linhas ou um polígono: expande para cada linha e cada coordenada
-      for (const line of geometry.coordinates as [number, number][][]) {
-        for (const coordinate of line) {
-          bounds.extend(coordinate);
-        }
-      }
-      break;
-    case 'MultiPolygon':
-      // Caso seja uma coleção de polígonos: expande para cada polígono, linha e coordenada
-      for (const polygon of geometry.coordinates as [number, number][][][]) {
-        for (const line of polygon) {
-          for (const coordinate of line) {
-            bounds.extend(coordinate);
-          }
-        }
-      }
-      break;
-    case 'GeometryCollection':
-      // Caso seja uma coleção de geometrias: chama recursivamente para cada geometria filha
-      if (geometry.geometries) {
-        for (const child of geometry.geometries) {
-          extendBoundsWithGeometry(bounds, child);
-        }
-      }
-      break;
-    default:
-      // Para tipos desconhecidos, não faz nada
-      break;
-  }
-}
+// Modo do MapboxDraw traduzido para o modo comum aos dois motores
+const drawModeNames: Record<string, MapMode> = {
+  draw_polygon: 'draw_polygon',
+  draw_line_string: 'draw_line',
+  draw_point: 'draw_point',
+  draw_rectangle: 'draw_rectangle',
+  draw_circle: 'draw_circle',
+  draw_freehand: 'draw_freehand',
+  direct_select: 'edit_vertices',
+  measure: 'measure',
+};
 
+// Cor da linha/polígono temporário da medição
+const measureColor = '#f59e0b';
 
-// Busca a primeira coordenada encontrada em um Feature (usado para inicializar os bounds)
-function getFirstCoordinate(feature: Feature): [number, number] | null {
-  if (!feature.geometry) {
-    return null;
+/**
+ * Desenha a medição (forma tracejada, vértices e rótulos de cada trecho e da área) acima das demais camadas.
+ * As camadas customizadas são recriadas a cada alteração, então as da medição voltam para o topo aqui
+ */
+function upsertMeasure(map: mapboxgl.Map, data: FeatureCollection) {
+  const sourceId = 'measure';
+  const source = map.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+  } else {
+    map.addSource(sourceId, { type: 'geojson', data });
+    map.addLayer({
+      id: 'measure-fill',
+      type: 'fill',
+      source: sourceId,
+      filter: ['all', ['==', ['get', 'measure'], 'shape'], ['==', ['geometry-type'], 'Polygon']],
+      paint: { 'fill-color': measureColor, 'fill-opacity': 0.12 },
+    });
+    map.addLayer({
+      id: 'measure-line',
+      type: 'line',
+      source: sourceId,
+      filter: ['==', ['get', 'measure'], 'shape'],
+      paint: { 'line-color': measureColor, 'line-width': 2, 'line-dasharray': [3, 2] },
+    });
+    map.addLayer({
+      id: 'measure-vertex',
+      type: 'circle',
+      source: sourceId,
+      filter: ['==', ['get', 'measure'], 'vertex'],
+      paint: { 'circle-radius': 4, 'circle-color': '#fff', 'circle-stroke-color': measureColor, 'circle-stroke-width': 2 },
+    });
+    map.addLayer({
+      id: 'measure-label',
+      type: 'symbol',
+      source: sourceId,
+      filter: ['==', ['get', 'measure'], 'label'],
+      layout: {
+        'text-field': ['get', 'label'],
+        'text-size': ['case', ['has', 'total'], 13, 11],
+        'text-allow-overlap': true,
+      },
+      paint: { 'text-color': '#1e293b', 'text-halo-color': '#fff', 'text-halo-width': 2 },
+    });
   }
-
-  return getCoordinateFromGeometry(feature.geometry);
+  raiseMeasureLayers(map);
 }
 
+// Cor do indicador do snap
+const snapColor = '#ec4899';
 
-// Busca recursivamente a primeira coordenada encontrada em uma geometria GeoJSON
-// Busca recursivamente a primeira coordenada encontrada em uma geometria GeoJSON
-function getCoordinateFromGeometry(geometry: Geometry): [number, number] | null {
-  // Se for uma coleção de geometrias (GeometryCollection) e possui geometrias filhas
-  if (geometry.type === 'GeometryCollection' && geometry.geometries) {
-    // Percorre cada geometria filha
-    for (const child of geometry.geometries) {
-      // Chama recursivamente para buscar a coordenada na geometria filha
-      const coordinate = getCoordinateFromGeometry(child);
-      // Se encontrou uma coordenada, retorna imediatamente
-      if (coordinate) {
-        return coordinate;
-      }
-    }
-    // Se não encontrou em nenhuma geometria filha, retorna null
-    return null;
-  }
-
-  // Se a geometria possui a propriedade 'coordinates' (ex: Point, LineString, Polygon, etc.)
-  if ('coordinates' in geometry) {
-    // Busca a primeira coordenada válida dentro do array de coordenadas (pode ser aninhado)
-    return findCoordinate(geometry.coordinates);
+/** Indicador do snap: anel no ponto grudado (cheio no vértice, vazado no ponto médio e na aresta) */
+function upsertSnapIndicator(map: mapboxgl.Map, result: SnapResult | null) {
+  const sourceId = 'snap-indicator';
+  const data: FeatureCollection = {
+    type: 'FeatureCollection',
+    features: result ? [{ type: 'Feature', properties: { kind: result.kind }, geometry: { type: 'Point', coordinates: result.position } }] : [],
+  };
+  const source = map.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
   }
-
-  // Se não encontrou coordenada, retorna null
-  return null;
+  map.addSource(sourceId, { type: 'geojson', data });
+  map.addLayer({
+    id: sourceId,
+    type: 'circle',
+    source: sourceId,
+    paint: {
+      'circle-radius': 7,
+      'circle-color': snapColor,
+      'circle-opacity': ['case', ['==', ['get', 'kind'], 'vertex'], 0.6, 0],
+      'circle-stroke-color': snapColor,
+      'circle-stroke-width': 2,
+    },
+  });
 }
 
-
-// Calcula o centroide (ponto central) de um polígono
-function calculatePolygonCentroid(coordinates: number[][][]): [number, number] | null {
-  if (!coordinates || coordinates.length === 0) return null;
-  
-  // Pega apenas o anel externo (primeiro array)
-  const ring = coordinates[0];
-  if (!ring || ring.length === 0) return null;
-  
-  let totalX = 0;
-  let totalY = 0;
-  let pointCount = 0;
-  
-  // Calcula a média das coordenadas (centroide simples)
-  for (const point of ring) {
-    if (point && point.length >= 2) {
-      totalX += point[0]; // longitude
-      totalY += point[1]; // latitude
-      pointCount++;
-    }
+// Leva as camadas da medição e o indicador do snap (se existirem) para cima das demais
+function raiseMeasureLayers(map: mapboxgl.Map) {
+  for (const id of ['measure-fill', 'measure-line', 'measure-vertex', 'measure-label', 'snap-indicator']) {
+    if (map.getLayer(id)) map.moveLayer(id);
   }
-  
-  if (pointCount === 0) return null;
-  
-  return [totalX / pointCount, totalY / pointCount];
 }
 
-// Busca recursivamente a primeira coordenada [lng, lat] em um array de coordenadas aninhado
-// Busca recursivamente a primeira coordenada [lng, lat] em um array de coordenadas aninhado
-function findCoordinate(value: unknown): [number, number] | null {
-  // Se o valor não for um array, não pode ser uma coordenada válida
-  if (!Array.isArray(value)) {
-    return null;
-  }
+// Marcador fixo do mapa (DOM, fora do canvas); a exportação da imagem o redesenha
+const farmMarker: { coordinates: [number, number]; label: string } = {
+  coordinates: [-56.93025371958118, -14.886187924998506],
+  label: 'Fazenda',
+};
 
-  // Se o array tem pelo menos dois elementos numéricos, considera como coordenada [lng, lat]
-  if (typeof value[0] === 'number' && typeof value[1] === 'number') {
-    return value as [number, number];
-  }
+// Camadas de edição que não entram na imagem exportada (vértices, pontos do meio, marcas de problemas, topologia e snap)
+const isEditingLayer = (id: string) =>
+  id.startsWith('gl-draw-vertex') || id.startsWith('gl-draw-midpoint') || id === 'geometry-issues-layer' || id === 'snap-indicator'
+  || id.startsWith('topology-issues');
+
+/**
+ * Captura a vista do mapa numa imagem. O mapa é recriado fora da tela com o mesmo estilo (fontes GeoJSON
+ * incluídas), centro, zoom e rotação, com preserveDrawingBuffer para ler o canvas WebGL. O mapbox-gl 2 usa
+ * o devicePixelRatio da janela como densidade, então ele é trocado durante a renderização para atingir o dpi.
+ */
+async function captureMapImage(map: mapboxgl.Map, options: ImageExportOptions = {}): Promise<MapImage> {
+  const source = map.getCanvas();
+  const width = Math.round(options.width ?? source.clientWidth);
+  const height = Math.round(options.height ?? source.clientHeight);
+  const dpi = options.dpi ?? 96;
+  const ratio = dpi / 96;
+  const style = map.getStyle();
+
+  const container = document.createElement('div');
+  container.style.cssText = `position:fixed;left:-10000px;top:0;width:${width}px;height:${height}px;visibility:hidden;`;
+  document.body.appendChild(container);
+  const pixelRatio = Object.getOwnPropertyDescriptor(window, 'devicePixelRatio');
+  Object.defineProperty(window, 'devicePixelRatio', { configurable: true, get: () => ratio });
+  let printMap: mapboxgl.Map | null = null;
+  try {
+    printMap = new mapboxgl.Map({
+      container,
+      style: { ...style, layers: style.layers.filter(layer => !isEditingLayer(layer.id)) },
+      center: map.getCenter(),
+      zoom: map.getZoom(),
+      bearing: map.getBearing(),
+      pitch: map.getPitch(),
+      interactive: false,
+      preserveDrawingBuffer: true,
+      fadeDuration: 0,
+      attributionControl: false,
+    });
+    const rendered = printMap;
+    // Espera tiles, fontes e sprites carregarem (com limite para não travar a exportação)
+    await new Promise<void>((resolve, reject) => {
+      const timer = window.setTimeout(() => reject(new Error('O mapa demorou demais para renderizar a imagem')), 30000);
+      rendered.once('idle', () => {
+        window.clearTimeout(timer);
+        resolve();
+      });
+    });
 
-  // Se não for um par de números, percorre recursivamente cada item do array
-  for (const item of value) {
-    // Chama recursivamente para buscar coordenada em arrays aninhados
-    const coord = findCoordinate(item);
-    // Se encontrou uma coordenada, retorna imediatamente
-    if (coord) {
-      return coord;
+    const canvas = document.createElement('canvas');
+    canvas.width = rendered.getCanvas().width;
+    canvas.height = rendered.getCanvas().height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('O navegador não oferece canvas 2D');
+    ctx.drawImage(rendered.getCanvas(), 0, 0);
+    ctx.scale(canvas.width / width, canvas.height / height);
+    const marker = rendered.project(farmMarker.coordinates);
+    drawMarker(ctx, marker.x, marker.y, farmMarker.label);
+
+    // Escala medida no centro da imagem, como na barra da tela
+    const a = rendered.unproject([width / 2 - 50, height / 2]);
+    const b = rendered.unproject([width / 2 + 50, height / 2]);
+    const metersPerPixel = distanceMeters([a.lng, a.lat], [b.lng, b.lat]) / 100 / ratio;
+    if (options.legend) {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      drawMapOverlay(ctx, {
+        width: canvas.width,
+        height: canvas.height,
+        sections: options.legend,
+        scale: scaleBar(metersPerPixel, 120 * ratio),
+        bearing: rendered.getBearing(),
+        pixelRatio: ratio,
+      });
     }
+    const bounds = rendered.getBounds();
+    return {
+      blob: await canvasToBlob(canvas, options.format),
+      width: canvas.width,
+      height: canvas.height,
+      dpi,
+      bounds: [[bounds.getWest(), bounds.getSouth()], [bounds.getEast(), bounds.getNorth()]],
+      metersPerPixel,
+      bearing: rendered.getBearing(),
+    };
+  } finally {
+    if (pixelRatio) Object.defineProperty(window, 'devicePixelRatio', pixelRatio);
+    else delete (window as { devicePixelRatio?: number }).devicePixelRatio;
+    printMap?.remove();
+    container.remove();
   }
-
-  // Se não encontrou nenhuma coordenada válida, retorna null
-  return null;
 }
 
-export default MapboxMap;
-
-// ===============================
-// Helpers: extrair vértices (extremidades) e gerenciar camada de rótulos
-// ===============================
-
 /**
- * Extrai todos os vértices (extremidades) [lng, lat] de um FeatureCollection.
- * Para polígonos, inclui todos os vértices dos anéis; para linhas, todos os pontos da linha.
+ * Cria ou atualiza a camada que destaca os problemas de geometria:
+ * círculo vermelho (tem correção automática) ou laranja (precisa de ajuste manual).
  */
-type VertEntry = { coord: [number, number]; angle: number };
-
-function extractVertexEntriesFromFeatureCollection(collection: FeatureCollection): VertEntry[] {
-  const entries: VertEntry[] = [];
-  for (const feature of collection.features) {
-    if (!feature.geometry) continue;
-    collectVertexEntriesFromGeometry(feature.geometry, entries);
-  }
-  // deduplicate by rounded coords (6 decimals)
-  const seen = new Set<string>();
-  const unique: VertEntry[] = [];
-  for (const e of entries) {
-    const key = `${e.coord[0].toFixed(6)}|${e.coord[1].toFixed(6)}`;
-    if (seen.has(key)) continue;
-    seen.add(key);
-    unique.push(e);
+function upsertGeometryIssues(map: mapboxgl.Map, issues: GeometryIssue[]) {
+  const sourceId = 'geometry-issues';
+  const layerId = 'geometry-issues-layer';
+  const data = issuesToCollection(issues);
+  const source = map.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+  } else {
+    map.addSource(sourceId, { type: 'geojson', data });
+    map.addLayer({
+      id: layerId,
+      type: 'circle',
+      source: sourceId,
+      paint: {
+        'circle-radius': 8,
+        'circle-color': 'rgba(220,38,38,0.15)',
+        'circle-stroke-color': ['case', ['get', 'repairable'], '#dc2626', '#f97316'],
+        'circle-stroke-width': 3,
+      },
+    });
   }
-  return unique;
+  // Mantém o destaque acima dos polígonos e rótulos
+  if (map.getLayer(layerId)) map.moveLayer(layerId);
 }
 
-function collectVertexEntriesFromGeometry(geometry: Geometry, out: VertEntry[]) {
-  switch (geometry.type) {
-    case 'Point': {
-      const p = geometry.coordinates as [number, number];
-      out.push({ coord: p, angle: 0 });
-      break;
-    }
-    case 'MultiPoint':
-    case 'LineString': {
-      const coords = geometry.coordinates as [number, number][];
-      for (let i = 0; i < coords.length; i++) {
-        const prev = i > 0 ? coords[i - 1] : null;
-        const next = i + 1 < coords.length ? coords[i + 1] : null;
-        const angle = computeVertexAngle(coords[i], prev, next);
-        out.push({ coord: coords[i], angle });
-      }
-      break;
-    }
-    case 'MultiLineString': {
-      for (const line of geometry.coordinates as [number, number][][]) {
-        for (let i = 0; i < line.length; i++) {
-          const prev = i > 0 ? line[i - 1] : null;
-          const next = i + 1 < line.length ? line[i + 1] : null;
-          const angle = computeVertexAngle(line[i], prev, next);
-          out.push({ coord: line[i], angle });
-        }
-      }
-      break;
-    }
-    case 'Polygon': {
-      // Only include outer ring (index 0) to ignore holes
-      const rings = geometry.coordinates as [number, number][][];
-      if (rings.length > 0) {
-        const ring = rings[0];
-        for (let i = 0; i < ring.length; i++) {
-          const prev = i > 0 ? ring[i - 1] : ring[ring.length - 2] ?? ring[ring.length - 1];
-          const next = ring[(i + 1) % ring.length];
-          const angle = computeVertexAngle(ring[i], prev, next);
-          out.push({ coord: ring[i], angle });
-        }
-      }
-      break;
-    }
-    case 'MultiPolygon': {
-      for (const polygon of geometry.coordinates as [number, number][][][]) {
-        if (polygon.length === 0) continue;
-        const ring = polygon[0];
-        for (let i = 0; i < ring.length; i++) {
-          const prev = i > 0 ? ring[i - 1] : ring[ring.length - 2] ?? ring[ring.length - 1];
-          const next = ring[(i + 1) % ring.length];
-          const angle = computeVertexAngle(ring[i], prev, next);
-          out.push({ coord: ring[i], angle });
-        }
-      }
-      break;
-    }
-    case 'GeometryCollection':
-      if (geometry.geometries) for (const g of geometry.geometries) collectVertexEntriesFromGeometry(g, out);
-      break;
-    default:
-      break;
+/**
+ * Cria ou atualiza o destaque da topologia: sobreposições em vermelho e vãos em âmbar, com contorno
+ * tracejado nas sobreposições grandes demais para a correção automática. null remove o destaque
+ */
+function upsertTopologyIssues(map: mapboxgl.Map, report: TopologyReport | null) {
+  const sourceId = 'topology-issues';
+  const data = report ? topologyToCollection(report) : { type: 'FeatureCollection' as const, features: [] };
+  const source = map.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+  } else {
+    const color: mapboxgl.Expression = ['match', ['get', 'topologyType'], 'gap', '#f59e0b', '#dc2626'];
+    map.addSource(sourceId, { type: 'geojson', data });
+    map.addLayer({ id: 'topology-issues-fill', type: 'fill', source: sourceId, paint: { 'fill-color': color, 'fill-opacity': 0.45 } });
+    map.addLayer({ id: 'topology-issues-line', type: 'line', source: sourceId, paint: { 'line-color': color, 'line-width': 2 } });
+    map.addLayer({
+      id: 'topology-issues-manual',
+      type: 'line',
+      source: sourceId,
+      filter: ['!', ['get', 'sliver']],
+      paint: { 'line-color': '#7f1d1d', 'line-width': 2, 'line-dasharray': [2, 2] },
+    });
   }
-}
-
-function computeVertexAngle(curr: [number, number], prev: [number, number] | null, next: [number, number] | null): number {
-  // Prefer vector to next; if not available, use vector from prev to curr
-  let dx = 0;
-  let dy = 0;
-  if (next) {
-    dx = next[0] - curr[0];
-    dy = next[1] - curr[1];
-  } else if (prev) {
-    dx = curr[0] - prev[0];
-    dy = curr[1] - prev[1];
+  // Mantém o destaque acima dos polígonos e rótulos
+  for (const id of ['topology-issues-fill', 'topology-issues-line', 'topology-issues-manual']) {
+    if (map.getLayer(id)) map.moveLayer(id);
   }
-  const rad = Math.atan2(dy, dx);
-  const deg = (rad * 180) / Math.PI;
-  return deg;
-}
-
-function buildPointFeaturesFromVertices(entries: VertEntry[]): FeatureCollection {
-  return {
-    type: 'FeatureCollection',
-    features: entries.map((e, idx) => ({
-      type: 'Feature',
-      id: `vertex-label-${idx}`,
-      properties: { label: `${e.coord[1].toFixed(6)}, ${e.coord[0].toFixed(6)}`, angle: e.angle },
-      geometry: { type: 'Point', coordinates: e.coord }
-    }))
-  };
 }
 
 /**
  * Cria ou atualiza uma fonte e camada de símbolo com rótulos posicionados em cada vértice (extremidade).
  * Os rótulos são forçados a aparecer (sobreposição) e escalam com o zoom via expressão.
  */
-function upsertCoordinateLabels(map: mapboxgl.Map, collection: FeatureCollection) {
-  const entries = extractVertexEntriesFromFeatureCollection(collection);
+function upsertCoordinateLabels(map: mapboxgl.Map, collection: FeatureCollection, formatOptions?: CoordinateFormatOptions) {
+  const entries = extractVertexEntries(collection);
+  // Mesmo formatador (e mesmo fuso UTM) para todos os tiers
+  const formatLabel = createCoordinateFormatter(collection, formatOptions);
 
   const prefix = 'coord-labels';
 
@@ -1594,8 +1485,8 @@ function upsertCoordinateLabels(map: mapboxgl.Map, collection: FeatureCollection
     { id: 3, minzoom: 14, cellDeg: 0.0015, textSizeRange: [13,16] },// quase todos
   ];
 
-  function sampleByGrid(entries: VertEntry[], cellDeg: number) {
-    const seen = new Map<string, VertEntry>();
+  function sampleByGrid(entries: VertexEntry[], cellDeg: number) {
+    const seen = new Map<string, VertexEntry>();
     for (const e of entries) {
       // chave da célula: floor(lon/cellDeg)|floor(lat/cellDeg)
       const kx = Math.floor(e.coord[0] / cellDeg);
@@ -1614,7 +1505,7 @@ function upsertCoordinateLabels(map: mapboxgl.Map, collection: FeatureCollection
     const sampled = sampleByGrid(entries, tier.cellDeg);
     if (!sampled.length) continue;
 
-    const fc = buildPointFeaturesFromVertices(sampled);
+    const fc = buildPointFeaturesFromVertices(sampled, formatLabel);
     const sourceId = `${prefix}-source-${tier.id}`;
     const layerId = `${prefix}-layer-${tier.id}`;
 
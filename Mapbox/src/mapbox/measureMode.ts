@@ -0,0 +1,41 @@
+import type MapboxDraw from '@mapbox/mapbox-gl-draw';
+import type mapboxgl from 'mapbox-gl';
+
+// Callbacks do modo de medição (a medição em si fica no núcleo, fora do MapboxDraw)
+export type MeasureModeOptions = {
+  onClick: (e: mapboxgl.MapMouseEvent) => void;
+  onMove: (e: mapboxgl.MapMouseEvent) => void;
+  onKey: (key: string) => void;
+  onStop: () => void;
+};
+
+// Modo do MapboxDraw que só repassa cliques, movimento e teclas: enquanto mede, o Draw não seleciona
+// nem arrasta as feições, e elas continuam visíveis como estão
+const measureMode: MapboxDraw.DrawCustomMode<MeasureModeOptions, MeasureModeOptions> = {
+  onSetup(options) {
+    this.setActionableState({ trash: false, combineFeatures: false, uncombineFeatures: false });
+    this.updateUIClasses({ mouse: 'add' });
+    this.map.doubleClickZoom.disable();
+    return options;
+  },
+  onClick(state, e) {
+    state.onClick(e);
+  },
+  onMouseMove(state, e) {
+    state.onMove(e);
+  },
+  onKeyUp(state, e) {
+    state.onKey(e.key);
+  },
+  onStop(state) {
+    this.updateUIClasses({ mouse: 'none' });
+    // Reativado depois do duplo clique que encerrou a medição, para ele não dar zoom
+    window.setTimeout(() => this.map.doubleClickZoom.enable(), 0);
+    state.onStop();
+  },
+  toDisplayFeatures(_state, geojson, display) {
+    display(geojson);
+  },
+};
+
+export default measureMode;
@@ -0,0 +1,144 @@
+import type MapboxDraw from '@mapbox/mapbox-gl-draw';
+import type { Feature, Position } from 'geojson';
+import { circlePolygon, distanceMeters, rectanglePolygon, simplifyPath } from 'map-editor-core';
+
+// Modos extras do MapboxDraw: retângulo e círculo (clique no início e no fim) e polígono à mão livre (arraste)
+
+type ShapeState = {
+  polygon: MapboxDraw.DrawPolygon;
+  // Primeiro clique (canto do retângulo ou centro do círculo)
+  start: Position | null;
+  // Traço à mão livre, em px da tela
+  path: [number, number][];
+  done: boolean;
+};
+
+type ShapeThis = MapboxDraw.DrawCustomModeThis;
+
+// Cria o polígono vazio do desenho e prepara o cursor (como o draw_polygon do MapboxDraw)
+function setupShape(mode: ShapeThis): ShapeState {
+  const polygon = mode.newFeature({ type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [[]] } }) as MapboxDraw.DrawPolygon;
+  mode.addFeature(polygon);
+  mode.clearSelectedFeatures();
+  mode.updateUIClasses({ mouse: 'add' });
+  mode.setActionableState({ trash: true, combineFeatures: false, uncombineFeatures: false });
+  mode.map.doubleClickZoom.disable();
+  return { polygon, start: null, path: [], done: false };
+}
+
+// Ao sair do modo: concluído vira 'draw.create'; incompleto ou cancelado é descartado
+function stopShape(mode: ShapeThis, state: ShapeState) {
+  mode.updateUIClasses({ mouse: 'none' });
+  window.setTimeout(() => mode.map.doubleClickZoom.enable(), 0);
+  if (!mode.getFeature(String(state.polygon.id))) return;
+  if (state.done && state.polygon.isValid()) {
+    mode.map.fire('draw.create', { features: [state.polygon.toGeoJSON()] });
+  } else {
+    mode.deleteFeature(String(state.polygon.id), { silent: true });
+    mode.changeMode('simple_select', {}, { silent: true });
+  }
+}
+
+// Polígono do GeoJSON (anel fechado) no formato interno do MapboxDraw (sem repetir o primeiro vértice)
+function setRing(state: ShapeState, ring: Position[]) {
+  state.polygon.setCoordinates([ring.slice(0, -1)]);
+}
+
+function finish(mode: ShapeThis, state: ShapeState) {
+  state.done = true;
+  mode.changeMode('simple_select', { featureIds: [state.polygon.id] });
+}
+
+const lngLat = (e: MapboxDraw.MapMouseEvent): Position => [e.lngLat.lng, e.lngLat.lat];
+
+// Partes comuns: Esc cancela, lixeira descarta e só o polígono em desenho aparece como ativo
+const shapeCommon: Pick<MapboxDraw.DrawCustomMode<ShapeState>, 'onKeyUp' | 'onTrash' | 'toDisplayFeatures' | 'onStop'> = {
+  onKeyUp(_state, e) {
+    if (e.key === 'Escape') this.changeMode('simple_select');
+  },
+  onTrash() {
+    this.changeMode('simple_select');
+  },
+  onStop(state) {
+    stopShape(this, state);
+  },
+  toDisplayFeatures(state, geojson, display) {
+    const feature = geojson as Feature;
+    const active = feature.properties?.id === state.polygon.id;
+    feature.properties = { ...feature.properties, active: active ? 'true' : 'false' };
+    if (!active || state.polygon.isValid()) display(feature);
+  },
+};
+
+/** Retângulo: clique num canto e no canto oposto */
+export const drawRectangleMode: MapboxDraw.DrawCustomMode<ShapeState> = {
+  ...shapeCommon,
+  onSetup() {
+    return setupShape(this);
+  },
+  onClick(state, e) {
+    if (!state.start) {
+      state.start = lngLat(e);
+      return;
+    }
+    setRing(state, rectanglePolygon(state.start, lngLat(e)).coordinates[0]);
+    finish(this, state);
+  },
+  onMouseMove(state, e) {
+    if (state.start) setRing(state, rectanglePolygon(state.start, lngLat(e)).coordinates[0]);
+  },
+};
+
+/** Círculo: clique no centro e na borda; centro e raio ficam nas propriedades */
+export const drawCircleMode: MapboxDraw.DrawCustomMode<ShapeState> = {
+  ...shapeCommon,
+  onSetup() {
+    return setupShape(this);
+  },
+  onClick(state, e) {
+    if (!state.start) {
+      state.start = lngLat(e);
+      return;
+    }
+    const radius = Math.round(distanceMeters(state.start, lngLat(e)) * 100) / 100;
+    if (radius <= 0) return;
+    setRing(state, circlePolygon(state.start, radius).coordinates[0]);
+    state.polygon.setProperty('shape', 'circle');
+    state.polygon.setProperty('center', state.start);
+    state.polygon.setProperty('radius', radius);
+    finish(this, state);
+  },
+  onMouseMove(state, e) {
+    if (state.start) setRing(state, circlePolygon(state.start, distanceMeters(state.start, lngLat(e))).coordinates[0]);
+  },
+};
+
+/** Mão livre: arraste com o botão pressionado; ao soltar, o traço simplificado fecha o polígono */
+export const drawFreehandMode: MapboxDraw.DrawCustomMode<ShapeState> = {
+  ...shapeCommon,
+  onSetup() {
+    // O arraste desenha em vez de mover o mapa
+    this.map.dragPan.disable();
+    return setupShape(this);
+  },
+  onMouseDown(state, e) {
+    state.path = [[e.point.x, e.point.y]];
+  },
+  onDrag(state, e) {
+    if (!state.path.length) return;
+    state.path.push([e.point.x, e.point.y]);
+    const ring = state.path.map(([x, y]) => this.map.unproject([x, y]).toArray());
+    state.polygon.setCoordinates([ring]);
+  },
+  onMouseUp(state) {
+    const path = simplifyPath(state.path);
+    state.path = [];
+    if (path.length < 3) return;
+    state.polygon.setCoordinates([path.map(([x, y]) => this.map.unproject([x, y]).toArray())]);
+    finish(this, state);
+  },
+  onStop(state) {
+    this.map.dragPan.enable();
+    stopShape(this, state);
+  },
+};
@@ -0,0 +1,83 @@
+import MapboxDraw from '@mapbox/mapbox-gl-draw';
+import mapboxgl from 'mapbox-gl';
+import type { Position } from 'geojson';
+
+// Snap nos modos de desenho e na edição de vértices do MapboxDraw: o evento do mouse chega ao modo
+// com a posição já grudada no vértice, ponto médio ou aresta mais próximos
+
+/** Quem resolve o snap (o componente do mapa, com o núcleo): posição grudada ou null */
+export type DrawSnap = {
+  snap: (e: MapboxDraw.MapMouseEvent, excludeId: string | null) => Position | null;
+  /** Apaga o indicador */
+  clear: () => void;
+};
+
+// Cada mapa registra o próprio snap; os modos o encontram por `this.map`
+const snaps = new WeakMap<mapboxgl.Map, DrawSnap>();
+
+/** Liga (ou, com null, desliga) o snap dos modos do MapboxDraw neste mapa */
+export function setDrawSnap(map: mapboxgl.Map, snap: DrawSnap | null) {
+  if (snap) snaps.set(map, snap);
+  else snaps.delete(map);
+}
+
+type Mode = MapboxDraw.DrawCustomMode;
+type MouseHandler = NonNullable<Mode['onClick']>;
+type StopHandler = NonNullable<Mode['onStop']>;
+
+// Troca a posição do evento pela grudada antes de repassá-lo ao modo original
+function snapping(handler: MouseHandler | undefined): MouseHandler {
+  return function (state, e) {
+    const position = snaps.get(this.map)?.snap(e, null);
+    if (position) e.lngLat = new mapboxgl.LngLat(position[0], position[1]);
+    handler?.call(this, state, e);
+  };
+}
+
+function clearing(handler: StopHandler | undefined): StopHandler {
+  return function (state) {
+    snaps.get(this.map)?.clear();
+    handler?.call(this, state);
+  };
+}
+
+/** Modo de desenho com snap nos cliques e no movimento do mouse (que também mostra o indicador) */
+export function withDrawSnap(mode: Mode): Mode {
+  return {
+    ...mode,
+    onClick: snapping(mode.onClick),
+    onMouseMove: snapping(mode.onMouseMove),
+    onStop: clearing(mode.onStop),
+  };
+}
+
+// Estado do direct_select que o snap usa
+type DirectSelectState = {
+  featureId: string;
+  feature: { updateCoordinate: (path: string, lng: number, lat: number) => void };
+  selectedCoordPaths: string[];
+  dragMoving: boolean;
+};
+
+/**
+ * Edição de vértices com snap: com um único vértice selecionado, o arraste o coloca na posição grudada
+ * (ou sob o cursor); a própria feição em edição não serve de alvo
+ */
+export function withEditSnap(mode: Mode): Mode {
+  return {
+    ...mode,
+    onDrag(state: DirectSelectState, e) {
+      mode.onDrag?.call(this, state, e);
+      if (!state.dragMoving || state.selectedCoordPaths.length !== 1) return;
+      const snap = snaps.get(this.map);
+      if (!snap) return;
+      const position = snap.snap(e, state.featureId) ?? [e.lngLat.lng, e.lngLat.lat];
+      state.feature.updateCoordinate(state.selectedCoordPaths[0], position[0], position[1]);
+    },
+    onMouseUp(state: DirectSelectState, e) {
+      snaps.get(this.map)?.clear();
+      mode.onMouseUp?.call(this, state, e);
+    },
+    onStop: clearing(mode.onStop),
+  };
+}
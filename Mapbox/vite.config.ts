@@ -4,4 +4,12 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // Os painéis de map-editor-core/ui (fora do app, via link) usam o React e o styled-components deste app
+    dedupe: ['react', 'react-dom', 'styled-components'],
+  },
+  server: {
+    // Permite servir o núcleo compartilhado (../Core), ligado via "file:../Core"
+    fs: { allow: ['..'] },
+  },
 })